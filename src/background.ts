@@ -11,9 +11,14 @@ import wallpaperService from './services/wallpaperService';
 import { logError } from './utils/errorUtils';
 import { Theme } from './utils/theme';
 import store from './store';
-import { shuffleWallpaper } from './store/slices/wallpaperSlice';
+import { shuffleWallpaper, setCurrentWallpaper } from './store/slices/wallpaperSlice';
 import { getRandomInt } from './utils/mathUtils';
 import type { Wallpaper } from './types/wallpaper';
+import { ensureRefererRule as ensurePixivRefererRule } from './services/providers/pixivProvider';
+import prefetchService from './services/prefetchService';
+import savedSearchService from './services/savedSearchService';
+import { findActiveRule } from './services/scheduleService';
+import type { ScheduleRule } from './types/schedule';
 
 // Chrome API types
 declare global {
@@ -151,6 +156,44 @@ const setupShuffleAlarm = async (enabled: boolean, intervalMinutes: number, newT
   }
 };
 
+/**
+ * Works out where to shuffle from: the active schedule rule if there is one, otherwise the refresh settings
+ */
+const getScheduledSource = (settings: Partial<SettingsState>, rule: ScheduleRule | null) => {
+  const action = rule?.action;
+
+  if (action?.type === 'library') {
+    return { source: 'library' as const, provider: settings.refreshProvider, collectionId: action.collectionId };
+  }
+  if (action?.type === 'browse') {
+    return { source: 'browse' as const, provider: action.provider, collectionId: null };
+  }
+  return {
+    source: settings.refreshSource || 'library',
+    provider: settings.refreshProvider,
+    collectionId: settings.refreshCollectionId
+  };
+};
+
+/**
+ * Shows the library wallpaper chosen by a 'wallpaper' schedule rule
+ * @returns false when the wallpaper is no longer in the library
+ */
+const showRuleWallpaper = async (wallpaperId: string): Promise<boolean> => {
+  const library = await storageService.getLibrary();
+  const wallpaper = library.find(w => w.id === wallpaperId);
+  if (!wallpaper) {
+    console.warn('Scheduled wallpaper is no longer in the library:', wallpaperId);
+    return false;
+  }
+
+  const current = await storageService.getCurrentWallpaper();
+  if (current?.id !== wallpaper.id) {
+    await store.dispatch(setCurrentWallpaper({ wallpaper, trigger: 'rule' })).unwrap();
+  }
+  return true;
+};
+
 // Function to perform the actual wallpaper shuffle
 const performWallpaperShuffle = async () => {
   try {
@@ -160,8 +203,17 @@ const performWallpaperShuffle = async () => {
     const settingsData = await chrome.storage.local.get('settings');
     const settings = settingsData.settings || {};
     
+    // Schedule rules override the refresh settings while they are active
+    const syncedSettings: Partial<SettingsState> = await storageService.getSettings() || {};
+    const rule = findActiveRule(syncedSettings.scheduleRules);
+    if (rule?.action.type === 'wallpaper' && await showRuleWallpaper(rule.action.wallpaperId)) {
+      console.log(`Schedule rule "${rule.name}" keeps its wallpaper`);
+      return { success: true };
+    }
+    const { source, provider, collectionId } = getScheduledSource(syncedSettings, rule);
+    
     // Check if using library source and verify library has wallpapers
-    if (settings.refreshSource === 'library') {
+    if (source === 'library') {
       const libraryData = await storageService.getLibrary();
       if (!libraryData || libraryData.length === 0) {
         console.error('Cannot shuffle: Library is empty but refresh source is set to library');
@@ -179,8 +231,11 @@ const performWallpaperShuffle = async () => {
     try {
       // Use the store.dispatch directly with the redux action
       await store.dispatch(shuffleWallpaper({
-        source: settings.refreshSource || 'library',
+        source,
         nsfwFilter: settings.refreshNsfwFilter || 'off',
+        provider,
+        collectionId,
+        trigger: rule ? 'rule' : 'shuffle',
         silent: true
       })).unwrap();
       
@@ -190,7 +245,7 @@ const performWallpaperShuffle = async () => {
       console.error('Failed to shuffle wallpaper:', shuffleError);
       
       // If library is empty but source is still set to library, try using browse as a fallback
-      if (settings.refreshSource === 'library' && 
+      if (source === 'library' && 
           shuffleError instanceof Error && 
           shuffleError.message.includes('library is empty')) {
         console.log('Trying fallback to browse source since library is empty');
@@ -199,6 +254,7 @@ const performWallpaperShuffle = async () => {
           await store.dispatch(shuffleWallpaper({
             source: 'browse',
             nsfwFilter: settings.refreshNsfwFilter || 'off',
+            provider,
             silent: true
           })).unwrap();
           
@@ -230,10 +286,59 @@ const performWallpaperShuffle = async () => {
   }
 };
 
+/**
+ * Refills the pre-fetch queue when 'browse' is the refresh source
+ */
+const refillPrefetchQueue = async () => {
+  try {
+    const settings = await storageService.getSettings();
+    if (settings?.refreshSource === 'browse') {
+      await prefetchService.refill();
+    }
+  } catch (error) {
+    logError('Failed to refill prefetch queue', error);
+  }
+};
+
+/**
+ * Changes the wallpaper when a different schedule rule becomes active, so rule windows
+ * start on time even without auto-shuffle or a new tab
+ */
+const checkScheduleRules = async () => {
+  try {
+    const settings = await storageService.getSettings();
+    const rule = findActiveRule(settings?.scheduleRules);
+    // Editing the active rule's wallpaper source counts as a change too
+    const ruleKey = rule ? `${rule.id}:${JSON.stringify(rule.action)}` : null;
+    
+    const { activeScheduleRule } = await chrome.storage.local.get('activeScheduleRule');
+    if (ruleKey === (activeScheduleRule ?? null)) {
+      return;
+    }
+    await chrome.storage.local.set({ activeScheduleRule: ruleKey });
+    
+    // Nothing to switch back from the first time this runs
+    if (activeScheduleRule === undefined && !rule) {
+      return;
+    }
+    
+    console.log(rule ? `Schedule rule "${rule.name}" is now active` : 'No schedule rule is active anymore');
+    await performWallpaperShuffle();
+  } catch (error) {
+    logError('Failed to check schedule rules', error);
+  }
+};
+
 // Initialize the background script
 const initBackground = async () => {
   console.log('Initializing background script');
   
+  // Session rules are cleared when the browser restarts
+  await ensurePixivRefererRule();
+  
+  // Fill the offline queue in the background; shuffles don't wait for it
+  refillPrefetchQueue();
+  
   // Load existing shuffle settings on startup
   const data = await chrome.storage.local.get(['settings', 'isShuffleEnabled', 'shuffleInterval']);
   
@@ -299,8 +404,16 @@ const initBackground = async () => {
       if (shouldChangeWallpaper) {
         console.log('Change wallpaper on new tab is enabled. Will proceed with shuffle.');
         
-        // Use the right refresh source from settings
-        const refreshSource = settings.refreshSource || 'library';
+        // Schedule rules override the refresh settings while they are active
+        const syncedSettings: Partial<SettingsState> = await storageService.getSettings() || {};
+        const rule = findActiveRule(syncedSettings.scheduleRules);
+        if (rule?.action.type === 'wallpaper' && await showRuleWallpaper(rule.action.wallpaperId)) {
+          console.log(`Schedule rule "${rule.name}" keeps its wallpaper on new tab`);
+          return;
+        }
+        
+        // Use the right refresh source from the schedule or settings
+        const { source: refreshSource, provider, collectionId } = getScheduledSource(syncedSettings, rule);
         const nsfwFilter = settings.refreshNsfwFilter || 'off';
         
         console.log('Using refresh source:', refreshSource);
@@ -331,6 +444,9 @@ const initBackground = async () => {
           await store.dispatch(shuffleWallpaper({
             source: useSourceForShuffle,
             nsfwFilter: nsfwFilter,
+            provider,
+            collectionId,
+            trigger: rule ? 'rule' : 'shuffle',
             silent: true
           })).unwrap();
           
@@ -352,6 +468,7 @@ const initBackground = async () => {
               await store.dispatch(shuffleWallpaper({
                 source: 'browse',
                 nsfwFilter: nsfwFilter,
+                provider,
                 silent: true
               })).unwrap();
               
@@ -382,16 +499,41 @@ const initBackground = async () => {
 chrome.alarms.create('clearHistory', {
   periodInMinutes: 60 * 24 // Once a day
 });
+chrome.alarms.create('scheduleRules', {
+  periodInMinutes: 1
+});
+chrome.alarms.create('subscriptions', {
+  periodInMinutes: 60
+});
 
 // Listen for alarm events
+// Downloading is cheapest while the user is away
+chrome.idle.setDetectionInterval(60);
+chrome.idle.onStateChanged.addListener((state) => {
+  if (state === 'idle') {
+    refillPrefetchQueue();
+  }
+});
+
 chrome.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === 'clearHistory') {
     console.log('Running daily history cleanup');
-    // TODO: Implement history cleanup logic if needed
+    await wallpaperService.pruneHistory()
+      .then(removed => console.log(`Removed ${removed} old history entries`))
+      .catch(error => logError('Failed to clean up wallpaper history', error));
+  } else if (alarm.name === 'scheduleRules') {
+    await checkScheduleRules();
+  } else if (alarm.name === 'subscriptions') {
+    await savedSearchService.checkSubscriptions().catch(error => {
+      logError('Failed to poll subscriptions', error);
+    });
   } else if (alarm.name === 'shuffleWallpaper') {
     console.log('Running scheduled wallpaper shuffle');
     await performWallpaperShuffle();
     
+    // Top up the offline queue for the next shuffle
+    await refillPrefetchQueue();
+    
     // Update analytics if needed
     const data = await chrome.storage.local.get(['shuffleCount']);
     const count = (data.shuffleCount || 0) + 1;
@@ -405,11 +547,30 @@ initBackground().catch(error => {
   console.error('Failed to initialize background script:', error);
 });
 
+// Bulk deletions keep their images for undo; pages from the last session can no longer undo
+chrome.runtime.onStartup.addListener(async () => {
+  try {
+    const pendingIds = await storageService.getPendingBlobRemovals();
+    if (pendingIds.length > 0) {
+      await storageService.removeUnreferencedBlobs(pendingIds);
+      await storageService.savePendingBlobRemovals([]);
+    }
+  } catch (error) {
+    logError('Failed to remove images kept for undo', error);
+  }
+});
+
 // Listen for extension installation or update
 chrome.runtime.onInstalled.addListener(async (details: { reason: string; previousVersion?: string; id?: string }) => {
   try {
     if (details.reason === 'install' || details.reason === 'update') {
       console.log(`Extension ${details.reason}ed`);
+      
+      // Older versions kept library images as base64 in chrome.storage.local
+      if (details.reason === 'update') {
+        await storageService.migrateLibraryToBlobStore();
+      }
+      
       await initBackground();
     }
   } catch (error: unknown) {
@@ -474,6 +635,8 @@ chrome.runtime.onMessage.addListener((message: any, _sender, sendResponse: (resp
           store.dispatch(shuffleWallpaper({
             source,
             nsfwFilter,
+            provider: message.provider,
+            collectionId: message.collectionId,
             silent: true
           }))
             .unwrap()
@@ -509,12 +672,15 @@ chrome.runtime.onMessage.addListener((message: any, _sender, sendResponse: (resp
       store.dispatch(shuffleWallpaper({
         source,
         nsfwFilter,
+        provider: message.provider,
+        collectionId: message.collectionId,
         silent: true
       }))
         .unwrap()
         .then(() => {
           console.log('Wallpaper shuffled successfully via message');
           sendResponse({ success: true });
+          refillPrefetchQueue();
         })
         .catch(error => {
           logError('Failed to shuffle wallpaper in dispatch', error);
@@ -0,0 +1,140 @@
+import React, { useState } from 'react';
+import { useAppDispatch } from '../store/hooks';
+import { fetchLibrary } from '../store/slices/wallpaperSlice';
+import { loadCollections } from '../store/slices/collectionSlice';
+import { loadTodos } from '../store/slices/todoSlice';
+import { loadSettings } from '../store/slices/settingsSlice';
+import backupService from '../services/backupService';
+import { BackupImportMode, BackupImportReport } from '../types/backup';
+
+/**
+ * Settings section for exporting the library to a ZIP archive and importing one
+ */
+const BackupSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const [importMode, setImportMode] = useState<BackupImportMode>('merge');
+  const [isWorking, setIsWorking] = useState(false);
+  const [message, setMessage] = useState('');
+  const [report, setReport] = useState<BackupImportReport | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setIsWorking(true);
+      setReport(null);
+      const { archive, skippedFolderWallpapers } = await backupService.exportLibrary();
+
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nyatab-backup-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      setMessage(skippedFolderWallpapers > 0
+        ? `Backup exported without ${skippedFolderWallpapers} synced folder wallpaper${skippedFolderWallpapers === 1 ? '' : 's'} `
+          + 'whose files could not be read. Grant access to the folder and export again to include them.'
+        : 'Backup exported.');
+    } catch (error) {
+      console.error('Failed to export backup:', error);
+      setMessage('Error: Failed to export backup.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (importMode === 'replace' &&
+        !window.confirm('Replace your library, collections, todos and settings with this backup? This action cannot be undone.')) {
+      return;
+    }
+
+    try {
+      setIsWorking(true);
+      setReport(null);
+      const result = await backupService.importLibrary(file, importMode);
+      setReport(result);
+      setMessage(`Imported ${result.wallpapersImported} wallpapers, ${result.collectionsImported} collections and ${result.todosImported} todos.`);
+
+      dispatch(fetchLibrary());
+      dispatch(loadCollections());
+      dispatch(loadTodos());
+      if (result.settingsImported) {
+        dispatch(loadSettings());
+      }
+    } catch (error) {
+      console.error('Failed to import backup:', error);
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Failed to import backup.'}`);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="setting-group">
+      <h3 className="text-lg font-medium text-white mb-2">Backup</h3>
+
+      <div className="space-y-3">
+        <button
+          onClick={handleExport}
+          disabled={isWorking}
+          className="w-full py-2 px-4 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors disabled:opacity-50"
+        >
+          Export Library
+        </button>
+
+        <div className="flex gap-2">
+          <select
+            value={importMode}
+            onChange={(e) => setImportMode(e.target.value as BackupImportMode)}
+            className="bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md"
+          >
+            <option value="merge">Merge</option>
+            <option value="replace">Replace</option>
+          </select>
+          <label className={`flex-1 py-2 px-4 text-center bg-white/10 hover:bg-white/20 rounded-md transition-colors cursor-pointer ${
+            isWorking ? 'opacity-50 pointer-events-none' : ''
+          }`}>
+            {isWorking ? 'Working...' : 'Import Backup'}
+            <input
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleImport}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        <p className="text-sm text-white/60">
+          Saves wallpapers, collections, settings and todos to a ZIP file. Merge keeps what you have; Replace restores the backup exactly.
+        </p>
+
+        {message && (
+          <p className={`text-sm ${message.startsWith('Error') ? 'text-red-400' : 'text-green-400'}`}>
+            {message}
+          </p>
+        )}
+
+        {report && report.conflicts.length > 0 && (
+          <div className="max-h-40 overflow-y-auto rounded-md bg-white/5 p-2">
+            <p className="text-sm text-white/80 mb-1">{report.conflicts.length} item(s) need attention:</p>
+            <ul className="space-y-1 text-xs text-white/60">
+              {report.conflicts.map(conflict => (
+                <li key={`${conflict.type}-${conflict.id}`}>
+                  <span className="text-white/80">{conflict.name}</span>: {conflict.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupSettings;
@@ -0,0 +1,106 @@
+import React, { useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { addBlocklistEntry, loadFeedback, removeBlocklistEntry } from '../store/slices/feedbackSlice';
+import { BlocklistEntry, BlocklistEntryType } from '../types/feedback';
+import StoredImage from './ui/StoredImage';
+import { PlusIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+const TYPE_LABELS: Record<BlocklistEntryType, string> = {
+  wallpaper: 'Wallpaper',
+  tag: 'Tag',
+  uploader: 'Uploader'
+};
+
+/**
+ * Settings section listing what is never shown, with a form to block a tag or uploader by name
+ */
+const BlocklistSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { blocklist } = useAppSelector(state => state.feedback);
+  const [newType, setNewType] = useState<Exclude<BlocklistEntryType, 'wallpaper'>>('tag');
+  const [newValue, setNewValue] = useState('');
+
+  useEffect(() => {
+    dispatch(loadFeedback());
+  }, [dispatch]);
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newValue.trim()) return;
+    dispatch(addBlocklistEntry({ type: newType, value: newValue }));
+    setNewValue('');
+  };
+
+  const describeEntry = (entry: BlocklistEntry): string => {
+    return entry.type === 'wallpaper' ? entry.label || entry.value : entry.value;
+  };
+
+  const inputClassName = 'bg-white/10 border border-white/20 text-white px-2 py-1 rounded-md focus:outline-none focus:border-pink-500';
+
+  return (
+    <div className="setting-group">
+      <h3 className="text-lg font-medium text-white mb-2">Blocklist</h3>
+      <p className="text-sm text-white/60 mb-3">
+        Blocked wallpapers, tags and uploaders are left out of shuffles, slideshows and online results.
+        While an uploader is blocked, Wallhaven results load more slowly because each wallpaper&apos;s uploader has to be
+        looked up; wallpapers whose uploader can&apos;t be checked are left out.
+      </p>
+
+      {blocklist.length === 0 ? (
+        <p className="text-sm text-white/50">Nothing is blocked</p>
+      ) : (
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {blocklist.map(entry => (
+            <div key={entry.id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-white/5 text-sm">
+              {entry.type === 'wallpaper' && entry.thumbnail && (
+                <StoredImage
+                  src={entry.thumbnail}
+                  alt=""
+                  className="w-12 h-7 rounded object-cover flex-shrink-0"
+                  loading="lazy"
+                />
+              )}
+              <span className="text-white/50 text-xs w-16 flex-shrink-0">{TYPE_LABELS[entry.type]}</span>
+              <span className="flex-1 min-w-0 truncate text-white">{describeEntry(entry)}</span>
+              <button
+                onClick={() => dispatch(removeBlocklistEntry(entry.id))}
+                className="p-1 rounded hover:bg-white/10 text-white/60"
+                title="Unblock"
+              >
+                <XMarkIcon className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleAdd} className="mt-3 flex gap-2 text-sm">
+        <select
+          value={newType}
+          onChange={(e) => setNewType(e.target.value as 'tag' | 'uploader')}
+          className={inputClassName}
+        >
+          <option value="tag">Tag</option>
+          <option value="uploader">Uploader</option>
+        </select>
+        <input
+          type="text"
+          value={newValue}
+          onChange={(e) => setNewValue(e.target.value)}
+          placeholder={newType === 'tag' ? 'Tag name' : 'Uploader name'}
+          className={`flex-1 min-w-0 ${inputClassName}`}
+        />
+        <button
+          type="submit"
+          disabled={!newValue.trim()}
+          className="flex items-center gap-1 py-1 px-3 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+          <span>Block</span>
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default BlocklistSettings;
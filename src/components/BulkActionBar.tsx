@@ -0,0 +1,227 @@
+import React, { useEffect } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  bulkAddToCollection,
+  bulkAddToLibrary,
+  bulkDownload,
+  bulkRemoveFromLibrary,
+  bulkSetFavorite,
+  discardBulkUndo,
+  undoBulkAction
+} from '../store/slices/bulkSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { BulkActionType, BulkResult, BulkUndoEntry } from '../types/bulk';
+import { Wallpaper } from '../types/wallpaper';
+import {
+  ArrowDownTrayIcon,
+  ArrowUturnLeftIcon,
+  HeartIcon,
+  StarIcon,
+  TagIcon,
+  TrashIcon,
+  XMarkIcon
+} from '@heroicons/react/24/outline';
+
+interface BulkActionBarProps {
+  wallpapers: Wallpaper[];
+  isTagEditorOpen: boolean;
+  onToggleTagEditor: () => void;
+  onClearSelection: () => void;
+}
+
+const PROGRESS_LABELS: Record<BulkActionType, string> = {
+  addToLibrary: 'Adding to library',
+  delete: 'Deleting',
+  addToCollection: 'Adding to collection',
+  tag: 'Updating tags',
+  favorite: 'Updating favourites',
+  download: 'Preparing download'
+};
+
+/**
+ * Bar under the wallpaper grid with actions for the selected wallpapers,
+ * the progress of a running action and the undo for the last one
+ */
+const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  wallpapers,
+  isTagEditorOpen,
+  onToggleTagEditor,
+  onClearSelection
+}) => {
+  const dispatch = useAppDispatch();
+  const { library } = useAppSelector(state => state.wallpaper);
+  const { collections } = useAppSelector(state => state.collections);
+  const { isRunning, progress, undo } = useAppSelector(state => state.bulk);
+
+  // Images kept for undoing a delete are dropped once the browser closes
+  useEffect(() => {
+    return () => {
+      dispatch(discardBulkUndo());
+    };
+  }, [dispatch]);
+
+  const libraryIds = new Set(library.map(w => w.id));
+  const libraryWallpapers = wallpapers.filter(w => libraryIds.has(w.id));
+  const allFavorites = libraryWallpapers.length === wallpapers.length && wallpapers.every(w => w.isFavorite);
+
+  // Runs an action, then reports it along with any wallpapers it had to skip
+  const run = async (action: () => Promise<BulkResult & { undo: BulkUndoEntry }>) => {
+    try {
+      const result = await action();
+      dispatch(showNotification({
+        type: result.failed > 0 ? 'warning' : 'success',
+        message: result.failed > 0
+          ? `${result.undo.label}; ${result.failed} could not be added to the library`
+          : result.undo.label
+      }));
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleDelete = () => {
+    run(() => dispatch(bulkRemoveFromLibrary(libraryWallpapers.map(w => w.id))).unwrap());
+    onClearSelection();
+  };
+
+  const handleAddToCollection = (collectionId: string) => {
+    const collection = collections.find(c => c.id === collectionId);
+    if (!collection) return;
+    run(() => dispatch(bulkAddToCollection({
+      collectionId,
+      collectionName: collection.name,
+      wallpapers
+    })).unwrap());
+  };
+
+  const handleDownload = async () => {
+    try {
+      const { archive, failed } = await dispatch(bulkDownload(wallpapers)).unwrap();
+
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `nyatab-wallpapers-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      if (failed > 0) {
+        dispatch(showNotification({ type: 'warning', message: `${failed} wallpapers could not be downloaded` }));
+      }
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await dispatch(undoBulkAction()).unwrap();
+      dispatch(showNotification({ type: 'success', message: `Undone: ${undo?.label}` }));
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  if (!isRunning && wallpapers.length === 0 && !undo) {
+    return null;
+  }
+
+  const buttonClass = 'flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50';
+
+  return (
+    <div className="px-6 py-3 flex flex-wrap items-center gap-2 border-t border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800">
+      {isRunning ? (
+        <div className="flex-1 flex items-center gap-3">
+          <span className="text-sm text-gray-700 dark:text-gray-300">
+            {progress ? `${PROGRESS_LABELS[progress.action]} ${progress.done}/${progress.total}` : 'Working...'}
+          </span>
+          <div className="flex-1 max-w-xs bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+            <div
+              className="bg-pink-600 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${progress ? (progress.done / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      ) : wallpapers.length > 0 ? (
+        <>
+          <span className="mr-2 text-sm font-medium text-gray-700 dark:text-gray-300">{wallpapers.length} selected</span>
+
+          {libraryWallpapers.length < wallpapers.length && (
+            <button onClick={() => run(() => dispatch(bulkAddToLibrary(wallpapers)).unwrap())} className={buttonClass}>
+              <HeartIcon className="w-4 h-4" />
+              <span>Add to Library</span>
+            </button>
+          )}
+
+          {collections.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAddToCollection(e.target.value)}
+              className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300"
+            >
+              <option value="" disabled>Add to collection...</option>
+              {collections.map(collection => (
+                <option key={collection.id} value={collection.id}>{collection.name}</option>
+              ))}
+            </select>
+          )}
+
+          <button
+            onClick={onToggleTagEditor}
+            className={`${buttonClass} ${isTagEditorOpen ? 'ring-2 ring-pink-500' : ''}`}
+          >
+            <TagIcon className="w-4 h-4" />
+            <span>Tag</span>
+          </button>
+
+          <button
+            onClick={() => run(() => dispatch(bulkSetFavorite({ wallpapers, isFavorite: !allFavorites })).unwrap())}
+            className={buttonClass}
+          >
+            <StarIcon className="w-4 h-4" />
+            <span>{allFavorites ? 'Unfavourite' : 'Favourite'}</span>
+          </button>
+
+          <button onClick={handleDownload} className={buttonClass}>
+            <ArrowDownTrayIcon className="w-4 h-4" />
+            <span>Download ZIP</span>
+          </button>
+
+          {libraryWallpapers.length > 0 && (
+            <button
+              onClick={handleDelete}
+              className="flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg bg-red-500 text-white hover:bg-red-600"
+            >
+              <TrashIcon className="w-4 h-4" />
+              <span>Delete{libraryWallpapers.length < wallpapers.length ? ` (${libraryWallpapers.length})` : ''}</span>
+            </button>
+          )}
+        </>
+      ) : (
+        <span className="flex-1 text-sm text-gray-700 dark:text-gray-300">{undo?.label}</span>
+      )}
+
+      {!isRunning && undo && (
+        <div className="ml-auto flex items-center gap-1">
+          <button onClick={handleUndo} className={buttonClass} title={undo.label}>
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+            <span>Undo</span>
+          </button>
+          {wallpapers.length === 0 && (
+            <button
+              onClick={() => dispatch(discardBulkUndo())}
+              title="Dismiss"
+              className="p-1.5 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <XMarkIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BulkActionBar;
@@ -27,6 +27,7 @@ const Clock: React.FC = () => {
   return (
     <div className="text-center text-white drop-shadow-lg">
       <div className="text-6xl font-light mb-2">{formattedTime}</div>
+      <div className="mx-auto mb-2 h-1 w-16 rounded-full bg-accent" />
       <div className="text-xl">{formattedDate}</div>
     </div>
   );
@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import { fetchLibrary, removeFromLibrary } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import duplicateService from '../services/duplicateService';
+import { Wallpaper } from '../types/wallpaper';
+import StoredImage from './ui/StoredImage';
+import { XMarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+interface DuplicateFinderProps {
+  onClose: () => void;
+}
+
+/**
+ * Pixel count of a wallpaper, used to suggest which copy to keep
+ */
+const getPixelCount = (wallpaper: Wallpaper): number => {
+  const [width, height] = (wallpaper.resolution || '').split('x').map(value => parseInt(value, 10));
+  return (width || 0) * (height || 0);
+};
+
+/**
+ * Selects every wallpaper of each group except the largest one
+ */
+const getSuggestedRemovals = (groups: Wallpaper[][]): Set<string> => {
+  const ids = new Set<string>();
+  groups.forEach(group => {
+    const keep = group.reduce((best, w) => (getPixelCount(w) > getPixelCount(best) ? w : best), group[0]);
+    group.filter(w => w.id !== keep.id).forEach(w => ids.add(w.id));
+  });
+  return ids;
+};
+
+/**
+ * Dialog that groups similar library wallpapers so extra copies can be removed together
+ */
+const DuplicateFinder: React.FC<DuplicateFinderProps> = ({ onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [groups, setGroups] = useState<Wallpaper[][]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isScanning, setIsScanning] = useState(true);
+  const [isRemoving, setIsRemoving] = useState(false);
+
+  // Hash older wallpapers first, then group everything
+  useEffect(() => {
+    let isCancelled = false;
+
+    const scan = async () => {
+      try {
+        const library = await duplicateService.hashLibrary();
+        if (isCancelled) return;
+
+        const duplicateGroups = duplicateService.findDuplicateGroups(library);
+        setGroups(duplicateGroups);
+        setSelectedIds(getSuggestedRemovals(duplicateGroups));
+        dispatch(fetchLibrary());
+      } catch (error) {
+        console.error('Failed to scan library for duplicates:', error);
+        dispatch(showNotification({ type: 'error', message: 'Failed to scan library for duplicates' }));
+      } finally {
+        if (!isCancelled) {
+          setIsScanning(false);
+        }
+      }
+    };
+
+    scan();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [dispatch]);
+
+  const toggleSelected = (id: string) => {
+    const updated = new Set(selectedIds);
+    if (updated.has(id)) {
+      updated.delete(id);
+    } else {
+      updated.add(id);
+    }
+    setSelectedIds(updated);
+  };
+
+  const handleRemoveSelected = async () => {
+    if (!window.confirm(`Remove ${selectedIds.size} wallpaper(s) from your library? This action cannot be undone.`)) {
+      return;
+    }
+
+    setIsRemoving(true);
+    let removedCount = 0;
+    for (const id of Array.from(selectedIds)) {
+      try {
+        await dispatch(removeFromLibrary(id)).unwrap();
+        removedCount++;
+      } catch (error) {
+        console.error('Failed to remove duplicate:', id, error);
+      }
+    }
+
+    const remainingGroups = groups
+      .map(group => group.filter(w => !selectedIds.has(w.id)))
+      .filter(group => group.length > 1);
+    setGroups(remainingGroups);
+    setSelectedIds(new Set());
+    setIsRemoving(false);
+
+    dispatch(showNotification({
+      type: removedCount === selectedIds.size ? 'success' : 'warning',
+      message: `Removed ${removedCount} of ${selectedIds.size} duplicate wallpaper(s)`
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-[90vw] max-w-4xl h-[85vh] flex flex-col overflow-hidden">
+        <div className="p-4 flex justify-between items-center border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Find Duplicates</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {isScanning ? (
+            <div className="flex flex-col items-center justify-center h-full gap-4">
+              <div className="animate-spin rounded-full h-12 w-12 border-4 border-pink-500 border-t-transparent"></div>
+              <p className="text-gray-500 dark:text-gray-400">Comparing wallpapers...</p>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">No duplicates found</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Selected copies will be removed. The largest copy in each group is kept by default.
+              </p>
+              {groups.map(group => (
+                <div key={group[0].id} className="grid grid-cols-2 md:grid-cols-4 gap-4 p-4 rounded-lg bg-gray-100 dark:bg-gray-900">
+                  {group.map(wallpaper => (
+                    <label
+                      key={wallpaper.id}
+                      className={`relative rounded-lg overflow-hidden aspect-video cursor-pointer ring-2 ${
+                        selectedIds.has(wallpaper.id) ? 'ring-red-500' : 'ring-transparent hover:ring-pink-500'
+                      }`}
+                    >
+                      <StoredImage
+                        src={wallpaper.thumbnail}
+                        fallbackSrc={wallpaper.path}
+                        alt={wallpaper.info?.title || 'Wallpaper'}
+                        className="w-full h-full object-cover"
+                        loading="lazy"
+                      />
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(wallpaper.id)}
+                        onChange={() => toggleSelected(wallpaper.id)}
+                        className="absolute top-2 left-2 h-4 w-4 text-red-600 focus:ring-red-500 border-gray-300 rounded"
+                      />
+                      <div className="absolute bottom-0 inset-x-0 px-2 py-1 bg-black/60 text-xs text-white truncate">
+                        {wallpaper.resolution} · {wallpaper.info?.source || wallpaper.source}
+                      </div>
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 flex justify-end gap-3 border-t border-gray-200 dark:border-gray-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleRemoveSelected}
+            disabled={selectedIds.size === 0 || isRemoving}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            <TrashIcon className="w-5 h-5" />
+            <span>{isRemoving ? 'Removing...' : `Remove Selected (${selectedIds.size})`}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateFinder;
@@ -0,0 +1,219 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { saveSettings, setFolderRescanInterval } from '../store/slices/settingsSlice';
+import { fetchLibrary } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import folderSyncService from '../services/folderSyncService';
+import { FolderAccess, FolderScanResult, SyncedFolder } from '../types/folder';
+import { formatRelativeTime } from '../utils/dateUtils';
+import { ArrowPathIcon, FolderIcon, FolderPlusIcon, KeyIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+const RESCAN_INTERVALS = [
+  { minutes: 0, label: 'Only when I ask' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Once a day' }
+];
+
+/**
+ * Sums up what a scan changed for the notification shown after it
+ */
+const describeScan = (name: string, result: FolderScanResult): string => {
+  const parts = [
+    result.added > 0 && `${result.added} added`,
+    result.updated > 0 && `${result.updated} updated`,
+    result.restored > 0 && `${result.restored} back`,
+    result.missing > 0 && `${result.missing} missing`,
+    result.failed > 0 && `${result.failed} unreadable`
+  ].filter(Boolean);
+  return parts.length > 0 ? `"${name}": ${parts.join(', ')}` : `"${name}" is up to date`;
+};
+
+/**
+ * Settings section for local folders whose images are kept in the library
+ */
+const FolderSyncSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const folderRescanInterval = useAppSelector(state => state.settings.folderRescanInterval);
+  const [folders, setFolders] = useState<SyncedFolder[]>([]);
+  const [access, setAccess] = useState<Record<string, FolderAccess>>({});
+  const [scanning, setScanning] = useState<{ folderId: string; done: number; total: number } | null>(null);
+
+  const loadFolders = useCallback(async () => {
+    const loadedFolders = await folderSyncService.getFolders();
+    const accessEntries = await Promise.all(
+      loadedFolders.map(async folder => [folder.id, await folderSyncService.getAccess(folder.id)] as const)
+    );
+    setFolders(loadedFolders);
+    setAccess(Object.fromEntries(accessEntries));
+  }, []);
+
+  useEffect(() => {
+    loadFolders();
+  }, [loadFolders]);
+
+  const scanFolder = async (folder: SyncedFolder) => {
+    setScanning({ folderId: folder.id, done: 0, total: 0 });
+    try {
+      const result = await folderSyncService.scanFolder(folder.id, (done, total) => {
+        setScanning({ folderId: folder.id, done, total });
+      });
+      dispatch(showNotification({ type: 'success', message: describeScan(folder.name, result) }));
+      dispatch(fetchLibrary());
+    } catch (error) {
+      dispatch(showNotification({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to scan folder'
+      }));
+    } finally {
+      setScanning(null);
+      await loadFolders();
+    }
+  };
+
+  const handleAddFolder = async () => {
+    try {
+      const folder = await folderSyncService.addFolder();
+      if (folder) {
+        await loadFolders();
+        await scanFolder(folder);
+      }
+    } catch (error) {
+      dispatch(showNotification({
+        type: 'error',
+        message: error instanceof Error ? error.message : 'Failed to add folder'
+      }));
+    }
+  };
+
+  const handleGrantAccess = async (folder: SyncedFolder) => {
+    try {
+      if (await folderSyncService.requestAccess(folder.id) === 'granted') {
+        await scanFolder(folder);
+      } else {
+        await loadFolders();
+      }
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to get access to the folder' }));
+    }
+  };
+
+  const handleRemove = async (folder: SyncedFolder) => {
+    if (!window.confirm(`Stop syncing "${folder.name}"? Its wallpapers leave your library; the files themselves are not touched.`)) {
+      return;
+    }
+    try {
+      setFolders(await folderSyncService.removeFolder(folder.id));
+      dispatch(fetchLibrary());
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to remove folder' }));
+    }
+  };
+
+  const handleIntervalChange = (minutes: number) => {
+    dispatch(setFolderRescanInterval(minutes));
+    dispatch(saveSettings({ folderRescanInterval: minutes }));
+  };
+
+  const inputClassName = 'bg-white/10 border border-white/20 text-white px-2 py-1 rounded-md focus:outline-none focus:border-pink-500';
+
+  return (
+    <div className="setting-group">
+      <h3 className="text-lg font-medium text-white mb-2">Synced Folders</h3>
+      <p className="text-sm text-white/60 mb-3">
+        Images in these folders join your library and are read straight from disk. New files are
+        imported on each scan; files that are gone are marked missing and left out of shuffles.
+        A wallpaper removed from the library comes back on the next scan while its file is still there.
+      </p>
+
+      {!folderSyncService.isSupported() ? (
+        <p className="text-sm text-white/50">This browser can&apos;t sync folders</p>
+      ) : (
+        <>
+          {folders.length === 0 ? (
+            <p className="text-sm text-white/50">No folders synced</p>
+          ) : (
+            <div className="space-y-1">
+              {folders.map(folder => {
+                const isScanning = scanning?.folderId === folder.id;
+                const needsAccess = access[folder.id] && access[folder.id] !== 'granted';
+
+                return (
+                  <div key={folder.id} className="flex items-center gap-2 px-2 py-1 rounded-md bg-white/5 text-sm">
+                    <FolderIcon className="w-5 h-5 text-white/60 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate text-white">{folder.name}</p>
+                      <p className="text-xs text-white/50">
+                        {isScanning
+                          ? `Scanning${scanning.total > 0 ? ` ${scanning.done}/${scanning.total}` : '…'}`
+                          : [
+                            `${folder.fileCount} wallpaper${folder.fileCount === 1 ? '' : 's'}`,
+                            folder.missingCount > 0 && `${folder.missingCount} missing`,
+                            folder.lastScannedAt ? `scanned ${formatRelativeTime(folder.lastScannedAt)}` : 'not scanned yet'
+                          ].filter(Boolean).join(' · ')}
+                      </p>
+                    </div>
+
+                    {needsAccess ? (
+                      <button
+                        onClick={() => handleGrantAccess(folder)}
+                        disabled={!!scanning}
+                        className="flex items-center gap-1 py-1 px-2 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors disabled:opacity-50"
+                        title="The browser asks again for access after a restart"
+                      >
+                        <KeyIcon className="w-4 h-4" />
+                        <span>Grant access</span>
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => scanFolder(folder)}
+                        disabled={!!scanning}
+                        className="p-1 rounded hover:bg-white/10 text-white/60 disabled:opacity-50"
+                        title="Rescan now"
+                      >
+                        <ArrowPathIcon className={`w-4 h-4 ${isScanning ? 'animate-spin' : ''}`} />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleRemove(folder)}
+                      disabled={!!scanning}
+                      className="p-1 rounded hover:bg-white/10 text-white/60 disabled:opacity-50"
+                      title="Stop syncing"
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+            <button
+              onClick={handleAddFolder}
+              disabled={!!scanning}
+              className="flex items-center gap-1 py-1 px-3 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors disabled:opacity-50"
+            >
+              <FolderPlusIcon className="w-4 h-4" />
+              <span>Add Folder</span>
+            </button>
+
+            <label htmlFor="folderRescanInterval" className="ml-auto text-white/70">Rescan:</label>
+            <select
+              id="folderRescanInterval"
+              value={folderRescanInterval}
+              onChange={(e) => handleIntervalChange(parseInt(e.target.value, 10))}
+              className={inputClassName}
+            >
+              {RESCAN_INTERVALS.map(({ minutes, label }) => (
+                <option key={minutes} value={minutes}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FolderSyncSettings;
@@ -85,7 +85,7 @@ const Header: React.FC<HeaderProps> = ({ onShowSettings, onShowWallpaperBrowser
         {/* Menu Button */}
         <button
           onClick={toggleMenu}
-          className="flex items-center justify-center w-12 h-12 rounded-full bg-white/20 backdrop-blur-lg shadow-lg hover:bg-white/30 transition-all duration-300 ease-in-out transform hover:scale-105"
+          className="flex items-center justify-center w-12 h-12 rounded-full bg-white/20 backdrop-blur-lg shadow-lg hover:bg-white/30 ring-2 ring-accent/60 transition-all duration-300 ease-in-out transform hover:scale-105"
           aria-label="Open Menu"
         >
           <img src="../assets/images/logo-small.png" alt="NyaTab" className="w-8 h-8" onError={(e) => {
@@ -0,0 +1,205 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import {
+  loadCollections,
+  createCollection,
+  renameCollection,
+  moveCollection,
+  deleteCollection
+} from '../store/slices/collectionSlice';
+import { saveSettings, setRefreshCollectionId } from '../store/slices/settingsSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import {
+  ArrowPathIcon,
+  ChevronDownIcon,
+  ChevronUpIcon,
+  PencilIcon,
+  PlusIcon,
+  TrashIcon
+} from '@heroicons/react/24/outline';
+
+interface LibraryCollectionsProps {
+  selectedCollectionId: string | null;
+  onSelectCollection: (collectionId: string | null) => void;
+}
+
+/**
+ * Sidebar list of library collections with create, rename, reorder and delete
+ */
+const LibraryCollections: React.FC<LibraryCollectionsProps> = ({ selectedCollectionId, onSelectCollection }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { collections } = useSelector((state: RootState) => state.collections);
+  const { library } = useSelector((state: RootState) => state.wallpaper);
+  const { refreshCollectionId } = useSelector((state: RootState) => state.settings);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  useEffect(() => {
+    dispatch(loadCollections());
+  }, [dispatch]);
+
+  const libraryIds = new Set(library.map(w => w.id));
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await dispatch(createCollection(newName)).unwrap();
+      setNewName('');
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleRename = async (id: string) => {
+    if (editingName.trim()) {
+      try {
+        await dispatch(renameCollection({ id, name: editingName })).unwrap();
+      } catch (error) {
+        dispatch(showNotification({ type: 'error', message: String(error) }));
+      }
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!window.confirm(`Delete the collection "${name}"? Its wallpapers stay in your library.`)) {
+      return;
+    }
+
+    await dispatch(deleteCollection(id));
+    if (selectedCollectionId === id) {
+      onSelectCollection(null);
+    }
+    if (refreshCollectionId === id) {
+      dispatch(setRefreshCollectionId(null));
+      dispatch(saveSettings({ refreshCollectionId: null }));
+    }
+  };
+
+  const handleToggleShuffleTarget = (id: string) => {
+    const nextId = refreshCollectionId === id ? null : id;
+    dispatch(setRefreshCollectionId(nextId));
+    dispatch(saveSettings({ refreshCollectionId: nextId }));
+  };
+
+  const itemClassName = (isSelected: boolean) => `flex-1 text-left text-sm truncate ${
+    isSelected ? 'text-pink-600 dark:text-pink-400 font-medium' : 'text-gray-700 dark:text-gray-300 hover:text-pink-600'
+  }`;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Collections</h3>
+
+      <ul className="space-y-1">
+        <li className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800">
+          <button
+            onClick={() => onSelectCollection(null)}
+            className={itemClassName(selectedCollectionId === null)}
+          >
+            All wallpapers <span className="text-xs text-gray-500 dark:text-gray-400">({library.length})</span>
+          </button>
+        </li>
+
+        {collections.map((collection, index) => (
+          <li
+            key={collection.id}
+            className="group flex items-center gap-1 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800"
+          >
+            {editingId === collection.id ? (
+              <input
+                autoFocus
+                value={editingName}
+                onChange={(e) => setEditingName(e.target.value)}
+                onBlur={() => handleRename(collection.id)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename(collection.id);
+                  if (e.key === 'Escape') setEditingId(null);
+                }}
+                className="flex-1 min-w-0 px-2 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+              />
+            ) : (
+              <button
+                onClick={() => onSelectCollection(collection.id)}
+                className={itemClassName(selectedCollectionId === collection.id)}
+              >
+                {collection.name}{' '}
+                <span className="text-xs text-gray-500 dark:text-gray-400">
+                  ({collection.wallpaperIds.filter(id => libraryIds.has(id)).length})
+                </span>
+              </button>
+            )}
+
+            <button
+              onClick={() => handleToggleShuffleTarget(collection.id)}
+              title={refreshCollectionId === collection.id ? 'Stop shuffling from this collection' : 'Shuffle from this collection'}
+              className={`p-1 ${
+                refreshCollectionId === collection.id ? 'text-pink-600' : 'text-gray-400 opacity-0 group-hover:opacity-100 hover:text-pink-600'
+              }`}
+            >
+              <ArrowPathIcon className="w-4 h-4" />
+            </button>
+            <div className="hidden group-hover:flex items-center">
+              <button
+                onClick={() => dispatch(moveCollection({ id: collection.id, toIndex: index - 1 }))}
+                disabled={index === 0}
+                title="Move up"
+                className="p-1 text-gray-400 hover:text-pink-600 disabled:opacity-30"
+              >
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => dispatch(moveCollection({ id: collection.id, toIndex: index + 1 }))}
+                disabled={index === collections.length - 1}
+                title="Move down"
+                className="p-1 text-gray-400 hover:text-pink-600 disabled:opacity-30"
+              >
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => {
+                  setEditingId(collection.id);
+                  setEditingName(collection.name);
+                }}
+                title="Rename"
+                className="p-1 text-gray-400 hover:text-pink-600"
+              >
+                <PencilIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(collection.id, collection.name)}
+                title="Delete collection"
+                className="p-1 text-gray-400 hover:text-red-600"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <form onSubmit={handleCreate} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New collection"
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          title="Create collection"
+          className="p-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-white disabled:opacity-50"
+        >
+          <PlusIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default LibraryCollections;
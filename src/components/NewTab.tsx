@@ -1,8 +1,10 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
-import { loadSavedWallpaper, shuffleWallpaper, setCurrentWallpaper, addToLibrary } from '../store/slices/wallpaperSlice';
-import { loadSettings } from '../store/slices/settingsSlice';
+import { loadSavedWallpaper, shuffleWallpaper, setCurrentWallpaper, addToLibrary, fetchLibrary } from '../store/slices/wallpaperSlice';
+import { loadSettings, saveSettings, setVideoLoop, setVideoMuted } from '../store/slices/settingsSlice';
+import { nextSlide, startSlideshow } from '../store/slices/slideshowSlice';
+import { loadFeedback } from '../store/slices/feedbackSlice';
 import { AppDispatch } from '../store';
 import Header from './Header';
 import Wallpaper from './Wallpaper';
@@ -11,11 +13,22 @@ import Todo from './Todo';
 import Settings from './Settings';
 import WallpaperBrowser from './WallpaperBrowser';
 import Notifications from './Notifications';
+import Slideshow from './Slideshow';
+import WallpaperFeedbackControls from './WallpaperFeedbackControls';
+import WallpaperDropZone from './WallpaperDropZone';
 import { logError } from '../utils/errorUtils';
+import { applyWallpaperAccent } from '../utils/theme';
 import { ArrowPathIcon } from '@heroicons/react/24/outline';
 import wallpaperService from '../services/wallpaperService';
+import folderSyncService from '../services/folderSyncService';
 import { showNotification } from '../store/slices/notificationSlice';
-import { HeartIcon } from '@heroicons/react/24/outline';
+import {
+  ArrowPathRoundedSquareIcon,
+  HeartIcon,
+  PlayIcon,
+  SpeakerWaveIcon,
+  SpeakerXMarkIcon
+} from '@heroicons/react/24/outline';
 
 /**
  * Main component for the new tab page
@@ -23,7 +36,8 @@ import { HeartIcon } from '@heroicons/react/24/outline';
 const NewTab: React.FC = () => {
   const dispatch = useDispatch<AppDispatch>();
   const { currentWallpaper, isShuffleEnabled, shuffleInterval, shuffleOnNewTab, library } = useSelector((state: RootState) => state.wallpaper);
-  const { wallpaperFilters, changeWallpaperOnNewTab, refreshSource } = useSelector((state: RootState) => state.settings);
+  const { wallpaperFilters, changeWallpaperOnNewTab, refreshSource, videoMuted, videoLoop } = useSelector((state: RootState) => state.settings);
+  const isSlideshowActive = useSelector((state: RootState) => state.slideshow.isActive);
   const [showSettings, setShowSettings] = useState(false);
   const [showWallpaperBrowser, setShowWallpaperBrowser] = useState(false);
   const [showQuickSettings, setShowQuickSettings] = useState(false);
@@ -50,7 +64,14 @@ const NewTab: React.FC = () => {
         // Then load the wallpaper
         await dispatch(loadSavedWallpaper()).unwrap();
         
+        dispatch(loadFeedback());
+        
         console.log('Successfully loaded saved wallpaper and settings');
+        
+        // Synced folders are rescanned from here, since thumbnails can't be drawn in the background
+        if (await folderSyncService.scanDueFolders()) {
+          dispatch(fetchLibrary());
+        }
       } catch (error) {
         logError('Failed to load initial data', error);
       }
@@ -59,6 +80,12 @@ const NewTab: React.FC = () => {
     loadInitialData();
   }, [dispatch]);
 
+  // Tint the accent colour from the wallpaper palette
+  const palette = currentWallpaper?.info?.palette;
+  useEffect(() => {
+    applyWallpaperAccent(palette);
+  }, [palette]);
+
   // Listen for messages from the background script
   useEffect(() => {
     const handleMessages = (
@@ -69,6 +96,12 @@ const NewTab: React.FC = () => {
       if (message.type === 'SHUFFLE_WALLPAPER') {
         console.log('Received shuffle wallpaper message from background script', message);
         
+        // The slideshow decides what comes next while it runs
+        if (isSlideshowActive) {
+          sendResponse({ success: false, error: 'Slideshow is running' });
+          return true;
+        }
+        
         // If refresh source is specified in the message, use it, otherwise use the current setting
         const sourceToUse = message.refreshSource || refreshSource;
         const nsfwFilterToUse = message.nsfwFilter || refreshNsfwFilter;
@@ -111,11 +144,11 @@ const NewTab: React.FC = () => {
       console.log('Removing message listener in NewTab');
       chrome.runtime.onMessage.removeListener(handleMessages);
     };
-  }, [library.length, refreshSource]);
+  }, [library.length, refreshSource, isSlideshowActive]);
 
   // Setup wallpaper shuffle interval
   useEffect(() => {
-    if (!isShuffleEnabled || shuffleInterval <= 0 || library.length === 0) {
+    if (!isShuffleEnabled || shuffleInterval <= 0 || library.length === 0 || isSlideshowActive) {
       return;
     }
 
@@ -129,7 +162,7 @@ const NewTab: React.FC = () => {
     }, shuffleInterval * 60 * 1000); // Convert minutes to milliseconds
 
     return () => clearInterval(intervalId);
-  }, [dispatch, isShuffleEnabled, shuffleInterval, library.length]);
+  }, [dispatch, isShuffleEnabled, shuffleInterval, library.length, isSlideshowActive]);
 
   const handleRefreshWallpaper = async (sourceOverride?: 'library' | 'browse') => {
     try {
@@ -191,6 +224,27 @@ const NewTab: React.FC = () => {
     }
   };
 
+  const handleStartSlideshow = async () => {
+    try {
+      await dispatch(startSlideshow()).unwrap();
+    } catch (error) {
+      dispatch(showNotification({
+        type: 'error',
+        message: String(error)
+      }));
+    }
+  };
+
+  const handleToggleMuted = () => {
+    dispatch(setVideoMuted(!videoMuted));
+    dispatch(saveSettings({ videoMuted: !videoMuted }));
+  };
+
+  const handleToggleLoop = () => {
+    dispatch(setVideoLoop(!videoLoop));
+    dispatch(saveSettings({ videoLoop: !videoLoop }));
+  };
+
   return (
     <div className="min-h-screen bg-black text-white overflow-hidden">
       <Header 
@@ -208,7 +262,7 @@ const NewTab: React.FC = () => {
       >
         {/* Wallpaper action buttons - only visible on hover */}
         <div 
-          className={`absolute bottom-6 left-1/2 transform -translate-x-1/2 flex items-center gap-3 p-2 bg-black/30 backdrop-blur-md rounded-full transition-all duration-300 ${
+          className={`absolute ${isSlideshowActive ? 'bottom-40' : 'bottom-6'} left-1/2 transform -translate-x-1/2 flex items-center gap-3 p-2 bg-black/30 backdrop-blur-md rounded-full transition-all duration-300 ${
             showWallpaperActions ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-8 pointer-events-none'
           }`}
         >
@@ -223,6 +277,47 @@ const NewTab: React.FC = () => {
             </button>
           )}
           
+          {/* Ratings and blocking */}
+          {currentWallpaper && (
+            <WallpaperFeedbackControls
+              wallpaper={currentWallpaper}
+              onBlocked={() => (isSlideshowActive ? dispatch(nextSlide()) : handleRefreshWallpaper())}
+            />
+          )}
+          
+          {/* Sound and loop toggles - only for video wallpapers */}
+          {currentWallpaper?.mediaType === 'video' && (
+            <>
+              <button
+                onClick={handleToggleMuted}
+                className="p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-all duration-200 transform hover:scale-110"
+                title={videoMuted ? 'Unmute' : 'Mute'}
+              >
+                {videoMuted ? <SpeakerXMarkIcon className="w-6 h-6" /> : <SpeakerWaveIcon className="w-6 h-6" />}
+              </button>
+              <button
+                onClick={handleToggleLoop}
+                className={`p-3 rounded-full text-white transition-all duration-200 transform hover:scale-110 ${
+                  videoLoop ? 'bg-pink-600 hover:bg-pink-700' : 'bg-white/10 hover:bg-white/20'
+                }`}
+                title={videoLoop ? 'Looping on' : 'Looping off'}
+              >
+                <ArrowPathRoundedSquareIcon className="w-6 h-6" />
+              </button>
+            </>
+          )}
+          
+          {/* Slideshow button - hidden while one is running */}
+          {!isSlideshowActive && (
+            <button
+              onClick={handleStartSlideshow}
+              className="p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-all duration-200 transform hover:scale-110"
+              title="Start slideshow"
+            >
+              <PlayIcon className="w-6 h-6" />
+            </button>
+          )}
+          
           {/* Refresh Button */}
           <button 
             onClick={() => handleRefreshWallpaper()}
@@ -244,6 +339,8 @@ const NewTab: React.FC = () => {
         <Todo />
       </div>
 
+      {isSlideshowActive && <Slideshow />}
+
       {showSettings && (
         <Settings onClose={handleHideSettings} />
       )}
@@ -252,6 +349,8 @@ const NewTab: React.FC = () => {
         <WallpaperBrowser onClose={handleHideWallpaperBrowser} />
       )}
 
+      <WallpaperDropZone disabled={showSettings || showWallpaperBrowser || isSlideshowActive} />
+
       <Notifications />
     </div>
   );
@@ -0,0 +1,169 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import {
+  loadSavedSearches,
+  createSavedSearch,
+  deleteSavedSearch,
+  setSearchSubscribed,
+  checkSubscriptions
+} from '../store/slices/savedSearchSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { countNewFeedItems } from '../services/savedSearchService';
+import { getProvider } from '../services/providers';
+import { SavedSearch } from '../types/savedSearch';
+import { WallpaperProviderId } from '../types/wallpaper';
+import { WallpaperFilters } from '../store/slices/settingsSlice';
+import { ArrowPathIcon, BellIcon, BookmarkIcon, TrashIcon } from '@heroicons/react/24/outline';
+import { BellIcon as BellIconSolid } from '@heroicons/react/24/solid';
+
+// Feed id that shows what every subscription found
+export const ALL_SUBSCRIPTIONS_FEED = 'all';
+
+interface SavedSearchesProps {
+  activeFeedId: string | null;  // Saved search id or ALL_SUBSCRIPTIONS_FEED
+  onRunSearch: (search: SavedSearch) => void;
+  onOpenFeed: (feedId: string) => void;
+  currentSearch: { provider: WallpaperProviderId; query: string; filters: Partial<WallpaperFilters> };
+}
+
+/**
+ * Sidebar list of saved searches; subscribed ones show how many new wallpapers they found
+ */
+const SavedSearches: React.FC<SavedSearchesProps> = ({ activeFeedId, onRunSearch, onOpenFeed, currentSearch }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { searches, feed, isChecking } = useSelector((state: RootState) => state.savedSearches);
+  const [newName, setNewName] = useState('');
+
+  useEffect(() => {
+    dispatch(loadSavedSearches());
+  }, [dispatch]);
+
+  const newCounts = countNewFeedItems(searches, feed);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+
+    try {
+      await dispatch(createSavedSearch({ name: newName, ...currentSearch })).unwrap();
+      setNewName('');
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleDelete = (search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) {
+      return;
+    }
+    dispatch(deleteSavedSearch(search.id));
+  };
+
+  const describeSearch = (search: SavedSearch) => {
+    const parts = [getProvider(search.provider).name, search.query ? `"${search.query}"` : 'any'];
+    if (search.filters.sorting) parts.push(search.filters.sorting.replace('_', ' '));
+    if (search.filters.resolution) parts.push(search.filters.resolution);
+    return parts.join(' · ');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">Saved Searches</h3>
+        {searches.some(s => s.subscribed) && (
+          <button
+            onClick={() => dispatch(checkSubscriptions())}
+            disabled={isChecking}
+            title="Check subscriptions now"
+            className="p-1 text-gray-400 hover:text-pink-600 disabled:opacity-50"
+          >
+            <ArrowPathIcon className={`w-4 h-4 ${isChecking ? 'animate-spin' : ''}`} />
+          </button>
+        )}
+      </div>
+
+      {searches.length > 0 && (
+        <ul className="space-y-1">
+          {searches.map(search => (
+            <li
+              key={search.id}
+              className={`group flex items-center gap-1 px-3 py-2 rounded-lg ${
+                activeFeedId === search.id ? 'bg-pink-100 dark:bg-pink-900/30' : 'bg-gray-100 dark:bg-gray-800'
+              }`}
+            >
+              <button
+                onClick={() => onRunSearch(search)}
+                title={describeSearch(search)}
+                className="flex-1 min-w-0 text-left"
+              >
+                <span className="block text-sm truncate text-gray-700 dark:text-gray-300 hover:text-pink-600">
+                  {search.name}
+                </span>
+                <span className="block text-xs truncate text-gray-500 dark:text-gray-400">
+                  {describeSearch(search)}
+                </span>
+              </button>
+
+              {search.subscribed && newCounts[search.id] > 0 && (
+                <button
+                  onClick={() => onOpenFeed(search.id)}
+                  title="Show new wallpapers"
+                  className="px-2 py-0.5 text-xs font-medium rounded-full bg-pink-600 text-white hover:bg-pink-700"
+                >
+                  {newCounts[search.id]} new
+                </button>
+              )}
+
+              <button
+                onClick={() => dispatch(setSearchSubscribed({ id: search.id, subscribed: !search.subscribed }))}
+                title={search.subscribed ? 'Unsubscribe' : 'Subscribe to new wallpapers'}
+                className={`p-1 ${search.subscribed ? 'text-pink-600' : 'text-gray-400 opacity-0 group-hover:opacity-100 hover:text-pink-600'}`}
+              >
+                {search.subscribed ? <BellIconSolid className="w-4 h-4" /> : <BellIcon className="w-4 h-4" />}
+              </button>
+              <button
+                onClick={() => handleDelete(search)}
+                title="Delete saved search"
+                className="p-1 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-red-600"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {feed.length > 0 && (
+        <button
+          onClick={() => onOpenFeed(ALL_SUBSCRIPTIONS_FEED)}
+          className={`w-full text-left text-sm px-3 py-2 rounded-lg ${
+            activeFeedId === ALL_SUBSCRIPTIONS_FEED ? 'bg-pink-100 dark:bg-pink-900/30 text-pink-600' : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:text-pink-600'
+          }`}
+        >
+          Subscription feed <span className="text-xs text-gray-500 dark:text-gray-400">({feed.length})</span>
+        </button>
+      )}
+
+      <form onSubmit={handleSave} className="flex gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Save current search as..."
+          className="flex-1 min-w-0 px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          title="Save search"
+          className="p-2 rounded-lg bg-pink-600 hover:bg-pink-700 text-white disabled:opacity-50"
+        >
+          <BookmarkIcon className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { saveSettings, setScheduleRules } from '../store/slices/settingsSlice';
+import { getProviders, DEFAULT_PROVIDER_ID } from '../services/providers';
+import {
+  WEEKDAY_LABELS,
+  createScheduleRule,
+  describeRuleTime,
+  findActiveRule
+} from '../services/scheduleService';
+import { ScheduleRule, ScheduleRuleAction } from '../types/schedule';
+import { ChevronDownIcon, ChevronUpIcon, PlusIcon, TrashIcon } from '@heroicons/react/24/outline';
+
+/**
+ * Settings section for time-of-day wallpaper rules, with a preview of the rule active right now
+ */
+const ScheduleRulesSettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const rules = useAppSelector(state => state.settings.scheduleRules) || [];
+  const { collections } = useAppSelector(state => state.collections);
+  const { library } = useAppSelector(state => state.wallpaper);
+  const [now, setNow] = useState(new Date());
+  // Typed names and times are only saved once the field loses focus
+  const hasUnsavedEdits = useRef(false);
+  const rulesRef = useRef(rules);
+  rulesRef.current = rules;
+
+  // Keep the preview current while settings are open
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // Closing settings while a field still has focus doesn't blur it
+  useEffect(() => {
+    return () => {
+      if (hasUnsavedEdits.current) {
+        dispatch(saveSettings({ scheduleRules: rulesRef.current }));
+      }
+    };
+  }, [dispatch]);
+
+  const activeRule = findActiveRule(rules, now);
+
+  const saveRules = (updatedRules: ScheduleRule[]) => {
+    dispatch(setScheduleRules(updatedRules));
+    dispatch(saveSettings({ scheduleRules: updatedRules }));
+  };
+
+  const updateRule = (id: string, changes: Partial<ScheduleRule>) => {
+    saveRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+  };
+
+  // Saving on every keystroke would run into the sync storage write quota
+  const editRule = (id: string, changes: Partial<ScheduleRule>) => {
+    hasUnsavedEdits.current = true;
+    dispatch(setScheduleRules(rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule))));
+  };
+
+  const saveEdits = () => {
+    if (hasUnsavedEdits.current) {
+      hasUnsavedEdits.current = false;
+      dispatch(saveSettings({ scheduleRules: rules }));
+    }
+  };
+
+  const moveRule = (index: number, toIndex: number) => {
+    const updatedRules = [...rules];
+    const [moved] = updatedRules.splice(index, 1);
+    updatedRules.splice(toIndex, 0, moved);
+    saveRules(updatedRules);
+  };
+
+  const toggleDay = (rule: ScheduleRule, day: number) => {
+    const days = rule.days.includes(day)
+      ? rule.days.filter(d => d !== day)
+      : [...rule.days, day].sort();
+    updateRule(rule.id, { days });
+  };
+
+  const changeActionType = (rule: ScheduleRule, type: ScheduleRuleAction['type']) => {
+    let action: ScheduleRuleAction;
+    if (type === 'browse') {
+      action = { type, provider: DEFAULT_PROVIDER_ID };
+    } else if (type === 'wallpaper') {
+      action = { type, wallpaperId: library[0]?.id || '' };
+    } else {
+      action = { type, collectionId: null };
+    }
+    updateRule(rule.id, { action });
+  };
+
+  const inputClassName = 'bg-white/10 border border-white/20 text-white px-2 py-1 rounded-md focus:outline-none focus:border-pink-500';
+
+  return (
+    <div className="setting-group">
+      <h3 className="text-lg font-medium text-white mb-2">Schedule</h3>
+      <p className="text-sm text-white/60 mb-3">
+        Rules pick the wallpaper source by time of day. The first matching rule wins; otherwise the refresh options above apply.
+      </p>
+
+      <div className="mb-3 px-3 py-2 rounded-md bg-white/5 text-sm">
+        <span className="text-white/60">Now: </span>
+        {activeRule ? (
+          <span className="text-pink-400">{activeRule.name}</span>
+        ) : (
+          <span className="text-white">No rule matches, using refresh options</span>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        {rules.map((rule, index) => (
+          <div
+            key={rule.id}
+            className={`p-3 rounded-md border space-y-2 ${
+              rule.id === activeRule?.id ? 'border-pink-500/60 bg-pink-600/10' : 'border-white/10 bg-white/5'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                title="Enabled"
+                className="h-4 w-4"
+              />
+              <input
+                type="text"
+                value={rule.name}
+                onChange={(e) => editRule(rule.id, { name: e.target.value })}
+                onBlur={saveEdits}
+                className={`flex-1 min-w-0 ${inputClassName}`}
+              />
+              <button
+                onClick={() => moveRule(index, index - 1)}
+                disabled={index === 0}
+                title="Move up"
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronUpIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => moveRule(index, index + 1)}
+                disabled={index === rules.length - 1}
+                title="Move down"
+                className="p-1 rounded hover:bg-white/10 disabled:opacity-30"
+              >
+                <ChevronDownIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => saveRules(rules.filter(r => r.id !== rule.id))}
+                title="Delete rule"
+                className="p-1 rounded hover:bg-white/10 text-red-400"
+              >
+                <TrashIcon className="w-4 h-4" />
+              </button>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleDay(rule, day)}
+                  className={`px-2 py-0.5 rounded text-xs ${
+                    rule.days.includes(day) ? 'bg-pink-600/60 text-white' : 'bg-white/10 text-white/60'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <input
+                type="time"
+                value={rule.startTime}
+                onChange={(e) => editRule(rule.id, { startTime: e.target.value })}
+                onBlur={saveEdits}
+                className={inputClassName}
+              />
+              <span className="text-white/60">to</span>
+              <input
+                type="time"
+                value={rule.endTime}
+                onChange={(e) => editRule(rule.id, { endTime: e.target.value })}
+                onBlur={saveEdits}
+                className={inputClassName}
+              />
+            </div>
+            <p className="text-xs text-white/50">{describeRuleTime(rule)}</p>
+
+            <div className="flex gap-2 text-sm">
+              <select
+                value={rule.action.type}
+                onChange={(e) => changeActionType(rule, e.target.value as ScheduleRuleAction['type'])}
+                className={inputClassName}
+              >
+                <option value="library">Library</option>
+                <option value="browse">Online</option>
+                <option value="wallpaper">Fixed wallpaper</option>
+              </select>
+
+              {rule.action.type === 'library' && (
+                <select
+                  value={rule.action.collectionId || ''}
+                  onChange={(e) => updateRule(rule.id, { action: { type: 'library', collectionId: e.target.value || null } })}
+                  className={`flex-1 min-w-0 ${inputClassName}`}
+                >
+                  <option value="">Whole library</option>
+                  {collections.map(collection => (
+                    <option key={collection.id} value={collection.id}>{collection.name}</option>
+                  ))}
+                </select>
+              )}
+
+              {rule.action.type === 'browse' && (
+                <select
+                  value={rule.action.provider}
+                  onChange={(e) => updateRule(rule.id, { action: { type: 'browse', provider: e.target.value } })}
+                  className={`flex-1 min-w-0 ${inputClassName}`}
+                >
+                  {getProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.name}</option>
+                  ))}
+                </select>
+              )}
+
+              {rule.action.type === 'wallpaper' && (
+                <select
+                  value={rule.action.wallpaperId}
+                  onChange={(e) => updateRule(rule.id, { action: { type: 'wallpaper', wallpaperId: e.target.value } })}
+                  className={`flex-1 min-w-0 ${inputClassName}`}
+                >
+                  {library.length === 0 && <option value="">Library is empty</option>}
+                  {library.map(wallpaper => (
+                    <option key={wallpaper.id} value={wallpaper.id}>
+                      {wallpaper.info?.title || wallpaper.id}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => saveRules([...rules, createScheduleRule()])}
+        className="mt-3 w-full flex items-center justify-center gap-2 py-2 px-4 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors"
+      >
+        <PlusIcon className="w-4 h-4" />
+        <span>Add Rule</span>
+      </button>
+    </div>
+  );
+};
+
+export default ScheduleRulesSettings;
@@ -113,7 +113,7 @@ const Search: React.FC = () => {
   return (
     <div className="max-w-xl w-full mx-auto">
       <form onSubmit={handleSubmit} className="relative">
-        <div className="flex items-center bg-white dark:bg-gray-800 rounded-full shadow-lg overflow-hidden">
+        <div className="flex items-center bg-white dark:bg-gray-800 rounded-full shadow-lg overflow-hidden focus-within:ring-2 focus-within:ring-accent">
           {/* Search engine selector */}
           <div className="relative" ref={menuRef}>
             <button
@@ -193,7 +193,7 @@ const Search: React.FC = () => {
           {/* Search button */}
           <button
             type="submit"
-            className="p-3 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            className="p-3 bg-accent text-accent-contrast hover:bg-accent/80 transition-colors"
             aria-label={getMessage('search')}
           >
             <svg
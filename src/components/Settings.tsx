@@ -4,14 +4,27 @@ import {
   setTheme, 
   setRefreshInterval, 
   setWallpaperFilters,
-  setWallpaperOverlay,
   saveSettings,
   setRefreshNsfwFilter,
   setBrowseNsfwFilter,
   setBlurAmount,
   setSaveBlurSettings,
-  setChangeWallpaperOnNewTab
+  setChangeWallpaperOnNewTab,
+  setRefreshProvider,
+  setRefreshCollectionId,
+  setPrefetchQueueSize,
+  setShuffleStrategy,
+  setWallpaperTransition,
+  setTransitionDuration,
+  WallpaperTransition
 } from '../store/slices/settingsSlice';
+import { getProviders } from '../services/providers';
+import WallhavenAccountSettings from './WallhavenAccountSettings';
+import ScheduleRulesSettings from './ScheduleRulesSettings';
+import BlocklistSettings from './BlocklistSettings';
+import FolderSyncSettings from './FolderSyncSettings';
+import WallpaperOverlaySettings from './WallpaperOverlaySettings';
+import BackupSettings from './BackupSettings';
 import storageService from '../services/storageService';
 import { getMessage } from '../utils/i18n';
 import { Theme, applyTheme, detectSystemTheme } from '../utils/theme';
@@ -19,6 +32,7 @@ import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { AppDispatch } from '../store';
 import { setShuffleEnabled, setShuffleInterval, setShuffleOnNewTab, shuffleWallpaper } from '../store/slices/wallpaperSlice';
+import { loadCollections } from '../store/slices/collectionSlice';
 import { XMarkIcon } from '@heroicons/react/24/outline';
 import { ArrowPathIcon } from '@heroicons/react/24/outline';
 
@@ -36,6 +50,14 @@ const sendMessageToBackground = (message: any): Promise<any> => {
   });
 };
 
+const TRANSITIONS: { value: WallpaperTransition; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'fade', label: 'Crossfade' },
+  { value: 'slide', label: 'Slide' },
+  { value: 'zoom', label: 'Zoom' },
+  { value: 'kenBurns', label: 'Ken Burns' }
+];
+
 interface SettingsProps {
   onClose: () => void;
 }
@@ -49,10 +71,16 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
   const [isSaving, setIsSaving] = useState(false);
   const [saveMessage, setSaveMessage] = useState('');
   const { isShuffleEnabled, shuffleInterval, shuffleOnNewTab, library } = useSelector((state: RootState) => state.wallpaper);
-  const { refreshSource, refreshNsfwFilter } = useSelector((state: RootState) => state.settings);
+  const { refreshSource, refreshNsfwFilter, refreshProvider, refreshCollectionId } = useSelector((state: RootState) => state.settings);
+  const { collections } = useSelector((state: RootState) => state.collections);
   const [lastShuffleTime, setLastShuffleTime] = useState<Date | null>(null);
   const [nextShuffleTime, setNextShuffleTime] = useState<Date | null>(null);
 
+  // Load library collections for the shuffle collection picker
+  useEffect(() => {
+    dispatch(loadCollections());
+  }, [dispatch]);
+
   // Apply theme when it changes
   useEffect(() => {
     applyTheme(settings.theme);
@@ -154,21 +182,10 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
     }
   };
 
-  // Handle blur amount change
-  const handleBlurChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = Number(e.target.value);
-    console.log(`Setting blur amount in UI: ${value} (parsed from ${e.target.value})`);
-    dispatch(setWallpaperOverlay({
-      blurAmount: value
-    }));
-  };
-
-  // Handle darkness amount change
-  const handleDarknessChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = parseInt(e.target.value, 10);
-    dispatch(setWallpaperOverlay({
-      darknessAmount: value
-    }));
+  // Handle wallpaper transition change
+  const handleTransitionChange = (transition: WallpaperTransition) => {
+    dispatch(setWallpaperTransition(transition));
+    dispatch(saveSettings({ wallpaperTransition: transition }));
   };
 
   // Handle purity filter change
@@ -448,6 +465,8 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
         type: 'SHUFFLE_WALLPAPER',
         source: refreshSource,
         nsfwFilter: refreshNsfwFilter,
+        provider: refreshProvider,
+        collectionId: refreshCollectionId,
         silent: true // Add parameter to indicate notifications should be silent
       });
       
@@ -498,6 +517,22 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
       dispatch(setRefreshNsfwFilter(value));
       dispatch(saveSettings(newSettings));
     } 
+    else if (key === 'refreshProvider') {
+      newSettings.refreshProvider = value;
+      dispatch(setRefreshProvider(value));
+    } 
+    else if (key === 'refreshCollectionId') {
+      newSettings.refreshCollectionId = value;
+      dispatch(setRefreshCollectionId(value));
+    } 
+    else if (key === 'prefetchQueueSize') {
+      newSettings.prefetchQueueSize = value;
+      dispatch(setPrefetchQueueSize(value));
+    } 
+    else if (key === 'shuffleStrategy') {
+      newSettings.shuffleStrategy = value;
+      dispatch(setShuffleStrategy(value));
+    } 
     // Handle other settings as before
     else {
       // ... existing code ...
@@ -652,55 +687,51 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
               </label>
             </div>
 
+            <WallpaperOverlaySettings />
+
             <div className="mt-6 border-t border-white/10 pt-4">
-              <h4 className="text-md font-medium mb-3">Wallpaper Appearance</h4>
-              
+              <h4 className="text-md font-medium mb-3">Wallpaper Transition</h4>
+
               <div className="space-y-4">
-                <div>
-                  <div className="flex justify-between mb-1">
-                    <label htmlFor="blur-slider" className="text-sm">
-                      Background Blur: {settings.wallpaperOverlay.blurAmount}px
-                    </label>
-                    <span className="text-xs text-white/70">
-                      {settings.wallpaperOverlay.blurAmount === 0 ? 'None' : 
-                       settings.wallpaperOverlay.blurAmount < 3 ? 'Light' : 
-                       settings.wallpaperOverlay.blurAmount < 7 ? 'Medium' : 'Heavy'}
-                    </span>
-                  </div>
-                  <input
-                    id="blur-slider"
-                    type="range"
-                    min="0"
-                    max="10"
-                    step="1"
-                    value={settings.wallpaperOverlay.blurAmount}
-                    onChange={handleBlurChange}
-                    className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-500"
-                  />
+                <div className="flex flex-wrap gap-2">
+                  {TRANSITIONS.map(transition => (
+                    <button
+                      key={transition.value}
+                      onClick={() => handleTransitionChange(transition.value)}
+                      className={`px-3 py-1 rounded text-sm ${
+                        settings.wallpaperTransition === transition.value
+                          ? 'bg-pink-600 text-white'
+                          : 'bg-white/10 text-white/70 hover:bg-white/20'
+                      }`}
+                    >
+                      {transition.label}
+                    </button>
+                  ))}
                 </div>
-                
-                <div>
-                  <div className="flex justify-between mb-1">
-                    <label htmlFor="darkness-slider" className="text-sm">
-                      Darkness Overlay: {settings.wallpaperOverlay.darknessAmount}%
+
+                {settings.wallpaperTransition !== 'none' && (
+                  <div>
+                    <label htmlFor="transition-duration" className="block text-sm mb-1">
+                      Duration: {settings.transitionDuration}s
                     </label>
-                    <span className="text-xs text-white/70">
-                      {settings.wallpaperOverlay.darknessAmount < 20 ? 'Light' : 
-                       settings.wallpaperOverlay.darknessAmount < 50 ? 'Medium' : 
-                       settings.wallpaperOverlay.darknessAmount < 80 ? 'Dark' : 'Very Dark'}
-                    </span>
+                    <input
+                      id="transition-duration"
+                      type="range"
+                      min="0.3"
+                      max="3"
+                      step="0.1"
+                      value={settings.transitionDuration}
+                      onChange={(e) => dispatch(setTransitionDuration(Number(e.target.value)))}
+                      onMouseUp={(e) => dispatch(saveSettings({ transitionDuration: Number(e.currentTarget.value) }))}
+                      onKeyUp={(e) => dispatch(saveSettings({ transitionDuration: Number(e.currentTarget.value) }))}
+                      className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-500"
+                    />
                   </div>
-                  <input
-                    id="darkness-slider"
-                    type="range"
-                    min="0"
-                    max="80"
-                    step="5"
-                    value={settings.wallpaperOverlay.darknessAmount}
-                    onChange={handleDarknessChange}
-                    className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-500"
-                  />
-                </div>
+                )}
+
+                <p className="text-xs text-white/60">
+                  With reduced motion turned on in your system settings, wallpapers only fade.
+                </p>
               </div>
             </div>
 
@@ -716,11 +747,91 @@ const Settings: React.FC<SettingsProps> = ({ onClose }) => {
                   onChange={(e) => handleSettingChange('refreshSource', e.target.value)}
                 >
                   <option value="library">Library Only</option>
-                  <option value="browse">Browse (Wallhaven)</option>
+                  <option value="browse">Browse Online</option>
                 </select>
                 <p className="text-sm text-white/60">Choose where to fetch wallpapers when refreshing</p>
               </div>
+
+              {settings.refreshSource === 'library' && collections.length > 0 && (
+                <div className="setting-item">
+                  <label htmlFor="refreshCollectionId" className="text-white">Shuffle From:</label>
+                  <select
+                    id="refreshCollectionId"
+                    className="bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md"
+                    value={settings.refreshCollectionId || ''}
+                    onChange={(e) => handleSettingChange('refreshCollectionId', e.target.value || null)}
+                  >
+                    <option value="">Whole library</option>
+                    {collections.map(collection => (
+                      <option key={collection.id} value={collection.id}>{collection.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-sm text-white/60">Limit library shuffles to one collection</p>
+                </div>
+              )}
+
+              {settings.refreshSource === 'library' && (
+                <div className="setting-item">
+                  <label htmlFor="shuffleStrategy" className="text-white">Shuffle Order:</label>
+                  <select
+                    id="shuffleStrategy"
+                    className="bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md"
+                    value={settings.shuffleStrategy}
+                    onChange={(e) => handleSettingChange('shuffleStrategy', e.target.value)}
+                  >
+                    <option value="bag">Show each once before repeating</option>
+                    <option value="uniform">Fully random</option>
+                    <option value="weighted">Favour favourites</option>
+                    <option value="leastRecent">Least recently shown first</option>
+                  </select>
+                  <p className="text-sm text-white/60">How the next library wallpaper is picked</p>
+                </div>
+              )}
+
+              {settings.refreshSource === 'browse' && (
+                <div className="setting-item">
+                  <label htmlFor="refreshProvider" className="text-white">Online Source:</label>
+                  <select
+                    id="refreshProvider"
+                    className="bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md"
+                    value={settings.refreshProvider}
+                    onChange={(e) => handleSettingChange('refreshProvider', e.target.value)}
+                  >
+                    {getProviders().map(provider => (
+                      <option key={provider.id} value={provider.id}>{provider.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {settings.refreshSource === 'browse' && (
+                <div className="setting-item">
+                  <label htmlFor="prefetchQueueSize" className="text-white">Keep Ready Offline:</label>
+                  <select
+                    id="prefetchQueueSize"
+                    className="bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md"
+                    value={settings.prefetchQueueSize.toString()}
+                    onChange={(e) => handleSettingChange('prefetchQueueSize', parseInt(e.target.value, 10))}
+                  >
+                    <option value="0">Off</option>
+                    <option value="3">3 wallpapers</option>
+                    <option value="5">5 wallpapers</option>
+                    <option value="10">10 wallpapers</option>
+                  </select>
+                  <p className="text-sm text-white/60">Downloads wallpapers ahead of time so shuffles are instant, even offline</p>
+                </div>
+              )}
             </div>
+
+            <ScheduleRulesSettings />
+
+            <BlocklistSettings />
+
+            <FolderSyncSettings />
+
+            <WallhavenAccountSettings />
+
+            <BackupSettings />
           </div>
         </div>
 
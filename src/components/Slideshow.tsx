@@ -0,0 +1,242 @@
+import React, { useEffect, useRef } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import {
+  nextSlide,
+  previousSlide,
+  setSlideshowPlaying,
+  showSlide,
+  startSlideshow,
+  stopSlideshow
+} from '../store/slices/slideshowSlice';
+import { saveSettings, setSlideshowInterval, setSlideshowSource } from '../store/slices/settingsSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { getProviders } from '../services/providers';
+import blobStorageService from '../services/blobStorageService';
+import { usePlaybackAllowed } from '../hooks/usePlaybackAllowed';
+import { SlideshowSource } from '../types/slideshow';
+import StoredImage from './ui/StoredImage';
+import {
+  BackwardIcon,
+  ForwardIcon,
+  PauseIcon,
+  PlayIcon,
+  XMarkIcon
+} from '@heroicons/react/24/solid';
+
+const INTERVALS: { value: number; label: string }[] = [
+  { value: 5, label: '5 seconds' },
+  { value: 10, label: '10 seconds' },
+  { value: 30, label: '30 seconds' },
+  { value: 60, label: '1 minute' },
+  { value: 300, label: '5 minutes' }
+];
+
+// Thumbnails shown either side of the current wallpaper
+const FILMSTRIP_RADIUS = 12;
+
+// Sources are kept in a <select> as strings
+const encodeSource = (source: SlideshowSource): string => {
+  switch (source.type) {
+    case 'library':
+      return source.collectionId ? `collection:${source.collectionId}` : 'library';
+    case 'browse':
+      return `browse:${source.provider}`;
+    default:
+      return source.type;
+  }
+};
+
+const decodeSource = (value: string): SlideshowSource => {
+  if (value.startsWith('collection:')) {
+    return { type: 'library', collectionId: value.slice('collection:'.length) };
+  }
+  if (value.startsWith('browse:')) {
+    return { type: 'browse', provider: value.slice('browse:'.length) };
+  }
+  if (value === 'favorites' || value === 'history') {
+    return { type: value };
+  }
+  return { type: 'library', collectionId: null };
+};
+
+/**
+ * Slideshow controls and filmstrip along the bottom of the new tab page.
+ * Arrow keys step through the wallpapers and space pauses.
+ */
+const Slideshow: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const { isPlaying, timeline, position, isLoading, error } = useAppSelector(state => state.slideshow);
+  const { slideshowSource, slideshowInterval } = useAppSelector(state => state.settings);
+  const { collections } = useAppSelector(state => state.collections);
+  const isPlaybackAllowed = usePlaybackAllowed();
+  const currentThumbnailRef = useRef<HTMLButtonElement>(null);
+
+  // Move on after the interval; stepping by hand starts the wait over
+  useEffect(() => {
+    if (!isPlaying || !isPlaybackAllowed) return;
+    const timer = setTimeout(() => dispatch(nextSlide()), slideshowInterval * 1000);
+    return () => clearTimeout(timer);
+  }, [dispatch, isPlaying, isPlaybackAllowed, position, timeline.length, slideshowInterval]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) {
+        return;
+      }
+
+      if (e.key === 'ArrowRight') {
+        dispatch(nextSlide());
+      } else if (e.key === 'ArrowLeft') {
+        dispatch(previousSlide());
+      } else if (e.key === ' ') {
+        e.preventDefault();
+        dispatch(setSlideshowPlaying(!isPlaying));
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [dispatch, isPlaying]);
+
+  // Load the next image ahead of time so the change doesn't wait on it
+  const upcoming = timeline[position + 1];
+  useEffect(() => {
+    if (!upcoming || upcoming.mediaType === 'video') return;
+
+    let isCancelled = false;
+    blobStorageService.resolveUrl(upcoming.path)
+      .then(url => {
+        if (!isCancelled) {
+          new Image().src = url;
+        }
+      })
+      .catch(error => console.warn('Failed to preload next slide:', error));
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [upcoming?.id]);
+
+  useEffect(() => {
+    currentThumbnailRef.current?.scrollIntoView({ behavior: 'smooth', inline: 'center', block: 'nearest' });
+  }, [position]);
+
+  const handleSourceChange = async (value: string) => {
+    const source = decodeSource(value);
+    dispatch(setSlideshowSource(source));
+    dispatch(saveSettings({ slideshowSource: source }));
+
+    try {
+      await dispatch(startSlideshow()).unwrap();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleIntervalChange = (value: number) => {
+    dispatch(setSlideshowInterval(value));
+    dispatch(saveSettings({ slideshowInterval: value }));
+  };
+
+  const start = Math.max(0, position - FILMSTRIP_RADIUS);
+  const visibleSlides = timeline.slice(start, position + FILMSTRIP_RADIUS + 1);
+  const selectClassName = 'bg-white/10 border border-white/20 text-white text-sm px-2 py-1 rounded-md focus:outline-none focus:border-pink-500';
+
+  return (
+    <div className="fixed bottom-0 inset-x-0 z-20 bg-black/40 backdrop-blur-md text-white opacity-40 hover:opacity-100 transition-opacity duration-300">
+      {/* Filmstrip */}
+      <div className="flex gap-2 px-4 pt-3 overflow-x-auto">
+        {visibleSlides.map((wallpaper, offset) => {
+          const index = start + offset;
+          return (
+            <button
+              key={`${index}-${wallpaper.id}`}
+              ref={index === position ? currentThumbnailRef : undefined}
+              onClick={() => dispatch(showSlide(index))}
+              title={wallpaper.info?.title}
+              className={`flex-shrink-0 w-24 aspect-video rounded overflow-hidden bg-white/10 transition-all ${
+                index === position ? 'ring-2 ring-pink-500' : 'opacity-60 hover:opacity-100'
+              }`}
+            >
+              <StoredImage
+                src={wallpaper.thumbnail}
+                fallbackSrc={wallpaper.path}
+                alt={wallpaper.info?.title || 'Wallpaper'}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-3 px-4 py-3">
+        <button
+          onClick={() => dispatch(previousSlide())}
+          disabled={position === 0}
+          title="Previous (←)"
+          className="p-2 rounded-full hover:bg-white/20 disabled:opacity-30"
+        >
+          <BackwardIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={() => dispatch(setSlideshowPlaying(!isPlaying))}
+          title={isPlaying ? 'Pause (space)' : 'Play (space)'}
+          className="p-2 rounded-full bg-pink-600 hover:bg-pink-700"
+        >
+          {isPlaying ? <PauseIcon className="w-5 h-5" /> : <PlayIcon className="w-5 h-5" />}
+        </button>
+        <button
+          onClick={() => dispatch(nextSlide())}
+          disabled={position >= timeline.length - 1 && isLoading}
+          title="Next (→)"
+          className="p-2 rounded-full hover:bg-white/20 disabled:opacity-30"
+        >
+          <ForwardIcon className="w-5 h-5" />
+        </button>
+
+        <select
+          value={encodeSource(slideshowSource)}
+          onChange={(e) => handleSourceChange(e.target.value)}
+          className={selectClassName}
+        >
+          <option value="library">Library</option>
+          {collections.map(collection => (
+            <option key={collection.id} value={`collection:${collection.id}`}>{collection.name}</option>
+          ))}
+          <option value="favorites">Favourites</option>
+          <option value="history">History</option>
+          {getProviders().map(provider => (
+            <option key={provider.id} value={`browse:${provider.id}`}>{provider.name}</option>
+          ))}
+        </select>
+
+        <select
+          value={slideshowInterval}
+          onChange={(e) => handleIntervalChange(Number(e.target.value))}
+          className={selectClassName}
+        >
+          {INTERVALS.map(interval => (
+            <option key={interval.value} value={interval.value}>{interval.label}</option>
+          ))}
+        </select>
+
+        <span className="text-xs text-white/60">
+          {!isPlaybackAllowed && isPlaying ? 'Paused while hidden or on low battery' : error || ''}
+        </span>
+
+        <button
+          onClick={() => dispatch(stopSlideshow())}
+          title="Stop slideshow"
+          className="ml-auto p-2 rounded-full hover:bg-white/20"
+        >
+          <XMarkIcon className="w-5 h-5" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default Slideshow;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import { bulkUpdateTags } from '../store/slices/bulkSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import tagService from '../services/tagService';
+import { Wallpaper } from '../types/wallpaper';
+import { TagCount, normalizeTag, suggestTags } from '../utils/tagUtils';
+import TagInput from './ui/TagInput';
+import { XMarkIcon } from '@heroicons/react/24/outline';
+
+interface TagEditorProps {
+  wallpapers: Wallpaper[];
+  tagCounts: TagCount[];
+}
+
+/**
+ * Adds and removes tags on the selected wallpapers; browse wallpapers are added to the library first
+ */
+const TagEditor: React.FC<TagEditorProps> = ({ wallpapers, tagCounts }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [newTag, setNewTag] = useState('');
+
+  // Tags on the selection, with how many of the selected wallpapers have each
+  const selectionTags = tagService.getTagCounts(wallpapers);
+
+  const applyChange = async (add: string[], remove: string[]) => {
+    try {
+      await dispatch(bulkUpdateTags({ wallpapers, add, remove })).unwrap();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleAdd = (tag: string) => {
+    const normalized = normalizeTag(tag);
+    if (!normalized) return;
+    applyChange([normalized], []);
+    setNewTag('');
+  };
+
+  return (
+    <div className="p-4 space-y-3 bg-gray-50 dark:bg-gray-900 rounded-lg border border-gray-200 dark:border-gray-700">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">
+        Tags on {wallpapers.length} selected wallpaper{wallpapers.length === 1 ? '' : 's'}
+      </h3>
+
+      {selectionTags.length > 0 ? (
+        <div className="flex flex-wrap gap-1.5">
+          {selectionTags.map(({ tag, count }) => (
+            <span
+              key={tag}
+              className={`inline-flex items-center gap-1 pl-2 pr-1 py-0.5 text-xs rounded-full ${
+                count === wallpapers.length
+                  ? 'bg-pink-100 dark:bg-pink-900/30 text-pink-700 dark:text-pink-300'
+                  : 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}
+            >
+              {tag}
+              {count < wallpapers.length && (
+                <button
+                  onClick={() => applyChange([tag], [])}
+                  title="Add to all selected"
+                  className="text-gray-500 hover:text-pink-600"
+                >
+                  {count}/{wallpapers.length}
+                </button>
+              )}
+              <button
+                onClick={() => applyChange([], [tag])}
+                title="Remove from all selected"
+                className="p-0.5 rounded-full hover:bg-black/10"
+              >
+                <XMarkIcon className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-gray-500 dark:text-gray-400">The selected wallpapers have no tags yet.</p>
+      )}
+
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <TagInput
+            value={newTag}
+            onChange={setNewTag}
+            suggestions={suggestTags(tagCounts, newTag, 8, selectionTags.filter(t => t.count === wallpapers.length).map(t => t.tag))}
+            onSelectSuggestion={handleAdd}
+            onSubmit={() => handleAdd(newTag)}
+            placeholder="Add a tag to all selected..."
+            className="text-sm"
+          />
+        </div>
+        <button
+          onClick={() => handleAdd(newTag)}
+          disabled={!newTag.trim()}
+          className="px-3 py-2 text-sm bg-pink-600 hover:bg-pink-700 text-white rounded-lg disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { renameTags } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import tagService from '../services/tagService';
+import { normalizeTag } from '../utils/tagUtils';
+import { XMarkIcon, PencilIcon } from '@heroicons/react/24/outline';
+
+interface TagManagerProps {
+  onClose: () => void;
+}
+
+/**
+ * Dialog listing every library tag, for renaming tags and merging several into one
+ */
+const TagManager: React.FC<TagManagerProps> = ({ onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { library } = useSelector((state: RootState) => state.wallpaper);
+  const [filter, setFilter] = useState('');
+  const [selectedTags, setSelectedTags] = useState<Set<string>>(new Set());
+  const [editingTag, setEditingTag] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const tagCounts = tagService.getTagCounts(library);
+  const existingTags = new Set(tagCounts.map(t => t.tag));
+  const visibleTags = filter.trim()
+    ? tagCounts.filter(({ tag }) => tag.includes(normalizeTag(filter)))
+    : tagCounts;
+
+  const rename = async (tags: string[], target: string) => {
+    const newTag = normalizeTag(target);
+    if (!newTag) return false;
+
+    if (existingTags.has(newTag) && !tags.includes(newTag) &&
+        !window.confirm(`"${newTag}" already exists. Merge ${tags.length === 1 ? `"${tags[0]}"` : 'the selected tags'} into it?`)) {
+      return false;
+    }
+
+    try {
+      await dispatch(renameTags({ tags, target: newTag })).unwrap();
+      return true;
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+      return false;
+    }
+  };
+
+  const handleRename = async (tag: string) => {
+    if (editingName.trim() && normalizeTag(editingName) !== tag) {
+      await rename([tag], editingName);
+    }
+    setEditingTag(null);
+  };
+
+  const handleMerge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await rename(Array.from(selectedTags), mergeTarget)) {
+      dispatch(showNotification({ type: 'success', message: `Merged ${selectedTags.size} tags into "${normalizeTag(mergeTarget)}"` }));
+      setSelectedTags(new Set());
+      setMergeTarget('');
+    }
+  };
+
+  const toggleSelected = (tag: string) => {
+    const updated = new Set(selectedTags);
+    if (updated.has(tag)) {
+      updated.delete(tag);
+    } else {
+      updated.add(tag);
+    }
+    setSelectedTags(updated);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-[90vw] max-w-2xl h-[85vh] flex flex-col overflow-hidden">
+        <div className="p-4 flex justify-between items-center border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Manage Tags</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter tags..."
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {visibleTags.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">{tagCounts.length === 0 ? 'Your library has no tags yet' : 'No tags match'}</p>
+            </div>
+          ) : (
+            <ul className="space-y-1">
+              {visibleTags.map(({ tag, count }) => (
+                <li key={tag} className="group flex items-center gap-3 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-900">
+                  <input
+                    type="checkbox"
+                    checked={selectedTags.has(tag)}
+                    onChange={() => toggleSelected(tag)}
+                    className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                  />
+                  {editingTag === tag ? (
+                    <input
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={() => handleRename(tag)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename(tag);
+                        if (e.key === 'Escape') setEditingTag(null);
+                      }}
+                      className="flex-1 min-w-0 px-2 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
+                    />
+                  ) : (
+                    <span className="flex-1 text-sm text-gray-800 dark:text-gray-200 truncate">{tag}</span>
+                  )}
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{count}</span>
+                  <button
+                    onClick={() => {
+                      setEditingTag(tag);
+                      setEditingName(tag);
+                    }}
+                    title="Rename"
+                    className="p-1 text-gray-400 opacity-0 group-hover:opacity-100 hover:text-pink-600"
+                  >
+                    <PencilIcon className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <form onSubmit={handleMerge} className="p-4 flex items-center gap-3 border-t border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={mergeTarget}
+            onChange={(e) => setMergeTarget(e.target.value)}
+            placeholder={selectedTags.size > 1 ? 'Merge selected tags into...' : 'Select tags to merge'}
+            disabled={selectedTags.size < 2}
+            className="flex-1 px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={selectedTags.size < 2 || !mergeTarget.trim()}
+            className="px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50"
+          >
+            Merge ({selectedTags.size})
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
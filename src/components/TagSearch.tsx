@@ -0,0 +1,44 @@
+import React from 'react';
+import TagInput from './ui/TagInput';
+import { TagCount, formatTagToken, suggestTags } from '../utils/tagUtils';
+
+// The token being typed at the end of the query, with its +, - or tag: prefix
+const LAST_TOKEN_PATTERN = /(^|\s)([+-]|tag:)?(?:"([^"]*)|([^\s"]*))$/i;
+
+interface TagSearchProps {
+  value: string;
+  onChange: (value: string) => void;
+  tagCounts: TagCount[];
+}
+
+/**
+ * Library search box that completes tags; +tag or tag:tag requires a tag and -tag excludes it
+ */
+const TagSearch: React.FC<TagSearchProps> = ({ value, onChange, tagCounts }) => {
+  const match = value.match(LAST_TOKEN_PATTERN);
+  const partial = match ? match[3] ?? match[4] ?? '' : '';
+  const suggestions = suggestTags(tagCounts, partial);
+
+  const handleSelectSuggestion = (tag: string) => {
+    if (!match || match.index === undefined) return;
+    const [, leading, prefix] = match;
+    onChange(`${value.slice(0, match.index)}${leading}${formatTagToken(tag, prefix || 'tag:')} `);
+  };
+
+  return (
+    <div className="space-y-1">
+      <TagInput
+        value={value}
+        onChange={onChange}
+        suggestions={suggestions}
+        onSelectSuggestion={handleSelectSuggestion}
+        placeholder="Search library, +tag, -tag..."
+      />
+      <p className="text-xs text-gray-500 dark:text-gray-400">
+        Use +tag to require a tag and -tag to exclude one. Quote tags with spaces.
+      </p>
+    </div>
+  );
+};
+
+export default TagSearch;
@@ -86,11 +86,11 @@ const Todo: React.FC = () => {
             value={newTodoText}
             onChange={(e) => setNewTodoText(e.target.value)}
             placeholder={getMessage('addTodoPlaceholder')}
-            className="flex-grow px-4 py-2 border rounded-l focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600 dark:text-white"
+            className="flex-grow px-4 py-2 border rounded-l focus:outline-none focus:ring-2 focus:ring-accent dark:bg-gray-700 dark:border-gray-600 dark:text-white"
           />
           <button
             type="submit"
-            className="px-4 py-2 bg-blue-500 text-white rounded-r hover:bg-blue-600 transition-colors"
+            className="px-4 py-2 bg-accent text-accent-contrast rounded-r hover:bg-accent/80 transition-colors"
           >
             {getMessage('add')}
           </button>
@@ -103,7 +103,7 @@ const Todo: React.FC = () => {
           onClick={() => setFilter('all')}
           className={`px-4 py-2 ${
             filter === 'all'
-              ? 'border-b-2 border-blue-500 text-blue-500'
+              ? 'border-b-2 border-accent text-accent'
               : 'text-gray-600 dark:text-gray-400'
           }`}
         >
@@ -113,7 +113,7 @@ const Todo: React.FC = () => {
           onClick={() => setFilter('active')}
           className={`px-4 py-2 ${
             filter === 'active'
-              ? 'border-b-2 border-blue-500 text-blue-500'
+              ? 'border-b-2 border-accent text-accent'
               : 'text-gray-600 dark:text-gray-400'
           }`}
         >
@@ -123,7 +123,7 @@ const Todo: React.FC = () => {
           onClick={() => setFilter('completed')}
           className={`px-4 py-2 ${
             filter === 'completed'
-              ? 'border-b-2 border-blue-500 text-blue-500'
+              ? 'border-b-2 border-accent text-accent'
               : 'text-gray-600 dark:text-gray-400'
           }`}
         >
@@ -134,7 +134,7 @@ const Todo: React.FC = () => {
       {/* Loading state */}
       {isLoading && (
         <div className="flex justify-center py-4">
-          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-blue-500"></div>
+          <div className="animate-spin rounded-full h-6 w-6 border-t-2 border-b-2 border-accent"></div>
         </div>
       )}
       
@@ -159,7 +159,7 @@ const Todo: React.FC = () => {
                   type="checkbox"
                   checked={todo.completed}
                   onChange={() => handleToggleTodo(todo.id)}
-                  className="h-5 w-5 text-blue-500 rounded focus:ring-blue-500 dark:bg-gray-700"
+                  className="h-5 w-5 text-accent rounded focus:ring-accent dark:bg-gray-700"
                 />
                 <span
                   className={`ml-3 flex-grow ${
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from 'react';
+import storageService from '../services/storageService';
+import { getUserSettings } from '../services/providers/wallhavenProvider';
+
+/**
+ * Settings section for the Wallhaven API key and username.
+ * The key is stored in chrome.storage.local so it never syncs between browsers.
+ */
+const WallhavenAccountSettings: React.FC = () => {
+  const [apiKey, setApiKey] = useState('');
+  const [username, setUsername] = useState('');
+  const [hasAccount, setHasAccount] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState('');
+
+  // Load the saved account
+  useEffect(() => {
+    storageService.getWallhavenAccount().then(account => {
+      if (account) {
+        setApiKey(account.apiKey);
+        setUsername(account.username || '');
+        setHasAccount(true);
+      }
+    });
+  }, []);
+
+  const showMessage = (text: string) => {
+    setMessage(text);
+    setTimeout(() => setMessage(''), 3000);
+  };
+
+  const handleSave = async () => {
+    const trimmedKey = apiKey.trim();
+    if (!trimmedKey) {
+      showMessage('Enter an API key first.');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      // Make sure the key works before keeping it
+      const settings = await getUserSettings(trimmedKey);
+      await storageService.saveWallhavenAccount({
+        apiKey: trimmedKey,
+        username: username.trim() || undefined
+      });
+      setHasAccount(true);
+      showMessage(`API key saved. ${settings.tag_blacklist?.length || 0} blacklisted tags will be hidden.`);
+    } catch (error) {
+      console.error('Failed to verify Wallhaven API key:', error);
+      showMessage('Error: Wallhaven rejected this API key.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await storageService.saveWallhavenAccount(null);
+      setApiKey('');
+      setUsername('');
+      setHasAccount(false);
+      showMessage('API key removed.');
+    } catch (error) {
+      console.error('Failed to remove Wallhaven API key:', error);
+      showMessage('Error: Failed to remove API key.');
+    }
+  };
+
+  return (
+    <div className="setting-group">
+      <h3 className="text-lg font-medium text-white mb-2">Wallhaven Account</h3>
+
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="wallhavenApiKey" className="block text-sm text-white mb-1">API Key</label>
+          <input
+            id="wallhavenApiKey"
+            type="password"
+            autoComplete="off"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+            placeholder="From wallhaven.cc/settings/account"
+            className="w-full bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md focus:outline-none focus:border-pink-500"
+          />
+        </div>
+
+        <div>
+          <label htmlFor="wallhavenUsername" className="block text-sm text-white mb-1">Username</label>
+          <input
+            id="wallhavenUsername"
+            type="text"
+            autoComplete="off"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Needed to open your collections"
+            className="w-full bg-white/10 border border-white/20 text-white px-3 py-2 rounded-md focus:outline-none focus:border-pink-500"
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="flex-1 py-2 px-4 bg-pink-600/30 hover:bg-pink-600/50 rounded-md transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Checking...' : 'Save'}
+          </button>
+          {hasAccount && (
+            <button
+              onClick={handleClear}
+              className="py-2 px-4 bg-white/10 hover:bg-white/20 rounded-md transition-colors"
+            >
+              Remove
+            </button>
+          )}
+        </div>
+
+        <p className="text-sm text-white/60">
+          Required for NSFW results and your collections. Stored on this device only.
+        </p>
+
+        {message && (
+          <p className={`text-sm ${message.startsWith('Error') ? 'text-red-400' : 'text-green-400'}`}>
+            {message}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WallhavenAccountSettings;
@@ -0,0 +1,119 @@
+import React, { useEffect, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import { importWallhavenCollection } from '../store/slices/wallpaperSlice';
+import { getCollections } from '../services/providers/wallhavenProvider';
+import storageService from '../services/storageService';
+import { WallhavenCollection } from '../types/wallpaper';
+import { ArrowDownTrayIcon, FolderIcon } from '@heroicons/react/24/outline';
+
+interface WallhavenCollectionsProps {
+  onOpenCollection: (collection: WallhavenCollection) => void;
+}
+
+/**
+ * Lists the collections of the saved Wallhaven account, with buttons to browse or import them.
+ * Renders nothing when no API key is saved.
+ */
+const WallhavenCollections: React.FC<WallhavenCollectionsProps> = ({ onOpenCollection }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [collections, setCollections] = useState<WallhavenCollection[]>([]);
+  const [canOpen, setCanOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importingId, setImportingId] = useState<number | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const loadCollections = async () => {
+      const account = await storageService.getWallhavenAccount();
+      if (!account?.apiKey || isCancelled) {
+        return;
+      }
+
+      setCanOpen(!!account.username);
+      try {
+        const result = await getCollections();
+        if (!isCancelled) {
+          setCollections(result);
+        }
+      } catch (loadError) {
+        console.error('Failed to load Wallhaven collections:', loadError);
+        if (!isCancelled) {
+          setError('Could not load your collections');
+        }
+      }
+    };
+
+    loadCollections();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const handleImport = async (collection: WallhavenCollection) => {
+    setImportingId(collection.id);
+    try {
+      await dispatch(importWallhavenCollection(collection)).unwrap();
+    } catch (importError) {
+      // The thunk already shows a notification
+      console.error('Failed to import collection:', importError);
+    } finally {
+      setImportingId(null);
+    }
+  };
+
+  if (collections.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300">My Collections</h3>
+
+      {error && (
+        <p className="text-sm text-red-500">{error}</p>
+      )}
+
+      {!canOpen && collections.length > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Add your Wallhaven username in settings to open or import collections.
+        </p>
+      )}
+
+      <ul className="space-y-1">
+        {collections.map(collection => (
+          <li
+            key={collection.id}
+            className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-800"
+          >
+            <button
+              onClick={() => onOpenCollection(collection)}
+              disabled={!canOpen}
+              className="flex-1 flex items-center gap-2 text-left text-sm text-gray-700 dark:text-gray-300 hover:text-pink-600 disabled:hover:text-gray-700 disabled:cursor-not-allowed truncate"
+            >
+              <FolderIcon className="w-4 h-4 shrink-0" />
+              <span className="truncate">{collection.label}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">({collection.count})</span>
+            </button>
+            <button
+              onClick={() => handleImport(collection)}
+              disabled={!canOpen || importingId !== null}
+              title="Import into library"
+              className="p-1 text-gray-500 hover:text-pink-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {importingId === collection.id ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-2 border-pink-500 border-t-transparent"></div>
+              ) : (
+                <ArrowDownTrayIcon className="w-4 h-4" />
+              )}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default WallhavenCollections;
@@ -2,44 +2,126 @@ import React, { useEffect, useState, useRef } from 'react';
 import { useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { Wallpaper as WallpaperType } from '../types/wallpaper';
+import { useResolvedUrl } from '../hooks/useResolvedUrl';
+import { useViewportSize } from '../hooks/useViewportSize';
+import { usePlaybackAllowed } from '../hooks/usePlaybackAllowed';
+import { useReducedMotion } from '../hooks/useReducedMotion';
+import { WallpaperTransition } from '../store/slices/settingsSlice';
+import { getFramingStyle, getVideoFramingStyle, parseResolution } from '../utils/framingUtils';
+import { getOverlayBackground } from '../utils/overlayUtils';
+import { captureImageFrame } from '../utils/mediaUtils';
 
 // Simple placeholder image as data URL
 const placeholderImage = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwJSIgaGVpZ2h0PSIxMDAlIiB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciPjxyZWN0IHdpZHRoPSIxMDAlIiBoZWlnaHQ9IjEwMCUiIGZpbGw9IiMxMDEwMTAiLz48dGV4dCB4PSI1MCUiIHk9IjUwJSIgZm9udC1mYW1pbHk9IkFyaWFsIiBmb250LXNpemU9IjIwIiBmaWxsPSIjZmZmZmZmIiB0ZXh0LWFuY2hvcj0ibWlkZGxlIiBhbGlnbm1lbnQtYmFzZWxpbmU9Im1pZGRsZSI+Tm8gd2FsbHBhcGVyIGxvYWRlZDwvdGV4dD48L3N2Zz4=';
 
-interface WallpaperProps {
-  wallpaper: WallpaperType | null;
+// Length of one Ken Burns pan; it then pans back
+const KEN_BURNS_DURATION = 40;
+
+// Show a wallpaper that is still loading after this long anyway, rather than keep the old one forever
+const LOAD_TIMEOUT = 10000;
+
+interface WallpaperLayerProps {
+  wallpaper: WallpaperType;
+  onReady: () => void;
 }
 
-const Wallpaper: React.FC<WallpaperProps> = ({ wallpaper }) => {
+/**
+ * One wallpaper with its blur and overlay. Calls onReady once the image or video
+ * can be shown (or has failed to load), so it can be faded in over the previous one.
+ */
+const WallpaperLayer: React.FC<WallpaperLayerProps> = ({ wallpaper, onReady }) => {
   const [isLoaded, setIsLoaded] = useState(false);
   const [error, setError] = useState(false);
   const [imageDimensions, setImageDimensions] = useState<{ width: number, height: number } | null>(null);
+  const [stillFrameUrl, setStillFrameUrl] = useState<string | undefined>();
   const imageRef = useRef<HTMLImageElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const hasReportedReady = useRef(false);
+  
+  // Library images live in the blob store and are resolved to object URLs on demand
+  const imageUrl = useResolvedUrl(wallpaper?.path);
   
-  // Get blurAmount from settings
-  const { blurAmount, darknessAmount } = useSelector((state: RootState) => state.settings.wallpaperOverlay);
+  // A video's thumbnail is its poster frame
+  const isVideo = wallpaper.mediaType === 'video';
+  const isAnimated = wallpaper.mediaType === 'animated';
+  const posterUrl = useResolvedUrl(isVideo ? wallpaper.thumbnail : undefined);
+  const { videoMuted, videoLoop } = useSelector((state: RootState) => state.settings);
+  const isPlaybackAllowed = usePlaybackAllowed();
+  
+  // The wallpaper's own overlay wins over the default one from settings
+  const defaultOverlay = useSelector((state: RootState) => state.settings.wallpaperOverlay);
+  const { blurAmount, darknessAmount, type: overlayType } = wallpaper.overlay || defaultOverlay;
   const autoRotateHorizontal = useSelector((state: RootState) => state.settings.autoRotateHorizontal);
   
-  // Determine if image is horizontal and should be rotated
-  const shouldRotate = autoRotateHorizontal && imageDimensions && 
+  const viewport = useViewportSize();
+  
+  // Determine if image is horizontal and should be rotated; a framed wallpaper is
+  // already set up for the screen, so it is left as it is
+  const shouldRotate = autoRotateHorizontal && !wallpaper.framing && imageDimensions && 
     imageDimensions.width > imageDimensions.height && 
-    window.innerHeight > window.innerWidth;
+    viewport.height > viewport.width;
   
   // Log for debugging
   useEffect(() => {
     console.log(`Wallpaper blur amount: ${blurAmount} (type: ${typeof blurAmount})`);
-    console.log(`Darkness amount: ${darknessAmount} (type: ${typeof darknessAmount})`);
+    console.log(`Darkness amount: ${darknessAmount} (overlay: ${overlayType})`);
     console.log('Auto-rotate horizontal:', autoRotateHorizontal);
     if (imageDimensions) {
       console.log('Image dimensions:', imageDimensions);
       console.log('Should rotate:', shouldRotate);
     }
-  }, [blurAmount, darknessAmount, autoRotateHorizontal, imageDimensions, shouldRotate]);
+  }, [blurAmount, darknessAmount, overlayType, autoRotateHorizontal, imageDimensions, shouldRotate]);
+
+  // Pause videos while the tab is hidden or the battery is low
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    
+    if (isPlaybackAllowed) {
+      video.play().catch(error => console.warn('Video wallpaper could not start playing:', error));
+    } else {
+      video.pause();
+    }
+  }, [isPlaybackAllowed, imageUrl]);
+  
+  // GIFs and animated WebPs can't be paused, so their first frame stands in for them instead
+  useEffect(() => {
+    if (!isAnimated || !imageUrl || isPlaybackAllowed) {
+      setStillFrameUrl(undefined);
+      return;
+    }
+    
+    let isCancelled = false;
+    let frameUrl: string | undefined;
+    captureImageFrame(imageUrl)
+      .then(frame => {
+        if (isCancelled) return;
+        frameUrl = URL.createObjectURL(frame);
+        setStillFrameUrl(frameUrl);
+      })
+      .catch(error => console.error('Failed to capture wallpaper frame:', error));
+    
+    return () => {
+      isCancelled = true;
+      if (frameUrl) {
+        URL.revokeObjectURL(frameUrl);
+      }
+    };
+  }, [isAnimated, imageUrl, isPlaybackAllowed]);
+
+  // Report the layer as ready only once, even if the image reloads
+  const reportReady = () => {
+    if (!hasReportedReady.current) {
+      hasReportedReady.current = true;
+      onReady();
+    }
+  };
 
   // Handle image load
   const handleImageLoad = () => {
     setIsLoaded(true);
     setError(false);
+    reportReady();
     
     // Get image dimensions
     if (imageRef.current) {
@@ -55,15 +137,19 @@ const Wallpaper: React.FC<WallpaperProps> = ({ wallpaper }) => {
     console.error('Failed to load wallpaper image');
     setError(true);
     setIsLoaded(false);
+    reportReady();
   };
 
   // Main style for the background image
   const getBackgroundStyle = () => {
     let styles: React.CSSProperties = {
-      backgroundImage: `url(${wallpaper?.path || placeholderImage})`,
-      backgroundSize: 'cover',
-      backgroundPosition: 'center',
-      position: 'fixed',
+      backgroundImage: `url(${stillFrameUrl || imageUrl || placeholderImage})`,
+      ...getFramingStyle(
+        wallpaper.framing,
+        imageDimensions || parseResolution(wallpaper.resolution),
+        viewport
+      ),
+      position: 'absolute',
       top: 0,
       left: 0,
       width: '100%',
@@ -84,12 +170,6 @@ const Wallpaper: React.FC<WallpaperProps> = ({ wallpaper }) => {
       console.log('No blur applied (blur is 0 or less)');
     }
     
-    // Apply darkness overlay
-    if (darknessAmount > 0) {
-      styles.backgroundColor = `rgba(0, 0, 0, ${darknessAmount / 100})`;
-      styles.backgroundBlendMode = 'darken';
-    }
-    
     // Apply rotation for horizontal images if needed
     if (shouldRotate) {
       styles.transform = 'rotate(90deg) scale(1.5)';
@@ -99,45 +179,194 @@ const Wallpaper: React.FC<WallpaperProps> = ({ wallpaper }) => {
     return styles;
   };
   
-  // If no wallpaper is provided, show placeholder or nothing
-  if (!wallpaper) {
+  // Videos play in their own element, fitted with object-fit instead of background sizing
+  if (isVideo) {
+    const numericBlurAmount = Number(blurAmount);
+    
     return (
-      <div
-        className="fixed inset-0 z-0"
-        style={{
-          backgroundImage: `url(${placeholderImage})`,
-          backgroundSize: 'cover',
-          backgroundPosition: 'center',
-        }}
-      />
+      <>
+        {imageUrl && (
+          <video
+            ref={videoRef}
+            key={imageUrl}
+            src={imageUrl}
+            poster={posterUrl}
+            autoPlay={isPlaybackAllowed}
+            muted={videoMuted}
+            loop={videoLoop}
+            playsInline
+            onLoadedData={reportReady}
+            onError={handleImageError}
+            className="absolute inset-0 w-full h-full bg-black"
+            style={{
+              ...getVideoFramingStyle(wallpaper.framing),
+              filter: numericBlurAmount > 0 ? `blur(${numericBlurAmount}px)` : undefined,
+              transition: 'filter 0.5s ease',
+            }}
+          />
+        )}
+        
+        <div
+          className="absolute inset-0 pointer-events-none"
+          style={{
+            background: getOverlayBackground(overlayType || 'solid', darknessAmount),
+          }}
+        />
+      </>
     );
   }
 
   return (
     <>
       {/* Hidden image for preloading and getting dimensions */}
-      <img
-        ref={imageRef}
-        src={wallpaper.path}
-        alt="Wallpaper"
-        className="sr-only"
-        onLoad={handleImageLoad}
-        onError={handleImageError}
-      />
+      {imageUrl && (
+        <img
+          ref={imageRef}
+          src={imageUrl}
+          alt="Wallpaper"
+          className="sr-only"
+          onLoad={handleImageLoad}
+          onError={handleImageError}
+        />
+      )}
       
       {/* Actual background wallpaper */}
       <div
-        className="fixed inset-0 z-0"
+        className="absolute inset-0"
         style={getBackgroundStyle()}
       />
       
       {/* Darkness overlay - separate from blur for better performance */}
       <div
-        className="fixed inset-0 z-0 pointer-events-none"
+        className="absolute inset-0 pointer-events-none"
+        style={{
+          background: getOverlayBackground(overlayType || 'solid', darknessAmount),
+        }}
+      />
+    </>
+  );
+};
+
+/**
+ * CSS animation that brings a new wallpaper in over the previous one
+ */
+const getEnterAnimation = (transition: WallpaperTransition, duration: number): string | undefined => {
+  switch (transition) {
+    case 'fade':
+    case 'kenBurns':
+      return `wallpaper-fade-in ${duration}s ease-in-out both`;
+    case 'slide':
+      return `wallpaper-slide-in ${duration}s ease-out both`;
+    case 'zoom':
+      return `wallpaper-zoom-in ${duration}s ease-out both`;
+    default:
+      return undefined;
+  }
+};
+
+interface WallpaperLayerState {
+  key: number;
+  wallpaper: WallpaperType;
+  isReady: boolean;
+}
+
+interface WallpaperProps {
+  wallpaper: WallpaperType | null;
+}
+
+/**
+ * Full-screen wallpaper. A new wallpaper loads in a hidden layer on top of the shown
+ * one and is only brought in with the chosen transition once it has loaded.
+ */
+const Wallpaper: React.FC<WallpaperProps> = ({ wallpaper }) => {
+  const { wallpaperTransition, transitionDuration } = useSelector((state: RootState) => state.settings);
+  const prefersReducedMotion = useReducedMotion();
+  const [layers, setLayers] = useState<WallpaperLayerState[]>([]);
+  const nextKey = useRef(0);
+  const cleanupTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Movement is left out for reduced motion; a plain fade stands in for it
+  const transition: WallpaperTransition = prefersReducedMotion && wallpaperTransition !== 'none'
+    ? 'fade'
+    : wallpaperTransition || 'fade';
+  const duration = Number(transitionDuration) || 1;
+
+  // Queue a changed wallpaper as a new layer; settings changes on the same one update it in place
+  useEffect(() => {
+    if (!wallpaper) {
+      setLayers([]);
+      return;
+    }
+
+    setLayers(current => {
+      const top = current[current.length - 1];
+      if (top && top.wallpaper.id === wallpaper.id && top.wallpaper.path === wallpaper.path) {
+        return [...current.slice(0, -1), { ...top, wallpaper }];
+      }
+
+      // Drop layers that never got to load; the one being shown stays underneath
+      const shown = current.filter(layer => layer.isReady).slice(-1);
+      return [...shown, { key: nextKey.current++, wallpaper, isReady: false }];
+    });
+  }, [wallpaper]);
+
+  useEffect(() => () => clearTimeout(cleanupTimer.current), []);
+
+  const handleReady = (key: number) => {
+    setLayers(current => current.map(layer => (layer.key === key ? { ...layer, isReady: true } : layer)));
+
+    // Once the new layer has fully come in, the ones under it can go
+    clearTimeout(cleanupTimer.current);
+    cleanupTimer.current = setTimeout(() => {
+      setLayers(current => {
+        const index = current.findIndex(layer => layer.key === key);
+        return index > 0 ? current.slice(index) : current;
+      });
+    }, transition === 'none' ? 0 : duration * 1000);
+  };
+
+  // Don't hold on to the old wallpaper forever if the new one never loads
+  const pendingKey = layers.find(layer => !layer.isReady)?.key;
+  useEffect(() => {
+    if (pendingKey === undefined) return;
+    const timer = setTimeout(() => handleReady(pendingKey), LOAD_TIMEOUT);
+    return () => clearTimeout(timer);
+  }, [pendingKey]);
+
+  // If no wallpaper is provided, show placeholder or nothing
+  if (!wallpaper) {
+    return (
+      <div
+        className="fixed inset-0 z-0"
         style={{
-          backgroundColor: `rgba(0, 0, 0, ${darknessAmount / 100})`,
+          backgroundImage: `url(${placeholderImage})`,
+          backgroundSize: 'cover',
+          backgroundPosition: 'center',
         }}
       />
+    );
+  }
+
+  return (
+    <>
+      {layers.map(layer => (
+        <div
+          key={layer.key}
+          className="fixed inset-0 z-0 overflow-hidden bg-black"
+          style={layer.isReady
+            ? { animation: getEnterAnimation(transition, duration) }
+            : { visibility: 'hidden' }}
+        >
+          <div
+            className="absolute inset-0"
+            style={transition === 'kenBurns'
+              ? { animation: `wallpaper-ken-burns ${KEN_BURNS_DURATION}s ease-in-out infinite alternate` }
+              : undefined}
+          >
+            <WallpaperLayer wallpaper={layer.wallpaper} onReady={() => handleReady(layer.key)} />
+          </div>
+        </div>
+      ))}
     </>
   );
 };
@@ -1,16 +1,38 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
 import { RootState } from '../store';
 import { AppDispatch } from '../store';
 import { fetchWallpapers, fetchLibrary, setCurrentWallpaper, addToLibrary, removeFromLibrary, shuffleWallpaper } from '../store/slices/wallpaperSlice';
 import { showNotification } from '../store/slices/notificationSlice';
-import { setBrowseNsfwFilter } from '../store/slices/settingsSlice';
-import { Wallpaper } from '../types/wallpaper';
-import { XMarkIcon, ArrowPathIcon, HeartIcon, MagnifyingGlassIcon, FunnelIcon, ArrowDownTrayIcon, TrashIcon, PhotoIcon } from '@heroicons/react/24/outline';
-import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid';
+import { setBrowseNsfwFilter, setBrowseProvider, WallpaperFilters } from '../store/slices/settingsSlice';
+import { Wallpaper, WallhavenCollection } from '../types/wallpaper';
+import { XMarkIcon, ArrowPathIcon, HeartIcon, MagnifyingGlassIcon, FunnelIcon, ArrowDownTrayIcon, TrashIcon, PhotoIcon, Square2StackIcon, TagIcon, CheckCircleIcon, ViewfinderCircleIcon, GifIcon, ClockIcon, ExclamationTriangleIcon } from '@heroicons/react/24/outline';
+import { HeartIcon as HeartIconSolid, CheckCircleIcon as CheckCircleIconSolid, StarIcon as StarIconSolid, PlayIcon as PlayIconSolid } from '@heroicons/react/24/solid';
 import WallpaperDetails from './WallpaperDetails';
+import WallpaperFramingEditor from './WallpaperFramingEditor';
 import wallpaperService, { handleFileUpload } from '../services/wallpaperService';
 import storageService from '../services/storageService';
+import blobStorageService, { isStoredRef } from '../services/blobStorageService';
+import StoredImage from './ui/StoredImage';
+import StoredVideo from './ui/StoredVideo';
+import { UPLOAD_ACCEPT, isSupportedUpload } from '../utils/mediaUtils';
+import { getProvider, getProviders } from '../services/providers';
+import { ProviderFilterField } from '../types/provider';
+import { WALLHAVEN_COLORS, WALLHAVEN_PROVIDER_ID } from '../services/providers/wallhavenProvider';
+import WallhavenCollections from './WallhavenCollections';
+import LibraryCollections from './LibraryCollections';
+import DuplicateFinder from './DuplicateFinder';
+import WallpaperHistory from './WallpaperHistory';
+import SavedSearches, { ALL_SUBSCRIPTIONS_FEED } from './SavedSearches';
+import { markSearchVisited } from '../store/slices/savedSearchSlice';
+import { SavedSearch } from '../types/savedSearch';
+import TagSearch from './TagSearch';
+import TagEditor from './TagEditor';
+import TagManager from './TagManager';
+import BulkActionBar from './BulkActionBar';
+import useVirtualGrid from '../hooks/useVirtualGrid';
+import tagService from '../services/tagService';
+import { toggleWallpaperInCollection } from '../store/slices/collectionSlice';
 
 type BrowserView = 'browse' | 'library';
 
@@ -29,6 +51,7 @@ interface FilterOptions {
   sorting?: string;
   order?: 'asc' | 'desc';
   purity?: string[];
+  colors?: string;
 }
 
 // Define interface for detailed view
@@ -38,6 +61,7 @@ interface DetailedWallpaperViewProps {
   onAddToLibrary: (wallpaper: Wallpaper) => void;
   onSetAsWallpaper: (wallpaper: Wallpaper) => void;
   onDownload: (wallpaper: Wallpaper, e: React.MouseEvent) => void;
+  onSelectPage: (wallpaper: Wallpaper) => void;
   isInLibrary: boolean;
 }
 
@@ -48,8 +72,41 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
   onAddToLibrary,
   onSetAsWallpaper,
   onDownload,
+  onSelectPage,
   isInLibrary
 }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { collections } = useSelector((state: RootState) => state.collections);
+  const { library } = useSelector((state: RootState) => state.wallpaper);
+  const [pages, setPages] = useState<Wallpaper[]>([]);
+  const [isEditingFraming, setIsEditingFraming] = useState(false);
+  // Framing is saved on the library copy, which may be newer than the one passed in
+  const libraryWallpaper = library.find(w => w.id === wallpaper.id);
+
+  // Load the pages of multi-page works (this also swaps search previews for the original image)
+  useEffect(() => {
+    setPages([]);
+    setIsEditingFraming(false);
+    if (!wallpaper.info?.pageCount || isStoredRef(wallpaper.path)) {
+      return;
+    }
+
+    let isCancelled = false;
+    wallpaperService.getWallpaperPages(wallpaper).then(loadedPages => {
+      if (isCancelled) return;
+      setPages(loadedPages);
+
+      const currentPage = loadedPages.find(page => page.id === wallpaper.id);
+      if (currentPage && currentPage.path !== wallpaper.path) {
+        onSelectPage(currentPage);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [wallpaper.id]);
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-[90vw] max-w-5xl h-[85vh] flex flex-col overflow-hidden transform transition-all duration-300 ease-in-out">
@@ -66,16 +123,32 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
           </button>
         </div>
         
+        {isEditingFraming && libraryWallpaper && (
+          <WallpaperFramingEditor wallpaper={libraryWallpaper} onClose={() => setIsEditingFraming(false)} />
+        )}
+
         {/* Image and details content */}
-        <div className="flex flex-col lg:flex-row flex-1 overflow-hidden">
+        <div className={`flex flex-col lg:flex-row flex-1 overflow-hidden ${isEditingFraming && libraryWallpaper ? 'hidden' : ''}`}>
           {/* Image container */}
           <div className="flex-1 min-h-[300px] flex items-center justify-center p-4 bg-black/10 dark:bg-black/30 overflow-hidden">
-            <img 
-              src={wallpaper.path} 
-              alt={wallpaper.info?.title || 'Wallpaper'} 
-              className="max-w-full max-h-full object-contain shadow-lg rounded"
-              loading="lazy"
-            />
+            {wallpaper.mediaType === 'video' ? (
+              <StoredVideo
+                src={wallpaper.path}
+                poster={wallpaper.thumbnail}
+                className="max-w-full max-h-full object-contain shadow-lg rounded"
+                controls
+                autoPlay
+                muted
+                loop
+              />
+            ) : (
+              <StoredImage 
+                src={wallpaper.path} 
+                alt={wallpaper.info?.title || 'Wallpaper'} 
+                className="max-w-full max-h-full object-contain shadow-lg rounded"
+                loading="lazy"
+              />
+            )}
           </div>
           
           {/* Details panel */}
@@ -87,6 +160,25 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
                 <p className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">{wallpaper.resolution}</p>
               </div>
               
+              {/* Artist credit */}
+              {wallpaper.info?.artist && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Artist</h3>
+                  {wallpaper.info.artist.url ? (
+                    <a
+                      href={wallpaper.info.artist.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-1 block text-pink-600 hover:text-pink-700 dark:text-pink-400 dark:hover:text-pink-300"
+                    >
+                      {wallpaper.info.artist.name}
+                    </a>
+                  ) : (
+                    <p className="mt-1 text-gray-900 dark:text-white">{wallpaper.info.artist.name}</p>
+                  )}
+                </div>
+              )}
+
               {/* Source */}
               {wallpaper.info?.source && (
                 <div>
@@ -94,6 +186,31 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
                   <p className="mt-1 text-gray-900 dark:text-white">{wallpaper.info.source}</p>
                 </div>
               )}
+
+              {/* Pages of multi-page works */}
+              {pages.length > 1 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Pages</h3>
+                  <div className="mt-2 grid grid-cols-4 gap-2">
+                    {pages.map((page, index) => (
+                      <button
+                        key={page.id}
+                        onClick={() => onSelectPage(page)}
+                        className={`aspect-square rounded overflow-hidden border-2 ${
+                          page.id === wallpaper.id ? 'border-pink-500' : 'border-transparent hover:border-pink-300'
+                        }`}
+                      >
+                        <StoredImage
+                          src={page.thumbnail}
+                          alt={`Page ${index + 1}`}
+                          className="w-full h-full object-cover"
+                          loading="lazy"
+                        />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
               
               {/* Description */}
               {wallpaper.info?.description && (
@@ -120,6 +237,29 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
                 </div>
               )}
               
+              {/* Library collections */}
+              {isInLibrary && collections.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Collections</h3>
+                  <div className="mt-2 space-y-1">
+                    {collections.map(collection => (
+                      <label key={collection.id} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                        <input
+                          type="checkbox"
+                          checked={collection.wallpaperIds.includes(wallpaper.id)}
+                          onChange={() => dispatch(toggleWallpaperInCollection({
+                            collectionId: collection.id,
+                            wallpaperId: wallpaper.id
+                          }))}
+                          className="h-4 w-4 text-pink-600 focus:ring-pink-500 border-gray-300 rounded"
+                        />
+                        <span className="truncate">{collection.name}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* File information for local files */}
               {wallpaper.sourceType === 'local' && wallpaper.info?.fileSize && (
                 <div>
@@ -170,6 +310,16 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
                   <ArrowDownTrayIcon className="w-5 h-5" />
                   <span>Download</span>
                 </button>
+
+                {libraryWallpaper && (
+                  <button
+                    onClick={() => setIsEditingFraming(true)}
+                    className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
+                  >
+                    <ViewfinderCircleIcon className="w-5 h-5" />
+                    <span>{libraryWallpaper.framing ? 'Edit Framing' : 'Adjust Framing'}</span>
+                  </button>
+                )}
               </div>
             </div>
           </div>
@@ -179,15 +329,172 @@ const DetailedWallpaperView: React.FC<DetailedWallpaperViewProps> = ({
   );
 };
 
+interface ColorFilterPickerProps {
+  label: string;
+  value?: string;
+  swatches: string[];
+  onChange: (value: string | undefined) => void;
+}
+
+// Swatches plus a free colour input; clicking the selected swatch clears it
+const ColorFilterPicker: React.FC<ColorFilterPickerProps> = ({ label, value, swatches, onChange }) => {
+  const isCustom = !!value && !swatches.some(color => color.toLowerCase() === value.toLowerCase());
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          {label}
+        </label>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange(undefined)}
+            className="text-xs text-pink-600 hover:text-pink-700 dark:text-pink-400"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1.5">
+        {swatches.map(color => (
+          <button
+            key={color}
+            type="button"
+            title={color}
+            onClick={() => onChange(value?.toLowerCase() === color.toLowerCase() ? undefined : color)}
+            className={`w-6 h-6 rounded-full border border-gray-300 dark:border-gray-600 ${
+              value?.toLowerCase() === color.toLowerCase() ? 'ring-2 ring-pink-500 ring-offset-1 dark:ring-offset-gray-800' : ''
+            }`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+        <label
+          title="Pick any colour"
+          className={`relative flex items-center justify-center w-6 h-6 rounded-full border border-dashed border-gray-400 text-xs text-gray-500 cursor-pointer ${
+            isCustom ? 'ring-2 ring-pink-500 ring-offset-1 dark:ring-offset-gray-800' : ''
+          }`}
+          style={isCustom ? { backgroundColor: value } : undefined}
+        >
+          {!isCustom && '+'}
+          <input
+            type="color"
+            value={value || '#ffffff'}
+            onChange={(e) => onChange(e.target.value)}
+            className="absolute inset-0 opacity-0 cursor-pointer"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+interface ProviderFilterSelectProps {
+  field: ProviderFilterField;
+  value?: string | string[];
+  onChange: (value: string | string[] | undefined) => void;
+}
+
+// Renders one filter from a provider's filter schema
+const ProviderFilterSelect: React.FC<ProviderFilterSelectProps> = ({ field, value, onChange }) => {
+  if (field.type === 'color') {
+    return (
+      <ColorFilterPicker
+        label={field.label}
+        value={typeof value === 'string' ? value : undefined}
+        swatches={field.options.map(option => option.value)}
+        onChange={onChange}
+      />
+    );
+  }
+
+  const isMulti = field.type === 'multiselect';
+  const currentValue = value ?? field.defaultValue ?? (isMulti ? [] : '');
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {field.label}
+      </label>
+      <select
+        multiple={isMulti}
+        value={currentValue}
+        onChange={(e) => {
+          if (isMulti) {
+            onChange(Array.from(e.target.selectedOptions).map(option => option.value));
+          } else {
+            onChange(e.target.value || undefined);
+          }
+        }}
+        className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800"
+      >
+        {field.options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+/**
+ * Where the browser was when it was last closed; reopening it, even after the page was
+ * reloaded, picks up from there instead of starting a new search
+ */
+interface BrowserSession {
+  view: BrowserView;
+  searchQuery: string;
+  filters: FilterOptions;
+  feedId: string | null;
+  selectedCollectionId: string | null;
+  librarySearch: string;
+  libraryColor?: string;
+  scrollTop: number;
+}
+
+// Kept in session storage for the rest of the browser session
+const SESSION_STORAGE_KEY = 'wallpaperBrowserSession';
+
+// Undefined until read from session storage
+let lastSession: BrowserSession | null | undefined;
+
+/**
+ * Reads the last session from session storage, once per page
+ */
+const loadLastSession = async (): Promise<void> => {
+  if (lastSession !== undefined) {
+    return;
+  }
+  try {
+    const result = await chrome.storage.session.get(SESSION_STORAGE_KEY);
+    lastSession = result[SESSION_STORAGE_KEY] || null;
+  } catch (error) {
+    console.error('Failed to load wallpaper browser session:', error);
+    lastSession = null;
+  }
+};
+
+/**
+ * Remembers the session for this page and writes it to session storage
+ */
+const saveLastSession = (session: BrowserSession) => {
+  lastSession = session;
+  chrome.storage.session.set({ [SESSION_STORAGE_KEY]: session }).catch(error => {
+    console.error('Failed to save wallpaper browser session:', error);
+  });
+};
+
 const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWallpaper }) => {
   const dispatch = useDispatch<AppDispatch>();
   const { wallpapers, library, isLoading, error, currentPage, lastPage } = useSelector((state: RootState) => state.wallpaper);
-  const { wallpaperFilters, browseNsfwFilter } = useSelector((state: RootState) => state.settings);
-  const [currentView, setCurrentView] = useState<BrowserView>('browse');
+  const { wallpaperFilters, browseNsfwFilter, browseProvider } = useSelector((state: RootState) => state.settings);
+  const { collections } = useSelector((state: RootState) => state.collections);
+  const { searches: savedSearches, feed } = useSelector((state: RootState) => state.savedSearches);
+  const provider = getProvider(browseProvider);
+  const [currentView, setCurrentView] = useState<BrowserView>(lastSession?.view || 'browse');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(lastSession?.searchQuery || '');
   const [showFilters, setShowFilters] = useState(false);
-  const [filters, setFilters] = useState<FilterOptions>({
+  const [filters, setFilters] = useState<FilterOptions>(lastSession?.filters || {
     resolution: undefined,
     minWidth: undefined,
     minHeight: undefined,
@@ -204,6 +511,22 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
   const [isLoadingSearch, setIsLoadingSearch] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [isSettingWallpaper, setIsSettingWallpaper] = useState(false);
+  const [selectedCollectionId, setSelectedCollectionId] = useState<string | null>(lastSession?.selectedCollectionId || null);
+  const [showDuplicateFinder, setShowDuplicateFinder] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [libraryColor, setLibraryColor] = useState<string | undefined>(lastSession?.libraryColor);
+  const [feedId, setFeedId] = useState<string | null>(lastSession?.feedId || null);
+  const [librarySearch, setLibrarySearch] = useState(lastSession?.librarySearch || '');
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [selectionAnchorId, setSelectionAnchorId] = useState<string | null>(null);
+  const [showTagEditor, setShowTagEditor] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const scrollTopRef = useRef(lastSession?.scrollTop || 0);
+  const pendingScrollTop = useRef<number | null>(lastSession?.scrollTop || null);
+  // Search results are still in the store when reopening, so the first search is skipped
+  const skipInitialSearch = useRef(lastSession?.view === 'browse' && wallpapers.length > 0);
 
   // Ensure the default browseNsfwFilter is set to 'off' when component first loads
   useEffect(() => {
@@ -226,18 +549,50 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     }));
     
     // Force refresh to apply filter changes
-    if (currentView === 'browse') {
+    if (currentView === 'browse' && !skipInitialSearch.current) {
       handleSearch();
     }
   }, [browseNsfwFilter]);
 
   useEffect(() => {
     if (currentView === 'browse') {
-      handleSearch();
+      if (!skipInitialSearch.current) {
+        handleSearch();
+      }
     } else {
       dispatch(fetchLibrary());
     }
-  }, [dispatch, currentView, browseNsfwFilter]);
+  }, [dispatch, currentView, browseNsfwFilter, browseProvider]);
+
+  useEffect(() => {
+    skipInitialSearch.current = false;
+  }, []);
+
+  // Remember where the browser was for the next time it opens
+  const sessionRef = useRef<BrowserSession | null>(null);
+  sessionRef.current = {
+    view: currentView,
+    searchQuery,
+    filters,
+    feedId,
+    selectedCollectionId,
+    librarySearch,
+    libraryColor,
+    scrollTop: 0
+  };
+  useEffect(() => {
+    // Closing or reloading the page doesn't unmount the browser
+    const saveSession = () => {
+      if (sessionRef.current) {
+        saveLastSession({ ...sessionRef.current, scrollTop: scrollTopRef.current });
+      }
+    };
+    window.addEventListener('pagehide', saveSession);
+    return () => {
+      window.removeEventListener('pagehide', saveSession);
+      saveSession();
+    };
+  }, []);
 
   const handleRefreshWallpapers = () => {
     if (currentView === 'browse') {
@@ -247,8 +602,103 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     }
   };
 
+  // Shows the wallpapers of one of the user's Wallhaven collections
+  const handleOpenCollection = async (collection: WallhavenCollection) => {
+    const query = `collection:${collection.id}`;
+    setSearchQuery(query);
+    setFeedId(null);
+    setIsLoadingSearch(true);
+    
+    try {
+      await dispatch(fetchWallpapers({
+        query,
+        page: 1,
+        filters: {
+          nsfw: browseNsfwFilter === 'allowed' || browseNsfwFilter === 'only',
+          nsfwMode: browseNsfwFilter
+        },
+        provider: WALLHAVEN_PROVIDER_ID
+      })).unwrap();
+    } catch (error) {
+      console.error('Failed to open collection:', error);
+      dispatch(showNotification({
+        type: 'error',
+        message: 'Failed to open collection. Please try again.'
+      }));
+    } finally {
+      setIsLoadingSearch(false);
+    }
+  };
+
+  // Library wallpapers in the selected collection matching the tag search, in library
+  // order, or closest first when searching by colour
+  const tagCounts = useMemo(() => tagService.getTagCounts(library), [library]);
+  const selectedCollection = collections.find(c => c.id === selectedCollectionId);
+  const collectionLibrary = selectedCollection
+    ? library.filter(w => selectedCollection.wallpaperIds.includes(w.id))
+    : library;
+  const searchedLibrary = tagService.searchLibrary(collectionLibrary, librarySearch);
+  const visibleLibrary = libraryColor
+    ? wallpaperService.searchByColor(searchedLibrary, libraryColor)
+    : searchedLibrary;
+
+  // Subscription wallpapers shown instead of search results while a feed is open
+  const feedSearch = savedSearches.find(s => s.id === feedId);
+  const feedWallpapers = Array.from(new Map(
+    feed
+      .filter(item => feedId === ALL_SUBSCRIPTIONS_FEED || item.searchId === feedId)
+      .map(item => [item.wallpaper.id, item.wallpaper] as [string, Wallpaper])
+  ).values());
+  const browseWallpapers = feedId !== null ? feedWallpapers : wallpapers;
+  const gridWallpapers = currentView === 'browse' ? browseWallpapers : visibleLibrary;
+
+  // Selected wallpapers, using the library copy of a browse result once it has been added
+  const libraryById = new Map(library.map(w => [w.id, w] as [string, Wallpaper]));
+  const selectedWallpapers = (currentView === 'browse' ? browseWallpapers : library)
+    .filter(w => selectedIds.has(w.id))
+    .map(w => libraryById.get(w.id) || w);
+
+  const toggleSelected = (id: string) => {
+    const updated = new Set(selectedIds);
+    if (updated.has(id)) {
+      updated.delete(id);
+    } else {
+      updated.add(id);
+    }
+    setSelectedIds(updated);
+  };
+
+  // Selects every wallpaper between the last clicked one and this one
+  const selectRange = (id: string) => {
+    const ids = gridWallpapers.map(w => w.id);
+    const from = selectionAnchorId ? ids.indexOf(selectionAnchorId) : -1;
+    const to = ids.indexOf(id);
+    if (from === -1) {
+      toggleSelected(id);
+      setSelectionAnchorId(id);
+      return;
+    }
+    setSelectedIds(new Set([...selectedIds, ...ids.slice(Math.min(from, to), Math.max(from, to) + 1)]));
+  };
+
+  const clearSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+    setSelectionAnchorId(null);
+    setShowTagEditor(false);
+  };
+
+  const handleToggleSelecting = () => {
+    if (isSelecting) {
+      clearSelection();
+    } else {
+      setIsSelecting(true);
+    }
+  };
+
   const handleViewChange = (view: BrowserView) => {
     setCurrentView(view);
+    clearSelection();
   };
 
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -267,11 +717,11 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     
     console.log(`Starting upload process for file: ${file.name} (${Math.round(file.size / 1024)} KB, type: ${file.type})`);
     
-    // Check if file is an image
-    if (!file.type.startsWith('image/')) {
-      setUploadError('Please select an image file');
+    // Check if file is an image or a supported video
+    if (!isSupportedUpload(file.type)) {
+      setUploadError('Please select an image or an MP4/WebM video');
       setUploadProgress(null);
-      console.error('File is not an image:', file.type);
+      console.error('File is not an image or video:', file.type);
       return;
     }
     
@@ -338,7 +788,7 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
         await dispatch(addToLibrary(wallpaper)).unwrap();
       }
       
-      await dispatch(setCurrentWallpaper(wallpaper)).unwrap();
+      await dispatch(setCurrentWallpaper({ wallpaper })).unwrap();
       
       if (onSelectWallpaper) {
         onSelectWallpaper(wallpaper);
@@ -386,7 +836,7 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
   const handleDownload = async (wallpaper: Wallpaper, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      const response = await fetch(wallpaper.path);
+      const response = await fetch(await blobStorageService.resolveUrl(wallpaper.path));
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -401,21 +851,44 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     }
   };
 
+  // Values of the filters the current provider understands, falling back to the schema defaults
+  const getProviderFilterValues = (): Partial<WallpaperFilters> => {
+    return provider.filterSchema.reduce((values, field) => {
+      const value = (filters as Record<string, unknown>)[field.key] ?? field.defaultValue;
+      return value === undefined || value === '' ? values : { ...values, [field.key]: value };
+    }, {} as Partial<WallpaperFilters>);
+  };
+
+  const handleProviderChange = (providerId: string) => {
+    const nextProvider = getProvider(providerId);
+    // Drop filter values that only made sense for the previous provider
+    const resetFilters = provider.filterSchema.reduce((values, field) => ({ ...values, [field.key]: undefined }), {} as Partial<FilterOptions>);
+    nextProvider.filterSchema.forEach(field => {
+      (resetFilters as Record<string, unknown>)[field.key] = field.defaultValue;
+    });
+    setFilters(prev => ({ ...prev, ...resetFilters }));
+    dispatch(setBrowseProvider(nextProvider.id));
+  };
+
+  // Filters sent with browse searches, also what a saved search captures
+  const getSearchFilters = (): Partial<WallpaperFilters> => ({
+    order: filters.order,
+    categories: filters.categories || ['general', 'anime'],
+    nsfw: provider.capabilities.nsfw && (browseNsfwFilter === 'allowed' || browseNsfwFilter === 'only'),
+    nsfwMode: provider.capabilities.nsfw ? browseNsfwFilter : 'off',
+    ...getProviderFilterValues()
+  });
+
   const handleSearch = useCallback(async () => {
     setIsLoadingSearch(true);
+    setFeedId(null);
     
     // Build search parameters
     const params = {
       page: 1,
       query: searchQuery,
-      filters: {
-        sorting: filters.sorting,
-        order: filters.order,
-        categories: filters.categories || ['general', 'anime'],
-        nsfw: browseNsfwFilter === 'allowed' || browseNsfwFilter === 'only',
-        nsfwMode: browseNsfwFilter,
-        resolution: filters.resolution
-      }
+      filters: getSearchFilters(),
+      provider: provider.id
     };
     
     console.log('Searching with params:', params, 'Current NSFW mode:', browseNsfwFilter);
@@ -431,7 +904,7 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     } finally {
       setIsLoadingSearch(false);
     }
-  }, [dispatch, searchQuery, filters, browseNsfwFilter]);
+  }, [dispatch, searchQuery, filters, browseNsfwFilter, provider]);
 
   // Add a function to load more wallpapers
   const handleLoadMore = async () => {
@@ -443,14 +916,8 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     const params = {
       page: currentPage + 1,
       query: searchQuery,
-      filters: {
-        sorting: filters.sorting,
-        order: filters.order,
-        categories: filters.categories || ['general', 'anime'],
-        nsfw: browseNsfwFilter === 'allowed' || browseNsfwFilter === 'only',
-        nsfwMode: browseNsfwFilter,
-        resolution: filters.resolution
-      },
+      filters: getSearchFilters(),
+      provider: provider.id,
       append: true // Indicate that we want to append to existing wallpapers
     };
     
@@ -469,6 +936,67 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     }
   };
 
+  // Only the cards near the viewport are mounted; browse results load the next page near the end
+  const virtualGrid = useVirtualGrid({
+    itemCount: gridWallpapers.length,
+    scrollRef,
+    onEndReached: currentView === 'browse' && feedId === null ? handleLoadMore : undefined
+  });
+
+  // Scroll back to where the browser was once the restored grid has been laid out
+  useEffect(() => {
+    if (pendingScrollTop.current !== null && virtualGrid.isMeasured && scrollRef.current) {
+      scrollRef.current.scrollTop = pendingScrollTop.current;
+      pendingScrollTop.current = null;
+    }
+  }, [virtualGrid.isMeasured]);
+
+  /**
+   * Restores a saved search's query, filters and provider, then runs it
+   */
+  const handleRunSavedSearch = async (search: SavedSearch) => {
+    const nsfwMode = search.filters.nsfwMode || 'off';
+    setFeedId(null);
+    setSearchQuery(search.query);
+    setFilters(prev => ({ ...prev, ...search.filters, nsfw: nsfwMode !== 'off', nsfwMode }));
+
+    // Changing either setting re-runs the search through the effects above, with the restored state
+    if (search.provider !== browseProvider || nsfwMode !== browseNsfwFilter) {
+      dispatch(setBrowseProvider(search.provider));
+      dispatch(setBrowseNsfwFilter(nsfwMode));
+      return;
+    }
+
+    setIsLoadingSearch(true);
+    try {
+      await dispatch(fetchWallpapers({
+        query: search.query,
+        page: 1,
+        filters: search.filters,
+        provider: search.provider
+      })).unwrap();
+    } catch (error) {
+      console.error('Failed to run saved search:', error);
+      dispatch(showNotification({
+        type: 'error',
+        message: 'Failed to fetch wallpapers. Please try again.'
+      }));
+    } finally {
+      setIsLoadingSearch(false);
+    }
+  };
+
+  /**
+   * Shows what one subscription (or all of them) found, and marks it as seen
+   */
+  const handleOpenFeed = (nextFeedId: string) => {
+    setFeedId(nextFeedId);
+    const visited = nextFeedId === ALL_SUBSCRIPTIONS_FEED
+      ? savedSearches.filter(s => s.subscribed)
+      : savedSearches.filter(s => s.id === nextFeedId);
+    visited.forEach(search => dispatch(markSearchVisited(search.id)));
+  };
+
   /**
    * Adds a wallpaper to the library
    */
@@ -533,8 +1061,16 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
     );
   };
 
-  const handleWallpaperClick = (wallpaper: Wallpaper) => {
-    if (currentView === 'browse') {
+  // Shift-click selects a range and Ctrl/Cmd-click toggles one wallpaper, starting selection mode
+  const handleWallpaperClick = (wallpaper: Wallpaper, e: React.MouseEvent) => {
+    if (e.shiftKey) {
+      selectRange(wallpaper.id);
+      setIsSelecting(true);
+    } else if (isSelecting || e.ctrlKey || e.metaKey) {
+      toggleSelected(wallpaper.id);
+      setSelectionAnchorId(wallpaper.id);
+      setIsSelecting(true);
+    } else if (currentView === 'browse') {
       setSelectedWallpaperDetails(wallpaper);
     } else {
       handleWallpaperSelect(wallpaper);
@@ -569,7 +1105,7 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
       }
       
       // Set as current wallpaper
-      await dispatch(setCurrentWallpaper(wallpaperToSet)).unwrap();
+      await dispatch(setCurrentWallpaper({ wallpaper: wallpaperToSet })).unwrap();
       
       // Show success notification
       dispatch(showNotification({
@@ -643,12 +1179,15 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
 
           {/* Search and Filters */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4">
+            {currentView === 'library' ? (
+              <TagSearch value={librarySearch} onChange={setLibrarySearch} tagCounts={tagCounts} />
+            ) : (
             <form onSubmit={handleSearch} className="relative">
               <input
                 type="text"
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
-                placeholder="Search wallpapers..."
+                placeholder={provider.searchPlaceholder || 'Search wallpapers...'}
                 className="w-full px-4 py-2 pr-10 rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100"
               />
               <button
@@ -658,6 +1197,7 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
                 <MagnifyingGlassIcon className="w-5 h-5" />
               </button>
             </form>
+            )}
 
             <button 
               onClick={handleRefreshWallpapers}
@@ -667,9 +1207,34 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
               <span>Refresh</span>
             </button>
 
+            <button
+              onClick={() => setShowHistory(true)}
+              className="flex items-center justify-center w-full gap-2 px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg"
+            >
+              <ClockIcon className="w-5 h-5" />
+              <span>History</span>
+            </button>
+
             {/* Only show filters in browse view */}
             {currentView === 'browse' && (
               <div className="space-y-4">
+                {getProviders().length > 1 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                      Source
+                    </label>
+                    <select
+                      value={provider.id}
+                      onChange={(e) => handleProviderChange(e.target.value)}
+                      className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800"
+                    >
+                      {getProviders().map(p => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 <button
                   onClick={() => setShowFilters(!showFilters)}
                   className="flex items-center justify-between w-full px-4 py-2 text-left text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg"
@@ -680,90 +1245,115 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
 
                 {showFilters && (
                   <div className="space-y-4 p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-                    {/* Resolution Filter */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Resolution
-                      </label>
-                      <select
-                        value={filters.resolution || ''}
-                        onChange={(e) => setFilters({ ...filters, resolution: e.target.value || undefined })}
-                        className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800"
-                      >
-                        <option value="">Any</option>
-                        <option value="1920x1080">1920x1080 (FHD)</option>
-                        <option value="2560x1440">2560x1440 (QHD)</option>
-                        <option value="3840x2160">3840x2160 (4K)</option>
-                      </select>
-                    </div>
-
-                    {/* Sorting options */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        Sort By
-                      </label>
-                      <select
-                        value={filters.sorting || 'random'}
-                        onChange={(e) => setFilters({ ...filters, sorting: e.target.value })}
-                        className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800"
-                      >
-                        <option value="random">Random</option>
-                        <option value="relevance">Relevance</option>
-                        <option value="date_added">Date Added</option>
-                        <option value="views">Most Viewed</option>
-                        <option value="favorites">Most Favorited</option>
-                        <option value="toplist">Top Rated</option>
-                      </select>
-                    </div>
+                    {/* Provider-specific filters */}
+                    {provider.filterSchema.map(field => (
+                      <ProviderFilterSelect
+                        key={field.key}
+                        field={field}
+                        value={(filters as Record<string, unknown>)[field.key] as string | string[] | undefined}
+                        onChange={(value) => setFilters({ ...filters, [field.key]: value })}
+                      />
+                    ))}
 
                     {/* NSFW Filter - Enhanced version */}
-                    <div className="mb-4">
-                      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-                        NSFW Content
-                      </label>
-                      <div className="grid grid-cols-3 gap-2">
-                        <button
-                          onClick={() => {
-                            setFilters({...filters, nsfw: false, nsfwMode: 'off'});
-                            dispatch(setBrowseNsfwFilter('off'));
-                          }}
-                          className={`px-3 py-2 text-sm rounded-lg ${
-                            !filters.nsfw ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
-                          }`}
-                        >
-                          Off (SFW Only)
-                        </button>
-                        <button
-                          onClick={() => {
-                            setFilters({...filters, nsfw: true, nsfwMode: 'allowed'});
-                            dispatch(setBrowseNsfwFilter('allowed'));
-                          }}
-                          className={`px-3 py-2 text-sm rounded-lg ${
-                            filters.nsfw && filters.nsfwMode !== 'only' ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
-                          }`}
-                        >
-                          Allow NSFW
-                        </button>
-                        <button
-                          onClick={() => {
-                            setFilters({...filters, nsfw: true, nsfwMode: 'only'});
-                            dispatch(setBrowseNsfwFilter('only'));
-                          }}
-                          className={`px-3 py-2 text-sm rounded-lg ${
-                            filters.nsfw && filters.nsfwMode === 'only' ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
-                          }`}
-                        >
-                          NSFW Only
-                        </button>
+                    {provider.capabilities.nsfw && (
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                          NSFW Content
+                        </label>
+                        <div className="grid grid-cols-3 gap-2">
+                          <button
+                            onClick={() => {
+                              setFilters({...filters, nsfw: false, nsfwMode: 'off'});
+                              dispatch(setBrowseNsfwFilter('off'));
+                            }}
+                            className={`px-3 py-2 text-sm rounded-lg ${
+                              !filters.nsfw ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                            }`}
+                          >
+                            Off (SFW Only)
+                          </button>
+                          <button
+                            onClick={() => {
+                              setFilters({...filters, nsfw: true, nsfwMode: 'allowed'});
+                              dispatch(setBrowseNsfwFilter('allowed'));
+                            }}
+                            className={`px-3 py-2 text-sm rounded-lg ${
+                              filters.nsfw && filters.nsfwMode !== 'only' ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                            }`}
+                          >
+                            Allow NSFW
+                          </button>
+                          <button
+                            onClick={() => {
+                              setFilters({...filters, nsfw: true, nsfwMode: 'only'});
+                              dispatch(setBrowseNsfwFilter('only'));
+                            }}
+                            className={`px-3 py-2 text-sm rounded-lg ${
+                              filters.nsfw && filters.nsfwMode === 'only' ? 'bg-pink-600 text-white' : 'bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200'
+                            }`}
+                          >
+                            NSFW Only
+                          </button>
+                        </div>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                          Control what type of content you want to see
+                        </p>
                       </div>
-                      <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                        Control what type of content you want to see
-                      </p>
-                    </div>
+                    )}
                   </div>
                 )}
+
+                <SavedSearches
+                  activeFeedId={feedId}
+                  onRunSearch={handleRunSavedSearch}
+                  onOpenFeed={handleOpenFeed}
+                  currentSearch={{ provider: provider.id, query: searchQuery, filters: getSearchFilters() }}
+                />
+
+                {provider.id === WALLHAVEN_PROVIDER_ID && (
+                  <WallhavenCollections onOpenCollection={handleOpenCollection} />
+                )}
+              </div>
+            )}
+
+            {currentView === 'library' && library.length > 0 && (
+              <div className="p-4 bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+                <ColorFilterPicker
+                  label="Colour"
+                  value={libraryColor}
+                  swatches={WALLHAVEN_COLORS}
+                  onChange={setLibraryColor}
+                />
               </div>
             )}
+
+            {currentView === 'library' && (
+              <LibraryCollections
+                selectedCollectionId={selectedCollectionId}
+                onSelectCollection={setSelectedCollectionId}
+              />
+            )}
+
+            {currentView === 'library' && library.length > 1 && (
+              <button
+                onClick={() => setShowDuplicateFinder(true)}
+                className="flex items-center justify-center w-full gap-2 px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg"
+              >
+                <Square2StackIcon className="w-5 h-5" />
+                <span>Find Duplicates</span>
+              </button>
+            )}
+
+            {currentView === 'library' && tagCounts.length > 0 && (
+              <button
+                onClick={() => setShowTagManager(true)}
+                className="flex items-center justify-center w-full gap-2 px-4 py-2 text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg"
+              >
+                <TagIcon className="w-5 h-5" />
+                <span>Manage Tags</span>
+              </button>
+            )}
           </div>
 
           {/* Upload Section (Only in Library view) */}
@@ -777,11 +1367,11 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
                   <p className="mb-2 text-sm text-gray-500 dark:text-gray-400">
                     <span className="font-semibold">Click to upload</span> or drag and drop
                   </p>
-                  <p className="text-xs text-gray-500 dark:text-gray-400">PNG, JPG or GIF</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">PNG, JPG, GIF, WebP, MP4 or WebM</p>
                 </div>
                 <input
                   type="file"
-                  accept="image/*"
+                  accept={UPLOAD_ACCEPT}
                   onChange={handleFileChange}
                   className="hidden"
                 />
@@ -805,8 +1395,38 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
           {/* Header */}
           <div className="p-4 flex justify-between items-center border-b border-gray-200 dark:border-gray-700">
             <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
-              {currentView === 'browse' ? 'Browse Wallpapers' : 'My Library'}
+              {currentView === 'browse'
+                ? feedId === ALL_SUBSCRIPTIONS_FEED
+                  ? 'Subscription Feed'
+                  : feedSearch ? `New in "${feedSearch.name}"` : 'Browse Wallpapers'
+                : selectedCollection?.name || 'My Library'}
             </h2>
+            {gridWallpapers.length > 0 && (
+              <div className="ml-auto mr-4 flex items-center gap-2">
+                {isSelecting && (
+                  <>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">{selectedIds.size} selected</span>
+                    <button
+                      onClick={() => setSelectedIds(new Set(gridWallpapers.map(w => w.id)))}
+                      className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg"
+                    >
+                      Select All
+                    </button>
+                  </>
+                )}
+                <button
+                  onClick={handleToggleSelecting}
+                  className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg ${
+                    isSelecting
+                      ? 'bg-pink-600 text-white hover:bg-pink-700'
+                      : 'text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700'
+                  }`}
+                >
+                  <CheckCircleIcon className="w-4 h-4" />
+                  <span>{isSelecting ? 'Done' : 'Select'}</span>
+                </button>
+              </div>
+            )}
             <button 
               onClick={onClose}
               className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
@@ -816,7 +1436,18 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
           </div>
 
           {/* Wallpaper Grid */}
-          <div className="flex-1 overflow-y-auto p-6">
+          <div
+            ref={scrollRef}
+            onScroll={(e) => {
+              scrollTopRef.current = e.currentTarget.scrollTop;
+            }}
+            className="flex-1 overflow-y-auto p-6"
+          >
+            {isSelecting && showTagEditor && selectedWallpapers.length > 0 && (
+              <div className="mb-4 px-4">
+                <TagEditor wallpapers={selectedWallpapers} tagCounts={tagCounts} />
+              </div>
+            )}
             {isLoadingSearch ? (
               <div className="flex items-center justify-center h-full">
                 <div className="animate-spin rounded-full h-12 w-12 border-4 border-pink-500 border-t-transparent"></div>
@@ -831,10 +1462,16 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
                   Try Again
                 </button>
               </div>
-            ) : (currentView === 'browse' ? wallpapers : library).length === 0 ? (
+            ) : gridWallpapers.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full">
                 <p className="text-gray-500 dark:text-gray-400 mb-4">
-                  {currentView === 'browse' ? 'No wallpapers found' : 'Your library is empty'}
+                  {currentView === 'browse'
+                    ? 'No wallpapers found'
+                    : librarySearch.trim() && collectionLibrary.length > 0
+                      ? 'No wallpapers match your search'
+                      : libraryColor && collectionLibrary.length > 0
+                      ? 'No wallpapers match this colour'
+                      : selectedCollection ? 'This collection is empty' : 'Your library is empty'}
                 </p>
                 {currentView === 'browse' && (
                   <button 
@@ -847,29 +1484,29 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
               </div>
             ) : (
               <div className="flex flex-col">
-                <div className={`grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 p-4`}>
-                  {(currentView === 'browse' ? wallpapers : library).map((wallpaper) => (
+                <div
+                  ref={virtualGrid.gridRef}
+                  className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 px-4"
+                  style={{ paddingTop: virtualGrid.paddingTop, paddingBottom: virtualGrid.paddingBottom }}
+                >
+                  {gridWallpapers.slice(virtualGrid.startIndex, virtualGrid.endIndex).map((wallpaper) => (
                     <div
                       key={wallpaper.id}
-                      onClick={() => handleWallpaperClick(wallpaper)}
-                      className="group relative rounded-lg overflow-hidden aspect-video bg-gray-100 dark:bg-gray-700 hover:ring-2 hover:ring-pink-500 transition-all duration-200 cursor-pointer shadow-md"
+                      onClick={(e) => handleWallpaperClick(wallpaper, e)}
+                      className={`group relative rounded-lg overflow-hidden aspect-video bg-gray-100 dark:bg-gray-700 hover:ring-2 hover:ring-pink-500 transition-all duration-200 cursor-pointer shadow-md ${
+                        isSelecting && selectedIds.has(wallpaper.id) ? 'ring-4 ring-pink-500' : ''
+                      }`}
                     >
                       {/* Static placeholder (no animation) */}
                       <div className="absolute inset-0 bg-gray-200 dark:bg-gray-800"></div>
                       
                       {/* Wallpaper image with better loading */}
-                      <img
-                        src={wallpaper.thumbnail || wallpaper.path}
+                      <StoredImage
+                        src={wallpaper.thumbnail}
+                        fallbackSrc={wallpaper.path}
                         alt={wallpaper.info?.title || 'Wallpaper'}
                         className="w-full h-full object-cover relative z-10"
                         loading="lazy"
-                        onError={(e) => {
-                          // Fallback if thumbnail fails
-                          const img = e.target as HTMLImageElement;
-                          if (img.src !== wallpaper.path) {
-                            img.src = wallpaper.path;
-                          }
-                        }}
                         onLoad={(e) => {
                           // Once loaded, make sure it's visible without animation
                           const img = e.target as HTMLImageElement;
@@ -877,8 +1514,45 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
                         }}
                       />
                       
+                      {/* Selection marker */}
+                      {isSelecting && (
+                        <div className="absolute top-2 right-2 z-30">
+                          {selectedIds.has(wallpaper.id) ? (
+                            <CheckCircleIconSolid className="w-7 h-7 text-pink-500 drop-shadow" />
+                          ) : (
+                            <CheckCircleIcon className="w-7 h-7 text-white/80 drop-shadow" />
+                          )}
+                        </div>
+                      )}
+
+                      {/* Favourite marker */}
+                      {libraryById.get(wallpaper.id)?.isFavorite && (
+                        <StarIconSolid className="absolute top-2 left-2 z-30 w-5 h-5 text-yellow-400 drop-shadow group-hover:opacity-0 transition-opacity duration-200" />
+                      )}
+
+                      {/* Video and animation marker */}
+                      {wallpaper.mediaType === 'video' && (
+                        <PlayIconSolid className="absolute bottom-2 left-2 z-30 w-5 h-5 text-white drop-shadow group-hover:opacity-0 transition-opacity duration-200" />
+                      )}
+                      {wallpaper.mediaType === 'animated' && (
+                        <GifIcon className="absolute bottom-2 left-2 z-30 w-6 h-6 text-white drop-shadow group-hover:opacity-0 transition-opacity duration-200" />
+                      )}
+
+                      {/* File gone from its synced folder */}
+                      {wallpaper.folderFile?.isMissing && (
+                        <span
+                          className="absolute bottom-2 right-2 z-30 text-xs font-medium bg-red-600/80 text-white px-2 py-1 rounded flex items-center gap-1 backdrop-blur-sm group-hover:opacity-0 transition-opacity duration-200"
+                          title="This file is no longer in its synced folder"
+                        >
+                          <ExclamationTriangleIcon className="w-3 h-3" />
+                          <span>Missing</span>
+                        </span>
+                      )}
+
                       {/* Hover overlay with gradient background to ensure text is visible regardless of wallpaper color */}
-                      <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex flex-col justify-between p-3 z-20">
+                      <div className={`absolute inset-0 bg-gradient-to-t from-black/80 via-black/40 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-200 flex flex-col justify-between p-3 z-20 ${
+                        isSelecting ? 'hidden' : ''
+                      }`}>
                         <div className="flex items-start justify-between">
                           {/* Resolution tag */}
                           <span className="text-xs font-medium bg-black/50 text-white px-2 py-1 rounded backdrop-blur-sm">
@@ -974,8 +1648,8 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
                   ))}
                 </div>
                 
-                {/* Load More button - only show in browse view and if there are more pages */}
-                {currentView === 'browse' && currentPage < lastPage && (
+                {/* Load More button - pages also load automatically near the end; kept for when that fails */}
+                {currentView === 'browse' && feedId === null && currentPage < lastPage && (
                   <div className="flex justify-center my-6">
                     <button
                       onClick={handleLoadMore}
@@ -1005,6 +1679,13 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
               </div>
             )}
           </div>
+
+          <BulkActionBar
+            wallpapers={selectedWallpapers}
+            isTagEditorOpen={showTagEditor}
+            onToggleTagEditor={() => setShowTagEditor(!showTagEditor)}
+            onClearSelection={clearSelection}
+          />
         </div>
 
         {/* Delete confirmation dialog */}
@@ -1018,12 +1699,41 @@ const WallpaperBrowser: React.FC<WallpaperBrowserProps> = ({ onClose, onSelectWa
             onAddToLibrary={handleAddToLibrary}
             onSetAsWallpaper={handleSetAsWallpaper}
             onDownload={handleDownload}
+            onSelectPage={setSelectedWallpaperDetails}
             isInLibrary={library.some(w => w.id === selectedWallpaperDetails.id)}
           />
         )}
+
+        {/* Duplicate finder */}
+        {showHistory && (
+          <WallpaperHistory onClose={() => setShowHistory(false)} />
+        )}
+
+        {showDuplicateFinder && (
+          <DuplicateFinder onClose={() => setShowDuplicateFinder(false)} />
+        )}
+
+        {showTagManager && (
+          <TagManager onClose={() => setShowTagManager(false)} />
+        )}
       </div>
     </div>
   );
 };
 
-export default WallpaperBrowser; 
\ No newline at end of file
+/**
+ * Opens the browser once its last session has been read from session storage
+ */
+const WallpaperBrowserWithSession: React.FC<WallpaperBrowserProps> = (props) => {
+  const [isSessionLoaded, setIsSessionLoaded] = useState(lastSession !== undefined);
+
+  useEffect(() => {
+    if (!isSessionLoaded) {
+      loadLastSession().then(() => setIsSessionLoaded(true));
+    }
+  }, [isSessionLoaded]);
+
+  return isSessionLoaded ? <WallpaperBrowser {...props} /> : null;
+};
+
+export default WallpaperBrowserWithSession; 
\ No newline at end of file
@@ -1,5 +1,6 @@
 import React from 'react';
 import { Wallpaper } from '../types/wallpaper';
+import StoredImage from './ui/StoredImage';
 import { HeartIcon as HeartIconSolid } from '@heroicons/react/24/solid';
 import { HeartIcon, ArrowDownTrayIcon, XMarkIcon } from '@heroicons/react/24/outline';
 
@@ -32,7 +33,7 @@ const WallpaperDetails: React.FC<WallpaperDetailsProps> = ({
         <div className="flex h-full">
           {/* Image container */}
           <div className="flex-1 relative">
-            <img
+            <StoredImage
               src={wallpaper.path}
               alt={wallpaper.info.title}
               className="absolute inset-0 w-full h-full object-contain bg-gray-900"
@@ -82,6 +83,20 @@ const WallpaperDetails: React.FC<WallpaperDetailsProps> = ({
                   <p className="text-gray-900 dark:text-white">{wallpaper.resolution}</p>
                 </div>
 
+                {wallpaper.info.artist && (
+                  <div>
+                    <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Artist</h3>
+                    <a
+                      href={wallpaper.info.artist.url || wallpaper.source}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-500 hover:text-blue-600 dark:text-blue-400 dark:hover:text-blue-300"
+                    >
+                      {wallpaper.info.artist.name}
+                    </a>
+                  </div>
+                )}
+
                 <div>
                   <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Source</h3>
                   <a
@@ -0,0 +1,302 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import { fetchLibrary, setCurrentWallpaper } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { handleFileUpload, handleUrlUpload } from '../services/wallpaperService';
+import { Wallpaper } from '../types/wallpaper';
+import { isSupportedUpload } from '../utils/mediaUtils';
+import { getDomain, isImageUrl, isValidUrl } from '../utils/urlUtils';
+import { ensurePermissions } from '../utils/chromeUtils';
+import { ArrowUpTrayIcon, HeartIcon, PhotoIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface WallpaperDropZoneProps {
+  disabled: boolean; // While dialogs or the slideshow are open, drops and pastes are left to them
+}
+
+/**
+ * Files or an image link waiting for the user to choose what to do with them
+ */
+interface PendingWallpapers {
+  files: File[];
+  url: string | null;
+}
+
+/**
+ * Finds an image link in dragged or pasted data: a link, or the source of an image dragged
+ * out of another page
+ */
+const findImageUrl = (data: DataTransfer): string | null => {
+  const links = data.getData('text/uri-list').split(/\r?\n/).filter(line => line && !line.startsWith('#'));
+  const text = data.getData('text/plain').trim();
+  const html = data.getData('text/html');
+  const imageSource = html
+    ? new DOMParser().parseFromString(html, 'text/html').querySelector('img')?.src
+    : undefined;
+
+  const candidates = [...links, text, imageSource].filter((url): url is string => !!url && isValidUrl(url));
+  return candidates.find(isImageUrl) || null;
+};
+
+/**
+ * Checks whether a paste is aimed at a text field, where it should go as usual
+ */
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+};
+
+/**
+ * Lets image files and image links be dropped or pasted onto the new tab page, then
+ * offers to show them straight away or only add them to the library
+ */
+const WallpaperDropZone: React.FC<WallpaperDropZoneProps> = ({ disabled }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const [isDragging, setIsDragging] = useState(false);
+  const [pending, setPending] = useState<PendingWallpapers | null>(null);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+  // dragenter and dragleave fire for every element crossed, so count them
+  const dragDepth = useRef(0);
+
+  // Dragging files or links anywhere over the page
+  useEffect(() => {
+    if (disabled || pending) {
+      return;
+    }
+
+    // Dropped files win over a link that comes along with them
+    const offer = (files: File[], url: string | null) => {
+      if (files.length === 0 && !url) {
+        dispatch(showNotification({ type: 'error', message: 'Only images, MP4/WebM videos and links to images can be added' }));
+        return;
+      }
+      setPending({ files, url: files.length > 0 ? null : url });
+    };
+
+    const isWallpaperDrag = (e: DragEvent) => {
+      const types = Array.from(e.dataTransfer?.types || []);
+      return types.includes('Files') || types.includes('text/uri-list');
+    };
+
+    const handleDragEnter = (e: DragEvent) => {
+      if (!isWallpaperDrag(e)) return;
+      e.preventDefault();
+      dragDepth.current++;
+      setIsDragging(true);
+    };
+
+    const handleDragOver = (e: DragEvent) => {
+      if (!isWallpaperDrag(e)) return;
+      e.preventDefault();
+      if (e.dataTransfer) {
+        e.dataTransfer.dropEffect = 'copy';
+      }
+    };
+
+    const handleDragLeave = (e: DragEvent) => {
+      if (!isWallpaperDrag(e)) return;
+      dragDepth.current = Math.max(0, dragDepth.current - 1);
+      if (dragDepth.current === 0) {
+        setIsDragging(false);
+      }
+    };
+
+    const handleDrop = (e: DragEvent) => {
+      if (!e.dataTransfer || !isWallpaperDrag(e)) return;
+      e.preventDefault();
+      dragDepth.current = 0;
+      setIsDragging(false);
+
+      const files = Array.from(e.dataTransfer.files).filter(file => isSupportedUpload(file.type));
+      offer(files, findImageUrl(e.dataTransfer));
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (!e.clipboardData || isEditableTarget(e.target)) return;
+
+      const files = Array.from(e.clipboardData.files).filter(file => isSupportedUpload(file.type));
+      const url = findImageUrl(e.clipboardData);
+      // Anything else on the clipboard is left alone rather than reported as an error
+      if (files.length > 0 || url) {
+        e.preventDefault();
+        offer(files, url);
+      }
+    };
+
+    window.addEventListener('dragenter', handleDragEnter);
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    window.addEventListener('paste', handlePaste);
+
+    return () => {
+      window.removeEventListener('dragenter', handleDragEnter);
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+      window.removeEventListener('paste', handlePaste);
+    };
+  }, [dispatch, disabled, pending]);
+
+  // Preview of the first file, or the linked image itself
+  useEffect(() => {
+    const firstFile = pending?.files[0];
+    if (!firstFile) {
+      setPreviewUrl(pending?.url || null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(firstFile);
+    setPreviewUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [pending]);
+
+  // Escape dismisses the choice
+  useEffect(() => {
+    if (!pending || isAdding) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        setPending(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pending, isAdding]);
+
+  /**
+   * Adds everything pending to the library, one at a time like the upload view does
+   * @param setFirst - Also make the first wallpaper the current one
+   */
+  const addPending = async (setFirst: boolean) => {
+    if (!pending) return;
+    const { files, url } = pending;
+
+    // The host of a link may only serve the image once the extension can reach it;
+    // this has to be asked for while the click still counts as one
+    if (url) {
+      await ensurePermissions({ origins: [`${new URL(url).origin}/*`] });
+    }
+
+    setIsAdding(true);
+    const added: Wallpaper[] = [];
+    let lastError: unknown = null;
+
+    if (url) {
+      try {
+        added.push(await handleUrlUpload(url));
+      } catch (error) {
+        lastError = error;
+      }
+    }
+    for (const file of files) {
+      try {
+        added.push(await handleFileUpload(file));
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    try {
+      await dispatch(fetchLibrary()).unwrap();
+      if (setFirst && added.length > 0) {
+        await dispatch(setCurrentWallpaper({ wallpaper: added[0] })).unwrap();
+      }
+    } catch (error) {
+      lastError = error;
+    }
+
+    const failed = files.length + (url ? 1 : 0) - added.length;
+    if (added.length > 0) {
+      dispatch(showNotification({
+        type: failed > 0 ? 'warning' : 'success',
+        message: `Added ${added.length === 1 ? 'wallpaper' : `${added.length} wallpapers`} to your library`
+          + (failed > 0 ? `; ${failed} could not be added` : '')
+      }));
+    } else {
+      dispatch(showNotification({
+        type: 'error',
+        message: lastError instanceof Error ? lastError.message : 'Failed to add wallpaper'
+      }));
+    }
+
+    setIsAdding(false);
+    setPending(null);
+  };
+
+  if (isDragging) {
+    return (
+      <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm pointer-events-none">
+        <div className="flex flex-col items-center gap-3 px-12 py-10 border-2 border-dashed border-white/60 rounded-2xl text-white">
+          <ArrowUpTrayIcon className="w-12 h-12" />
+          <p className="text-lg font-medium">Drop images or image links to add them</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!pending) {
+    return null;
+  }
+
+  const count = pending.files.length || 1;
+  const firstFile = pending.files[0];
+  const title = firstFile ? firstFile.name : getDomain(pending.url || '');
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-md mx-4 p-4 bg-black/70 backdrop-blur-md rounded-lg text-white shadow-xl">
+        <div className="flex items-start justify-between gap-3 mb-3">
+          <div className="min-w-0">
+            <h2 className="text-lg font-medium truncate">{title}</h2>
+            {count > 1 && <p className="text-sm text-white/60">and {count - 1} more</p>}
+          </div>
+          <button
+            onClick={() => setPending(null)}
+            disabled={isAdding}
+            className="p-1 rounded hover:bg-white/10 text-white/70 disabled:opacity-50"
+            title="Cancel"
+          >
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {previewUrl && (!firstFile || firstFile.type.startsWith('image/')) && (
+          <img
+            src={previewUrl}
+            alt=""
+            className="w-full max-h-64 mb-4 rounded-md object-contain bg-black/40"
+          />
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => addPending(true)}
+            disabled={isAdding}
+            className="flex-1 flex items-center justify-center gap-2 py-2 px-3 bg-pink-600 hover:bg-pink-700 rounded-md transition-colors disabled:opacity-50"
+          >
+            <PhotoIcon className="w-5 h-5" />
+            <span>Set Now</span>
+          </button>
+          <button
+            onClick={() => addPending(false)}
+            disabled={isAdding}
+            className="flex-1 flex items-center justify-center gap-2 py-2 px-3 bg-white/10 hover:bg-white/20 rounded-md transition-colors disabled:opacity-50"
+          >
+            <HeartIcon className="w-5 h-5" />
+            <span>{count > 1 ? `Add ${count} to Library` : 'Add to Library'}</span>
+          </button>
+        </div>
+
+        <p className="mt-3 text-xs text-white/50">
+          {isAdding
+            ? 'Adding…'
+            : 'Set Now shows it straight away and keeps it in your library too.'}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default WallpaperDropZone;
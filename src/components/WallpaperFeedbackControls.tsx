@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { addBlocklistEntry, blockWallpaper, setWallpaperFeedback } from '../store/slices/feedbackSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { BlocklistEntryType, WallpaperVote } from '../types/feedback';
+import { Wallpaper } from '../types/wallpaper';
+import { HandThumbDownIcon, HandThumbUpIcon, NoSymbolIcon, StarIcon } from '@heroicons/react/24/outline';
+import {
+  HandThumbDownIcon as HandThumbDownIconSolid,
+  HandThumbUpIcon as HandThumbUpIconSolid,
+  StarIcon as StarIconSolid
+} from '@heroicons/react/24/solid';
+
+interface WallpaperFeedbackControlsProps {
+  wallpaper: Wallpaper;
+  onBlocked: () => void; // Called once the wallpaper is blocked, to move on from it
+}
+
+// Tags offered for blocking; wallpapers can have dozens
+const MAX_BLOCKABLE_TAGS = 5;
+
+/**
+ * Thumbs, star rating and "never show again" for the current wallpaper
+ */
+const WallpaperFeedbackControls: React.FC<WallpaperFeedbackControlsProps> = ({ wallpaper, onBlocked }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const feedback = useSelector((state: RootState) => state.feedback.feedback[wallpaper.id]) || {};
+  const [hoverRating, setHoverRating] = useState(0);
+  const [showBlockMenu, setShowBlockMenu] = useState(false);
+
+  const saveFeedback = (vote?: WallpaperVote, rating?: number) => {
+    dispatch(setWallpaperFeedback({ wallpaperId: wallpaper.id, feedback: { vote, rating } }))
+      .unwrap()
+      .catch(() => dispatch(showNotification({ type: 'error', message: 'Failed to save rating' })));
+  };
+
+  // Clicking the active thumb or star again clears it
+  const handleVote = (vote: WallpaperVote) => {
+    saveFeedback(feedback.vote === vote ? undefined : vote, feedback.rating);
+  };
+
+  const handleRate = (rating: number) => {
+    saveFeedback(feedback.vote, feedback.rating === rating ? undefined : rating);
+  };
+
+  const handleBlock = async (type: BlocklistEntryType, value: string) => {
+    setShowBlockMenu(false);
+    try {
+      if (type === 'wallpaper') {
+        await dispatch(blockWallpaper(wallpaper)).unwrap();
+      } else {
+        await dispatch(addBlocklistEntry({ type, value })).unwrap();
+      }
+
+      dispatch(showNotification({
+        type: 'success',
+        message: type === 'wallpaper' ? 'This wallpaper won\'t be shown again' : `Blocked ${type} "${value}"`
+      }));
+      onBlocked();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to update blocklist' }));
+    }
+  };
+
+  const tags = (wallpaper.info?.tags || []).slice(0, MAX_BLOCKABLE_TAGS);
+  const uploader = wallpaper.info?.artist?.name;
+  const shownRating = hoverRating || feedback.rating || 0;
+  const buttonClassName = 'p-3 rounded-full bg-white/10 hover:bg-white/20 text-white transition-all duration-200 transform hover:scale-110';
+
+  return (
+    <>
+      <button
+        onClick={() => handleVote('up')}
+        className={buttonClassName}
+        title="Thumbs up"
+      >
+        {feedback.vote === 'up' ? <HandThumbUpIconSolid className="w-6 h-6" /> : <HandThumbUpIcon className="w-6 h-6" />}
+      </button>
+      <button
+        onClick={() => handleVote('down')}
+        className={buttonClassName}
+        title="Thumbs down"
+      >
+        {feedback.vote === 'down' ? <HandThumbDownIconSolid className="w-6 h-6" /> : <HandThumbDownIcon className="w-6 h-6" />}
+      </button>
+
+      {/* Star rating */}
+      <div className="flex items-center px-1" onMouseLeave={() => setHoverRating(0)}>
+        {[1, 2, 3, 4, 5].map(star => (
+          <button
+            key={star}
+            onClick={() => handleRate(star)}
+            onMouseEnter={() => setHoverRating(star)}
+            className="p-0.5 text-yellow-400 transition-transform duration-150 hover:scale-125"
+            title={`${star} star${star === 1 ? '' : 's'}`}
+          >
+            {star <= shownRating ? <StarIconSolid className="w-5 h-5" /> : <StarIcon className="w-5 h-5" />}
+          </button>
+        ))}
+      </div>
+
+      {/* Never show again */}
+      <div className="relative">
+        <button
+          onClick={() => setShowBlockMenu(!showBlockMenu)}
+          className={`${buttonClassName} ${showBlockMenu ? 'bg-red-600 hover:bg-red-700' : ''}`}
+          title="Don't show again"
+        >
+          <NoSymbolIcon className="w-6 h-6" />
+        </button>
+
+        {showBlockMenu && (
+          <div className="absolute bottom-full mb-3 left-1/2 -translate-x-1/2 w-60 py-2 bg-black/70 backdrop-blur-md rounded-lg text-sm text-white shadow-xl">
+            <p className="px-4 pb-1 text-xs text-white/60">Never show again</p>
+            <button
+              onClick={() => handleBlock('wallpaper', wallpaper.id)}
+              className="w-full px-4 py-2 text-left hover:bg-white/10"
+            >
+              This wallpaper
+            </button>
+            {uploader && (
+              <button
+                onClick={() => handleBlock('uploader', uploader)}
+                className="w-full px-4 py-2 text-left hover:bg-white/10 truncate"
+              >
+                Anything from {uploader}
+              </button>
+            )}
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => handleBlock('tag', tag)}
+                className="w-full px-4 py-2 text-left hover:bg-white/10 truncate"
+              >
+                Anything tagged &ldquo;{tag}&rdquo;
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default WallpaperFeedbackControls;
@@ -0,0 +1,295 @@
+import React, { useRef, useState } from 'react';
+import { useDispatch } from 'react-redux';
+import { AppDispatch } from '../store';
+import { updateWallpaperFraming } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { FramingRect, Wallpaper, WallpaperFitMode, WallpaperFraming } from '../types/wallpaper';
+import { useResolvedUrl } from '../hooks/useResolvedUrl';
+import { useViewportSize } from '../hooks/useViewportSize';
+import { MIN_CROP_SIZE, Size, getFramingStyle, parseResolution, rectFromPoints } from '../utils/framingUtils';
+import { clamp } from '../utils/mathUtils';
+
+type EditorTool = 'focus' | 'crop';
+
+const FIT_MODES: { value: WallpaperFitMode; label: string }[] = [
+  { value: 'cover', label: 'Cover' },
+  { value: 'contain', label: 'Contain' },
+  { value: 'tile', label: 'Tile' },
+  { value: 'center', label: 'Centre' }
+];
+
+// Screens to check the framing on besides the current one
+const PREVIEW_SCREENS: { label: string; size: Size }[] = [
+  { label: 'Ultrawide', size: { width: 3440, height: 1440 } },
+  { label: 'Portrait', size: { width: 1080, height: 1920 } }
+];
+
+const PREVIEW_HEIGHT = 120;
+
+interface FramingPreviewProps {
+  imageUrl?: string;
+  framing: WallpaperFraming;
+  imageSize: Size | null;
+  screen: Size;
+  label: string;
+}
+
+/**
+ * The wallpaper as it would look on a screen of the given size, scaled down
+ */
+const FramingPreview: React.FC<FramingPreviewProps> = ({ imageUrl, framing, imageSize, screen, label }) => {
+  const scale = PREVIEW_HEIGHT / screen.height;
+
+  return (
+    <div>
+      <div
+        className="relative overflow-hidden rounded bg-black"
+        style={{ width: screen.width * scale, height: PREVIEW_HEIGHT }}
+      >
+        <div
+          className="absolute top-0 left-0 origin-top-left"
+          style={{
+            width: screen.width,
+            height: screen.height,
+            transform: `scale(${scale})`,
+            backgroundImage: imageUrl ? `url(${imageUrl})` : undefined,
+            ...getFramingStyle(framing, imageSize, screen)
+          }}
+        />
+      </div>
+      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+        {label} ({screen.width}×{screen.height})
+      </p>
+    </div>
+  );
+};
+
+interface WallpaperFramingEditorProps {
+  wallpaper: Wallpaper;
+  onClose: () => void;
+}
+
+/**
+ * Editor for a library wallpaper's focal point, crop and fit mode, with previews
+ * on the current screen and on ultrawide and portrait screens
+ */
+const WallpaperFramingEditor: React.FC<WallpaperFramingEditorProps> = ({ wallpaper, onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  // Videos are framed on their poster frame; they can't be cropped or tiled
+  const isVideo = wallpaper.mediaType === 'video';
+  const imageUrl = useResolvedUrl(isVideo ? wallpaper.thumbnail : wallpaper.path);
+  const fitModes = isVideo ? FIT_MODES.filter(mode => mode.value !== 'tile') : FIT_MODES;
+  const viewport = useViewportSize();
+  const [framing, setFraming] = useState<WallpaperFraming>(wallpaper.framing || { fit: 'cover' });
+  const [tool, setTool] = useState<EditorTool>('focus');
+  const [imageSize, setImageSize] = useState<Size | null>(parseResolution(wallpaper.resolution));
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const overlayRef = useRef<HTMLDivElement>(null);
+
+  // Pointer position as a fraction of the image
+  const getPoint = (e: React.PointerEvent) => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) {
+      return { x: 0.5, y: 0.5 };
+    }
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1)
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    const point = getPoint(e);
+    if (tool === 'focus') {
+      setFraming({ ...framing, focalPoint: point });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragStart(point);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (tool === 'crop' && dragStart) {
+      setFraming({ ...framing, crop: rectFromPoints(dragStart, getPoint(e)) });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    setDragStart(null);
+
+    // A click without a drag clears the crop
+    const crop: FramingRect | undefined = framing.crop;
+    if (crop && (crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE)) {
+      setFraming({ ...framing, crop: undefined });
+    }
+  };
+
+  const save = async (nextFraming?: WallpaperFraming) => {
+    try {
+      setIsSaving(true);
+      await dispatch(updateWallpaperFraming({ wallpaperId: wallpaper.id, framing: nextFraming })).unwrap();
+      dispatch(showNotification({ type: 'success', message: nextFraming ? 'Framing saved' : 'Framing reset' }));
+      onClose();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toolButtonClass = (isActive: boolean) => `px-3 py-1.5 text-sm rounded-lg ${
+    isActive
+      ? 'bg-pink-600 text-white'
+      : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+  }`;
+
+  return (
+    <div className="flex flex-col lg:flex-row flex-1 overflow-hidden">
+      {/* Image with the focal point and crop drawn over it */}
+      <div className="flex-1 min-h-[300px] flex items-center justify-center p-4 bg-black/10 dark:bg-black/30 overflow-hidden">
+        <div className="relative inline-block overflow-hidden select-none">
+          {imageUrl && (
+            <img
+              src={imageUrl}
+              alt={wallpaper.info?.title || 'Wallpaper'}
+              draggable={false}
+              onLoad={(e) => setImageSize({
+                width: e.currentTarget.naturalWidth,
+                height: e.currentTarget.naturalHeight
+              })}
+              className="block max-w-full max-h-[60vh] shadow-lg"
+            />
+          )}
+          <div
+            ref={overlayRef}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            className={`absolute inset-0 ${tool === 'crop' ? 'cursor-crosshair' : 'cursor-pointer'}`}
+          >
+            {framing.crop && (
+              <div
+                className="absolute border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] pointer-events-none"
+                style={{
+                  left: `${framing.crop.x * 100}%`,
+                  top: `${framing.crop.y * 100}%`,
+                  width: `${framing.crop.width * 100}%`,
+                  height: `${framing.crop.height * 100}%`
+                }}
+              />
+            )}
+            {framing.focalPoint && (
+              <div
+                className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full border-2 border-white bg-pink-500/60 shadow pointer-events-none"
+                style={{ left: `${framing.focalPoint.x * 100}%`, top: `${framing.focalPoint.y * 100}%` }}
+              />
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Controls and previews */}
+      <div className="w-full lg:w-80 p-6 border-t lg:border-t-0 lg:border-l border-gray-200 dark:border-gray-700 overflow-y-auto">
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Fit</h3>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {fitModes.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => setFraming({ ...framing, fit: mode.value })}
+                  className={toolButtonClass(framing.fit === mode.value)}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Adjust</h3>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <button onClick={() => setTool('focus')} className={toolButtonClass(tool === 'focus')}>
+                Focal point
+              </button>
+              {!isVideo && (
+                <button onClick={() => setTool('crop')} className={toolButtonClass(tool === 'crop')}>
+                  Crop
+                </button>
+              )}
+            </div>
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {tool === 'focus'
+                ? 'Click the part of the image that should always stay on screen, such as a face.'
+                : 'Drag over the image to choose the part to fit to the screen. Click to clear the crop.'}
+            </p>
+            {(framing.focalPoint || framing.crop) && (
+              <button
+                onClick={() => setFraming({ fit: framing.fit })}
+                className="mt-2 text-xs text-pink-600 hover:text-pink-700 dark:text-pink-400"
+              >
+                Clear focal point and crop
+              </button>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400">Preview</h3>
+            <div className="mt-2 space-y-3">
+              <FramingPreview
+                imageUrl={imageUrl}
+                framing={framing}
+                imageSize={imageSize}
+                screen={viewport}
+                label="This screen"
+              />
+              <div className="flex flex-wrap gap-3">
+                {PREVIEW_SCREENS.map(screen => (
+                  <FramingPreview
+                    key={screen.label}
+                    imageUrl={imageUrl}
+                    framing={framing}
+                    imageSize={imageSize}
+                    screen={screen.size}
+                    label={screen.label}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="pt-4 space-y-3">
+            <button
+              onClick={() => save(framing)}
+              disabled={isSaving}
+              className="w-full px-4 py-2 bg-pink-600 text-white rounded-lg hover:bg-pink-700 disabled:opacity-50 transition-colors duration-200"
+            >
+              Save Framing
+            </button>
+            <div className="flex gap-3">
+              {wallpaper.framing && (
+                <button
+                  onClick={() => save(undefined)}
+                  disabled={isSaving}
+                  className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors duration-200"
+                >
+                  Reset
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                className="flex-1 px-4 py-2 bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-white rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors duration-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WallpaperFramingEditor;
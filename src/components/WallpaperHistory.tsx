@@ -0,0 +1,276 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { AppDispatch, RootState } from '../store';
+import { addToLibrary, setCurrentWallpaper } from '../store/slices/wallpaperSlice';
+import { saveSettings, setHistoryRetentionDays } from '../store/slices/settingsSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import wallpaperService from '../services/wallpaperService';
+import { WallpaperChangeTrigger, WallpaperHistoryEntry } from '../types/wallpaper';
+import { DateFormat, addDays, formatDate, formatDuration, formatTime, startOfDay } from '../utils/dateUtils';
+import StoredImage from './ui/StoredImage';
+import { ArrowUturnLeftIcon, HeartIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
+
+interface WallpaperHistoryProps {
+  onClose: () => void;
+}
+
+interface HistoryDay {
+  key: string;
+  label: string;
+  entries: WallpaperHistoryEntry[];
+}
+
+const TRIGGER_LABELS: Record<WallpaperChangeTrigger, string> = {
+  manual: 'Chosen',
+  shuffle: 'Shuffle',
+  rule: 'Schedule rule',
+  slideshow: 'Slideshow'
+};
+
+const RETENTION_OPTIONS: { value: number; label: string }[] = [
+  { value: 7, label: '1 week' },
+  { value: 30, label: '30 days' },
+  { value: 90, label: '90 days' },
+  { value: 365, label: '1 year' },
+  { value: 0, label: 'Forever' }
+];
+
+/**
+ * Names a day relative to today, falling back to the date
+ */
+const getDayLabel = (day: Date): string => {
+  const today = startOfDay(new Date());
+  if (day.getTime() === today.getTime()) return 'Today';
+  if (day.getTime() === addDays(today, -1).getTime()) return 'Yesterday';
+  return formatDate(day, DateFormat.MEDIUM);
+};
+
+/**
+ * Splits the timeline into days, keeping its newest-first order
+ */
+const groupByDay = (entries: WallpaperHistoryEntry[]): HistoryDay[] => {
+  const days: HistoryDay[] = [];
+  entries.forEach(entry => {
+    const day = entry.shownAt ? startOfDay(entry.shownAt) : null;
+    const key = day ? day.toISOString() : 'earlier';
+    let group = days.find(d => d.key === key);
+    if (!group) {
+      group = { key, label: day ? getDayLabel(day) : 'Earlier', entries: [] };
+      days.push(group);
+    }
+    group.entries.push(entry);
+  });
+  return days;
+};
+
+/**
+ * Dialog with every wallpaper shown, grouped by day, for going back to an earlier one
+ */
+const WallpaperHistory: React.FC<WallpaperHistoryProps> = ({ onClose }) => {
+  const dispatch = useDispatch<AppDispatch>();
+  const { currentWallpaper, library } = useSelector((state: RootState) => state.wallpaper);
+  const historyRetentionDays = useSelector((state: RootState) => state.settings.historyRetentionDays);
+  const [entries, setEntries] = useState<WallpaperHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadTimeline = useCallback(async () => {
+    setEntries(await wallpaperService.getHistoryTimeline());
+    setIsLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  const days = useMemo(() => groupByDay(entries), [entries]);
+  const libraryIds = useMemo(() => new Set(library.map(w => w.id)), [library]);
+
+  const handleRestore = async (entry: WallpaperHistoryEntry) => {
+    try {
+      await dispatch(setCurrentWallpaper({ wallpaper: entry.wallpaper })).unwrap();
+      await loadTimeline();
+    } catch (error) {
+      console.error('Failed to restore wallpaper from history:', error);
+      dispatch(showNotification({ type: 'error', message: 'Failed to restore wallpaper' }));
+    }
+  };
+
+  const handleAddToLibrary = async (entry: WallpaperHistoryEntry) => {
+    try {
+      await dispatch(addToLibrary(entry.wallpaper)).unwrap();
+      dispatch(showNotification({ type: 'success', message: 'Wallpaper added to library' }));
+    } catch (error) {
+      console.error('Failed to add history wallpaper to library:', error);
+      dispatch(showNotification({ type: 'error', message: 'Failed to add wallpaper to library' }));
+    }
+  };
+
+  const handleRemove = async (entry: WallpaperHistoryEntry) => {
+    try {
+      await wallpaperService.removeHistoryEntry(entry.id);
+      setEntries(entries.filter(e => e.id !== entry.id));
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to remove history entry' }));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Clear your whole wallpaper history? Library wallpapers are not affected.')) {
+      return;
+    }
+
+    try {
+      await wallpaperService.clearHistory();
+      setEntries([]);
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to clear history' }));
+    }
+  };
+
+  // A shorter retention applies straight away rather than at the next daily cleanup
+  const handleRetentionChange = async (days: number) => {
+    dispatch(setHistoryRetentionDays(days));
+    try {
+      await dispatch(saveSettings({ historyRetentionDays: days })).unwrap();
+      await wallpaperService.pruneHistory();
+      await loadTimeline();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: 'Failed to apply history retention' }));
+    }
+  };
+
+  const getShownFor = (entry: WallpaperHistoryEntry): string | null => {
+    if (!entry.shownAt) return null;
+    if (!entry.endedAt) return 'Showing now';
+    return `Shown for ${formatDuration(new Date(entry.endedAt).getTime() - new Date(entry.shownAt).getTime())}`;
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-[90vw] max-w-3xl h-[85vh] flex flex-col overflow-hidden">
+        <div className="p-4 flex justify-between items-center border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Wallpaper History</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
+          >
+            <XMarkIcon className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-full">
+              <div className="animate-spin rounded-full h-12 w-12 border-4 border-pink-500 border-t-transparent"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="flex items-center justify-center h-full">
+              <p className="text-gray-500 dark:text-gray-400">No wallpapers in your history yet</p>
+            </div>
+          ) : (
+            <div className="space-y-6">
+              {days.map(day => (
+                <div key={day.key}>
+                  <h3 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-2">{day.label}</h3>
+                  <div className="space-y-2">
+                    {day.entries.map(entry => {
+                      const { wallpaper } = entry;
+                      const isCurrent = !entry.endedAt && wallpaper.id === currentWallpaper?.id;
+                      const canAddToLibrary = wallpaper.sourceType === 'remote' && !libraryIds.has(wallpaper.id);
+                      const shownFor = getShownFor(entry);
+
+                      return (
+                        <div
+                          key={entry.id}
+                          className="flex items-center gap-4 p-2 rounded-lg bg-gray-100 dark:bg-gray-900"
+                        >
+                          <div className="w-28 aspect-video flex-shrink-0 rounded overflow-hidden bg-gray-200 dark:bg-gray-700">
+                            <StoredImage
+                              src={wallpaper.thumbnail}
+                              fallbackSrc={wallpaper.path}
+                              alt={wallpaper.info?.title || 'Wallpaper'}
+                              className="w-full h-full object-cover"
+                              loading="lazy"
+                            />
+                          </div>
+
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                              {wallpaper.info?.title || wallpaper.id}
+                            </p>
+                            <p className="text-xs text-gray-500 dark:text-gray-400">
+                              {[
+                                entry.shownAt && formatTime(entry.shownAt),
+                                shownFor,
+                                wallpaper.info?.source || wallpaper.source
+                              ].filter(Boolean).join(' · ')}
+                            </p>
+                            {entry.trigger && (
+                              <span className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs bg-pink-100 text-pink-700 dark:bg-pink-900/40 dark:text-pink-300">
+                                {TRIGGER_LABELS[entry.trigger]}
+                              </span>
+                            )}
+                          </div>
+
+                          <div className="flex items-center gap-1">
+                            <button
+                              onClick={() => handleRestore(entry)}
+                              disabled={isCurrent}
+                              className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30"
+                              title={isCurrent ? 'Current wallpaper' : 'Restore this wallpaper'}
+                            >
+                              <ArrowUturnLeftIcon className="w-5 h-5" />
+                            </button>
+                            {canAddToLibrary && (
+                              <button
+                                onClick={() => handleAddToLibrary(entry)}
+                                className="p-2 rounded-lg text-pink-600 hover:bg-gray-200 dark:hover:bg-gray-700"
+                                title="Add to library"
+                              >
+                                <HeartIcon className="w-5 h-5" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => handleRemove(entry)}
+                              className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-200 dark:hover:bg-gray-700"
+                              title="Remove from history"
+                            >
+                              <TrashIcon className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 flex items-center gap-3 border-t border-gray-200 dark:border-gray-700">
+          <label className="text-sm text-gray-700 dark:text-gray-300">Keep history for</label>
+          <select
+            value={historyRetentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 text-sm focus:outline-none focus:ring-2 focus:ring-pink-500"
+          >
+            {RETENTION_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleClear}
+            disabled={entries.length === 0}
+            className="ml-auto flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
+          >
+            <TrashIcon className="w-5 h-5" />
+            <span>Clear History</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WallpaperHistory;
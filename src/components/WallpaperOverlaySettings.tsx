@@ -0,0 +1,231 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+import { setWallpaperOverlay } from '../store/slices/settingsSlice';
+import { autoAdjustWallpaperOverlay, updateWallpaperOverlay } from '../store/slices/wallpaperSlice';
+import { showNotification } from '../store/slices/notificationSlice';
+import { WallpaperOverlayPreset, WallpaperOverlayType } from '../types/wallpaper';
+import { MAX_DARKNESS, getOverlayBackground } from '../utils/overlayUtils';
+
+const OVERLAY_TYPES: { value: WallpaperOverlayType; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'gradient', label: 'Gradient' },
+  { value: 'vignette', label: 'Vignette' }
+];
+
+// Wait for the slider to settle before writing the wallpaper to storage
+const SAVE_DELAY = 300;
+
+interface OverlayControlsProps {
+  id: string;
+  overlay: Pick<WallpaperOverlayPreset, 'type' | 'blurAmount' | 'darknessAmount'>;
+  onChange: (changes: Partial<WallpaperOverlayPreset>) => void;
+}
+
+/**
+ * Type buttons and blur and darkness sliders for an overlay
+ */
+const OverlayControls: React.FC<OverlayControlsProps> = ({ id, overlay, onChange }) => (
+  <div className="space-y-4">
+    <div className="flex items-center gap-2">
+      {OVERLAY_TYPES.map(type => (
+        <button
+          key={type.value}
+          onClick={() => onChange({ type: type.value })}
+          className={`flex items-center gap-2 px-3 py-1 rounded text-sm ${
+            overlay.type === type.value ? 'bg-pink-600 text-white' : 'bg-white/10 text-white/70 hover:bg-white/20'
+          }`}
+        >
+          <span
+            className="w-4 h-4 rounded-sm border border-white/30 bg-gray-300"
+            style={{ backgroundImage: getOverlayBackground(type.value, 70) }}
+          />
+          {type.label}
+        </button>
+      ))}
+    </div>
+
+    <div>
+      <div className="flex justify-between mb-1">
+        <label htmlFor={`${id}-blur`} className="text-sm">
+          Background Blur: {overlay.blurAmount}px
+        </label>
+        <span className="text-xs text-white/70">
+          {overlay.blurAmount === 0 ? 'None' :
+           overlay.blurAmount < 3 ? 'Light' :
+           overlay.blurAmount < 7 ? 'Medium' : 'Heavy'}
+        </span>
+      </div>
+      <input
+        id={`${id}-blur`}
+        type="range"
+        min="0"
+        max="10"
+        step="1"
+        value={overlay.blurAmount}
+        onChange={(e) => onChange({ blurAmount: Number(e.target.value) })}
+        className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-500"
+      />
+    </div>
+
+    <div>
+      <div className="flex justify-between mb-1">
+        <label htmlFor={`${id}-darkness`} className="text-sm">
+          Darkness Overlay: {overlay.darknessAmount}%
+        </label>
+        <span className="text-xs text-white/70">
+          {overlay.darknessAmount < 20 ? 'Light' :
+           overlay.darknessAmount < 50 ? 'Medium' :
+           overlay.darknessAmount < 80 ? 'Dark' : 'Very Dark'}
+        </span>
+      </div>
+      <input
+        id={`${id}-darkness`}
+        type="range"
+        min="0"
+        max={MAX_DARKNESS}
+        step="5"
+        value={overlay.darknessAmount}
+        onChange={(e) => onChange({ darknessAmount: parseInt(e.target.value, 10) })}
+        className="w-full h-2 bg-white/20 rounded-lg appearance-none cursor-pointer accent-pink-500"
+      />
+    </div>
+  </div>
+);
+
+/**
+ * Settings section for the default wallpaper overlay and the overlay of the wallpaper being shown
+ */
+const WallpaperOverlaySettings: React.FC = () => {
+  const dispatch = useAppDispatch();
+  const defaultOverlay = useAppSelector(state => state.settings.wallpaperOverlay);
+  const currentWallpaper = useAppSelector(state => state.wallpaper.currentWallpaper);
+  const [draft, setDraft] = useState<WallpaperOverlayPreset | undefined>(currentWallpaper?.overlay);
+  const [isAdjusting, setIsAdjusting] = useState(false);
+  const saveTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  // Start over when another wallpaper is shown
+  useEffect(() => {
+    setDraft(currentWallpaper?.overlay);
+  }, [currentWallpaper?.id]);
+
+  useEffect(() => () => clearTimeout(saveTimer.current), []);
+
+  const saveOverlay = async (overlay?: WallpaperOverlayPreset) => {
+    if (!currentWallpaper) return;
+    try {
+      await dispatch(updateWallpaperOverlay({ wallpaperId: currentWallpaper.id, overlay })).unwrap();
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    }
+  };
+
+  const handleWallpaperChange = (changes: Partial<WallpaperOverlayPreset>) => {
+    if (!draft) return;
+    // The automatic darkness was worked out for one overlay type; only blur can change without losing it
+    const isAuto = draft.isAuto && changes.type === undefined && changes.darknessAmount === undefined;
+    const updated = { ...draft, ...changes, isAuto };
+    setDraft(updated);
+    clearTimeout(saveTimer.current);
+    saveTimer.current = setTimeout(() => saveOverlay(updated), SAVE_DELAY);
+  };
+
+  const handleAutoAdjust = async () => {
+    if (!currentWallpaper) return;
+    const base = draft || defaultOverlay;
+    try {
+      setIsAdjusting(true);
+      clearTimeout(saveTimer.current);
+      const updated = await dispatch(autoAdjustWallpaperOverlay({
+        wallpaper: currentWallpaper,
+        type: base.type,
+        blurAmount: base.blurAmount
+      })).unwrap();
+      setDraft(updated.overlay);
+      dispatch(showNotification({
+        type: 'success',
+        message: `Darkness set to ${updated.overlay?.darknessAmount}% for this wallpaper`
+      }));
+    } catch (error) {
+      dispatch(showNotification({ type: 'error', message: String(error) }));
+    } finally {
+      setIsAdjusting(false);
+    }
+  };
+
+  const handleUseDefault = () => {
+    clearTimeout(saveTimer.current);
+    setDraft(undefined);
+    saveOverlay(undefined);
+  };
+
+  const handleCustomise = () => {
+    const { type, blurAmount, darknessAmount } = defaultOverlay;
+    const overlay = { type, blurAmount, darknessAmount };
+    setDraft(overlay);
+    saveOverlay(overlay);
+  };
+
+  return (
+    <div className="mt-6 border-t border-white/10 pt-4">
+      <h4 className="text-md font-medium mb-3">Wallpaper Appearance</h4>
+
+      {currentWallpaper && (
+        <div className="mb-6 p-3 rounded-md border border-white/10 bg-white/5 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-sm font-medium">This wallpaper</span>
+            <span className="text-xs text-white/60">
+              {!draft ? 'Using the default overlay' : draft.isAuto ? 'Automatic darkness' : 'Custom overlay'}
+            </span>
+          </div>
+
+          {draft && (
+            <OverlayControls id="wallpaper-overlay" overlay={draft} onChange={handleWallpaperChange} />
+          )}
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleAutoAdjust}
+              disabled={isAdjusting}
+              className="px-3 py-1 rounded text-sm bg-white/10 hover:bg-white/20 disabled:opacity-50"
+            >
+              {isAdjusting ? 'Measuring...' : 'Auto darkness'}
+            </button>
+            {draft ? (
+              <button onClick={handleUseDefault} className="px-3 py-1 rounded text-sm bg-white/10 hover:bg-white/20">
+                Use default
+              </button>
+            ) : (
+              <button onClick={handleCustomise} className="px-3 py-1 rounded text-sm bg-white/10 hover:bg-white/20">
+                Customise
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <p className="text-sm text-white/60 mb-3">Default overlay, for wallpapers without their own</p>
+      <OverlayControls
+        id="default-overlay"
+        overlay={defaultOverlay}
+        onChange={(changes) => dispatch(setWallpaperOverlay(changes))}
+      />
+
+      <label className="mt-4 flex items-start gap-2 text-sm cursor-pointer">
+        <input
+          type="checkbox"
+          checked={defaultOverlay.autoDarkness}
+          onChange={(e) => dispatch(setWallpaperOverlay({ autoDarkness: e.target.checked }))}
+          className="mt-0.5 h-4 w-4"
+        />
+        <span>
+          Automatic darkness for new wallpapers
+          <span className="block text-xs text-white/60">
+            The first time a wallpaper is shown, darken it just enough for the clock to stay readable
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default WallpaperOverlaySettings;
@@ -0,0 +1,36 @@
+import React, { useState } from 'react';
+import { useResolvedUrl } from '../../hooks/useResolvedUrl';
+
+interface StoredImageProps extends Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> {
+  src?: string;
+  fallbackSrc?: string;
+}
+
+/**
+ * <img> that understands blob store references and falls back to a second source on error
+ */
+const StoredImage: React.FC<StoredImageProps> = ({ src, fallbackSrc, onError, ...props }) => {
+  const [useFallback, setUseFallback] = useState(false);
+  const resolvedSrc = useResolvedUrl(src);
+  const resolvedFallback = useResolvedUrl(fallbackSrc);
+  const currentSrc = useFallback ? resolvedFallback : resolvedSrc || resolvedFallback;
+
+  if (!currentSrc) {
+    return null;
+  }
+
+  return (
+    <img
+      {...props}
+      src={currentSrc}
+      onError={(e) => {
+        if (!useFallback && resolvedFallback && currentSrc !== resolvedFallback) {
+          setUseFallback(true);
+        }
+        onError?.(e);
+      }}
+    />
+  );
+};
+
+export default StoredImage;
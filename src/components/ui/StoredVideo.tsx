@@ -0,0 +1,23 @@
+import React from 'react';
+import { useResolvedUrl } from '../../hooks/useResolvedUrl';
+
+interface StoredVideoProps extends Omit<React.VideoHTMLAttributes<HTMLVideoElement>, 'src' | 'poster'> {
+  src?: string;
+  poster?: string;
+}
+
+/**
+ * <video> that understands blob store references for the video and its poster
+ */
+const StoredVideo: React.FC<StoredVideoProps> = ({ src, poster, ...props }) => {
+  const resolvedSrc = useResolvedUrl(src);
+  const resolvedPoster = useResolvedUrl(poster);
+
+  if (!resolvedSrc) {
+    return null;
+  }
+
+  return <video {...props} src={resolvedSrc} poster={resolvedPoster} />;
+};
+
+export default StoredVideo;
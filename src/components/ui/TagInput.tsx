@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { TagCount } from '../../utils/tagUtils';
+
+interface TagInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  suggestions: TagCount[];
+  onSelectSuggestion: (tag: string) => void;
+  onSubmit?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Text input with a tag suggestion dropdown; arrow keys move through the
+ * suggestions, Enter or Tab picks one
+ */
+const TagInput: React.FC<TagInputProps> = ({
+  value,
+  onChange,
+  suggestions,
+  onSelectSuggestion,
+  onSubmit,
+  placeholder,
+  className = ''
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const showSuggestions = isOpen && suggestions.length > 0;
+
+  const selectSuggestion = (tag: string) => {
+    onSelectSuggestion(tag);
+    setActiveIndex(0);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showSuggestions && e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((activeIndex + 1) % suggestions.length);
+    } else if (showSuggestions && e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((activeIndex - 1 + suggestions.length) % suggestions.length);
+    } else if (showSuggestions && (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey))) {
+      e.preventDefault();
+      selectSuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)].tag);
+    } else if (e.key === 'Enter' && onSubmit) {
+      e.preventDefault();
+      onSubmit();
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setActiveIndex(0);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        className={`w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 focus:outline-none focus:ring-2 focus:ring-pink-500 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 ${className}`}
+      />
+      {showSuggestions && (
+        <ul className="absolute left-0 right-0 mt-1 max-h-56 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg py-1 z-20">
+          {suggestions.map((suggestion, index) => (
+            <li key={suggestion.tag}>
+              <button
+                type="button"
+                // Keep focus in the input so blur doesn't close the list before the click lands
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => selectSuggestion(suggestion.tag)}
+                className={`flex items-center justify-between w-full px-3 py-1.5 text-left text-sm ${
+                  index === activeIndex ? 'bg-pink-50 dark:bg-pink-900/30 text-pink-600' : 'text-gray-700 dark:text-gray-300'
+                }`}
+              >
+                <span className="truncate">{suggestion.tag}</span>
+                <span className="ml-2 text-xs text-gray-400">{suggestion.count}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TagInput;
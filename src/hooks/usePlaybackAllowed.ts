@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+
+// Battery Status API, which Chrome has but TypeScript's DOM types don't
+interface BatteryManager extends EventTarget {
+  charging: boolean;
+  level: number;
+}
+
+// Chrome's Energy Saver turns on at 20% by default; pages can't read the setting itself
+const LOW_BATTERY_LEVEL = 0.2;
+
+/**
+ * Tracks whether animated wallpapers should play: not while the tab is hidden,
+ * or while the device runs on a low battery
+ * @returns False when playback should be paused
+ */
+export const usePlaybackAllowed = (): boolean => {
+  const [isVisible, setIsVisible] = useState(!document.hidden);
+  const [isSavingBattery, setIsSavingBattery] = useState(false);
+
+  useEffect(() => {
+    const handleVisibilityChange = () => setIsVisible(!document.hidden);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  useEffect(() => {
+    const getBattery = (navigator as Navigator & { getBattery?: () => Promise<BatteryManager> }).getBattery;
+    if (!getBattery) {
+      return;
+    }
+
+    let battery: BatteryManager | null = null;
+    let isCancelled = false;
+    const update = () => {
+      if (battery) {
+        setIsSavingBattery(!battery.charging && battery.level <= LOW_BATTERY_LEVEL);
+      }
+    };
+
+    getBattery.call(navigator)
+      .then(manager => {
+        if (isCancelled) return;
+        battery = manager;
+        update();
+        manager.addEventListener('chargingchange', update);
+        manager.addEventListener('levelchange', update);
+      })
+      .catch(error => {
+        console.warn('Battery status unavailable:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+      battery?.removeEventListener('chargingchange', update);
+      battery?.removeEventListener('levelchange', update);
+    };
+  }, []);
+
+  return isVisible && !isSavingBattery;
+};
+
+export default usePlaybackAllowed;
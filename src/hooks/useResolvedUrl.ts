@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import blobStorageService, { isStoredRef } from '../services/blobStorageService';
+
+/**
+ * Resolves a wallpaper path or thumbnail to a URL that can be rendered.
+ * Blob store and synced folder references are looked up lazily; plain URLs are returned as-is.
+ * @param value - Path or thumbnail from a wallpaper
+ * @returns The renderable URL, or undefined while it is being resolved
+ */
+export const useResolvedUrl = (value?: string): string | undefined => {
+  const [resolvedUrl, setResolvedUrl] = useState<string | undefined>(
+    value && !isStoredRef(value) ? value : undefined
+  );
+
+  useEffect(() => {
+    if (!value) {
+      setResolvedUrl(undefined);
+      return;
+    }
+
+    if (!isStoredRef(value)) {
+      setResolvedUrl(value);
+      return;
+    }
+
+    let isCancelled = false;
+    setResolvedUrl(undefined);
+
+    blobStorageService.resolveUrl(value)
+      .then(url => {
+        if (!isCancelled) {
+          setResolvedUrl(url);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to resolve wallpaper image:', error);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [value]);
+
+  return resolvedUrl;
+};
+
+export default useResolvedUrl;
@@ -0,0 +1,20 @@
+import { useEffect, useState } from 'react';
+import { Size } from '../utils/framingUtils';
+
+/**
+ * Tracks the size of the browser window
+ * @returns The current inner width and height
+ */
+export const useViewportSize = (): Size => {
+  const [size, setSize] = useState<Size>({ width: window.innerWidth, height: window.innerHeight });
+
+  useEffect(() => {
+    const handleResize = () => setSize({ width: window.innerWidth, height: window.innerHeight });
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  return size;
+};
+
+export default useViewportSize;
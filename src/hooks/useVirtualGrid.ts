@@ -0,0 +1,118 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+
+// Tailwind's md and lg breakpoints, matching grid-cols-2 md:grid-cols-3 lg:grid-cols-4
+const getColumnCount = (viewportWidth: number): number => {
+  if (viewportWidth >= 1024) return 4;
+  if (viewportWidth >= 768) return 3;
+  return 2;
+};
+
+export interface VirtualGridOptions {
+  itemCount: number;
+  scrollRef: RefObject<HTMLElement>;   // Element that scrolls the grid
+  padding?: number;                    // Grid padding in pixels (p-4)
+  gap?: number;                        // Gap between cards in pixels (gap-4)
+  aspectRatio?: number;                // Card width / height
+  overscanRows?: number;               // Rows rendered above and below the viewport
+  endThresholdRows?: number;           // onEndReached fires when this close to the last row
+  onEndReached?: () => void;
+}
+
+export interface VirtualGridRange {
+  gridRef: (element: HTMLElement | null) => void;  // Attach to the grid element
+  isMeasured: boolean;                 // False until the grid has been laid out
+  startIndex: number;                  // First item to render
+  endIndex: number;                    // One past the last item to render
+  paddingTop: number;                  // Space standing in for the rows above
+  paddingBottom: number;               // Space standing in for the rows below
+}
+
+/**
+ * Works out which cards of a fixed aspect ratio grid are near the viewport, so only
+ * those need to be mounted. Calls onEndReached as the user scrolls near the end.
+ */
+export const useVirtualGrid = ({
+  itemCount,
+  scrollRef,
+  padding = 16,
+  gap = 16,
+  aspectRatio = 16 / 9,
+  overscanRows = 2,
+  endThresholdRows = 2,
+  onEndReached
+}: VirtualGridOptions): VirtualGridRange => {
+  // Held in state so the measurements restart whenever the grid is remounted
+  const [gridElement, setGridElement] = useState<HTMLElement | null>(null);
+  const [layout, setLayout] = useState({ scrollTop: 0, viewportHeight: 0, gridTop: 0, gridWidth: 0, columns: 2 });
+
+  useEffect(() => {
+    const scrollElement = scrollRef.current;
+    if (!scrollElement || !gridElement) {
+      return;
+    }
+
+    let frame = 0;
+    const measure = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(() => {
+        const scrollRect = scrollElement.getBoundingClientRect();
+        const gridRect = gridElement.getBoundingClientRect();
+        setLayout({
+          scrollTop: scrollElement.scrollTop,
+          viewportHeight: scrollElement.clientHeight,
+          gridTop: gridRect.top - scrollRect.top + scrollElement.scrollTop,
+          gridWidth: gridElement.clientWidth,
+          columns: getColumnCount(window.innerWidth)
+        });
+      });
+    };
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(scrollElement);
+    observer.observe(gridElement);
+    scrollElement.addEventListener('scroll', measure, { passive: true });
+
+    return () => {
+      cancelAnimationFrame(frame);
+      observer.disconnect();
+      scrollElement.removeEventListener('scroll', measure);
+    };
+  }, [scrollRef, gridElement]);
+
+  const { scrollTop, viewportHeight, gridTop, gridWidth, columns } = layout;
+  const cardWidth = Math.max(0, (gridWidth - padding * 2 - gap * (columns - 1)) / columns);
+  const rowHeight = cardWidth / aspectRatio + gap;
+  const rowCount = Math.ceil(itemCount / columns);
+
+  // Before the first measurement, render the first few rows
+  const isMeasured = rowHeight > gap;
+  const firstVisibleRow = isMeasured ? Math.floor((scrollTop - gridTop - padding) / rowHeight) : 0;
+  const lastVisibleRow = isMeasured ? Math.ceil((scrollTop + viewportHeight - gridTop - padding) / rowHeight) : 4;
+  const startRow = Math.max(0, firstVisibleRow - overscanRows);
+  const endRow = Math.min(rowCount, Math.max(startRow, lastVisibleRow + overscanRows));
+
+  // Kept in a ref so a new callback each render doesn't count as reaching the end again
+  const onEndReachedRef = useRef(onEndReached);
+  useEffect(() => {
+    onEndReachedRef.current = onEndReached;
+  }, [onEndReached]);
+
+  const isNearEnd = isMeasured && itemCount > 0 && lastVisibleRow >= rowCount - endThresholdRows;
+  useEffect(() => {
+    if (isNearEnd) {
+      onEndReachedRef.current?.();
+    }
+  }, [isNearEnd, itemCount]);
+
+  return {
+    gridRef: setGridElement,
+    isMeasured,
+    startIndex: startRow * columns,
+    endIndex: Math.min(itemCount, endRow * columns),
+    paddingTop: padding + startRow * rowHeight,
+    paddingBottom: padding + Math.max(0, rowCount - endRow) * rowHeight
+  };
+};
+
+export default useVirtualGrid;
@@ -104,7 +104,7 @@ const Settings: React.FC = () => {
   };
   
   const handleWallpaperSelect = (wallpaper: any) => {
-    dispatch(setCurrentWallpaper(wallpaper));
+    dispatch(setCurrentWallpaper({ wallpaper }));
   };
   
   const handleBrowseWallpapers = () => {
@@ -114,7 +114,7 @@ const Settings: React.FC = () => {
   const handleRefreshWallpaper = async () => {
     try {
       const wallpaper = await wallpaperService.fetchRandomWallpaper();
-      dispatch(setCurrentWallpaper(wallpaper));
+      dispatch(setCurrentWallpaper({ wallpaper }));
       dispatch(addToLibrary(wallpaper));
     } catch (error) {
       console.error('Failed to refresh wallpaper:', error);
@@ -0,0 +1,329 @@
+import JSZip from 'jszip';
+import {
+  BackupConflict,
+  BackupExportResult,
+  BackupFile,
+  BackupImportMode,
+  BackupImportReport,
+  BackupManifest,
+  BackupWallpaperEntry
+} from '../types/backup';
+import { LibraryCollection, Wallpaper } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+import blobStorageService, { isStoredRef, toBlobRef } from './blobStorageService';
+import duplicateService from './duplicateService';
+
+// Version written to new manifests; bump when the manifest shape changes
+export const BACKUP_MANIFEST_VERSION = 1;
+
+const MANIFEST_PATH = 'manifest.json';
+
+// File extension used in archives for each image type
+export const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm'
+};
+
+/**
+ * Adds a blob-store image, or the file of a synced folder wallpaper, to the archive
+ * @returns Where the image was written, or undefined if the wallpaper has none stored
+ */
+const addImageFile = async (
+  zip: JSZip,
+  folder: string,
+  wallpaper: Wallpaper,
+  ref: string
+): Promise<BackupFile | undefined> => {
+  if (!isStoredRef(ref)) {
+    return undefined;
+  }
+
+  const blob = await blobStorageService.getBlobByRef(ref);
+  if (!blob) {
+    return undefined;
+  }
+
+  const type = blob.type || wallpaper.info?.mimeType || 'image/jpeg';
+  const fileName = wallpaper.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+  const path = `${folder}/${fileName}.${FILE_EXTENSIONS[type] || 'bin'}`;
+  zip.file(path, blob);
+  return { path, type };
+};
+
+/**
+ * Reads an image written by addImageFile
+ */
+const readImageFile = async (zip: JSZip, file: BackupFile): Promise<Blob | null> => {
+  const entry = zip.file(file.path);
+  if (!entry) {
+    return null;
+  }
+  const data = await entry.async('arraybuffer');
+  return new Blob([data], { type: file.type });
+};
+
+/**
+ * Checks that a parsed manifest is a backup this version can read
+ */
+const validateManifest = (data: unknown): BackupManifest => {
+  const manifest = data as Partial<BackupManifest> | null;
+
+  if (!manifest || typeof manifest !== 'object' || manifest.format !== 'nyatab-backup') {
+    throw new Error('This file is not a NyaTab backup');
+  }
+  if (typeof manifest.version !== 'number' || !Number.isInteger(manifest.version) || manifest.version < 1) {
+    throw new Error('The backup manifest has no valid version');
+  }
+  if (manifest.version > BACKUP_MANIFEST_VERSION) {
+    throw new Error(`This backup was made by a newer version of NyaTab (format ${manifest.version}). Update the extension to import it.`);
+  }
+  if (!Array.isArray(manifest.wallpapers) || !Array.isArray(manifest.collections) || !Array.isArray(manifest.todos)) {
+    throw new Error('The backup manifest is incomplete');
+  }
+
+  return manifest as BackupManifest;
+};
+
+/**
+ * Service for exporting the library to a ZIP archive and importing it again
+ */
+const backupService = {
+  /**
+   * Builds an archive with a JSON manifest of the library, collections, settings and todos,
+   * plus the stored image files. The Wallhaven API key is never exported.
+   * @returns The ZIP file, and how many synced folder wallpapers were left out
+   */
+  exportLibrary: async (): Promise<BackupExportResult> => {
+    try {
+      const [library, collections, settings, todos] = await Promise.all([
+        storageService.getLibrary(),
+        storageService.getLibraryCollections(),
+        storageService.getSettings(),
+        storageService.getTodos()
+      ]);
+
+      const zip = new JSZip();
+      const wallpapers: BackupWallpaperEntry[] = [];
+      let skippedFolderWallpapers = 0;
+
+      for (const wallpaper of library) {
+        const image = await addImageFile(zip, 'images', wallpaper, wallpaper.path);
+        // The file of a synced folder wallpaper can only be copied while the folder is readable
+        if (wallpaper.folderFile && !image) {
+          skippedFolderWallpapers++;
+          continue;
+        }
+
+        const thumbnail = wallpaper.thumbnail !== wallpaper.path
+          ? await addImageFile(zip, 'thumbnails', wallpaper, wallpaper.thumbnail)
+          : undefined;
+
+        // Restored from the archive, it is an ordinary stored image rather than a folder file
+        const savedWallpaper = { ...wallpaper };
+        delete savedWallpaper.folderFile;
+        wallpapers.push({ wallpaper: savedWallpaper, image, thumbnail });
+      }
+
+      // Runtime state doesn't belong in a backup
+      const savedSettings = settings ? { ...settings } : null;
+      if (savedSettings) {
+        delete savedSettings.isLoading;
+        delete savedSettings.error;
+      }
+
+      const manifest: BackupManifest = {
+        format: 'nyatab-backup',
+        version: BACKUP_MANIFEST_VERSION,
+        exportedAt: new Date().toISOString(),
+        wallpapers,
+        collections,
+        settings: savedSettings,
+        todos
+      };
+      zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2));
+
+      return {
+        archive: await zip.generateAsync({ type: 'blob' }),
+        skippedFolderWallpapers
+      };
+    } catch (error) {
+      logError('Failed to export library', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reads and validates the manifest of a backup archive
+   * @param file - ZIP file chosen by the user
+   */
+  readManifest: async (file: Blob): Promise<BackupManifest> => {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(file);
+    } catch (error) {
+      throw new Error('This file is not a valid ZIP archive');
+    }
+
+    const manifestFile = zip.file(MANIFEST_PATH);
+    if (!manifestFile) {
+      throw new Error('The archive has no manifest.json');
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(await manifestFile.async('string'));
+    } catch (error) {
+      throw new Error('The backup manifest is not valid JSON');
+    }
+
+    return validateManifest(data);
+  },
+
+  /**
+   * Imports a backup archive
+   * @param file - ZIP file chosen by the user
+   * @param mode - 'merge' keeps existing items and skips clashing ones; 'replace' swaps
+   *               the library, collections, todos and settings for the backup's
+   * @returns What was imported and the items that were skipped or changed
+   */
+  importLibrary: async (file: Blob, mode: BackupImportMode): Promise<BackupImportReport> => {
+    try {
+      const manifest = await backupService.readManifest(file);
+      const zip = await JSZip.loadAsync(file);
+      const conflicts: BackupConflict[] = [];
+
+      const [currentLibrary, currentCollections, currentTodos] = await Promise.all([
+        storageService.getLibrary(),
+        storageService.getLibraryCollections(),
+        storageService.getTodos()
+      ]);
+      const existingLibrary = mode === 'merge' ? currentLibrary : [];
+
+      // Wallpapers
+      const importedWallpapers: Wallpaper[] = [];
+      for (const { wallpaper, image, thumbnail } of manifest.wallpapers) {
+        const name = wallpaper.info?.title || wallpaper.id;
+
+        if (existingLibrary.some(w => w.id === wallpaper.id) || importedWallpapers.some(w => w.id === wallpaper.id)) {
+          conflicts.push({ type: 'wallpaper', id: wallpaper.id, name, reason: 'Already in your library' });
+          continue;
+        }
+
+        const imageBlob = image ? await readImageFile(zip, image) : null;
+        if (image && !imageBlob) {
+          conflicts.push({ type: 'wallpaper', id: wallpaper.id, name, reason: 'Image file is missing from the archive' });
+          continue;
+        }
+        const thumbnailBlob = thumbnail ? await readImageFile(zip, thumbnail) : null;
+
+        let storedWallpaper: Wallpaper = { ...wallpaper };
+        if (imageBlob) {
+          await blobStorageService.putBlobs(wallpaper.id, {
+            image: imageBlob,
+            thumbnail: thumbnailBlob || undefined
+          });
+          storedWallpaper = {
+            ...storedWallpaper,
+            path: toBlobRef(wallpaper.id, 'image'),
+            thumbnail: toBlobRef(wallpaper.id, thumbnailBlob ? 'thumbnail' : 'image')
+          };
+        }
+
+        const similar = duplicateService.findSimilar(storedWallpaper, existingLibrary);
+        if (similar.length > 0) {
+          conflicts.push({
+            type: 'wallpaper',
+            id: wallpaper.id,
+            name,
+            reason: `Imported, but looks like "${similar[0].info?.title || similar[0].id}" already in your library`
+          });
+        }
+
+        importedWallpapers.push(storedWallpaper);
+      }
+
+      const library = [...existingLibrary, ...importedWallpapers];
+      await storageService.saveLibrary(library);
+
+      // Free the images of replaced wallpapers that nothing else shows any more
+      if (mode === 'replace') {
+        await storageService.removeUnreferencedBlobs(currentLibrary.map(w => w.id));
+      }
+
+      // Collections only keep wallpapers that made it into the library
+      const libraryIds = new Set(library.map(w => w.id));
+      const collections: LibraryCollection[] = mode === 'merge' ? [...currentCollections] : [];
+      let collectionsImported = 0;
+      for (const collection of manifest.collections) {
+        const wallpaperIds = collection.wallpaperIds.filter(id => libraryIds.has(id));
+        const existingIndex = collections.findIndex(c => c.id === collection.id);
+
+        if (existingIndex !== -1) {
+          const existing = collections[existingIndex];
+          collections[existingIndex] = {
+            ...existing,
+            wallpaperIds: Array.from(new Set([...existing.wallpaperIds, ...wallpaperIds]))
+          };
+          conflicts.push({
+            type: 'collection',
+            id: collection.id,
+            name: collection.name,
+            reason: `Merged into your existing collection "${existing.name}"`
+          });
+        } else {
+          collections.push({ ...collection, wallpaperIds });
+          collectionsImported++;
+        }
+      }
+      await storageService.saveLibraryCollections(collections);
+
+      // Todos
+      const todos = mode === 'merge' ? [...currentTodos] : [];
+      let todosImported = 0;
+      for (const todo of manifest.todos) {
+        if (todos.some(t => t.id === todo.id)) {
+          conflicts.push({ type: 'todo', id: todo.id, name: todo.title, reason: 'Already in your todo list' });
+          continue;
+        }
+        todos.push(todo);
+        todosImported++;
+      }
+      await storageService.saveTodos(todos);
+
+      // Settings are only restored when replacing
+      let settingsImported = false;
+      if (manifest.settings) {
+        if (mode === 'replace') {
+          const currentSettings = await storageService.getSettings();
+          await storageService.saveSettings({ ...(currentSettings || {}), ...manifest.settings });
+          settingsImported = true;
+        } else {
+          conflicts.push({
+            type: 'settings',
+            id: 'settings',
+            name: 'Settings',
+            reason: 'Kept your current settings; import with Replace to restore them'
+          });
+        }
+      }
+
+      return {
+        wallpapersImported: importedWallpapers.length,
+        collectionsImported,
+        todosImported,
+        settingsImported,
+        conflicts
+      };
+    } catch (error) {
+      logError('Failed to import library', error);
+      throw error;
+    }
+  }
+};
+
+export default backupService;
@@ -0,0 +1,445 @@
+import { Wallpaper } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+
+// IndexedDB constants
+const BLOB_DB = {
+  NAME: 'nyatab',
+  VERSION: 2,
+  STORE: 'wallpaperBlobs',
+  FOLDER_STORE: 'folderHandles'
+};
+
+/**
+ * Prefix used in `Wallpaper.path` / `Wallpaper.thumbnail` for images held in IndexedDB.
+ * The reference is resolved to an object URL only when something needs to render it.
+ */
+export const BLOB_REF_PREFIX = 'nyatab-blob:';
+
+/**
+ * Prefix used in `Wallpaper.path` for images read straight from a synced folder
+ */
+export const FOLDER_REF_PREFIX = 'nyatab-folder:';
+
+export type BlobKind = 'image' | 'thumbnail';
+
+/**
+ * Record stored in IndexedDB for each library wallpaper
+ */
+interface WallpaperBlobRecord {
+  id: string;
+  image?: Blob;
+  thumbnail?: Blob;
+  updatedAt: string;
+}
+
+/**
+ * Record stored in IndexedDB for each synced folder
+ */
+interface FolderHandleRecord {
+  id: string;
+  handle: FileSystemDirectoryHandle;
+}
+
+// Object URLs already created in this document, keyed by blob reference
+const objectUrlCache = new Map<string, string>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and upgrades if needed) the extension database
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(BLOB_DB.NAME, BLOB_DB.VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(BLOB_DB.STORE)) {
+        db.createObjectStore(BLOB_DB.STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(BLOB_DB.FOLDER_STORE)) {
+        db.createObjectStore(BLOB_DB.FOLDER_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error || new Error('Failed to open wallpaper database'));
+    };
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store, the blob store unless another is named
+ */
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest,
+  storeName: string = BLOB_DB.STORE
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+};
+
+/**
+ * Builds the reference string stored on a wallpaper for one of its blobs
+ */
+export const toBlobRef = (id: string, kind: BlobKind): string => `${BLOB_REF_PREFIX}${kind}/${id}`;
+
+/**
+ * Checks whether a path or thumbnail points into the blob store
+ */
+export const isBlobRef = (value?: string): boolean => !!value && value.startsWith(BLOB_REF_PREFIX);
+
+/**
+ * Builds the reference string stored on a wallpaper for a file in a synced folder
+ */
+export const toFolderRef = (folderId: string, relativePath: string): string =>
+  `${FOLDER_REF_PREFIX}${folderId}/${relativePath}`;
+
+/**
+ * Checks whether a path points at a file in a synced folder
+ */
+export const isFolderRef = (value?: string): boolean => !!value && value.startsWith(FOLDER_REF_PREFIX);
+
+/**
+ * Checks whether a path or thumbnail has to be resolved before it can be rendered
+ */
+export const isStoredRef = (value?: string): boolean => isBlobRef(value) || isFolderRef(value);
+
+/**
+ * Splits a folder reference into the folder id and the path inside it
+ */
+const parseFolderRef = (ref: string): { folderId: string; relativePath: string } | null => {
+  const match = ref.slice(FOLDER_REF_PREFIX.length).match(/^([^/]+)\/(.+)$/);
+  return match ? { folderId: match[1], relativePath: match[2] } : null;
+};
+
+/**
+ * Splits a blob reference into its kind and wallpaper id
+ */
+const parseBlobRef = (ref: string): { kind: BlobKind; id: string } | null => {
+  const match = ref.slice(BLOB_REF_PREFIX.length).match(/^(image|thumbnail)\/(.+)$/);
+  return match ? { kind: match[1] as BlobKind, id: match[2] } : null;
+};
+
+/**
+ * Converts a data URL (or a same-document blob URL) into a Blob
+ */
+export const urlToBlob = async (url: string): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to read image data: ${response.status}`);
+  }
+  return response.blob();
+};
+
+/**
+ * Forgets any object URLs created for a wallpaper
+ */
+const revokeCachedUrls = (id: string): void => {
+  (['image', 'thumbnail'] as BlobKind[]).forEach(kind => {
+    const ref = toBlobRef(id, kind);
+    const url = objectUrlCache.get(ref);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrlCache.delete(ref);
+    }
+  });
+};
+
+/**
+ * Service for storing full-size wallpaper images and thumbnails in IndexedDB, along with
+ * the directory handles of synced folders whose images are read from disk instead
+ */
+const blobStorageService = {
+  /**
+   * Stores the image and thumbnail blobs for a wallpaper
+   */
+  putBlobs: async (id: string, blobs: { image?: Blob; thumbnail?: Blob }): Promise<void> => {
+    try {
+      const existing = await runRequest<WallpaperBlobRecord | undefined>(
+        'readonly',
+        store => store.get(id)
+      );
+
+      const record: WallpaperBlobRecord = {
+        id,
+        image: blobs.image || existing?.image,
+        thumbnail: blobs.thumbnail || existing?.thumbnail,
+        updatedAt: new Date().toISOString()
+      };
+
+      await runRequest('readwrite', store => store.put(record));
+      revokeCachedUrls(id);
+    } catch (error) {
+      logError('Failed to store wallpaper blobs', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets one of the blobs stored for a wallpaper
+   */
+  getBlob: async (id: string, kind: BlobKind): Promise<Blob | null> => {
+    try {
+      const record = await runRequest<WallpaperBlobRecord | undefined>(
+        'readonly',
+        store => store.get(id)
+      );
+      return record?.[kind] || null;
+    } catch (error) {
+      logError('Failed to read wallpaper blob', error);
+      return null;
+    }
+  },
+
+  /**
+   * Gets the blob a reference points at, falling back to the other kind like resolveUrl does
+   */
+  getBlobByRef: async (ref: string): Promise<Blob | null> => {
+    if (isFolderRef(ref)) {
+      return blobStorageService.getFolderFile(ref).catch(error => {
+        logError('Failed to read synced folder file', error);
+        return null;
+      });
+    }
+
+    const parsed = parseBlobRef(ref);
+    if (!parsed) {
+      return null;
+    }
+    return await blobStorageService.getBlob(parsed.id, parsed.kind)
+      || await blobStorageService.getBlob(parsed.id, parsed.kind === 'image' ? 'thumbnail' : 'image');
+  },
+
+  /**
+   * Removes the stored blobs for a wallpaper
+   */
+  removeBlobs: async (id: string): Promise<void> => {
+    try {
+      await runRequest('readwrite', store => store.delete(id));
+      revokeCachedUrls(id);
+    } catch (error) {
+      logError('Failed to remove wallpaper blobs', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Removes every stored blob and folder handle
+   */
+  clear: async (): Promise<void> => {
+    try {
+      await runRequest('readwrite', store => store.clear());
+      await runRequest('readwrite', store => store.clear(), BLOB_DB.FOLDER_STORE);
+      objectUrlCache.forEach(url => URL.revokeObjectURL(url));
+      objectUrlCache.clear();
+    } catch (error) {
+      logError('Failed to clear wallpaper blobs', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Resolves a wallpaper path or thumbnail to something an <img> can load.
+   * Plain URLs are returned unchanged; blob references become cached object URLs.
+   */
+  resolveUrl: async (value: string): Promise<string> => {
+    if (!isStoredRef(value)) {
+      return value;
+    }
+
+    const cached = objectUrlCache.get(value);
+    if (cached) {
+      return cached;
+    }
+
+    if (isFolderRef(value)) {
+      const fileUrl = URL.createObjectURL(await blobStorageService.getFolderFile(value));
+      objectUrlCache.set(value, fileUrl);
+      return fileUrl;
+    }
+
+    const parsed = parseBlobRef(value);
+    if (!parsed) {
+      throw new Error(`Invalid blob reference: ${value}`);
+    }
+
+    // Fall back to the full image when no thumbnail was stored, and vice versa
+    const blob = await blobStorageService.getBlob(parsed.id, parsed.kind)
+      || await blobStorageService.getBlob(parsed.id, parsed.kind === 'image' ? 'thumbnail' : 'image');
+
+    if (!blob) {
+      throw new Error(`Wallpaper image not found in storage: ${parsed.id}`);
+    }
+
+    const url = URL.createObjectURL(blob);
+    objectUrlCache.set(value, url);
+    return url;
+  },
+
+  /**
+   * Forgets the object URL made for a folder file, so a changed file is read again
+   */
+  forgetFolderFileUrl: (ref: string): void => {
+    const url = objectUrlCache.get(ref);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrlCache.delete(ref);
+    }
+  },
+
+  /**
+   * Stores the directory handle of a synced folder
+   */
+  putFolderHandle: async (id: string, handle: FileSystemDirectoryHandle): Promise<void> => {
+    try {
+      const record: FolderHandleRecord = { id, handle };
+      await runRequest('readwrite', store => store.put(record), BLOB_DB.FOLDER_STORE);
+    } catch (error) {
+      logError('Failed to store folder handle', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets the directory handle of a synced folder
+   */
+  getFolderHandle: async (id: string): Promise<FileSystemDirectoryHandle | null> => {
+    try {
+      const record = await runRequest<FolderHandleRecord | undefined>(
+        'readonly',
+        store => store.get(id),
+        BLOB_DB.FOLDER_STORE
+      );
+      return record?.handle || null;
+    } catch (error) {
+      logError('Failed to read folder handle', error);
+      return null;
+    }
+  },
+
+  /**
+   * Gets the directory handles of every synced folder
+   */
+  getFolderHandles: async (): Promise<FolderHandleRecord[]> => {
+    try {
+      return await runRequest<FolderHandleRecord[]>('readonly', store => store.getAll(), BLOB_DB.FOLDER_STORE);
+    } catch (error) {
+      logError('Failed to read folder handles', error);
+      return [];
+    }
+  },
+
+  /**
+   * Removes the directory handle of a synced folder
+   */
+  removeFolderHandle: async (id: string): Promise<void> => {
+    try {
+      await runRequest('readwrite', store => store.delete(id), BLOB_DB.FOLDER_STORE);
+    } catch (error) {
+      logError('Failed to remove folder handle', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reads a file from a synced folder
+   * @param ref - Folder reference from a wallpaper path
+   * @throws When the folder is gone, access to it has lapsed or the file isn't there
+   */
+  getFolderFile: async (ref: string): Promise<File> => {
+    const parsed = parseFolderRef(ref);
+    if (!parsed) {
+      throw new Error(`Invalid folder reference: ${ref}`);
+    }
+
+    const handle = await blobStorageService.getFolderHandle(parsed.folderId);
+    if (!handle) {
+      throw new Error('This wallpaper\'s folder is no longer synced');
+    }
+    if (await handle.queryPermission({ mode: 'read' }) !== 'granted') {
+      throw new Error(`Access to the folder "${handle.name}" has to be granted again`);
+    }
+
+    const parts = parsed.relativePath.split('/');
+    const fileName = parts.pop() as string;
+    let directory = handle;
+    for (const part of parts) {
+      directory = await directory.getDirectoryHandle(part);
+    }
+    const fileHandle = await directory.getFileHandle(fileName);
+    return fileHandle.getFile();
+  },
+
+  /**
+   * Moves inline image data (data URLs or blob URLs) of a wallpaper into IndexedDB
+   * and returns a copy whose path and thumbnail point at the stored blobs.
+   * Remote wallpapers and already stored wallpapers are returned unchanged.
+   */
+  storeWallpaperImages: async (wallpaper: Wallpaper): Promise<Wallpaper> => {
+    const isInline = (value?: string) =>
+      !!value && (value.startsWith('data:') || value.startsWith('blob:'));
+
+    if (!isInline(wallpaper.path) && !isInline(wallpaper.thumbnail)) {
+      return wallpaper;
+    }
+
+    const image = isInline(wallpaper.path) ? await urlToBlob(wallpaper.path) : undefined;
+    const thumbnail = isInline(wallpaper.thumbnail) ? await urlToBlob(wallpaper.thumbnail) : undefined;
+
+    await blobStorageService.putBlobs(wallpaper.id, { image, thumbnail });
+
+    return {
+      ...wallpaper,
+      path: image ? toBlobRef(wallpaper.id, 'image') : wallpaper.path,
+      thumbnail: thumbnail ? toBlobRef(wallpaper.id, 'thumbnail') : wallpaper.thumbnail
+    };
+  },
+
+  /**
+   * Downloads a remote wallpaper's images into the blob store, for hosts that
+   * only serve images with extra request headers
+   * @param wallpaper - Remote wallpaper to store
+   * @param fetchImage - Downloads a single image URL
+   * @returns Copy of the wallpaper with path and thumbnail replaced by references
+   */
+  storeRemoteImages: async (
+    wallpaper: Wallpaper,
+    fetchImage: (url: string) => Promise<Blob>
+  ): Promise<Wallpaper> => {
+    const image = wallpaper.path && !isBlobRef(wallpaper.path) ? await fetchImage(wallpaper.path) : undefined;
+    // A missing thumbnail is not worth failing the whole wallpaper for
+    const thumbnail = wallpaper.thumbnail && !isBlobRef(wallpaper.thumbnail)
+      ? await fetchImage(wallpaper.thumbnail).catch(() => undefined)
+      : undefined;
+
+    await blobStorageService.putBlobs(wallpaper.id, { image, thumbnail });
+
+    return {
+      ...wallpaper,
+      path: image ? toBlobRef(wallpaper.id, 'image') : wallpaper.path,
+      thumbnail: thumbnail
+        ? toBlobRef(wallpaper.id, 'thumbnail')
+        : image ? toBlobRef(wallpaper.id, 'image') : wallpaper.thumbnail
+    };
+  }
+};
+
+export default blobStorageService;
@@ -0,0 +1,340 @@
+import JSZip from 'jszip';
+import { BulkActionType, BulkCollectionChange, BulkResult, BulkSnapshot, BulkUndoEntry } from '../types/bulk';
+import { Wallpaper } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+import blobStorageService, { isStoredRef, urlToBlob } from './blobStorageService';
+import tagService from './tagService';
+import { FILE_EXTENSIONS } from './backupService';
+
+/**
+ * Called after each wallpaper a bulk action has processed
+ */
+export type BulkProgressCallback = (done: number, total: number) => void;
+
+/**
+ * Adds the wallpapers that aren't in the library yet, one at a time so progress can be shown.
+ * A wallpaper that fails to download is skipped rather than failing the whole action.
+ * @returns How many wallpapers could not be added
+ */
+const addMissingToLibrary = async (wallpapers: Wallpaper[], onProgress?: BulkProgressCallback): Promise<number> => {
+  const existingIds = new Set((await storageService.getLibrary()).map(w => w.id));
+  let failed = 0;
+
+  for (let i = 0; i < wallpapers.length; i++) {
+    if (!existingIds.has(wallpapers[i].id)) {
+      try {
+        const wallpaperCopy = JSON.parse(JSON.stringify(wallpapers[i])) as Wallpaper;
+        wallpaperCopy.addedAt = new Date().toISOString();
+        await storageService.addToLibrary(wallpaperCopy);
+      } catch (error) {
+        logError(`Failed to add wallpaper ${wallpapers[i].id} to library`, error);
+        failed++;
+      }
+    }
+    onProgress?.(i + 1, wallpapers.length);
+  }
+  return failed;
+};
+
+/**
+ * Reads the current library and collections back after an action
+ */
+const readResult = async (failed = 0): Promise<BulkResult> => {
+  const [library, collections] = await Promise.all([
+    storageService.getLibrary(),
+    storageService.getLibraryCollections()
+  ]);
+  return { library, collections, failed };
+};
+
+/**
+ * Drops the wallpapers of an undo entry from the images waiting to be removed,
+ * once it has been undone or discarded
+ */
+const forgetPendingBlobRemovals = async (entry: BulkUndoEntry): Promise<void> => {
+  const entryIds = new Set(entry.removed.map(({ wallpaper }) => wallpaper.id));
+  const pending = await storageService.getPendingBlobRemovals();
+  if (pending.some(id => entryIds.has(id))) {
+    await storageService.savePendingBlobRemovals(pending.filter(id => !entryIds.has(id)));
+  }
+};
+
+/**
+ * Checks whether a bulk action changed the fields it edits: tags and the favourite mark
+ */
+const hasChangedFields = (before: Wallpaper, after: Wallpaper): boolean => {
+  return !!before.isFavorite !== !!after.isFavorite
+    || JSON.stringify(before.info?.tags || []) !== JSON.stringify(after.info?.tags || []);
+};
+
+/**
+ * Service for actions on several selected wallpapers at once. Each action that changes
+ * the library starts from a snapshot, which createUndoEntry compares with the result.
+ */
+const bulkService = {
+  /**
+   * Records the library and collections before a bulk action
+   */
+  takeSnapshot: async (): Promise<BulkSnapshot> => {
+    const [library, collections] = await Promise.all([
+      storageService.getLibrary(),
+      storageService.getLibraryCollections()
+    ]);
+    return { library, collections };
+  },
+
+  /**
+   * Works out what a bulk action changed, so undo can reverse just that
+   * @param action - Action that ran
+   * @param label - Text shown next to the undo button
+   * @param before - Snapshot taken before the action
+   * @param after - Library and collections the action left
+   */
+  createUndoEntry: (action: BulkActionType, label: string, before: BulkSnapshot, after: BulkSnapshot): BulkUndoEntry => {
+    const beforeById = new Map(before.library.map(w => [w.id, w]));
+    const afterById = new Map(after.library.map(w => [w.id, w]));
+
+    const collectionChanges: BulkCollectionChange[] = [];
+    for (const collection of after.collections) {
+      const previousIds = before.collections.find(c => c.id === collection.id)?.wallpaperIds || [];
+      const addedIds = collection.wallpaperIds.filter(id => !previousIds.includes(id));
+      const removedIds = previousIds.filter(id => !collection.wallpaperIds.includes(id));
+      if (addedIds.length > 0 || removedIds.length > 0) {
+        collectionChanges.push({ collectionId: collection.id, addedIds, removedIds });
+      }
+    }
+
+    return {
+      action,
+      label,
+      addedIds: after.library.filter(w => !beforeById.has(w.id)).map(w => w.id),
+      removed: before.library
+        .map((wallpaper, index) => ({ wallpaper, index }))
+        .filter(({ wallpaper }) => !afterById.has(wallpaper.id)),
+      changed: before.library.filter(w => {
+        const updated = afterById.get(w.id);
+        return !!updated && hasChangedFields(w, updated);
+      }),
+      collectionChanges
+    };
+  },
+
+  /**
+   * Adds wallpapers to the library, skipping ones already in it
+   */
+  addToLibrary: async (wallpapers: Wallpaper[], onProgress?: BulkProgressCallback): Promise<BulkResult> => {
+    try {
+      const failed = await addMissingToLibrary(wallpapers, onProgress);
+      return await readResult(failed);
+    } catch (error) {
+      logError('Failed to add wallpapers to library', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Removes wallpapers from the library and its collections. Their stored images are
+   * kept until the undo entry is discarded, so the removal can still be undone.
+   */
+  removeFromLibrary: async (wallpaperIds: string[]): Promise<BulkResult> => {
+    try {
+      const ids = new Set(wallpaperIds);
+      const [library, collections] = await Promise.all([
+        storageService.getLibrary(),
+        storageService.getLibraryCollections()
+      ]);
+
+      await storageService.saveLibrary(library.filter(w => !ids.has(w.id)));
+      if (collections.some(c => c.wallpaperIds.some(id => ids.has(id)))) {
+        await storageService.saveLibraryCollections(collections.map(c => ({
+          ...c,
+          wallpaperIds: c.wallpaperIds.filter(id => !ids.has(id))
+        })));
+      }
+
+      // Remembered in storage, so the images still go if the page closes before the undo entry is discarded
+      const pending = await storageService.getPendingBlobRemovals();
+      await storageService.savePendingBlobRemovals(Array.from(new Set([...pending, ...wallpaperIds])));
+      return await readResult();
+    } catch (error) {
+      logError('Failed to remove wallpapers from library', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Adds wallpapers to a collection, adding them to the library first where needed
+   */
+  addToCollection: async (
+    collectionId: string,
+    wallpapers: Wallpaper[],
+    onProgress?: BulkProgressCallback
+  ): Promise<BulkResult> => {
+    try {
+      const failed = await addMissingToLibrary(wallpapers, onProgress);
+      const libraryIds = new Set((await storageService.getLibrary()).map(w => w.id));
+      const collections = await storageService.getLibraryCollections();
+
+      await storageService.saveLibraryCollections(collections.map(c => (c.id === collectionId
+        ? {
+            ...c,
+            wallpaperIds: Array.from(new Set([
+              ...c.wallpaperIds,
+              ...wallpapers.map(w => w.id).filter(id => libraryIds.has(id))
+            ]))
+          }
+        : c)));
+      return await readResult(failed);
+    } catch (error) {
+      logError('Failed to add wallpapers to collection', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Adds and removes tags, adding the wallpapers to the library first where needed
+   */
+  updateTags: async (
+    wallpapers: Wallpaper[],
+    add: string[],
+    remove: string[],
+    onProgress?: BulkProgressCallback
+  ): Promise<BulkResult> => {
+    try {
+      const failed = await addMissingToLibrary(wallpapers, onProgress);
+      await tagService.updateTags(wallpapers.map(w => w.id), add, remove);
+      return await readResult(failed);
+    } catch (error) {
+      logError('Failed to update tags', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Marks wallpapers as favourites or clears the mark. Favourites are library
+   * wallpapers, so marking adds them to the library first where needed.
+   */
+  setFavorite: async (
+    wallpapers: Wallpaper[],
+    isFavorite: boolean,
+    onProgress?: BulkProgressCallback
+  ): Promise<BulkResult> => {
+    try {
+      const failed = isFavorite ? await addMissingToLibrary(wallpapers, onProgress) : 0;
+      const ids = new Set(wallpapers.map(w => w.id));
+      const library = await storageService.getLibrary();
+
+      await storageService.saveLibrary(library.map(w => (ids.has(w.id) ? { ...w, isFavorite } : w)));
+      return await readResult(failed);
+    } catch (error) {
+      logError('Failed to update favourites', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Puts the full images of the wallpapers in a ZIP archive. Images that can't be
+   * read are left out.
+   * @returns The archive and how many images were left out
+   */
+  createArchive: async (
+    wallpapers: Wallpaper[],
+    onProgress?: BulkProgressCallback
+  ): Promise<{ archive: Blob; failed: number }> => {
+    try {
+      const zip = new JSZip();
+      let failed = 0;
+
+      for (let i = 0; i < wallpapers.length; i++) {
+        const wallpaper = wallpapers[i];
+        try {
+          const blob = isStoredRef(wallpaper.path)
+            ? await blobStorageService.getBlobByRef(wallpaper.path)
+            : await urlToBlob(wallpaper.path);
+          if (!blob) {
+            throw new Error('Image not found in storage');
+          }
+
+          const fileName = wallpaper.id.replace(/[^a-zA-Z0-9_-]/g, '_');
+          zip.file(`wallpaper-${fileName}.${FILE_EXTENSIONS[blob.type] || 'jpg'}`, blob);
+        } catch (error) {
+          logError(`Failed to download wallpaper ${wallpaper.id}`, error);
+          failed++;
+        }
+        onProgress?.(i + 1, wallpapers.length);
+      }
+
+      return { archive: await zip.generateAsync({ type: 'blob' }), failed };
+    } catch (error) {
+      logError('Failed to create wallpaper archive', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Reverses what an undo entry recorded, leaving changes made since then alone,
+   * and drops the stored images of wallpapers the undone action added
+   */
+  restore: async (entry: BulkUndoEntry): Promise<BulkResult> => {
+    try {
+      const [library, collections] = await Promise.all([
+        storageService.getLibrary(),
+        storageService.getLibraryCollections()
+      ]);
+
+      const addedIds = new Set(entry.addedIds);
+      const changedById = new Map(entry.changed.map(w => [w.id, w]));
+      const restoredLibrary = library
+        .filter(w => !addedIds.has(w.id))
+        .map(w => {
+          const previous = changedById.get(w.id);
+          return previous
+            ? { ...w, isFavorite: previous.isFavorite, info: { ...w.info, tags: previous.info?.tags } }
+            : w;
+        });
+      // Removed wallpapers go back where they were, unless they have been added again since
+      for (const { wallpaper, index } of entry.removed) {
+        if (!restoredLibrary.some(w => w.id === wallpaper.id)) {
+          restoredLibrary.splice(Math.min(index, restoredLibrary.length), 0, wallpaper);
+        }
+      }
+
+      const libraryIds = new Set(restoredLibrary.map(w => w.id));
+      const restoredCollections = collections.map(c => {
+        const change = entry.collectionChanges.find(ch => ch.collectionId === c.id);
+        const wallpaperIds = change
+          ? [
+              ...c.wallpaperIds.filter(id => !change.addedIds.includes(id)),
+              ...change.removedIds.filter(id => !c.wallpaperIds.includes(id))
+            ]
+          : c.wallpaperIds;
+        return { ...c, wallpaperIds: wallpaperIds.filter(id => libraryIds.has(id)) };
+      });
+
+      await storageService.saveLibrary(restoredLibrary);
+      await storageService.saveLibraryCollections(restoredCollections);
+      await storageService.removeUnreferencedBlobs(entry.addedIds);
+      await forgetPendingBlobRemovals(entry);
+      return await readResult();
+    } catch (error) {
+      logError('Failed to undo bulk action', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Forgets an undo entry, dropping the stored images of wallpapers it kept for undo
+   */
+  discard: async (entry: BulkUndoEntry): Promise<void> => {
+    try {
+      await storageService.removeUnreferencedBlobs(entry.removed.map(({ wallpaper }) => wallpaper.id));
+      await forgetPendingBlobRemovals(entry);
+    } catch (error) {
+      logError('Failed to clean up after bulk action', error);
+      throw error;
+    }
+  }
+};
+
+export default bulkService;
@@ -0,0 +1,148 @@
+import { LibraryCollection } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+
+/**
+ * Service for managing library collections
+ */
+const collectionService = {
+  /**
+   * Get all collections
+   * @returns Promise with the collections in display order
+   */
+  getCollections: async (): Promise<LibraryCollection[]> => {
+    try {
+      return await storageService.getLibraryCollections();
+    } catch (error) {
+      logError('Failed to get collections', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Create a new collection at the end of the list
+   * @param name - Name of the collection
+   * @returns The updated collections
+   */
+  createCollection: async (name: string): Promise<LibraryCollection[]> => {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('Collection name cannot be empty');
+      }
+
+      const collections = await storageService.getLibraryCollections();
+      const newCollection: LibraryCollection = {
+        id: crypto.randomUUID(),
+        name: trimmedName,
+        wallpaperIds: [],
+        createdAt: new Date().toISOString()
+      };
+
+      const updatedCollections = [...collections, newCollection];
+      await storageService.saveLibraryCollections(updatedCollections);
+      return updatedCollections;
+    } catch (error) {
+      logError('Failed to create collection', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Rename a collection
+   * @param id - ID of the collection
+   * @param name - New name
+   * @returns The updated collections
+   */
+  renameCollection: async (id: string, name: string): Promise<LibraryCollection[]> => {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('Collection name cannot be empty');
+      }
+
+      const collections = await storageService.getLibraryCollections();
+      const updatedCollections = collections.map(c => (c.id === id ? { ...c, name: trimmedName } : c));
+      await storageService.saveLibraryCollections(updatedCollections);
+      return updatedCollections;
+    } catch (error) {
+      logError('Failed to rename collection', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Move a collection to a new position
+   * @param id - ID of the collection
+   * @param toIndex - Position to move it to
+   * @returns The updated collections
+   */
+  moveCollection: async (id: string, toIndex: number): Promise<LibraryCollection[]> => {
+    try {
+      const collections = await storageService.getLibraryCollections();
+      const fromIndex = collections.findIndex(c => c.id === id);
+      if (fromIndex === -1) {
+        return collections;
+      }
+
+      const updatedCollections = [...collections];
+      const [moved] = updatedCollections.splice(fromIndex, 1);
+      const targetIndex = Math.max(0, Math.min(toIndex, updatedCollections.length));
+      updatedCollections.splice(targetIndex, 0, moved);
+
+      await storageService.saveLibraryCollections(updatedCollections);
+      return updatedCollections;
+    } catch (error) {
+      logError('Failed to move collection', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a collection (its wallpapers stay in the library)
+   * @param id - ID of the collection
+   * @returns The updated collections
+   */
+  deleteCollection: async (id: string): Promise<LibraryCollection[]> => {
+    try {
+      const collections = await storageService.getLibraryCollections();
+      const updatedCollections = collections.filter(c => c.id !== id);
+      await storageService.saveLibraryCollections(updatedCollections);
+      return updatedCollections;
+    } catch (error) {
+      logError('Failed to delete collection', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Add a wallpaper to a collection, or remove it if it is already there
+   * @param collectionId - ID of the collection
+   * @param wallpaperId - ID of the library wallpaper
+   * @returns The updated collections
+   */
+  toggleWallpaper: async (collectionId: string, wallpaperId: string): Promise<LibraryCollection[]> => {
+    try {
+      const collections = await storageService.getLibraryCollections();
+      const updatedCollections = collections.map(c => {
+        if (c.id !== collectionId) {
+          return c;
+        }
+        return {
+          ...c,
+          wallpaperIds: c.wallpaperIds.includes(wallpaperId)
+            ? c.wallpaperIds.filter(id => id !== wallpaperId)
+            : [...c.wallpaperIds, wallpaperId]
+        };
+      });
+
+      await storageService.saveLibraryCollections(updatedCollections);
+      return updatedCollections;
+    } catch (error) {
+      logError('Failed to update collection', error);
+      throw error;
+    }
+  }
+};
+
+export default collectionService;
@@ -0,0 +1,107 @@
+import { Wallpaper } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+import { hashImageBlob, isSimilarHash } from '../utils/imageHashUtils';
+import storageService from './storageService';
+import { getThumbnailBlob } from './wallpaperService';
+
+/**
+ * Service for finding library wallpapers that show the same image
+ */
+const duplicateService = {
+  /**
+   * Computes the perceptual hash of a wallpaper from its thumbnail
+   * @param wallpaper - Wallpaper to hash
+   * @returns The hash, or null if the thumbnail can't be read
+   */
+  hashWallpaper: async (wallpaper: Wallpaper): Promise<string | null> => {
+    try {
+      const blob = await getThumbnailBlob(wallpaper);
+      return blob ? await hashImageBlob(blob) : null;
+    } catch (error) {
+      console.error('Failed to hash wallpaper:', wallpaper.id, error);
+      return null;
+    }
+  },
+
+  /**
+   * Finds library wallpapers that look like the given one
+   * @param wallpaper - Wallpaper with an imageHash
+   * @param library - Wallpapers to compare against
+   * @returns Similar wallpapers, not including the wallpaper itself
+   */
+  findSimilar: (wallpaper: Wallpaper, library: Wallpaper[]): Wallpaper[] => {
+    const { imageHash } = wallpaper;
+    if (!imageHash) {
+      return [];
+    }
+    return library.filter(w => w.id !== wallpaper.id && !!w.imageHash && isSimilarHash(imageHash, w.imageHash));
+  },
+
+  /**
+   * Hashes library wallpapers added before hashes were stored
+   * @returns The library with every readable wallpaper hashed
+   */
+  hashLibrary: async (): Promise<Wallpaper[]> => {
+    try {
+      const library = await storageService.getLibrary();
+      const missing = library.filter(w => !w.imageHash);
+      if (missing.length === 0) {
+        return library;
+      }
+
+      const hashes = new Map<string, string>();
+      for (const wallpaper of missing) {
+        const hash = await duplicateService.hashWallpaper(wallpaper);
+        if (hash) {
+          hashes.set(wallpaper.id, hash);
+        }
+      }
+
+      // Re-read so wallpapers added while hashing are kept
+      const latestLibrary = await storageService.getLibrary();
+      const updatedLibrary = latestLibrary.map(w => (hashes.has(w.id) ? { ...w, imageHash: hashes.get(w.id) } : w));
+      await storageService.saveLibrary(updatedLibrary);
+      return updatedLibrary;
+    } catch (error) {
+      logError('Failed to hash library', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Groups library wallpapers that look alike
+   * @param library - Wallpapers with imageHash set
+   * @returns Groups of two or more similar wallpapers, each in library order
+   */
+  findDuplicateGroups: (library: Wallpaper[]): Wallpaper[][] => {
+    const hashed = library.filter(w => !!w.imageHash);
+
+    // Union-find, so chains of similar images end up in one group
+    const parent = hashed.map((_, index) => index);
+    const findRoot = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]];
+        index = parent[index];
+      }
+      return index;
+    };
+
+    for (let i = 0; i < hashed.length; i++) {
+      for (let j = i + 1; j < hashed.length; j++) {
+        if (isSimilarHash(hashed[i].imageHash!, hashed[j].imageHash!)) {
+          parent[findRoot(j)] = findRoot(i);
+        }
+      }
+    }
+
+    const groups = new Map<number, Wallpaper[]>();
+    hashed.forEach((wallpaper, index) => {
+      const root = findRoot(index);
+      groups.set(root, [...(groups.get(root) || []), wallpaper]);
+    });
+
+    return Array.from(groups.values()).filter(group => group.length > 1);
+  }
+};
+
+export default duplicateService;
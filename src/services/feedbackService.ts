@@ -0,0 +1,188 @@
+import { Wallpaper } from '../types/wallpaper';
+import { BlocklistEntry, BlocklistEntryType, WallpaperFeedback } from '../types/feedback';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+
+// Shuffle weight multipliers for a thumbs up or down
+const VOTE_WEIGHTS = { up: 2, down: 0.25 };
+
+/**
+ * Checks whether a wallpaper matches any blocklist entry. Tags and uploaders match
+ * without regard to case; wallpapers without tag or uploader details only match by id.
+ */
+export const isBlocked = (wallpaper: Wallpaper, blocklist: BlocklistEntry[]): boolean => {
+  if (blocklist.length === 0) {
+    return false;
+  }
+
+  const tags = new Set((wallpaper.info?.tags || []).map(tag => tag.toLowerCase()));
+  const artist = wallpaper.info?.artist;
+  const uploaders = artist ? [artist.id, artist.name].map(name => name.toLowerCase()) : [];
+
+  return blocklist.some(entry => {
+    switch (entry.type) {
+      case 'wallpaper':
+        return entry.value === wallpaper.id;
+      case 'tag':
+        return tags.has(entry.value.toLowerCase());
+      case 'uploader':
+        return uploaders.includes(entry.value.toLowerCase());
+    }
+  });
+};
+
+/**
+ * Shuffle weight multiplier from a vote and rating: 3 stars is neutral, each star
+ * above or below moves it by a third
+ */
+export const getFeedbackWeight = (feedback?: WallpaperFeedback): number => {
+  if (!feedback) {
+    return 1;
+  }
+
+  const voteWeight = feedback.vote ? VOTE_WEIGHTS[feedback.vote] : 1;
+  const ratingWeight = feedback.rating ? feedback.rating / 3 : 1;
+  return voteWeight * ratingWeight;
+};
+
+/**
+ * Service for votes, ratings and the "never show again" blocklist
+ */
+const feedbackService = {
+  /**
+   * Get votes and ratings for every wallpaper that has any
+   * @returns Feedback keyed by wallpaper id
+   */
+  getFeedback: async (): Promise<Record<string, WallpaperFeedback>> => {
+    try {
+      return await storageService.getWallpaperFeedback();
+    } catch (error) {
+      logError('Failed to get wallpaper feedback', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Replace the vote and rating of a wallpaper; empty feedback removes it
+   * @param wallpaperId - ID of the wallpaper
+   * @param feedback - New vote and rating
+   * @returns The updated feedback
+   */
+  setFeedback: async (wallpaperId: string, feedback: WallpaperFeedback): Promise<Record<string, WallpaperFeedback>> => {
+    try {
+      if (feedback.rating !== undefined && (feedback.rating < 1 || feedback.rating > 5)) {
+        throw new Error('Ratings go from 1 to 5 stars');
+      }
+
+      const allFeedback = await storageService.getWallpaperFeedback();
+      if (feedback.vote || feedback.rating) {
+        allFeedback[wallpaperId] = feedback;
+      } else {
+        delete allFeedback[wallpaperId];
+      }
+
+      await storageService.saveWallpaperFeedback(allFeedback);
+      return allFeedback;
+    } catch (error) {
+      logError('Failed to save wallpaper feedback', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the blocklist
+   * @returns Entries, most recently added first
+   */
+  getBlocklist: async (): Promise<BlocklistEntry[]> => {
+    try {
+      return await storageService.getBlocklist();
+    } catch (error) {
+      logError('Failed to get blocklist', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Block a wallpaper
+   * @param wallpaper - Wallpaper never to show again
+   * @returns The updated blocklist
+   */
+  blockWallpaper: async (wallpaper: Wallpaper): Promise<BlocklistEntry[]> => {
+    return feedbackService.addEntry('wallpaper', wallpaper.id, {
+      label: wallpaper.info?.title,
+      thumbnail: wallpaper.thumbnail
+    });
+  },
+
+  /**
+   * Add an entry to the blocklist, unless an entry already matches the same thing
+   * @param type - What the entry matches
+   * @param value - Wallpaper id, tag or uploader
+   * @param details - Title and thumbnail shown for a blocked wallpaper
+   * @returns The updated blocklist
+   */
+  addEntry: async (
+    type: BlocklistEntryType,
+    value: string,
+    details: Pick<BlocklistEntry, 'label' | 'thumbnail'> = {}
+  ): Promise<BlocklistEntry[]> => {
+    try {
+      const trimmedValue = value.trim();
+      if (!trimmedValue) {
+        throw new Error('Nothing to block');
+      }
+
+      const blocklist = await storageService.getBlocklist();
+      const exists = blocklist.some(entry =>
+        entry.type === type && entry.value.toLowerCase() === trimmedValue.toLowerCase()
+      );
+      if (exists) {
+        return blocklist;
+      }
+
+      const newEntry: BlocklistEntry = {
+        id: crypto.randomUUID(),
+        type,
+        value: trimmedValue,
+        ...details,
+        addedAt: new Date().toISOString()
+      };
+
+      const updatedBlocklist = [newEntry, ...blocklist];
+      await storageService.saveBlocklist(updatedBlocklist);
+      return updatedBlocklist;
+    } catch (error) {
+      logError('Failed to add to blocklist', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Remove an entry from the blocklist
+   * @param id - ID of the entry
+   * @returns The updated blocklist
+   */
+  removeEntry: async (id: string): Promise<BlocklistEntry[]> => {
+    try {
+      const blocklist = await storageService.getBlocklist();
+      const updatedBlocklist = blocklist.filter(entry => entry.id !== id);
+      await storageService.saveBlocklist(updatedBlocklist);
+      return updatedBlocklist;
+    } catch (error) {
+      logError('Failed to remove from blocklist', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Drop blocked wallpapers from a list
+   * @param wallpapers - Wallpapers to check
+   * @returns The wallpapers that may be shown
+   */
+  filterBlocked: async (wallpapers: Wallpaper[]): Promise<Wallpaper[]> => {
+    const blocklist = await storageService.getBlocklist();
+    return wallpapers.filter(wallpaper => !isBlocked(wallpaper, blocklist));
+  }
+};
+
+export default feedbackService;
@@ -0,0 +1,430 @@
+import { Wallpaper, WallpaperFolderFile, WallpaperMediaType } from '../types/wallpaper';
+import { FolderAccess, FolderScanResult, SyncedFolder } from '../types/folder';
+import { logError } from '../utils/errorUtils';
+import { captureVideoFrame, getMediaType, isSupportedUpload } from '../utils/mediaUtils';
+import storageService from './storageService';
+import blobStorageService, { toBlobRef, toFolderRef, urlToBlob } from './blobStorageService';
+import { BulkProgressCallback } from './bulkService';
+import { createThumbnailWithHash } from './wallpaperService';
+
+// Same size as the thumbnails of uploaded wallpapers
+const THUMBNAIL_SIZE = 200;
+
+/**
+ * Image or video found while walking a synced folder
+ */
+interface FolderEntry {
+  relativePath: string;
+  file: File;
+}
+
+/**
+ * What is read from a file to describe it in the library
+ */
+interface MediaDetails {
+  mediaType: WallpaperMediaType;
+  resolution: string;
+  thumbnail?: Blob;
+  imageHash?: string;
+  palette?: string[];
+}
+
+/**
+ * Lists the images and videos in a folder and its subfolders, skipping hidden entries
+ */
+const listMediaFiles = async (directory: FileSystemDirectoryHandle, prefix = ''): Promise<FolderEntry[]> => {
+  const entries: FolderEntry[] = [];
+
+  for await (const handle of directory.values()) {
+    if (handle.name.startsWith('.')) {
+      continue;
+    }
+
+    const relativePath = `${prefix}${handle.name}`;
+    if (handle.kind === 'directory') {
+      entries.push(...await listMediaFiles(handle, `${relativePath}/`));
+    } else {
+      const file = await handle.getFile();
+      if (isSupportedUpload(file.type)) {
+        entries.push({ relativePath, file });
+      }
+    }
+  }
+  return entries;
+};
+
+/**
+ * Measures a file and makes its thumbnail, hash and palette. Only the thumbnail is
+ * kept in the blob store; the file itself stays in the folder.
+ */
+const readMediaDetails = async (file: File): Promise<MediaDetails> => {
+  const mediaType = await getMediaType(file);
+  const fileUrl = URL.createObjectURL(file);
+  let posterUrl = fileUrl;
+
+  try {
+    let width: number;
+    let height: number;
+    if (mediaType === 'video') {
+      const poster = await captureVideoFrame(fileUrl);
+      posterUrl = URL.createObjectURL(poster.frame);
+      ({ width, height } = poster);
+    } else {
+      const bitmap = await createImageBitmap(file);
+      ({ width, height } = bitmap);
+      bitmap.close();
+    }
+
+    // Without a thumbnail the library grid loads the file itself
+    const thumbnail = await createThumbnailWithHash(
+      posterUrl,
+      THUMBNAIL_SIZE,
+      mediaType === 'video' ? 'image/jpeg' : file.type
+    ).catch(error => {
+      logError(`Failed to create thumbnail for ${file.name}`, error);
+      return null;
+    });
+
+    return {
+      mediaType,
+      resolution: `${width}x${height}`,
+      thumbnail: thumbnail ? await urlToBlob(thumbnail.thumbnailData) : undefined,
+      imageHash: thumbnail?.imageHash,
+      palette: thumbnail?.palette
+    };
+  } finally {
+    URL.revokeObjectURL(fileUrl);
+    if (posterUrl !== fileUrl) {
+      URL.revokeObjectURL(posterUrl);
+    }
+  }
+};
+
+/**
+ * Creates the library wallpaper for a file found in a synced folder
+ */
+const createFolderWallpaper = async (folder: SyncedFolder, entry: FolderEntry): Promise<Wallpaper> => {
+  const { relativePath, file } = entry;
+  const id = `folder_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  const details = await readMediaDetails(file);
+  const path = toFolderRef(folder.id, relativePath);
+
+  if (details.thumbnail) {
+    await blobStorageService.putBlobs(id, { thumbnail: details.thumbnail });
+  }
+
+  return {
+    id,
+    path,
+    source: 'local_folder',
+    sourceType: 'local',
+    thumbnail: details.thumbnail ? toBlobRef(id, 'thumbnail') : path,
+    resolution: details.resolution,
+    info: {
+      title: file.name,
+      source: folder.name,
+      uploadDate: new Date(file.lastModified).toISOString(),
+      fileSize: file.size,
+      mimeType: file.type,
+      description: `${folder.name}/${relativePath} - ${details.resolution}`,
+      tags: ['local', 'folder'],
+      palette: details.palette
+    },
+    addedAt: new Date().toISOString(),
+    imageHash: details.imageHash,
+    mediaType: details.mediaType,
+    folderFile: { folderId: folder.id, relativePath, lastModified: file.lastModified }
+  };
+};
+
+/**
+ * Reads a file again after it changed on disk
+ * @returns The fields of its wallpaper to update
+ */
+const refreshFolderWallpaper = async (
+  wallpaper: Wallpaper,
+  folderFile: WallpaperFolderFile,
+  file: File
+): Promise<Partial<Wallpaper>> => {
+  const details = await readMediaDetails(file);
+  if (details.thumbnail) {
+    await blobStorageService.putBlobs(wallpaper.id, { thumbnail: details.thumbnail });
+  }
+  blobStorageService.forgetFolderFileUrl(wallpaper.path);
+
+  return {
+    thumbnail: details.thumbnail ? toBlobRef(wallpaper.id, 'thumbnail') : wallpaper.path,
+    resolution: details.resolution,
+    info: { ...wallpaper.info, fileSize: file.size, mimeType: file.type, palette: details.palette },
+    imageHash: details.imageHash,
+    mediaType: details.mediaType,
+    folderFile: { ...folderFile, lastModified: file.lastModified, isMissing: false }
+  };
+};
+
+/**
+ * Gets a synced folder and its directory handle, checking the extension may still read it
+ */
+const openFolder = async (folderId: string): Promise<{ folder: SyncedFolder; handle: FileSystemDirectoryHandle }> => {
+  const [folders, handle] = await Promise.all([
+    storageService.getSyncedFolders(),
+    blobStorageService.getFolderHandle(folderId)
+  ]);
+  const folder = folders.find(f => f.id === folderId);
+  if (!folder || !handle) {
+    throw new Error('This folder is no longer synced');
+  }
+  if (await handle.queryPermission({ mode: 'read' }) !== 'granted') {
+    throw new Error(`Access to "${folder.name}" has to be granted again`);
+  }
+  return { folder, handle };
+};
+
+/**
+ * Service for local folders kept in sync with the library through the File System Access API.
+ * Their images are read from disk when shown; only thumbnails go into the blob store.
+ */
+const folderSyncService = {
+  /**
+   * Checks whether the browser can sync folders
+   */
+  isSupported: (): boolean => typeof window !== 'undefined' && !!window.showDirectoryPicker,
+
+  /**
+   * Gets the synced folders
+   */
+  getFolders: async (): Promise<SyncedFolder[]> => {
+    return storageService.getSyncedFolders();
+  },
+
+  /**
+   * Checks whether the extension may still read a folder
+   * @param folderId - ID of the folder
+   */
+  getAccess: async (folderId: string): Promise<FolderAccess> => {
+    const handle = await blobStorageService.getFolderHandle(folderId);
+    return handle ? handle.queryPermission({ mode: 'read' }) : 'denied';
+  },
+
+  /**
+   * Asks to read a folder again; the browser only shows the prompt from a click
+   * @param folderId - ID of the folder
+   */
+  requestAccess: async (folderId: string): Promise<FolderAccess> => {
+    try {
+      const handle = await blobStorageService.getFolderHandle(folderId);
+      if (!handle) {
+        throw new Error('This folder is no longer synced');
+      }
+      return await handle.requestPermission({ mode: 'read' });
+    } catch (error) {
+      logError('Failed to request folder access', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Lets the user pick a folder and starts syncing it. Must be called from a click.
+   * @returns The new folder, not scanned yet, or null if the picker was closed
+   */
+  addFolder: async (): Promise<SyncedFolder | null> => {
+    try {
+      if (!window.showDirectoryPicker) {
+        throw new Error('This browser can\'t sync folders');
+      }
+
+      let handle: FileSystemDirectoryHandle;
+      try {
+        handle = await window.showDirectoryPicker({ id: 'nyatab-folder-sync', mode: 'read' });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          return null;
+        }
+        throw error;
+      }
+
+      const folders = await storageService.getSyncedFolders();
+      for (const { id, handle: syncedHandle } of await blobStorageService.getFolderHandles()) {
+        const syncedFolder = folders.find(f => f.id === id);
+        if (syncedFolder && await syncedHandle.isSameEntry(handle)) {
+          throw new Error(`"${syncedFolder.name}" is already synced`);
+        }
+      }
+
+      const folder: SyncedFolder = {
+        id: crypto.randomUUID(),
+        name: handle.name,
+        addedAt: new Date().toISOString(),
+        fileCount: 0,
+        missingCount: 0
+      };
+
+      await blobStorageService.putFolderHandle(folder.id, handle);
+      await storageService.saveSyncedFolders([...folders, folder]);
+      return folder;
+    } catch (error) {
+      logError('Failed to add synced folder', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Brings the library in line with a folder: new files are imported, changed files
+   * read again, and wallpapers whose file is gone are flagged as missing
+   * @param folderId - ID of the folder
+   * @param onProgress - Called after each file is checked
+   */
+  scanFolder: async (folderId: string, onProgress?: BulkProgressCallback): Promise<FolderScanResult> => {
+    try {
+      const { folder, handle } = await openFolder(folderId);
+      const entries = await listMediaFiles(handle);
+      const result: FolderScanResult = { added: 0, updated: 0, missing: 0, restored: 0, failed: 0 };
+
+      // Library wallpapers from this folder, by their path in it
+      const known = new Map<string, { wallpaper: Wallpaper; folderFile: WallpaperFolderFile }>();
+      (await storageService.getLibrary()).forEach(wallpaper => {
+        if (wallpaper.folderFile?.folderId === folderId) {
+          known.set(wallpaper.folderFile.relativePath, { wallpaper, folderFile: wallpaper.folderFile });
+        }
+      });
+
+      const added: Wallpaper[] = [];
+      const changes = new Map<string, Partial<Wallpaper>>();
+
+      for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i];
+        const existing = known.get(entry.relativePath);
+        try {
+          if (!existing) {
+            added.push(await createFolderWallpaper(folder, entry));
+            result.added++;
+          } else if (existing.folderFile.lastModified !== entry.file.lastModified) {
+            changes.set(existing.wallpaper.id, await refreshFolderWallpaper(existing.wallpaper, existing.folderFile, entry.file));
+            result.updated++;
+          } else if (existing.folderFile.isMissing) {
+            changes.set(existing.wallpaper.id, { folderFile: { ...existing.folderFile, isMissing: false } });
+            result.restored++;
+          }
+        } catch (error) {
+          // One unreadable file shouldn't stop the rest of the folder from syncing
+          logError(`Failed to read ${entry.relativePath} from synced folder`, error);
+          result.failed++;
+        }
+        onProgress?.(i + 1, entries.length);
+      }
+
+      const foundPaths = new Set(entries.map(entry => entry.relativePath));
+      let missingCount = 0;
+      known.forEach(({ wallpaper, folderFile }, relativePath) => {
+        if (foundPaths.has(relativePath)) {
+          return;
+        }
+        missingCount++;
+        if (!folderFile.isMissing) {
+          changes.set(wallpaper.id, { folderFile: { ...folderFile, isMissing: true } });
+          result.missing++;
+        }
+      });
+
+      if (added.length > 0 || changes.size > 0) {
+        // Re-read so wallpapers changed while scanning are kept; a scan from another
+        // tab may have imported the same files in the meantime
+        const latestLibrary = await storageService.getLibrary();
+        const latestPaths = new Set(latestLibrary
+          .filter(w => w.folderFile?.folderId === folderId)
+          .map(w => w.folderFile?.relativePath));
+        const newWallpapers = added.filter(w => !latestPaths.has(w.folderFile?.relativePath));
+        await Promise.all(added
+          .filter(w => !newWallpapers.includes(w))
+          .map(w => blobStorageService.removeBlobs(w.id)));
+
+        await storageService.saveLibrary([
+          ...newWallpapers,
+          ...latestLibrary.map(w => (changes.has(w.id) ? { ...w, ...changes.get(w.id) } : w))
+        ]);
+      }
+
+      const folders = await storageService.getSyncedFolders();
+      await storageService.saveSyncedFolders(folders.map(f => (f.id === folderId
+        ? { ...f, lastScannedAt: new Date().toISOString(), fileCount: entries.length, missingCount }
+        : f)));
+
+      console.log(`Scanned synced folder "${folder.name}":`, result);
+      return result;
+    } catch (error) {
+      logError('Failed to scan synced folder', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Rescans the folders not scanned within the interval in settings. Scans need a page
+   * to draw thumbnails on, so this runs when a new tab opens rather than from the background.
+   * Folders that need access granted again are skipped.
+   * @returns Whether anything in the library changed
+   */
+  scanDueFolders: async (): Promise<boolean> => {
+    const settings = await storageService.getSettings();
+    const intervalMinutes = settings?.folderRescanInterval ?? 60;
+    if (intervalMinutes <= 0) {
+      return false;
+    }
+
+    let hasChanges = false;
+    for (const folder of await storageService.getSyncedFolders()) {
+      const lastScanned = folder.lastScannedAt ? new Date(folder.lastScannedAt).getTime() : 0;
+      if (Date.now() - lastScanned < intervalMinutes * 60 * 1000) {
+        continue;
+      }
+
+      try {
+        if (await folderSyncService.getAccess(folder.id) !== 'granted') {
+          continue;
+        }
+        const result = await folderSyncService.scanFolder(folder.id);
+        hasChanges = hasChanges || result.added + result.updated + result.missing + result.restored > 0;
+      } catch (error) {
+        logError(`Failed to rescan synced folder "${folder.name}"`, error);
+      }
+    }
+    return hasChanges;
+  },
+
+  /**
+   * Stops syncing a folder and removes its wallpapers from the library. The files on disk
+   * are left alone.
+   * @param folderId - ID of the folder
+   * @returns The remaining synced folders
+   */
+  removeFolder: async (folderId: string): Promise<SyncedFolder[]> => {
+    try {
+      const [library, collections] = await Promise.all([
+        storageService.getLibrary(),
+        storageService.getLibraryCollections()
+      ]);
+      const wallpaperIds = library.filter(w => w.folderFile?.folderId === folderId).map(w => w.id);
+      if (wallpaperIds.length > 0) {
+        const ids = new Set(wallpaperIds);
+        await storageService.saveLibrary(library.filter(w => !ids.has(w.id)));
+        if (collections.some(c => c.wallpaperIds.some(id => ids.has(id)))) {
+          await storageService.saveLibraryCollections(collections.map(c => ({
+            ...c,
+            wallpaperIds: c.wallpaperIds.filter(id => !ids.has(id))
+          })));
+        }
+        // Thumbnails the history or the current wallpaper still show are kept
+        await storageService.removeUnreferencedBlobs(wallpaperIds);
+      }
+
+      const folders = (await storageService.getSyncedFolders()).filter(f => f.id !== folderId);
+      await storageService.saveSyncedFolders(folders);
+      await blobStorageService.removeFolderHandle(folderId);
+      return folders;
+    } catch (error) {
+      logError('Failed to remove synced folder', error);
+      throw error;
+    }
+  }
+};
+
+export default folderSyncService;
@@ -0,0 +1,252 @@
+import { PrefetchEntry, Wallpaper, WallpaperProviderId } from '../types/wallpaper';
+import { SettingsState, WallpaperFilters } from '../store/slices/settingsSlice';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+import blobStorageService, { toBlobRef } from './blobStorageService';
+import { searchWallpapers } from './wallpaperService';
+import { isBlocked } from './feedbackService';
+import { DEFAULT_PROVIDER_ID, findProvider } from './providers';
+
+// Pages of search results to look through when topping up the queue
+const MAX_SEARCH_PAGES = 3;
+
+// Refill currently in progress, so alarms and idle events don't download twice
+let activeRefill: Promise<number> | null = null;
+
+/**
+ * Builds the filters used for 'browse' shuffles from the saved settings
+ * @param wallpaperFilters - Filters from settings
+ * @param nsfwMode - Refresh NSFW filter
+ */
+export const buildRefreshFilters = (
+  wallpaperFilters: Partial<WallpaperFilters> | undefined,
+  nsfwMode: 'off' | 'allowed' | 'only'
+): Partial<WallpaperFilters> => {
+  return {
+    ...(wallpaperFilters || {}),
+    nsfw: nsfwMode === 'allowed' || nsfwMode === 'only',
+    nsfwMode
+  };
+};
+
+/**
+ * Identifies the settings a queue entry was fetched for; entries for other settings are discarded
+ * @param provider - Refresh provider
+ * @param filters - Filters from buildRefreshFilters
+ */
+export const getFilterKey = (provider: WallpaperProviderId, filters: Partial<WallpaperFilters>): string => {
+  return JSON.stringify({
+    provider,
+    nsfwMode: filters.nsfwMode,
+    categories: filters.categories,
+    purity: filters.purity,
+    sorting: filters.sorting,
+    resolution: filters.resolution,
+    minWidth: filters.minWidth,
+    minHeight: filters.minHeight
+  });
+};
+
+/**
+ * Downloads a wallpaper's image into the blob store
+ */
+const downloadImage = async (wallpaper: Wallpaper): Promise<void> => {
+  const provider = findProvider(wallpaper.provider);
+  let image: Blob;
+
+  if (provider?.fetchImage) {
+    image = await provider.fetchImage(wallpaper.path);
+  } else {
+    const response = await fetch(wallpaper.path);
+    if (!response.ok) {
+      throw new Error(`Image download failed: ${response.status} ${response.statusText}`);
+    }
+    image = await response.blob();
+  }
+
+  await blobStorageService.putBlobs(wallpaper.id, { image });
+};
+
+/**
+ * Points a pre-fetched wallpaper at its downloaded image
+ */
+const toStoredWallpaper = (entry: PrefetchEntry): Wallpaper => {
+  const imageRef = toBlobRef(entry.wallpaper.id, 'image');
+  return { ...entry.wallpaper, path: imageRef, thumbnail: imageRef };
+};
+
+/**
+ * Service that keeps a queue of downloaded wallpapers for 'browse' shuffles,
+ * so they show instantly and keep working offline
+ */
+const prefetchService = {
+  /**
+   * Downloads wallpapers until the queue matches the configured size
+   * @returns Number of wallpapers in the queue afterwards
+   */
+  refill: async (): Promise<number> => {
+    if (activeRefill) {
+      return activeRefill;
+    }
+
+    activeRefill = (async () => {
+      const settings: Partial<SettingsState> = (await storageService.getSettings()) || {};
+      const targetSize = settings.prefetchQueueSize ?? 5;
+      const provider = settings.refreshProvider || DEFAULT_PROVIDER_ID;
+      const filters = buildRefreshFilters(settings.wallpaperFilters, settings.refreshNsfwFilter || 'off');
+      const filterKey = getFilterKey(provider, filters);
+
+      // Drop wallpapers fetched for different settings
+      const storedQueue = await storageService.getPrefetchQueue();
+      const queue = storedQueue.filter(entry => entry.filterKey === filterKey).slice(0, targetSize);
+      const dropped = storedQueue.filter(entry => !queue.includes(entry));
+      if (dropped.length > 0) {
+        await storageService.savePrefetchQueue(queue);
+        await storageService.removeUnreferencedBlobs(dropped.map(entry => entry.wallpaper.id));
+      }
+
+      if (queue.length >= targetSize || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+        return queue.length;
+      }
+
+      // Skip wallpapers that are queued, were shown recently or are in the library,
+      // whose images are stored under the same ids
+      const [history, current, library] = await Promise.all([
+        storageService.getHistory(),
+        storageService.getCurrentWallpaper(),
+        storageService.getLibrary()
+      ]);
+      const seenIds = new Set([
+        ...queue.map(entry => entry.wallpaper.id),
+        ...history.map(entry => entry.wallpaper.id),
+        ...library.map(wallpaper => wallpaper.id),
+        ...(current ? [current.id] : [])
+      ]);
+
+      for (let page = 1; page <= MAX_SEARCH_PAGES && queue.length < targetSize; page++) {
+        const { wallpapers, meta } = await searchWallpapers('', page, filters, provider);
+        const candidates = wallpapers
+          .filter(wallpaper => wallpaper.sourceType === 'remote' && !seenIds.has(wallpaper.id))
+          .sort(() => Math.random() - 0.5);
+
+        for (const wallpaper of candidates) {
+          if (queue.length >= targetSize) break;
+          seenIds.add(wallpaper.id);
+
+          try {
+            await downloadImage(wallpaper);
+            queue.push({ wallpaper, filterKey, fetchedAt: new Date().toISOString() });
+            // Save after each download so a closed worker keeps what it already fetched
+            await storageService.savePrefetchQueue(queue);
+          } catch (error) {
+            console.error('Failed to pre-fetch wallpaper:', wallpaper.id, error);
+          }
+        }
+
+        if (page >= meta.lastPage) break;
+      }
+
+      console.log(`Pre-fetch queue has ${queue.length}/${targetSize} wallpapers`);
+      return queue.length;
+    })();
+
+    try {
+      return await activeRefill;
+    } catch (error) {
+      logError('Failed to refill prefetch queue', error);
+      return 0;
+    } finally {
+      activeRefill = null;
+    }
+  },
+
+  /**
+   * Takes the next pre-fetched wallpaper for the given refresh settings
+   * @param provider - Refresh provider
+   * @param filters - Filters from buildRefreshFilters
+   * @returns Wallpaper pointing at its downloaded image, or null if none is ready
+   */
+  takeNext: async (provider: WallpaperProviderId, filters: Partial<WallpaperFilters>): Promise<Wallpaper | null> => {
+    try {
+      await prefetchService.releaseShown();
+
+      const filterKey = getFilterKey(provider, filters);
+      const [queue, blocklist] = await Promise.all([
+        storageService.getPrefetchQueue(),
+        storageService.getBlocklist()
+      ]);
+      
+      // Wallpapers blocked after they were downloaded stay queued until the queue is cleared
+      const index = queue.findIndex(entry => entry.filterKey === filterKey && !isBlocked(entry.wallpaper, blocklist));
+      if (index === -1) {
+        return null;
+      }
+
+      const [entry] = queue.splice(index, 1);
+      await storageService.savePrefetchQueue(queue);
+
+      // Keep the image until the wallpaper is no longer shown
+      const shown = await storageService.getPrefetchShown();
+      await storageService.savePrefetchShown([...shown.filter(e => e.wallpaper.id !== entry.wallpaper.id), entry]);
+
+      return toStoredWallpaper(entry);
+    } catch (error) {
+      logError('Failed to take wallpaper from prefetch queue', error);
+      return null;
+    }
+  },
+
+  /**
+   * Frees the images of shown wallpapers that are no longer current, unless the library
+   * took them over. History entries go back to the remote URLs.
+   */
+  releaseShown: async (): Promise<void> => {
+    const shown = await storageService.getPrefetchShown();
+    if (shown.length === 0) {
+      return;
+    }
+
+    const [current, library] = await Promise.all([
+      storageService.getCurrentWallpaper(),
+      storageService.getLibrary()
+    ]);
+    const libraryIds = new Set(library.map(wallpaper => wallpaper.id));
+    const keep = shown.filter(entry => entry.wallpaper.id === current?.id);
+    const released = shown.filter(entry => !keep.includes(entry));
+    if (released.length === 0) {
+      return;
+    }
+
+    await Promise.all(
+      released
+        .filter(entry => !libraryIds.has(entry.wallpaper.id))
+        .map(entry => blobStorageService.removeBlobs(entry.wallpaper.id))
+    );
+
+    const remoteById = new Map(released.map(entry => [entry.wallpaper.id, entry.wallpaper]));
+    const history = await storageService.getHistory();
+    if (history.some(entry => remoteById.has(entry.wallpaper.id))) {
+      await storageService.saveHistory(history.map(entry => ({
+        ...entry,
+        wallpaper: remoteById.get(entry.wallpaper.id) || entry.wallpaper
+      })));
+    }
+
+    await storageService.savePrefetchShown(keep);
+  },
+
+  /**
+   * Empties the queue and frees its images
+   */
+  clear: async (): Promise<void> => {
+    try {
+      const queue = await storageService.getPrefetchQueue();
+      await storageService.savePrefetchQueue([]);
+      await storageService.removeUnreferencedBlobs(queue.map(entry => entry.wallpaper.id));
+    } catch (error) {
+      logError('Failed to clear prefetch queue', error);
+    }
+  }
+};
+
+export default prefetchService;
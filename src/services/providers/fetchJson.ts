@@ -0,0 +1,43 @@
+/**
+ * Fetches JSON from a provider API with a timeout
+ * @param url - Request URL
+ * @param providerName - Provider name used in error messages
+ * @param init - Extra fetch options
+ * @param timeoutMs - Timeout in milliseconds
+ * @returns Parsed JSON response
+ */
+export const fetchJson = async <T>(
+  url: string,
+  providerName: string,
+  init: RequestInit = {},
+  timeoutMs = 15000
+): Promise<T> => {
+  // Add timeout to prevent hanging requests
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    const response = await fetch(url, {
+      ...init,
+      signal: controller.signal,
+      headers: {
+        'Accept': 'application/json',
+        ...(init.headers || {})
+      }
+    });
+
+    if (!response.ok) {
+      console.error(`${providerName} API error:`, response.status, response.statusText);
+      throw new Error(`${providerName} API error: ${response.status} ${response.statusText}`);
+    }
+
+    return await response.json() as T;
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new Error('Search request timed out. Please try again.');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
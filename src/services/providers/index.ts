@@ -0,0 +1,46 @@
+import { WallpaperProvider } from '../../types/provider';
+import { WallpaperProviderId } from '../../types/wallpaper';
+import wallhavenProvider, { WALLHAVEN_PROVIDER_ID } from './wallhavenProvider';
+import pixivProvider from './pixivProvider';
+
+/**
+ * Provider used when none is specified (and for wallpapers saved before providers existed)
+ */
+export const DEFAULT_PROVIDER_ID: WallpaperProviderId = WALLHAVEN_PROVIDER_ID;
+
+// Registered providers, keyed by id
+const providers = new Map<WallpaperProviderId, WallpaperProvider>();
+
+/**
+ * Registers a provider, replacing any provider with the same id
+ */
+export const registerProvider = (provider: WallpaperProvider): void => {
+  providers.set(provider.id, provider);
+};
+
+/**
+ * Gets a provider by id, falling back to the default provider for unknown ids
+ */
+export const getProvider = (id?: WallpaperProviderId): WallpaperProvider => {
+  const provider = (id && providers.get(id)) || providers.get(DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error(`Wallpaper provider not registered: ${id || DEFAULT_PROVIDER_ID}`);
+  }
+  return provider;
+};
+
+/**
+ * Gets a provider by id without falling back to the default provider
+ */
+export const findProvider = (id?: WallpaperProviderId): WallpaperProvider | undefined => {
+  return id ? providers.get(id) : undefined;
+};
+
+/**
+ * Lists all registered providers in registration order
+ */
+export const getProviders = (): WallpaperProvider[] => Array.from(providers.values());
+
+// Built-in providers
+registerProvider(wallhavenProvider);
+registerProvider(pixivProvider);
@@ -0,0 +1,344 @@
+import pixivProvider, {
+  mapPageToWallpaper,
+  mapRankingToWallpaper,
+  mapSummaryToWallpaper,
+  toMasterUrl
+} from './pixivProvider';
+import {
+  PixivAjaxResponse,
+  PixivIllustDetails,
+  PixivIllustPage,
+  PixivRankingResponse,
+  PixivSearchBody
+} from '../../types/wallpaper';
+import { WallpaperFilters } from '../../store/slices/settingsSlice';
+import rankingFixture from './__fixtures__/pixivRanking.json';
+import searchFixture from './__fixtures__/pixivSearch.json';
+import illustFixture from './__fixtures__/pixivIllust.json';
+import illustPagesFixture from './__fixtures__/pixivIllustPages.json';
+import userProfileFixture from './__fixtures__/pixivUserProfile.json';
+import userWorksFixture from './__fixtures__/pixivUserWorks.json';
+
+const ranking = rankingFixture as PixivRankingResponse;
+const search = searchFixture as PixivAjaxResponse<PixivSearchBody>;
+const illust = illustFixture as PixivAjaxResponse<PixivIllustDetails>;
+const illustPages = illustPagesFixture as PixivAjaxResponse<PixivIllustPage[]>;
+
+describe('toMasterUrl', () => {
+  it('builds the master URL from a ranking thumbnail', () => {
+    expect(toMasterUrl(ranking.contents[0].url)).toBe(
+      'https://i.pximg.net/img-master/img/2024/05/01/00/00/12/118234567_p0_master1200.jpg'
+    );
+  });
+
+  it('builds the master URL from a square search thumbnail', () => {
+    expect(toMasterUrl(search.body.illust.data[0].url)).toBe(
+      'https://i.pximg.net/img-master/img/2024/04/20/18/05/33/117998877_p0_master1200.jpg'
+    );
+  });
+
+  it('points at the requested page', () => {
+    expect(toMasterUrl(ranking.contents[1].url, 2)).toBe(
+      'https://i.pximg.net/img-master/img/2024/05/01/09/30/45/118240001_p2_master1200.jpg'
+    );
+  });
+
+  it('leaves URLs it does not recognise alone', () => {
+    const url = 'https://s.pximg.net/common/images/no_profile.png';
+    expect(toMasterUrl(url)).toBe(url);
+  });
+});
+
+describe('mapRankingToWallpaper', () => {
+  it('maps a single page ranking entry', () => {
+    const wallpaper = mapRankingToWallpaper(ranking.contents[0]);
+
+    expect(wallpaper).toMatchObject({
+      id: 'pixiv_118234567_p0',
+      provider: 'pixiv',
+      path: 'https://i.pximg.net/img-master/img/2024/05/01/00/00/12/118234567_p0_master1200.jpg',
+      thumbnail: ranking.contents[0].url,
+      source: 'https://www.pixiv.net/artworks/118234567',
+      sourceType: 'remote',
+      resolution: '3840x2160',
+      info: {
+        title: '夕焼けの街',
+        source: 'https://www.pixiv.net/artworks/118234567',
+        uploadDate: '2024-05-01T00:00:00+09:00',
+        description: '3840x2160 • by sora',
+        tags: ['オリジナル', '風景', '夕焼け'],
+        artist: {
+          id: '1234567',
+          name: 'sora',
+          url: 'https://www.pixiv.net/users/1234567'
+        },
+        page: 0,
+        pageCount: 1
+      }
+    });
+  });
+
+  it('labels the first page of a multi page entry', () => {
+    const wallpaper = mapRankingToWallpaper(ranking.contents[1]);
+
+    expect(wallpaper.info.title).toBe('Night Sky Collection (1/3)');
+    expect(wallpaper.info.pageCount).toBe(3);
+  });
+
+  it('treats an unreadable page count as a single page', () => {
+    const wallpaper = mapRankingToWallpaper({ ...ranking.contents[1], illust_page_count: '' });
+
+    expect(wallpaper.info.title).toBe('Night Sky Collection');
+    expect(wallpaper.info.pageCount).toBe(1);
+  });
+});
+
+describe('mapSummaryToWallpaper', () => {
+  it('maps a search result', () => {
+    const item = search.body.illust.data[0];
+    const wallpaper = mapSummaryToWallpaper(item);
+
+    expect(wallpaper).toMatchObject({
+      id: 'pixiv_117998877_p0',
+      provider: 'pixiv',
+      path: 'https://i.pximg.net/img-master/img/2024/04/20/18/05/33/117998877_p0_master1200.jpg',
+      thumbnail: item.url,
+      source: 'https://www.pixiv.net/artworks/117998877',
+      resolution: '1920x1080',
+      info: {
+        title: 'Forest Path (1/2)',
+        uploadDate: '2024-04-20T18:05:33+09:00',
+        description: '1920x1080 • by midori',
+        tags: ['風景', '森', 'landscape'],
+        artist: {
+          id: '2468013',
+          name: 'midori',
+          url: 'https://www.pixiv.net/users/2468013'
+        },
+        page: 0,
+        pageCount: 2
+      }
+    });
+  });
+});
+
+describe('mapPageToWallpaper', () => {
+  it('maps each page with its own size and original image', () => {
+    const [first, second] = illustPages.body.map((page, index) => mapPageToWallpaper(illust.body, page, index));
+
+    expect(first).toMatchObject({
+      id: 'pixiv_117998877_p0',
+      path: 'https://i.pximg.net/img-original/img/2024/04/20/18/05/33/117998877_p0.png',
+      thumbnail: 'https://i.pximg.net/c/540x540_70/img-master/img/2024/04/20/18/05/33/117998877_p0_master1200.jpg',
+      resolution: '1920x1080',
+      info: { title: 'Forest Path (1/2)', page: 0, pageCount: 2 }
+    });
+    expect(second).toMatchObject({
+      id: 'pixiv_117998877_p1',
+      path: 'https://i.pximg.net/img-original/img/2024/04/20/18/05/33/117998877_p1.jpg',
+      resolution: '1080x1920',
+      info: { title: 'Forest Path (2/2)', page: 1, pageCount: 2 }
+    });
+  });
+
+  it('prefers English tag translations', () => {
+    const wallpaper = mapPageToWallpaper(illust.body, illustPages.body[0], 0);
+
+    expect(wallpaper.info.tags).toEqual(['scenery', 'forest', 'landscape']);
+  });
+
+  it('strips markup from the description', () => {
+    const wallpaper = mapPageToWallpaper(illust.body, illustPages.body[0], 0);
+
+    expect(wallpaper.info.description).not.toMatch(/[<>]/);
+    expect(wallpaper.info.description).toMatch(/^Morning walk\s+in the\s+woods$/);
+  });
+
+  it('falls back to the size and artist when there is no description', () => {
+    const wallpaper = mapPageToWallpaper({ ...illust.body, description: '<br />' }, illustPages.body[1], 1);
+
+    expect(wallpaper.info.description).toBe('1080x1920 • by midori');
+  });
+});
+
+const filters: WallpaperFilters = {
+  categories: [],
+  purity: [],
+  nsfwMode: 'off',
+  sorting: 'date_d',
+  order: 'desc'
+};
+
+/**
+ * Answers Pixiv requests with the recorded response for their path, or a 404
+ */
+const playBack = (responses: Record<string, unknown>) => {
+  return jest.spyOn(global, 'fetch').mockImplementation(async (input: RequestInfo | URL) => {
+    const path = decodeURIComponent(new URL(input.toString()).pathname);
+    if (!(path in responses)) {
+      return new Response('', { status: 404, statusText: 'Not Found' });
+    }
+    return new Response(JSON.stringify(responses[path]));
+  });
+};
+
+const requestedUrl = (fetchMock: jest.SpyInstance, call = 0): URL => new URL(fetchMock.mock.calls[call][0].toString());
+
+describe('pixivProvider', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('search', () => {
+    it('shows the daily ranking for an empty query', async () => {
+      const fetchMock = playBack({ '/ranking.php': rankingFixture });
+
+      const result = await pixivProvider.search('  ', 1, filters);
+
+      const url = requestedUrl(fetchMock);
+      expect(url.searchParams.get('mode')).toBe('daily');
+      expect(url.searchParams.get('format')).toBe('json');
+      expect(result.wallpapers.map(w => w.id)).toEqual(['pixiv_118234567_p0', 'pixiv_118240001_p0']);
+      expect(result.wallpapers[1].info.uploadDate).toBe('2024-05-01T09:30:00+09:00');
+      expect(result.meta).toEqual({ currentPage: 1, lastPage: 10, perPage: 50, total: 500 });
+    });
+
+    it('asks for the R-18 ranking when only NSFW results are wanted', async () => {
+      const fetchMock = playBack({ '/ranking.php': rankingFixture });
+
+      await pixivProvider.search('', 2, { ...filters, sorting: 'weekly', nsfwMode: 'only' });
+
+      const url = requestedUrl(fetchMock);
+      expect(url.searchParams.get('mode')).toBe('weekly_r18');
+      expect(url.searchParams.get('p')).toBe('2');
+    });
+
+    it('searches tags and leaves out ads', async () => {
+      const fetchMock = playBack({ '/ajax/search/illustrations/風景': searchFixture });
+
+      const result = await pixivProvider.search('風景', 1, { ...filters, minWidth: 1920 });
+
+      const url = requestedUrl(fetchMock);
+      expect(url.searchParams.get('word')).toBe('風景');
+      expect(url.searchParams.get('mode')).toBe('safe');
+      expect(url.searchParams.get('wlt')).toBe('1920');
+      expect(result.wallpapers.map(w => w.id)).toEqual(['pixiv_117998877_p0']);
+      expect(result.meta).toMatchObject({ currentPage: 1, lastPage: 1, total: 1 });
+    });
+
+    it('fails on an API error', async () => {
+      playBack({ '/ajax/search/illustrations/風景': { error: true, message: 'Invalid request', body: [] } });
+
+      await expect(pixivProvider.search('風景', 1, filters)).rejects.toThrow('Pixiv API error: Invalid request');
+    });
+  });
+
+  describe('artist search', () => {
+    const artistResponses = {
+      '/ajax/user/2468013/profile/all': userProfileFixture,
+      '/ajax/user/2468013/profile/illusts': userWorksFixture
+    };
+
+    it('lists an artist\'s illustrations newest first without R-18 works', async () => {
+      const fetchMock = playBack(artistResponses);
+
+      const result = await pixivProvider.search('artist:2468013', 1, filters);
+
+      const worksUrl = requestedUrl(fetchMock, 1);
+      expect(worksUrl.searchParams.getAll('ids[]')).toEqual(['118310042', '118105520', '117998877']);
+      expect(worksUrl.searchParams.get('is_first_page')).toBe('1');
+      expect(result.wallpapers.map(w => w.id)).toEqual(['pixiv_118310042_p0', 'pixiv_117998877_p0']);
+      expect(result.meta).toEqual({ currentPage: 1, lastPage: 1, perPage: 48, total: 3 });
+    });
+
+    it('keeps only R-18 works when only NSFW results are wanted', async () => {
+      playBack(artistResponses);
+
+      const result = await pixivProvider.search('https://www.pixiv.net/en/users/2468013', 1, { ...filters, nsfwMode: 'only' });
+
+      expect(result.wallpapers.map(w => w.id)).toEqual(['pixiv_118105520_p0']);
+    });
+
+    it('requests the works of later pages', async () => {
+      const illusts = Object.fromEntries(Array.from({ length: 50 }, (_, i) => [`${118000000 + i}`, null]));
+      const fetchMock = playBack({
+        ...artistResponses,
+        '/ajax/user/2468013/profile/all': { error: false, message: '', body: { illusts } }
+      });
+
+      const result = await pixivProvider.search('user:2468013', 2, filters);
+
+      const worksUrl = requestedUrl(fetchMock, 1);
+      expect(worksUrl.searchParams.getAll('ids[]')).toEqual(['118000001', '118000000']);
+      expect(worksUrl.searchParams.get('is_first_page')).toBe('0');
+      expect(result.meta).toEqual({ currentPage: 2, lastPage: 2, perPage: 48, total: 50 });
+    });
+
+    it('does not request works past the last page', async () => {
+      const fetchMock = playBack(artistResponses);
+
+      const result = await pixivProvider.search('artist:2468013', 2, filters);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(result.wallpapers).toEqual([]);
+    });
+  });
+
+  describe('getById', () => {
+    const illustResponses = {
+      '/ajax/illust/117998877': illustFixture,
+      '/ajax/illust/117998877/pages': illustPagesFixture
+    };
+
+    it('returns the requested page', async () => {
+      playBack(illustResponses);
+
+      const wallpaper = await pixivProvider.getById('pixiv_117998877_p1');
+
+      expect(wallpaper).toMatchObject({
+        id: 'pixiv_117998877_p1',
+        path: 'https://i.pximg.net/img-original/img/2024/04/20/18/05/33/117998877_p1.jpg'
+      });
+    });
+
+    it('returns the first page for a plain illustration id', async () => {
+      playBack(illustResponses);
+
+      const wallpaper = await pixivProvider.getById('117998877');
+
+      expect(wallpaper?.id).toBe('pixiv_117998877_p0');
+    });
+
+    it('returns null for missing illustrations and pages', async () => {
+      playBack(illustResponses);
+
+      await expect(pixivProvider.getById('pixiv_12345_p0')).resolves.toBeNull();
+      await expect(pixivProvider.getById('pixiv_117998877_p5')).resolves.toBeNull();
+    });
+
+    it('returns null for ids of other providers without fetching', async () => {
+      const fetchMock = playBack(illustResponses);
+
+      await expect(pixivProvider.getById('wallhaven_abc123')).resolves.toBeNull();
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPages', () => {
+    it('lists every page of the wallpaper\'s illustration', async () => {
+      playBack({
+        '/ajax/illust/117998877': illustFixture,
+        '/ajax/illust/117998877/pages': illustPagesFixture
+      });
+
+      const pages = await pixivProvider.getPages!(mapSummaryToWallpaper(search.body.illust.data[0]));
+
+      expect(pages.map(w => w.id)).toEqual(['pixiv_117998877_p0', 'pixiv_117998877_p1']);
+    });
+  });
+});
@@ -0,0 +1,453 @@
+import {
+  Wallpaper,
+  PixivAjaxResponse,
+  PixivIllustDetails,
+  PixivIllustPage,
+  PixivIllustSummary,
+  PixivRankingItem,
+  PixivRankingResponse,
+  PixivSearchBody,
+  PixivUserProfileBody,
+  PixivUserWorksBody,
+  WallpaperSearchResult
+} from '../../types/wallpaper';
+import { WallpaperProvider } from '../../types/provider';
+import { WallpaperFilters } from '../../store/slices/settingsSlice';
+import { fetchJson } from './fetchJson';
+
+export const PIXIV_PROVIDER_ID = 'pixiv';
+
+// Pixiv API constants
+const PIXIV_API = {
+  BASE_URL: 'https://www.pixiv.net',
+  IMAGE_HOST: 'i.pximg.net',
+  RANKING_ENDPOINT: '/ranking.php',
+  SEARCH_ENDPOINT: '/ajax/search/illustrations',
+  ILLUST_ENDPOINT: '/ajax/illust',
+  USER_ENDPOINT: '/ajax/user',
+  RANKING_PAGE_SIZE: 50,
+  ARTIST_PAGE_SIZE: 48
+};
+
+// Ranking modes that can be used as the sort order
+const RANKING_MODES = ['daily', 'weekly', 'monthly', 'rookie', 'original'];
+
+// Session rule id used to add the Referer header to Pixiv image requests
+const REFERER_RULE_ID = 1001;
+
+// Matches "artist:123", "user:123" and pixiv.net/users/123 URLs
+const ARTIST_QUERY_PATTERN = /^(?:(?:artist|user):\s*(\d+)|(?:https?:\/\/)?(?:www\.)?pixiv\.net\/(?:en\/)?users\/(\d+).*)$/i;
+
+// Matches wallpaper ids such as "pixiv_12345_p2" as well as plain illustration ids
+const WALLPAPER_ID_PATTERN = /^(?:pixiv_)?(\d+)(?:_p(\d+))?$/;
+
+// Matches ranking dates such as "2024年05月01日 09:30" (Japan time)
+const RANKING_DATE_PATTERN = /^(\d{4})年(\d{2})月(\d{2})日 (\d{2}):(\d{2})$/;
+
+/**
+ * Pixiv only serves images to requests with a pixiv.net Referer, which extension
+ * pages cannot set themselves, so a session rule adds it to our own requests
+ */
+export const ensureRefererRule = async (): Promise<void> => {
+  if (typeof chrome === 'undefined' || !chrome.declarativeNetRequest?.updateSessionRules) {
+    return;
+  }
+
+  try {
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: [REFERER_RULE_ID],
+      addRules: [{
+        id: REFERER_RULE_ID,
+        priority: 1,
+        action: {
+          type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+          requestHeaders: [{
+            header: 'referer',
+            operation: chrome.declarativeNetRequest.HeaderOperation.SET,
+            value: `${PIXIV_API.BASE_URL}/`
+          }]
+        },
+        condition: {
+          requestDomains: [PIXIV_API.IMAGE_HOST],
+          initiatorDomains: [chrome.runtime.id],
+          resourceTypes: [
+            chrome.declarativeNetRequest.ResourceType.IMAGE,
+            chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST
+          ]
+        }
+      }]
+    });
+  } catch (error) {
+    console.error('Failed to register Pixiv referer rule:', error);
+  }
+};
+
+/**
+ * Fetches a Pixiv AJAX endpoint and unwraps its body
+ */
+const fetchPixiv = async <T>(path: string): Promise<T> => {
+  // Send the user's Pixiv cookies so logged-in users get their own content settings
+  const data = await fetchJson<PixivAjaxResponse<T>>(`${PIXIV_API.BASE_URL}${path}`, 'Pixiv', {
+    credentials: 'include'
+  });
+
+  if (data.error) {
+    throw new Error(`Pixiv API error: ${data.message || 'Unknown error'}`);
+  }
+
+  return data.body;
+};
+
+/**
+ * Builds the 1200px master image URL of a page from any thumbnail URL of the illustration
+ */
+export const toMasterUrl = (thumbnailUrl: string, page = 0): string => {
+  const match = thumbnailUrl.match(/\/img\/(\d{4}\/\d{2}\/\d{2}\/\d{2}\/\d{2}\/\d{2})\/(\d+)_p\d+/);
+  if (!match) {
+    return thumbnailUrl;
+  }
+  return `https://${PIXIV_API.IMAGE_HOST}/img-master/img/${match[1]}/${match[2]}_p${page}_master1200.jpg`;
+};
+
+/**
+ * Converts a ranking date to the ISO format the other endpoints use
+ */
+const toIsoDate = (rankingDate: string): string => {
+  const match = rankingDate.match(RANKING_DATE_PATTERN);
+  if (!match) {
+    return rankingDate;
+  }
+  const [, year, month, day, hours, minutes] = match;
+  return `${year}-${month}-${day}T${hours}:${minutes}:00+09:00`;
+};
+
+/**
+ * Checks whether an illustration passes the NSFW filter
+ * (tag searches and rankings are filtered by the API, artist works are filtered here)
+ */
+const matchesNsfwMode = (xRestrict: number, nsfwMode: WallpaperFilters['nsfwMode']): boolean => {
+  switch (nsfwMode) {
+    case 'only':
+      return xRestrict > 0;
+    case 'allowed':
+      return true;
+    case 'off':
+    default:
+      return xRestrict === 0;
+  }
+};
+
+/**
+ * Maps the shared fields of a Pixiv illustration to our Wallpaper interface
+ */
+const toWallpaper = (illust: {
+  id: string;
+  title: string;
+  userId: string;
+  userName: string;
+  width: number;
+  height: number;
+  pageCount: number;
+  createDate: string;
+  tags: string[];
+  path: string;
+  thumbnail: string;
+  description?: string;
+}, page = 0): Wallpaper => {
+  const source = `${PIXIV_API.BASE_URL}/artworks/${illust.id}`;
+  const pageLabel = illust.pageCount > 1 ? ` (${page + 1}/${illust.pageCount})` : '';
+
+  return {
+    id: `pixiv_${illust.id}_p${page}`,
+    provider: PIXIV_PROVIDER_ID,
+    path: illust.path,
+    source,
+    sourceType: 'remote',
+    thumbnail: illust.thumbnail,
+    resolution: `${illust.width}x${illust.height}`,
+    info: {
+      title: `${illust.title}${pageLabel}`,
+      source,
+      uploadDate: illust.createDate,
+      description: illust.description || `${illust.width}x${illust.height} • by ${illust.userName}`,
+      tags: illust.tags,
+      artist: {
+        id: illust.userId,
+        name: illust.userName,
+        url: `${PIXIV_API.BASE_URL}/users/${illust.userId}`
+      },
+      page,
+      pageCount: illust.pageCount
+    },
+    addedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Maps a search or artist result to our Wallpaper interface
+ */
+export const mapSummaryToWallpaper = (item: PixivIllustSummary): Wallpaper => {
+  return toWallpaper({
+    ...item,
+    path: toMasterUrl(item.url),
+    thumbnail: item.url
+  });
+};
+
+/**
+ * Maps a ranking entry to our Wallpaper interface
+ */
+export const mapRankingToWallpaper = (item: PixivRankingItem): Wallpaper => {
+  return toWallpaper({
+    id: item.illust_id.toString(),
+    title: item.title,
+    userId: item.user_id.toString(),
+    userName: item.user_name,
+    width: item.width,
+    height: item.height,
+    pageCount: parseInt(item.illust_page_count, 10) || 1,
+    createDate: toIsoDate(item.date),
+    tags: item.tags,
+    path: toMasterUrl(item.url),
+    thumbnail: item.url
+  });
+};
+
+/**
+ * Maps one page of a full illustration to our Wallpaper interface
+ */
+export const mapPageToWallpaper = (details: PixivIllustDetails, page: PixivIllustPage, index: number): Wallpaper => {
+  return toWallpaper({
+    id: details.illustId,
+    title: details.illustTitle,
+    userId: details.userId,
+    userName: details.userName,
+    width: page.width,
+    height: page.height,
+    pageCount: details.pageCount,
+    createDate: details.createDate,
+    tags: details.tags.tags.map(tag => tag.translation?.en || tag.tag),
+    path: page.urls.original,
+    thumbnail: page.urls.small,
+    description: details.description.replace(/<[^>]*>/g, ' ').trim() || undefined
+  }, index);
+};
+
+/**
+ * Fetches a page of the ranking
+ */
+const searchRanking = async (page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult> => {
+  let mode = RANKING_MODES.includes(filters.sorting) ? filters.sorting : 'daily';
+  // Regular rankings are all-ages; only the daily and weekly rankings have R-18 variants
+  if (filters.nsfwMode === 'only') {
+    mode = mode === 'weekly' ? 'weekly_r18' : 'daily_r18';
+  }
+  const params = new URLSearchParams({
+    mode,
+    content: 'illust',
+    format: 'json',
+    p: page.toString()
+  });
+
+  const url = `${PIXIV_API.BASE_URL}${PIXIV_API.RANKING_ENDPOINT}?${params.toString()}`;
+  console.log('Fetching Pixiv ranking:', url);
+
+  const data = await fetchJson<PixivRankingResponse>(url, 'Pixiv', { credentials: 'include' });
+
+  return {
+    wallpapers: data.contents.map(mapRankingToWallpaper),
+    meta: {
+      currentPage: data.page,
+      lastPage: Math.max(1, Math.ceil(data.rank_total / PIXIV_API.RANKING_PAGE_SIZE)),
+      perPage: PIXIV_API.RANKING_PAGE_SIZE,
+      total: data.rank_total
+    }
+  };
+};
+
+/**
+ * Searches illustrations by tag
+ */
+const searchTags = async (query: string, page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult> => {
+  const modes = { off: 'safe', allowed: 'all', only: 'r18' };
+  const params = new URLSearchParams({
+    word: query,
+    order: filters.sorting === 'date' ? 'date' : 'date_d',
+    mode: modes[filters.nsfwMode || 'off'],
+    p: page.toString(),
+    s_mode: 's_tag',
+    type: 'illust'
+  });
+
+  if (filters.minWidth) params.set('wlt', filters.minWidth.toString());
+  if (filters.minHeight) params.set('hlt', filters.minHeight.toString());
+
+  const body = await fetchPixiv<PixivSearchBody>(
+    `${PIXIV_API.SEARCH_ENDPOINT}/${encodeURIComponent(query)}?${params.toString()}`
+  );
+  console.log('Pixiv search results:', body.illust.total);
+
+  return {
+    wallpapers: body.illust.data
+      // Ads are mixed into the results without an id
+      .filter(item => item.id)
+      .map(mapSummaryToWallpaper),
+    meta: {
+      currentPage: page,
+      lastPage: body.illust.lastPage || 1,
+      perPage: body.illust.data.length,
+      total: body.illust.total
+    }
+  };
+};
+
+/**
+ * Lists an artist's illustrations, newest first
+ */
+const searchArtist = async (userId: string, page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult> => {
+  const profile = await fetchPixiv<PixivUserProfileBody>(`${PIXIV_API.USER_ENDPOINT}/${userId}/profile/all`);
+  const illustIds = Object.keys(profile.illusts).sort((a, b) => Number(b) - Number(a));
+  const pageIds = illustIds.slice((page - 1) * PIXIV_API.ARTIST_PAGE_SIZE, page * PIXIV_API.ARTIST_PAGE_SIZE);
+  const meta = {
+    currentPage: page,
+    lastPage: Math.max(1, Math.ceil(illustIds.length / PIXIV_API.ARTIST_PAGE_SIZE)),
+    perPage: PIXIV_API.ARTIST_PAGE_SIZE,
+    total: illustIds.length
+  };
+
+  if (pageIds.length === 0) {
+    return { wallpapers: [], meta };
+  }
+
+  const params = new URLSearchParams({ work_category: 'illust', is_first_page: page === 1 ? '1' : '0' });
+  pageIds.forEach(id => params.append('ids[]', id));
+
+  const body = await fetchPixiv<PixivUserWorksBody>(
+    `${PIXIV_API.USER_ENDPOINT}/${userId}/profile/illusts?${params.toString()}`
+  );
+
+  return {
+    wallpapers: pageIds
+      .map(id => body.works[id])
+      .filter(item => item && matchesNsfwMode(item.xRestrict, filters.nsfwMode))
+      .map(mapSummaryToWallpaper),
+    meta
+  };
+};
+
+/**
+ * Searches Pixiv: an empty query shows the ranking, "artist:<id>" (or a profile URL)
+ * lists an artist's works, anything else is a tag search
+ */
+const search = async (query: string, page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult> => {
+  // Thumbnails are referer-protected as well
+  await ensureRefererRule();
+
+  const trimmedQuery = query.trim();
+  if (!trimmedQuery) {
+    return searchRanking(page, filters);
+  }
+
+  const artistMatch = trimmedQuery.match(ARTIST_QUERY_PATTERN);
+  if (artistMatch) {
+    return searchArtist(artistMatch[1] || artistMatch[2], page, filters);
+  }
+
+  return searchTags(trimmedQuery, page, filters);
+};
+
+/**
+ * Fetches every page of an illustration at original quality
+ */
+const getIllustPages = async (illustId: string): Promise<Wallpaper[]> => {
+  const [details, pages] = await Promise.all([
+    fetchPixiv<PixivIllustDetails>(`${PIXIV_API.ILLUST_ENDPOINT}/${illustId}`),
+    fetchPixiv<PixivIllustPage[]>(`${PIXIV_API.ILLUST_ENDPOINT}/${illustId}/pages`)
+  ]);
+
+  return pages.map((page, index) => mapPageToWallpaper(details, page, index));
+};
+
+/**
+ * Fetches a single page of an illustration by wallpaper id ("pixiv_<id>_p<page>") or illustration id
+ */
+const getById = async (id: string): Promise<Wallpaper | null> => {
+  const match = id.match(WALLPAPER_ID_PATTERN);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    const pages = await getIllustPages(match[1]);
+    return pages[parseInt(match[2] || '0', 10)] || null;
+  } catch (error) {
+    if (error instanceof Error && (error.message.includes('404') || error.message.includes('Pixiv API error'))) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Lists all pages of the work a wallpaper belongs to
+ */
+const getPages = async (wallpaper: Wallpaper): Promise<Wallpaper[]> => {
+  const match = wallpaper.id.match(WALLPAPER_ID_PATTERN);
+  if (!match) {
+    return [wallpaper];
+  }
+  return getIllustPages(match[1]);
+};
+
+/**
+ * Downloads a referer-protected image
+ */
+const fetchImage = async (url: string): Promise<Blob> => {
+  await ensureRefererRule();
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Pixiv image error: ${response.status} ${response.statusText}`);
+  }
+  return response.blob();
+};
+
+/**
+ * Pixiv adapter for the provider registry
+ */
+const pixivProvider: WallpaperProvider = {
+  id: PIXIV_PROVIDER_ID,
+  name: 'Pixiv',
+  capabilities: {
+    search: true,
+    random: false,
+    nsfw: true,
+    pagination: true,
+    requiresAuth: false
+  },
+  searchPlaceholder: 'Search tags, or artist:<id>...',
+  newestSorting: 'date_d',
+  filterSchema: [
+    {
+      key: 'sorting',
+      label: 'Sort By',
+      type: 'select',
+      defaultValue: 'daily',
+      options: [
+        { value: 'daily', label: 'Daily Ranking' },
+        { value: 'weekly', label: 'Weekly Ranking' },
+        { value: 'monthly', label: 'Monthly Ranking' },
+        { value: 'rookie', label: 'Rookie Ranking' },
+        { value: 'original', label: 'Original Ranking' },
+        { value: 'date_d', label: 'Newest (tag search)' },
+        { value: 'date', label: 'Oldest (tag search)' }
+      ]
+    }
+  ],
+  search,
+  getById,
+  getPages,
+  fetchImage
+};
+
+export default pixivProvider;
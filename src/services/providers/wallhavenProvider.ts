@@ -0,0 +1,461 @@
+import {
+  Wallpaper,
+  WallpaperArtist,
+  WallhavenAccount,
+  WallhavenCollection,
+  WallhavenSearchResponse,
+  WallhavenUserSettings,
+  WallhavenWallpaper,
+  WallpaperSearchResult
+} from '../../types/wallpaper';
+import { WallpaperProvider } from '../../types/provider';
+import { WallpaperFilters } from '../../store/slices/settingsSlice';
+import storageService from '../storageService';
+import { fetchJson } from './fetchJson';
+import { findClosestColor } from '../../utils/paletteUtils';
+
+export const WALLHAVEN_PROVIDER_ID = 'wallhaven';
+
+// Wallhaven API constants
+const WALLHAVEN_API = {
+  BASE_URL: 'https://wallhaven.cc/api/v1',
+  SEARCH_ENDPOINT: '/search',
+  WALLPAPER_ENDPOINT: '/w',
+  SETTINGS_ENDPOINT: '/settings',
+  COLLECTIONS_ENDPOINT: '/collections',
+  SETTINGS_CACHE_TTL: 10 * 60 * 1000, // Refresh account settings every 10 minutes
+  DEFAULT_PARAMS: {
+    categories: '010', // Only anime category (second digit is 1)
+    purity: '100',     // Only SFW content (first digit is 1)
+    sorting: 'random',
+    order: 'desc',
+    q: 'anime',
+    page: '1'
+  }
+};
+
+// Colours the search API accepts for its colors parameter
+export const WALLHAVEN_COLORS = [
+  '#660000', '#990000', '#cc0000', '#cc3333', '#ea4c88', '#993399', '#663399', '#333399',
+  '#0066cc', '#0099cc', '#66cccc', '#77cc33', '#669900', '#336600', '#666600', '#999900',
+  '#cccc33', '#ffff00', '#ffcc33', '#ff9900', '#ff6600', '#cc6633', '#996633', '#663300',
+  '#000000', '#999999', '#cccccc', '#ffffff', '#424153'
+];
+
+// Matches "collection:123"
+const COLLECTION_QUERY_PATTERN = /^collection:\s*(\d+)$/i;
+
+// Wallhaven allows about 45 API requests a minute, so uploader lookups are spaced out
+const UPLOADER_LOOKUP_INTERVAL_MS = 1400;
+
+// Uploaders kept in storage; older ones are dropped first
+const MAX_STORED_UPLOADERS = 2000;
+
+// Uploader lookups run one at a time, across searches
+let uploaderLookups: Promise<unknown> = Promise.resolve();
+let lastUploaderLookupAt = 0;
+
+// Account settings cached per API key
+let settingsCache: { apiKey: string; settings: WallhavenUserSettings; fetchedAt: number } | null = null;
+
+/**
+ * Builds request options that authenticate with the API key, if there is one
+ */
+const authInit = (account: WallhavenAccount | null): RequestInit => {
+  return account?.apiKey ? { headers: { 'X-API-Key': account.apiKey } } : {};
+};
+
+/**
+ * Fetches the account settings for an API key; also used to check that a key is valid
+ */
+export const getUserSettings = async (apiKey: string): Promise<WallhavenUserSettings> => {
+  if (settingsCache && settingsCache.apiKey === apiKey &&
+      Date.now() - settingsCache.fetchedAt < WALLHAVEN_API.SETTINGS_CACHE_TTL) {
+    return settingsCache.settings;
+  }
+  
+  const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.SETTINGS_ENDPOINT}`;
+  const data = await fetchJson<{ data: WallhavenUserSettings }>(url, 'Wallhaven', authInit({ apiKey }));
+  
+  settingsCache = { apiKey, settings: data.data, fetchedAt: Date.now() };
+  return data.data;
+};
+
+/**
+ * Gets the account's blacklisted tags, or none if there is no account or the lookup fails
+ */
+const getBlacklistedTags = async (account: WallhavenAccount | null): Promise<string[]> => {
+  if (!account?.apiKey) {
+    return [];
+  }
+  
+  try {
+    const settings = await getUserSettings(account.apiKey);
+    return settings.tag_blacklist || [];
+  } catch (error) {
+    console.error('Failed to load Wallhaven tag blacklist:', error);
+    return [];
+  }
+};
+
+/**
+ * Adds exclusions for blacklisted tags to a search query
+ */
+const applyTagBlacklist = (params: URLSearchParams, blacklist: string[]): void => {
+  if (blacklist.length === 0) {
+    return;
+  }
+  
+  const exclusions = blacklist
+    .map(tag => tag.trim())
+    .filter(Boolean)
+    .map(tag => (tag.includes(' ') ? `-"${tag}"` : `-${tag}`));
+  params.set('q', [params.get('q') || '', ...exclusions].join(' ').trim());
+};
+
+/**
+ * Lists the collections of the account the API key belongs to
+ */
+export const getCollections = async (): Promise<WallhavenCollection[]> => {
+  const account = await storageService.getWallhavenAccount();
+  if (!account?.apiKey) {
+    throw new Error('A Wallhaven API key is required to list collections');
+  }
+  
+  const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.COLLECTIONS_ENDPOINT}`;
+  const data = await fetchJson<{ data: WallhavenCollection[] }>(url, 'Wallhaven', authInit(account));
+  return data.data || [];
+};
+
+/**
+ * Fetches a page of wallpapers from one of the account's collections
+ */
+export const getCollectionWallpapers = async (
+  collectionId: number | string,
+  page = 1,
+  purity = '111'
+): Promise<WallpaperSearchResult> => {
+  const account = await storageService.getWallhavenAccount();
+  if (!account?.apiKey || !account.username) {
+    throw new Error('A Wallhaven API key and username are required to open collections');
+  }
+  
+  const params = new URLSearchParams({ page: page.toString(), purity });
+  const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.COLLECTIONS_ENDPOINT}/` +
+    `${encodeURIComponent(account.username)}/${collectionId}?${params.toString()}`;
+  
+  const data = await fetchJson<WallhavenSearchResponse>(url, 'Wallhaven', authInit(account));
+  
+  return {
+    wallpapers: data.data.map(mapToWallpaper),
+    meta: {
+      currentPage: data.meta.current_page,
+      lastPage: data.meta.last_page,
+      perPage: data.meta.per_page,
+      total: data.meta.total
+    }
+  };
+};
+
+/**
+ * Formats API parameters for Wallhaven search
+ */
+export const formatParams = (filters: WallpaperFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  
+  // Format categories (General: 1, Anime: 2, People: 3)
+  let categoryString = '000';
+  if (filters.categories.includes('general')) {
+    categoryString = categoryString.substr(0, 0) + '1' + categoryString.substr(1);
+  }
+  if (filters.categories.includes('anime')) {
+    categoryString = categoryString.substr(0, 1) + '1' + categoryString.substr(2);
+  }
+  if (filters.categories.includes('people')) {
+    categoryString = categoryString.substr(0, 2) + '1';
+  }
+  
+  // Ensure at least one category is selected
+  if (categoryString === '000') {
+    categoryString = '010'; // Default to anime
+  }
+  
+  // ALWAYS ensure anime is included for best results
+  if (!categoryString.substr(1, 1).includes('1')) {
+    categoryString = categoryString.substr(0, 1) + '1' + categoryString.substr(2);
+    console.log('Forcing anime category for better results');
+  }
+  
+  params.append('categories', categoryString);
+  
+  // Format purity (SFW: 1, Sketchy: 2, NSFW: 3)
+  // purityString format: "SFW,Sketchy,NSFW" as a 3-digit binary string
+  let purityString = '100'; // Default to SFW only
+  
+  console.log('Formatting parameters with nsfwMode:', filters.nsfwMode);
+  
+  // Apply simplified NSFW filtering logic with clear patterns
+  switch (filters.nsfwMode) {
+    case 'only':
+      // NSFW Only: Show only sketchy and NSFW content (011)
+      purityString = '011';
+      console.log('Using NSFW Only purityString:', purityString);
+      break;
+    case 'allowed':
+      // Allow NSFW: Show all content types (111)
+      purityString = '111'; 
+      console.log('Using Allow NSFW purityString:', purityString);
+      break;
+    case 'off':
+    default:
+      // SFW Only: Show only SFW content (100)
+      purityString = '100';
+      console.log('Using SFW Only purityString:', purityString);
+      break;
+  }
+  
+  params.append('purity', purityString);
+  
+  // Add other parameters
+  if (filters.sorting) params.append('sorting', filters.sorting);
+  if (filters.order) params.append('order', filters.order);
+  if (filters.query) params.append('q', filters.query);
+  
+  // Add resolution filter if specified
+  if (filters.resolution) params.append('resolution', filters.resolution);
+  if (filters.minWidth) params.append('atleast', `${filters.minWidth}x${filters.minHeight || filters.minWidth}`);
+  
+  // Wallhaven only matches its own swatches, so snap picked colours to the closest one
+  if (filters.colors) {
+    const color = findClosestColor(filters.colors, WALLHAVEN_COLORS);
+    if (color) params.append('colors', color.slice(1));
+  }
+  
+  // For NSFW only mode, ensure "anime" is included in the search query to get better results
+  if (filters.nsfwMode === 'only' && (!filters.query || !filters.query.includes('anime'))) {
+    const currentQuery = params.get('q') || '';
+    // Add anime-related terms to get better results for NSFW anime content
+    if (currentQuery) {
+      params.set('q', `${currentQuery} anime hentai ecchi`);
+    } else {
+      params.set('q', 'anime hentai ecchi');
+    }
+    console.log('Added anime-related terms to query for NSFW-only mode');
+  } else if (!params.get('q')) {
+    // Always ensure we have a query parameter with anime for best results
+    params.set('q', 'anime');
+  }
+  
+  console.log('Formatted API parameters:', Object.fromEntries(params.entries()), 
+             'NSFW mode:', filters.nsfwMode, 
+             'Purity string:', purityString);
+  
+  return params;
+};
+
+/**
+ * Maps Wallhaven API data to our Wallpaper interface
+ */
+export const mapToWallpaper = (item: any): Wallpaper => {
+  return {
+    id: item.id,
+    provider: WALLHAVEN_PROVIDER_ID,
+    path: item.path,
+    source: item.url,
+    sourceType: 'remote',
+    thumbnail: item.thumbs?.small,
+    resolution: item.resolution,
+    info: {
+      title: `Wallhaven ${item.id}`,
+      source: item.url,
+      uploadDate: item.created_at,
+      fileSize: item.file_size,
+      mimeType: item.file_type,
+      description: `${item.resolution} • ${item.category.charAt(0).toUpperCase() + item.category.slice(1)}`,
+      tags: item.tags?.map((tag: any) => tag.name) || [],
+      palette: item.colors?.length ? item.colors : undefined,
+      // Only single wallpaper lookups include the uploader
+      artist: item.uploader?.username ? {
+        id: item.uploader.username,
+        name: item.uploader.username,
+        url: `https://wallhaven.cc/user/${item.uploader.username}`
+      } : undefined
+    },
+    addedAt: new Date().toISOString()
+  };
+};
+
+/**
+ * Searches Wallhaven with already merged filters
+ */
+const search = async (query: string, page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult> => {
+  // Format parameters
+  const params = formatParams(query ? { ...filters, query } : filters);
+  
+  // Results leave out the uploader, which uploader blocks need to match
+  const blocklist = await storageService.getBlocklist();
+  const blocksUploaders = blocklist.some(entry => entry.type === 'uploader');
+  
+  // "collection:<id>" opens one of the account's collections instead
+  const collectionMatch = query.trim().match(COLLECTION_QUERY_PATTERN);
+  if (collectionMatch) {
+    const result = await getCollectionWallpapers(collectionMatch[1], page, params.get('purity') || '100');
+    return blocksUploaders ? { ...result, wallpapers: await withUploaders(result.wallpapers) } : result;
+  }
+  
+  // The API key unlocks NSFW purity; blacklisted and blocked tags are excluded through the query
+  const account = await storageService.getWallhavenAccount();
+  const blockedTags = blocklist
+    .filter(entry => entry.type === 'tag')
+    .map(entry => entry.value);
+  applyTagBlacklist(params, [...await getBlacklistedTags(account), ...blockedTags]);
+  
+  // Add page parameter
+  params.set('page', page.toString());
+  
+  // Build URL
+  const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.SEARCH_ENDPOINT}?${params.toString()}`;
+  console.log('Searching with URL:', url);
+  
+  const data = await fetchJson<WallhavenSearchResponse>(url, 'Wallhaven', authInit(account));
+  console.log('Wallhaven search results:', data.meta);
+  
+  const wallpapers = data.data.map(mapToWallpaper);
+  return {
+    wallpapers: blocksUploaders ? await withUploaders(wallpapers) : wallpapers,
+    meta: {
+      currentPage: data.meta.current_page,
+      lastPage: data.meta.last_page,
+      perPage: data.meta.per_page,
+      total: data.meta.total
+    }
+  };
+};
+
+/**
+ * Fetches a single Wallhaven wallpaper by id
+ */
+const getById = async (id: string): Promise<Wallpaper | null> => {
+  const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.WALLPAPER_ENDPOINT}/${encodeURIComponent(id)}`;
+  
+  try {
+    // NSFW wallpapers can only be fetched with an API key
+    const account = await storageService.getWallhavenAccount();
+    const data = await fetchJson<{ data: WallhavenWallpaper }>(url, 'Wallhaven', authInit(account));
+    return data.data ? mapToWallpaper(data.data) : null;
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('404')) {
+      return null;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Looks up the uploader of a wallpaper, waiting its turn so lookups stay under the rate limit
+ */
+const lookUpUploader = (wallpaperId: string): Promise<WallpaperArtist | undefined> => {
+  const lookup = uploaderLookups.then(async () => {
+    const wait = lastUploaderLookupAt + UPLOADER_LOOKUP_INTERVAL_MS - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    lastUploaderLookupAt = Date.now();
+    return (await getById(wallpaperId))?.info.artist;
+  });
+  uploaderLookups = lookup.catch(() => undefined);
+  return lookup;
+};
+
+/**
+ * Fills in the uploader of listed wallpapers, so uploader blocks can match them. Uploaders
+ * are looked up one at a time and remembered; wallpapers whose uploader can't be found
+ * are left out, since they can't be checked against the blocklist.
+ */
+const withUploaders = async (wallpapers: Wallpaper[]): Promise<Wallpaper[]> => {
+  const uploaders = await storageService.getWallhavenUploaders();
+  const withArtist: Wallpaper[] = [];
+  let hasNewUploaders = false;
+  let isRateLimited = false;
+
+  for (const wallpaper of wallpapers) {
+    let artist: WallpaperArtist | undefined = wallpaper.info.artist || uploaders[wallpaper.id];
+    // Once the limit is hit, the remaining lookups would fail as well
+    if (!artist && !isRateLimited) {
+      try {
+        artist = await lookUpUploader(wallpaper.id);
+      } catch (error) {
+        console.warn(`Could not look up the uploader of wallpaper ${wallpaper.id}:`, error);
+        isRateLimited = error instanceof Error && error.message.includes('429');
+      }
+      if (artist) {
+        uploaders[wallpaper.id] = artist;
+        hasNewUploaders = true;
+      }
+    }
+
+    if (artist) {
+      withArtist.push({ ...wallpaper, info: { ...wallpaper.info, artist } });
+    }
+  }
+
+  if (hasNewUploaders) {
+    const entries = Object.entries(uploaders);
+    await storageService.saveWallhavenUploaders(Object.fromEntries(entries.slice(-MAX_STORED_UPLOADERS)));
+  }
+  return withArtist;
+};
+
+/**
+ * Wallhaven adapter for the provider registry
+ */
+const wallhavenProvider: WallpaperProvider = {
+  id: WALLHAVEN_PROVIDER_ID,
+  name: 'Wallhaven',
+  capabilities: {
+    search: true,
+    random: true,
+    nsfw: true,
+    pagination: true,
+    requiresAuth: false
+  },
+  searchPlaceholder: 'Search wallpapers, or collection:<id>...',
+  newestSorting: 'date_added',
+  filterSchema: [
+    {
+      key: 'resolution',
+      label: 'Resolution',
+      type: 'select',
+      options: [
+        { value: '', label: 'Any' },
+        { value: '1920x1080', label: '1920x1080 (FHD)' },
+        { value: '2560x1440', label: '2560x1440 (QHD)' },
+        { value: '3840x2160', label: '3840x2160 (4K)' }
+      ]
+    },
+    {
+      key: 'sorting',
+      label: 'Sort By',
+      type: 'select',
+      defaultValue: 'random',
+      options: [
+        { value: 'random', label: 'Random' },
+        { value: 'relevance', label: 'Relevance' },
+        { value: 'date_added', label: 'Date Added' },
+        { value: 'views', label: 'Most Viewed' },
+        { value: 'favorites', label: 'Most Favorited' },
+        { value: 'toplist', label: 'Top Rated' }
+      ]
+    },
+    {
+      key: 'colors',
+      label: 'Colour',
+      type: 'color',
+      options: WALLHAVEN_COLORS.map(color => ({ value: color, label: color }))
+    }
+  ],
+  search,
+  getById
+};
+
+export default wallhavenProvider;
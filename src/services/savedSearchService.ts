@@ -0,0 +1,248 @@
+import { SavedSearch, SubscriptionFeedItem } from '../types/savedSearch';
+import { WallpaperProviderId } from '../types/wallpaper';
+import { WallpaperFilters } from '../store/slices/settingsSlice';
+import { logError } from '../utils/errorUtils';
+import storageService from './storageService';
+import { getProvider } from './providers';
+import { searchWallpapers } from './wallpaperService';
+
+// Wallpapers kept in the feed across all subscriptions, newest first
+const FEED_LIMIT = 120;
+
+// Ids remembered per subscription; more than a page so reshuffled results don't come back as new
+const SEEN_IDS_LIMIT = 200;
+
+/**
+ * Counts the feed wallpapers each search found since the user last opened it
+ * @returns Count per saved search id
+ */
+export const countNewFeedItems = (searches: SavedSearch[], feed: SubscriptionFeedItem[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  for (const search of searches) {
+    counts[search.id] = feed.filter(item =>
+      item.searchId === search.id && (!search.lastVisitedAt || item.foundAt > search.lastVisitedAt)
+    ).length;
+  }
+  return counts;
+};
+
+/**
+ * Shows the number of unseen subscription wallpapers on the toolbar icon
+ */
+const updateBadge = async (searches: SavedSearch[], feed: SubscriptionFeedItem[]): Promise<void> => {
+  try {
+    const counts = countNewFeedItems(searches.filter(s => s.subscribed), feed);
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+    await chrome.action.setBadgeText({ text: total > 0 ? String(Math.min(total, 99)) : '' });
+    if (total > 0) {
+      await chrome.action.setBadgeBackgroundColor({ color: '#db2777' });
+    }
+  } catch (error) {
+    console.error('Failed to update subscription badge:', error);
+  }
+};
+
+/**
+ * Service for saved browser searches and the subscriptions that poll them
+ */
+const savedSearchService = {
+  /**
+   * Get all saved searches
+   * @returns Promise with the searches in display order
+   */
+  getSavedSearches: async (): Promise<SavedSearch[]> => {
+    try {
+      return await storageService.getSavedSearches();
+    } catch (error) {
+      logError('Failed to get saved searches', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Get the wallpapers subscriptions have found
+   * @returns Promise with the feed, newest first
+   */
+  getFeed: async (): Promise<SubscriptionFeedItem[]> => {
+    try {
+      return await storageService.getSubscriptionFeed();
+    } catch (error) {
+      logError('Failed to get subscription feed', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Save a search at the end of the list
+   * @param name - Name shown in the browser
+   * @param provider - Provider the search runs against
+   * @param query - Search text
+   * @param filters - Filters the search runs with
+   * @returns The updated searches
+   */
+  createSavedSearch: async (
+    name: string,
+    provider: WallpaperProviderId,
+    query: string,
+    filters: Partial<WallpaperFilters>
+  ): Promise<SavedSearch[]> => {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        throw new Error('Saved search name cannot be empty');
+      }
+
+      const searches = await storageService.getSavedSearches();
+      const newSearch: SavedSearch = {
+        id: crypto.randomUUID(),
+        name: trimmedName,
+        provider,
+        query: query.trim(),
+        filters,
+        subscribed: false,
+        createdAt: new Date().toISOString()
+      };
+
+      const updatedSearches = [...searches, newSearch];
+      await storageService.saveSavedSearches(updatedSearches);
+      return updatedSearches;
+    } catch (error) {
+      logError('Failed to create saved search', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Delete a saved search and the feed wallpapers it found
+   * @param id - ID of the search
+   * @returns The updated searches
+   */
+  deleteSavedSearch: async (id: string): Promise<SavedSearch[]> => {
+    try {
+      const searches = await storageService.getSavedSearches();
+      const updatedSearches = searches.filter(s => s.id !== id);
+      await storageService.saveSavedSearches(updatedSearches);
+
+      const feed = await storageService.getSubscriptionFeed();
+      const updatedFeed = feed.filter(item => item.searchId !== id);
+      await storageService.saveSubscriptionFeed(updatedFeed);
+
+      await updateBadge(updatedSearches, updatedFeed);
+      return updatedSearches;
+    } catch (error) {
+      logError('Failed to delete saved search', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Turn background polling of a saved search on or off
+   * @param id - ID of the search
+   * @param subscribed - Whether to poll it
+   * @returns The updated searches
+   */
+  setSubscribed: async (id: string, subscribed: boolean): Promise<SavedSearch[]> => {
+    try {
+      const searches = await storageService.getSavedSearches();
+      const now = new Date().toISOString();
+      // The first poll after subscribing only records what is already there
+      const updatedSearches = searches.map(s => (s.id === id
+        ? { ...s, subscribed, seenIds: undefined, lastVisitedAt: now }
+        : s));
+      await storageService.saveSavedSearches(updatedSearches);
+
+      await updateBadge(updatedSearches, await storageService.getSubscriptionFeed());
+      return updatedSearches;
+    } catch (error) {
+      logError('Failed to update subscription', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Record that the user has seen the feed of a saved search
+   * @param id - ID of the search
+   * @returns The updated searches
+   */
+  markVisited: async (id: string): Promise<SavedSearch[]> => {
+    try {
+      const searches = await storageService.getSavedSearches();
+      const updatedSearches = searches.map(s => (s.id === id ? { ...s, lastVisitedAt: new Date().toISOString() } : s));
+      await storageService.saveSavedSearches(updatedSearches);
+
+      await updateBadge(updatedSearches, await storageService.getSubscriptionFeed());
+      return updatedSearches;
+    } catch (error) {
+      logError('Failed to mark saved search as visited', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Polls every subscribed search for wallpapers it hasn't seen yet and adds them to the feed
+   * @returns Number of new wallpapers found
+   */
+  checkSubscriptions: async (): Promise<number> => {
+    try {
+      const searches = await storageService.getSavedSearches();
+      const subscribed = searches.filter(s => s.subscribed);
+      if (subscribed.length === 0) {
+        return 0;
+      }
+
+      const found: SubscriptionFeedItem[] = [];
+      const checked = new Map<string, Partial<SavedSearch>>();
+
+      for (const search of subscribed) {
+        const provider = getProvider(search.provider);
+        const result = await searchWallpapers(search.query, 1, {
+          ...search.filters,
+          sorting: provider.newestSorting || search.filters.sorting,
+          order: 'desc'
+        }, provider.id);
+
+        const now = new Date().toISOString();
+        // Searches swallow network errors, so an empty page leaves the subscription as it was
+        if (result.wallpapers.length === 0) {
+          checked.set(search.id, { lastCheckedAt: now });
+          continue;
+        }
+
+        const seenIds = new Set(search.seenIds || []);
+        const newWallpapers = search.seenIds
+          ? result.wallpapers.filter(w => !seenIds.has(w.id))
+          : [];
+
+        found.push(...newWallpapers.map(wallpaper => ({ searchId: search.id, wallpaper, foundAt: now })));
+        checked.set(search.id, {
+          lastCheckedAt: now,
+          seenIds: [
+            ...result.wallpapers.map(w => w.id),
+            ...(search.seenIds || []).filter(id => !result.wallpapers.some(w => w.id === id))
+          ].slice(0, SEEN_IDS_LIMIT)
+        });
+      }
+
+      // Re-read so searches edited while polling are kept
+      const latestSearches = await storageService.getSavedSearches();
+      const updatedSearches = latestSearches.map(s => (checked.has(s.id) && s.subscribed ? { ...s, ...checked.get(s.id) } : s));
+      await storageService.saveSavedSearches(updatedSearches);
+
+      const feed = await storageService.getSubscriptionFeed();
+      const searchIds = new Set(updatedSearches.map(s => s.id));
+      const updatedFeed = [...found, ...feed]
+        .filter(item => searchIds.has(item.searchId))
+        .slice(0, FEED_LIMIT);
+      await storageService.saveSubscriptionFeed(updatedFeed);
+
+      await updateBadge(updatedSearches, updatedFeed);
+      console.log(`Subscriptions found ${found.length} new wallpapers`);
+      return found.length;
+    } catch (error) {
+      logError('Failed to check subscriptions', error);
+      throw error;
+    }
+  }
+};
+
+export default savedSearchService;
@@ -0,0 +1,90 @@
+import { ScheduleRule } from '../types/schedule';
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Converts an 'HH:MM' time to minutes after midnight
+ */
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Checks whether a rule is active at the given time.
+ * Windows that end before they start run past midnight, and the part after midnight
+ * belongs to the day the window started on. Equal start and end times cover the whole day.
+ * @param rule - Rule to check
+ * @param date - Time to check
+ */
+export const isRuleActive = (rule: ScheduleRule, date: Date): boolean => {
+  if (!rule.enabled) {
+    return false;
+  }
+
+  const day = date.getDay();
+  const minutes = date.getHours() * 60 + date.getMinutes();
+  const start = toMinutes(rule.startTime);
+  const end = toMinutes(rule.endTime);
+
+  if (start === end) {
+    return rule.days.includes(day);
+  }
+
+  if (start < end) {
+    return rule.days.includes(day) && minutes >= start && minutes < end;
+  }
+
+  if (minutes >= start) {
+    return rule.days.includes(day);
+  }
+  return minutes < end && rule.days.includes((day + 6) % 7);
+};
+
+/**
+ * Finds the first rule active at the given time
+ * @param rules - Rules in priority order
+ * @param date - Time to check, defaults to now
+ * @returns The active rule, or null when the refresh settings apply
+ */
+export const findActiveRule = (rules: ScheduleRule[] | undefined, date: Date = new Date()): ScheduleRule | null => {
+  return (rules || []).find(rule => isRuleActive(rule, date)) || null;
+};
+
+/**
+ * Creates a rule with the defaults used by the settings editor
+ */
+export const createScheduleRule = (): ScheduleRule => ({
+  id: crypto.randomUUID(),
+  name: 'New rule',
+  enabled: true,
+  days: [0, 1, 2, 3, 4, 5, 6],
+  startTime: '20:00',
+  endTime: '07:00',
+  action: { type: 'library', collectionId: null }
+});
+
+/**
+ * Describes when a rule is active, e.g. "Mon–Fri 09:00–17:00"
+ */
+export const describeRuleTime = (rule: ScheduleRule): string => {
+  const days = [...rule.days].sort();
+  let dayText: string;
+
+  if (days.length === 7) {
+    dayText = 'Every day';
+  } else if (days.join() === '1,2,3,4,5') {
+    dayText = 'Weekdays';
+  } else if (days.join() === '0,6') {
+    dayText = 'Weekends';
+  } else if (days.length === 0) {
+    dayText = 'No days';
+  } else {
+    dayText = days.map(day => WEEKDAY_LABELS[day]).join(', ');
+  }
+
+  if (rule.startTime === rule.endTime) {
+    return `${dayText}, all day`;
+  }
+  return `${dayText} ${rule.startTime}–${rule.endTime}`;
+};
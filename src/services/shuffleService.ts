@@ -0,0 +1,147 @@
+import { Wallpaper } from '../types/wallpaper';
+import { WallpaperFeedback } from '../types/feedback';
+import { ShuffleStrategy } from '../store/slices/settingsSlice';
+import { logError } from '../utils/errorUtils';
+import { shuffle } from '../utils/arrayUtils';
+import storageService from './storageService';
+import { getFeedbackWeight, isBlocked } from './feedbackService';
+
+// How many times more likely a favourite is to come up with the weighted strategy
+const FAVORITE_WEIGHT = 3;
+
+/**
+ * Picks a random wallpaper, other than the one showing unless it is the only one
+ */
+const pickUniform = (candidates: Wallpaper[], currentId?: string): Wallpaper => {
+  const others = candidates.length > 1 ? candidates.filter(w => w.id !== currentId) : candidates;
+  return others[Math.floor(Math.random() * others.length)];
+};
+
+/**
+ * Relative chance of a wallpaper coming up with the weighted strategy
+ */
+const getShuffleWeight = (wallpaper: Wallpaper, feedback?: WallpaperFeedback): number => {
+  return (wallpaper.isFavorite ? FAVORITE_WEIGHT : 1) * getFeedbackWeight(feedback);
+};
+
+/**
+ * Picks a random wallpaper in proportion to its weight
+ */
+const pickWeighted = async (candidates: Wallpaper[], currentId?: string): Promise<Wallpaper> => {
+  const others = candidates.length > 1 ? candidates.filter(w => w.id !== currentId) : candidates;
+  const feedback = await storageService.getWallpaperFeedback();
+  const weights = others.map(w => getShuffleWeight(w, feedback[w.id]));
+  let target = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+
+  for (let i = 0; i < others.length; i++) {
+    target -= weights[i];
+    if (target < 0) {
+      return others[i];
+    }
+  }
+  return others[others.length - 1];
+};
+
+/**
+ * Picks the wallpaper that hasn't been shown for longest; ones never shown come first,
+ * in random order
+ */
+const pickLeastRecent = async (candidates: Wallpaper[], currentId?: string): Promise<Wallpaper> => {
+  const others = candidates.length > 1 ? candidates.filter(w => w.id !== currentId) : candidates;
+  const history = await storageService.getHistory();
+
+  // The timeline is newest first, so the first entry for a wallpaper is its latest showing
+  const lastShown = new Map<string, number>();
+  history.forEach((entry, index) => {
+    if (!lastShown.has(entry.wallpaper.id)) {
+      // Entries from before times were kept still order by their position
+      lastShown.set(entry.wallpaper.id, entry.shownAt ? new Date(entry.shownAt).getTime() : -index);
+    }
+  });
+
+  const neverShown = others.filter(w => !lastShown.has(w.id));
+  if (neverShown.length > 0) {
+    return pickUniform(neverShown);
+  }
+  return others.reduce((oldest, w) => ((lastShown.get(w.id) ?? 0) < (lastShown.get(oldest.id) ?? 0) ? w : oldest));
+};
+
+/**
+ * Takes the next wallpaper out of the persisted bag for a pool, starting a new round
+ * once every wallpaper in it has been shown
+ */
+const drawFromBag = async (candidates: Wallpaper[], poolKey: string, currentId?: string): Promise<Wallpaper> => {
+  const byId = new Map(candidates.map(w => [w.id, w]));
+  const bags = await storageService.getShuffleBags();
+  const bag = bags[poolKey] || { remaining: [], drawn: [] };
+
+  // Forget wallpapers removed since the bag was filled, and mix in ones added since
+  let remaining = bag.remaining.filter(id => byId.has(id));
+  let drawn = bag.drawn.filter(id => byId.has(id));
+  const known = new Set([...remaining, ...drawn]);
+  candidates.filter(w => !known.has(w.id)).forEach(w => {
+    remaining.splice(Math.floor(Math.random() * (remaining.length + 1)), 0, w.id);
+  });
+
+  if (remaining.length === 0) {
+    // The wallpaper showing now goes last, so a new round doesn't repeat it straight away
+    remaining = shuffle(candidates.map(w => w.id));
+    if (currentId && remaining.length > 1 && remaining[0] === currentId) {
+      remaining.push(remaining.shift() as string);
+    }
+    drawn = [];
+  }
+
+  // A wallpaper picked by hand may be next in the bag; it keeps its place for later
+  const nextIndex = remaining.length > 1 && remaining[0] === currentId ? 1 : 0;
+  const [nextId] = remaining.splice(nextIndex, 1);
+
+  bags[poolKey] = { remaining, drawn: [...drawn, nextId] };
+  await storageService.saveShuffleBags(bags);
+  return byId.get(nextId) as Wallpaper;
+};
+
+/**
+ * Service for choosing the next wallpaper of a library shuffle. The strategy is read from
+ * stored settings so the background and new tab pages always agree on it.
+ */
+const shuffleService = {
+  /**
+   * Picks the next wallpaper from the candidates with the shuffle strategy in settings
+   * @param wallpapers - Wallpapers to choose from; blocked ones and ones missing from their synced folder are skipped
+   * @param poolKey - Names the set of candidates (e.g. a collection), so each keeps its own bag
+   * @param currentId - Wallpaper showing now, which isn't picked again unless it is the only one
+   */
+  pickWallpaper: async (wallpapers: Wallpaper[], poolKey: string, currentId?: string): Promise<Wallpaper> => {
+    const blocklist = await storageService.getBlocklist();
+    const available = wallpapers.filter(w => !w.folderFile?.isMissing);
+    const candidates = available.filter(w => !isBlocked(w, blocklist));
+    if (candidates.length === 0) {
+      throw new Error(available.length > 0
+        ? 'Every wallpaper here is on your blocklist'
+        : 'No wallpapers to shuffle from');
+    }
+
+    try {
+      const settings = await storageService.getSettings();
+      const strategy: ShuffleStrategy = settings?.shuffleStrategy || 'bag';
+
+      switch (strategy) {
+        case 'bag':
+          return await drawFromBag(candidates, poolKey, currentId);
+        case 'weighted':
+          return await pickWeighted(candidates, currentId);
+        case 'leastRecent':
+          return await pickLeastRecent(candidates, currentId);
+        default:
+          return pickUniform(candidates, currentId);
+      }
+    } catch (error) {
+      // A shuffle should still happen if the bag can't be read or saved
+      logError('Failed to apply shuffle strategy', error);
+      return pickUniform(candidates, currentId);
+    }
+  }
+};
+
+export default shuffleService;
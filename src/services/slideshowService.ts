@@ -0,0 +1,93 @@
+import { Wallpaper } from '../types/wallpaper';
+import { SlideshowPage, SlideshowSource } from '../types/slideshow';
+import { WallpaperFilters } from '../store/slices/settingsSlice';
+import { logError } from '../utils/errorUtils';
+import { shuffle } from '../utils/arrayUtils';
+import storageService from './storageService';
+import wallpaperService from './wallpaperService';
+import feedbackService from './feedbackService';
+
+/**
+ * Short description of a slideshow source for the controls
+ */
+export const describeSlideshowSource = (source: SlideshowSource, collectionName?: string): string => {
+  switch (source.type) {
+    case 'library':
+      return source.collectionId ? collectionName || 'Collection' : 'Library';
+    case 'favorites':
+      return 'Favourites';
+    case 'history':
+      return 'History';
+    case 'browse':
+      return 'Online';
+  }
+};
+
+/**
+ * Library wallpapers a library or favourites source shows; a deleted collection
+ * falls back to the whole library like shuffles do
+ */
+const getLibrarySlides = async (source: SlideshowSource): Promise<Wallpaper[]> => {
+  // Wallpapers whose file has gone from their synced folder can't be shown
+  const library = (await storageService.getLibrary()).filter(w => !w.folderFile?.isMissing);
+
+  if (source.type === 'favorites') {
+    return library.filter(w => w.isFavorite);
+  }
+  if (source.type === 'library' && source.collectionId) {
+    const collections = await storageService.getLibraryCollections();
+    const collection = collections.find(c => c.id === source.collectionId);
+    if (collection) {
+      return library.filter(w => collection.wallpaperIds.includes(w.id));
+    }
+  }
+  return library;
+};
+
+/**
+ * Service for the wallpapers a slideshow cycles through
+ */
+const slideshowService = {
+  /**
+   * Gets the next batch of slides. Library sources are reshuffled on every call,
+   * so a slideshow that reaches the end just carries on with a new order.
+   * @param page - One-based page, only used by online sources
+   * @param filters - Search filters for online sources
+   */
+  getSlides: async (
+    source: SlideshowSource,
+    page: number,
+    filters: Partial<WallpaperFilters>
+  ): Promise<SlideshowPage> => {
+    try {
+      if (source.type === 'browse') {
+        const result = await wallpaperService.searchWallpapers('', page, filters, source.provider);
+        return {
+          wallpapers: result.wallpapers,
+          hasMore: result.meta.currentPage < result.meta.lastPage
+        };
+      }
+
+      if (source.type === 'history') {
+        const history = await wallpaperService.getWallpaperHistory();
+        return { wallpapers: [...history].reverse(), hasMore: history.length > 1 };
+      }
+
+      const wallpapers = await feedbackService.filterBlocked(await getLibrarySlides(source));
+      return { wallpapers: shuffle(wallpapers), hasMore: wallpapers.length > 1 };
+    } catch (error) {
+      logError('Failed to load slideshow wallpapers', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets the wallpapers shown before now, oldest first, so a slideshow can step back into them
+   */
+  getEarlierWallpapers: async (): Promise<Wallpaper[]> => {
+    const history = await wallpaperService.getWallpaperHistory();
+    return [...history].reverse();
+  }
+};
+
+export default slideshowService;
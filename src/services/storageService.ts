@@ -1,7 +1,21 @@
 import { SettingsState } from '../store/slices/settingsSlice';
 import { TodoState } from '../store/slices/todoSlice';
-import { Wallpaper } from '../types/wallpaper';
+import {
+  LibraryCollection,
+  PrefetchEntry,
+  ShuffleBag,
+  Wallpaper,
+  WallpaperArtist,
+  WallhavenAccount,
+  WallpaperHistoryEntry
+} from '../types/wallpaper';
+import { SavedSearch, SubscriptionFeedItem } from '../types/savedSearch';
+import { BlocklistEntry, WallpaperFeedback } from '../types/feedback';
+import { SyncedFolder } from '../types/folder';
 import { logError } from '../utils/errorUtils';
+import blobStorageService from './blobStorageService';
+import { findProvider } from './providers';
+import duplicateService from './duplicateService';
 
 // Storage keys
 const STORAGE_KEYS = {
@@ -9,7 +23,20 @@ const STORAGE_KEYS = {
   TODOS: 'nyatab_todos',
   WALLPAPERS: 'wallpapers',
   CURRENT_WALLPAPER: 'currentWallpaper',
-  LIBRARY: 'wallpaperLibrary'
+  LIBRARY: 'wallpaperLibrary',
+  BLOB_MIGRATION: 'libraryBlobMigrationDone',
+  WALLHAVEN_ACCOUNT: 'wallhavenAccount',
+  PREFETCH_QUEUE: 'prefetchQueue',
+  PREFETCH_SHOWN: 'prefetchShown',
+  LIBRARY_COLLECTIONS: 'libraryCollections',
+  SAVED_SEARCHES: 'savedSearches',
+  SUBSCRIPTION_FEED: 'subscriptionFeed',
+  SHUFFLE_BAGS: 'shuffleBags',
+  WALLPAPER_FEEDBACK: 'wallpaperFeedback',
+  BLOCKLIST: 'blocklist',
+  SYNCED_FOLDERS: 'syncedFolders',
+  PENDING_BLOB_REMOVALS: 'pendingBlobRemovals',
+  WALLHAVEN_UPLOADERS: 'wallhavenUploaders'
 };
 
 /**
@@ -41,6 +68,110 @@ const storageService = {
     }
   },
   
+  /**
+   * Gets the Wallhaven account (local only, never synced)
+   */
+  getWallhavenAccount: async (): Promise<WallhavenAccount | null> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.WALLHAVEN_ACCOUNT);
+      return result[STORAGE_KEYS.WALLHAVEN_ACCOUNT] || null;
+    } catch (error) {
+      logError('Failed to get Wallhaven account from storage', error);
+      return null;
+    }
+  },
+  
+  /**
+   * Saves the Wallhaven account, or removes it when null
+   */
+  saveWallhavenAccount: async (account: WallhavenAccount | null): Promise<void> => {
+    try {
+      if (account) {
+        await chrome.storage.local.set({ [STORAGE_KEYS.WALLHAVEN_ACCOUNT]: account });
+      } else {
+        await chrome.storage.local.remove(STORAGE_KEYS.WALLHAVEN_ACCOUNT);
+      }
+    } catch (error) {
+      logError('Failed to save Wallhaven account to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the uploaders of Wallhaven wallpapers already looked up, by wallpaper id
+   */
+  getWallhavenUploaders: async (): Promise<Record<string, WallpaperArtist>> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.WALLHAVEN_UPLOADERS);
+      return result[STORAGE_KEYS.WALLHAVEN_UPLOADERS] || {};
+    } catch (error) {
+      logError('Failed to get Wallhaven uploaders from storage', error);
+      return {};
+    }
+  },
+  
+  /**
+   * Saves the uploaders of Wallhaven wallpapers already looked up, by wallpaper id
+   */
+  saveWallhavenUploaders: async (uploaders: Record<string, WallpaperArtist>): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.WALLHAVEN_UPLOADERS]: uploaders });
+    } catch (error) {
+      logError('Failed to save Wallhaven uploaders to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the pre-fetched wallpapers waiting to be shown
+   */
+  getPrefetchQueue: async (): Promise<PrefetchEntry[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.PREFETCH_QUEUE);
+      return result[STORAGE_KEYS.PREFETCH_QUEUE] || [];
+    } catch (error) {
+      logError('Failed to get prefetch queue from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the pre-fetched wallpapers waiting to be shown
+   */
+  savePrefetchQueue: async (queue: PrefetchEntry[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.PREFETCH_QUEUE]: queue });
+    } catch (error) {
+      logError('Failed to save prefetch queue to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets pre-fetched wallpapers that were shown but still hold their images
+   */
+  getPrefetchShown: async (): Promise<PrefetchEntry[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.PREFETCH_SHOWN);
+      return result[STORAGE_KEYS.PREFETCH_SHOWN] || [];
+    } catch (error) {
+      logError('Failed to get shown prefetch entries from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves pre-fetched wallpapers that were shown but still hold their images
+   */
+  savePrefetchShown: async (entries: PrefetchEntry[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.PREFETCH_SHOWN]: entries });
+    } catch (error) {
+      logError('Failed to save shown prefetch entries to storage', error);
+      throw error;
+    }
+  },
+  
   /**
    * Gets current wallpaper from storage
    */
@@ -57,17 +188,29 @@ const storageService = {
   /**
    * Saves current wallpaper to storage
    */
-  saveCurrentWallpaper: async (wallpaper: Wallpaper): Promise<void> => {
+  saveCurrentWallpaper: async (wallpaper: Wallpaper): Promise<Wallpaper> => {
     try {
       console.log('Saving current wallpaper to storage:', wallpaper.id);
-      await chrome.storage.local.set({ [STORAGE_KEYS.CURRENT_WALLPAPER]: wallpaper });
+      let wallpaperToSave = wallpaper;
       
       // Only add local wallpapers to library automatically (user uploaded)
       // Remote wallpapers should only be added when user explicitly adds them
       if (wallpaper.sourceType === 'local' && wallpaper.source === 'local_upload') {
         console.log('Local uploaded wallpaper - adding to library automatically');
-        await storageService.addToLibrary(wallpaper);
+        wallpaperToSave = await storageService.addToLibrary(wallpaper);
+      } else {
+        // Never keep inline image data in chrome.storage
+        wallpaperToSave = await blobStorageService.storeWallpaperImages(wallpaper);
       }
+      
+      const previousWallpaper = await storageService.getCurrentWallpaper();
+      await chrome.storage.local.set({ [STORAGE_KEYS.CURRENT_WALLPAPER]: wallpaperToSave });
+      
+      // The one it replaces keeps its images while the library or history still has it
+      if (previousWallpaper && previousWallpaper.id !== wallpaperToSave.id) {
+        await storageService.removeUnreferencedBlobs([previousWallpaper.id]);
+      }
+      return wallpaperToSave;
     } catch (error) {
       logError('Failed to save current wallpaper to storage', error);
       throw error;
@@ -75,26 +218,33 @@ const storageService = {
   },
   
   /**
-   * Gets wallpapers from storage
+   * Gets the wallpaper history timeline, most recent first
    */
-  getWallpapers: async (): Promise<Wallpaper[]> => {
+  getHistory: async (): Promise<WallpaperHistoryEntry[]> => {
     try {
       const result = await chrome.storage.local.get(STORAGE_KEYS.WALLPAPERS);
-      return result[STORAGE_KEYS.WALLPAPERS] || [];
+      const items: (WallpaperHistoryEntry | Wallpaper)[] = result[STORAGE_KEYS.WALLPAPERS] || [];
+      
+      // History used to be a plain list of wallpapers, without times
+      return items.map(item => ('wallpaper' in item ? item : { id: `legacy-${item.id}`, wallpaper: item }));
     } catch (error) {
-      logError('Failed to get wallpapers from storage', error);
+      logError('Failed to get wallpaper history from storage', error);
       return [];
     }
   },
   
   /**
-   * Saves wallpapers to storage
+   * Saves the wallpaper history timeline
    */
-  saveWallpapers: async (wallpapers: Wallpaper[]): Promise<void> => {
+  saveHistory: async (entries: WallpaperHistoryEntry[]): Promise<void> => {
     try {
-      await chrome.storage.local.set({ [STORAGE_KEYS.WALLPAPERS]: wallpapers });
+      const previousEntries = await storageService.getHistory();
+      await chrome.storage.local.set({ [STORAGE_KEYS.WALLPAPERS]: entries });
+      
+      // Wallpapers that were only kept for the dropped entries no longer need their images
+      await storageService.removeUnreferencedBlobs(previousEntries.map(entry => entry.wallpaper.id));
     } catch (error) {
-      logError('Failed to save wallpapers to storage', error);
+      logError('Failed to save wallpaper history to storage', error);
       throw error;
     }
   },
@@ -129,8 +279,10 @@ const storageService = {
   
   /**
    * Adds a wallpaper to the library
+   * Image data is moved into the IndexedDB blob store; only metadata goes to chrome.storage
+   * @returns The wallpaper as stored in the library
    */
-  addToLibrary: async (wallpaper: Wallpaper): Promise<void> => {
+  addToLibrary: async (wallpaper: Wallpaper): Promise<Wallpaper> => {
     try {
       console.log('Storage: Adding wallpaper to library:', wallpaper.id);
       
@@ -138,51 +290,37 @@ const storageService = {
       const library = await storageService.getLibrary();
       
       // Check if wallpaper is already in library
-      if (library.some(w => w.id === wallpaper.id)) {
+      const existing = library.find(w => w.id === wallpaper.id);
+      if (existing) {
         console.log('Wallpaper already exists in library:', wallpaper.id);
-        return; // Skip adding if already exists
+        return existing; // Skip adding if already exists
       }
       
-      // Check size of wallpaper before adding
-      const wallpaperSize = JSON.stringify(wallpaper).length;
-      const estimatedSize = Math.round(wallpaperSize / 1024);
-      console.log(`Wallpaper size: ~${estimatedSize}KB`);
+      // Move full image and thumbnail out of the metadata record; providers with
+      // protected image URLs have their images downloaded so the library works offline
+      const provider = wallpaper.sourceType === 'remote' ? findProvider(wallpaper.provider) : undefined;
+      let storedWallpaper = provider?.fetchImage
+        ? await blobStorageService.storeRemoteImages(wallpaper, provider.fetchImage)
+        : await blobStorageService.storeWallpaperImages(wallpaper);
       
-      // Warn if wallpaper is large (may hit quota)
-      if (estimatedSize > 1024) { // > 1MB
-        console.warn(`Large wallpaper detected (${estimatedSize}KB), may approach storage quota`);
+      // Local uploads are hashed while their thumbnail is made; hash everything else here
+      if (!storedWallpaper.imageHash) {
+        const imageHash = await duplicateService.hashWallpaper(storedWallpaper);
+        if (imageHash) {
+          storedWallpaper = { ...storedWallpaper, imageHash };
+        }
       }
       
       // Add to library
-      const updatedLibrary = [wallpaper, ...library];
+      const updatedLibrary = [storedWallpaper, ...library];
       
-      // Try to save to storage
       try {
         await storageService.saveLibrary(updatedLibrary);
         console.log('Successfully added wallpaper to library in storage:', wallpaper.id);
+        return storedWallpaper;
       } catch (error) {
         if (error instanceof Error && error.message.includes('quota')) {
           console.error('Storage quota exceeded when adding to library');
-          
-          // Try to save a compressed version
-          if (wallpaper.path && wallpaper.path.startsWith('data:image')) {
-            console.log('Attempting to compress wallpaper before saving');
-            try {
-              // Create a more compressed thumbnail instead of the full image
-              if (wallpaper.thumbnail) {
-                console.log('Using thumbnail as main image to save space');
-                wallpaper.path = wallpaper.thumbnail;
-                
-                // Try to save again with smaller image
-                await storageService.saveLibrary([wallpaper, ...library]);
-                console.log('Successfully saved compressed version to library');
-                return;
-              }
-            } catch (compressionError) {
-              console.error('Failed to save compressed version:', compressionError);
-            }
-          }
-          
           throw new Error('Storage quota exceeded. Try removing some wallpapers from your library.');
         }
         
@@ -200,6 +338,28 @@ const storageService = {
     }
   },
   
+  /**
+   * Updates the stored fields of a library wallpaper
+   * @returns The updated wallpaper, or null if it isn't in the library
+   */
+  updateLibraryWallpaper: async (wallpaperId: string, changes: Partial<Wallpaper>): Promise<Wallpaper | null> => {
+    try {
+      const library = await storageService.getLibrary();
+      const index = library.findIndex(w => w.id === wallpaperId);
+      if (index === -1) {
+        return null;
+      }
+      
+      const updatedWallpaper = { ...library[index], ...changes, id: wallpaperId };
+      library[index] = updatedWallpaper;
+      await storageService.saveLibrary(library);
+      return updatedWallpaper;
+    } catch (error) {
+      logError('Failed to update library wallpaper', error);
+      throw error;
+    }
+  },
+  
   /**
    * Removes a wallpaper from the library
    */
@@ -220,6 +380,18 @@ const storageService = {
       // Save updated library
       await chrome.storage.local.set({ [STORAGE_KEYS.LIBRARY]: updatedLibrary });
       console.log(`Saved library with ${updatedLibrary.length} wallpapers (removed ${wallpaperId})`);
+      
+      // Remove the wallpaper from any collections it was in
+      const collections = await storageService.getLibraryCollections();
+      if (collections.some(c => c.wallpaperIds.includes(wallpaperId))) {
+        await storageService.saveLibraryCollections(collections.map(c => ({
+          ...c,
+          wallpaperIds: c.wallpaperIds.filter(id => id !== wallpaperId)
+        })));
+      }
+      
+      // Drop the stored image data unless the current wallpaper or history still shows it
+      await storageService.removeUnreferencedBlobs([wallpaperId]);
     } catch (error) {
       console.error('Failed to remove wallpaper from library:', error);
       throw error;
@@ -227,21 +399,312 @@ const storageService = {
   },
   
   /**
-   * Gets a random wallpaper from the library
+   * Drops the stored images of wallpapers nothing refers to any more: not the library,
+   * the history, the current wallpaper or the prefetch queue
+   * @param wallpaperIds - Wallpapers whose images may have become unused
+   */
+  removeUnreferencedBlobs: async (wallpaperIds: string[]): Promise<void> => {
+    if (wallpaperIds.length === 0) {
+      return;
+    }
+    
+    try {
+      // Read everything at once, so a failed read never makes an image look unused
+      const result = await chrome.storage.local.get([
+        STORAGE_KEYS.LIBRARY,
+        STORAGE_KEYS.WALLPAPERS,
+        STORAGE_KEYS.CURRENT_WALLPAPER,
+        STORAGE_KEYS.PREFETCH_QUEUE,
+        STORAGE_KEYS.PREFETCH_SHOWN
+      ]);
+      const library: Wallpaper[] = result[STORAGE_KEYS.LIBRARY] || [];
+      const history: (WallpaperHistoryEntry | Wallpaper)[] = result[STORAGE_KEYS.WALLPAPERS] || [];
+      const currentWallpaper: Wallpaper | undefined = result[STORAGE_KEYS.CURRENT_WALLPAPER];
+      const prefetched: PrefetchEntry[] = [
+        ...(result[STORAGE_KEYS.PREFETCH_QUEUE] || []),
+        ...(result[STORAGE_KEYS.PREFETCH_SHOWN] || [])
+      ];
+      
+      const referencedIds = new Set([
+        ...library.map(w => w.id),
+        ...history.map(item => ('wallpaper' in item ? item.wallpaper.id : item.id)),
+        ...prefetched.map(entry => entry.wallpaper.id)
+      ]);
+      if (currentWallpaper) {
+        referencedIds.add(currentWallpaper.id);
+      }
+      
+      const unusedIds = Array.from(new Set(wallpaperIds)).filter(id => !referencedIds.has(id));
+      await Promise.all(unusedIds.map(id => blobStorageService.removeBlobs(id)));
+    } catch (error) {
+      logError('Failed to remove unused wallpaper images', error);
+    }
+  },
+  
+  /**
+   * Gets the library collections in display order
+   */
+  getLibraryCollections: async (): Promise<LibraryCollection[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.LIBRARY_COLLECTIONS);
+      return result[STORAGE_KEYS.LIBRARY_COLLECTIONS] || [];
+    } catch (error) {
+      logError('Failed to get library collections from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the library collections in display order
+   */
+  saveLibraryCollections: async (collections: LibraryCollection[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.LIBRARY_COLLECTIONS]: collections });
+    } catch (error) {
+      logError('Failed to save library collections to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the saved browser searches in display order
    */
-  getRandomLibraryWallpaper: async (): Promise<Wallpaper | null> => {
+  getSavedSearches: async (): Promise<SavedSearch[]> => {
     try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SAVED_SEARCHES);
+      return result[STORAGE_KEYS.SAVED_SEARCHES] || [];
+    } catch (error) {
+      logError('Failed to get saved searches from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the saved browser searches in display order
+   */
+  saveSavedSearches: async (searches: SavedSearch[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.SAVED_SEARCHES]: searches });
+    } catch (error) {
+      logError('Failed to save saved searches to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the wallpapers found by subscriptions, newest first
+   */
+  getSubscriptionFeed: async (): Promise<SubscriptionFeedItem[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SUBSCRIPTION_FEED);
+      return result[STORAGE_KEYS.SUBSCRIPTION_FEED] || [];
+    } catch (error) {
+      logError('Failed to get subscription feed from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the wallpapers found by subscriptions, newest first
+   */
+  saveSubscriptionFeed: async (feed: SubscriptionFeedItem[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.SUBSCRIPTION_FEED]: feed });
+    } catch (error) {
+      logError('Failed to save subscription feed to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the no-repeat shuffle bags, keyed by the pool of wallpapers they draw from
+   */
+  getShuffleBags: async (): Promise<Record<string, ShuffleBag>> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SHUFFLE_BAGS);
+      return result[STORAGE_KEYS.SHUFFLE_BAGS] || {};
+    } catch (error) {
+      logError('Failed to get shuffle bags from storage', error);
+      return {};
+    }
+  },
+  
+  /**
+   * Saves the no-repeat shuffle bags
+   */
+  saveShuffleBags: async (bags: Record<string, ShuffleBag>): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.SHUFFLE_BAGS]: bags });
+    } catch (error) {
+      logError('Failed to save shuffle bags to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets votes and ratings, keyed by wallpaper id
+   */
+  getWallpaperFeedback: async (): Promise<Record<string, WallpaperFeedback>> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.WALLPAPER_FEEDBACK);
+      return result[STORAGE_KEYS.WALLPAPER_FEEDBACK] || {};
+    } catch (error) {
+      logError('Failed to get wallpaper feedback from storage', error);
+      return {};
+    }
+  },
+  
+  /**
+   * Saves votes and ratings
+   */
+  saveWallpaperFeedback: async (feedback: Record<string, WallpaperFeedback>): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.WALLPAPER_FEEDBACK]: feedback });
+    } catch (error) {
+      logError('Failed to save wallpaper feedback to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the wallpapers, tags and uploaders that are never shown
+   */
+  getBlocklist: async (): Promise<BlocklistEntry[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.BLOCKLIST);
+      return result[STORAGE_KEYS.BLOCKLIST] || [];
+    } catch (error) {
+      logError('Failed to get blocklist from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the blocklist
+   */
+  saveBlocklist: async (blocklist: BlocklistEntry[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.BLOCKLIST]: blocklist });
+    } catch (error) {
+      logError('Failed to save blocklist to storage', error);
+      throw error;
+    }
+  },
+  
+  /**
+   * Gets the local folders kept in sync with the library
+   */
+  getSyncedFolders: async (): Promise<SyncedFolder[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.SYNCED_FOLDERS);
+      return result[STORAGE_KEYS.SYNCED_FOLDERS] || [];
+    } catch (error) {
+      logError('Failed to get synced folders from storage', error);
+      return [];
+    }
+  },
+  
+  /**
+   * Saves the synced folders
+   */
+  saveSyncedFolders: async (folders: SyncedFolder[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.SYNCED_FOLDERS]: folders });
+    } catch (error) {
+      logError('Failed to save synced folders to storage', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Gets the ids of removed wallpapers whose images are only kept so a bulk action can be undone
+   */
+  getPendingBlobRemovals: async (): Promise<string[]> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.PENDING_BLOB_REMOVALS);
+      return result[STORAGE_KEYS.PENDING_BLOB_REMOVALS] || [];
+    } catch (error) {
+      logError('Failed to get pending blob removals from storage', error);
+      return [];
+    }
+  },
+
+  /**
+   * Saves the ids of removed wallpapers whose images are only kept so a bulk action can be undone
+   */
+  savePendingBlobRemovals: async (wallpaperIds: string[]): Promise<void> => {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEYS.PENDING_BLOB_REMOVALS]: wallpaperIds });
+    } catch (error) {
+      logError('Failed to save pending blob removals to storage', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Moves base64 images of libraries saved by older versions into the blob store.
+   * Safe to call repeatedly; it only runs once per profile.
+   */
+  migrateLibraryToBlobStore: async (): Promise<void> => {
+    try {
+      const result = await chrome.storage.local.get(STORAGE_KEYS.BLOB_MIGRATION);
+      if (result[STORAGE_KEYS.BLOB_MIGRATION]) {
+        return;
+      }
+      
       const library = await storageService.getLibrary();
+      let migratedCount = 0;
+      const migratedLibrary: Wallpaper[] = [];
       
-      if (library.length === 0) {
-        return null;
+      for (const wallpaper of library) {
+        try {
+          const stored = await blobStorageService.storeWallpaperImages(wallpaper);
+          if (stored !== wallpaper) {
+            migratedCount++;
+          }
+          migratedLibrary.push(stored);
+        } catch (error) {
+          // Keep the original entry so nothing is lost if one image is unreadable
+          logError(`Failed to migrate wallpaper ${wallpaper.id} to blob store`, error);
+          migratedLibrary.push(wallpaper);
+        }
+      }
+      
+      if (migratedCount > 0) {
+        await storageService.saveLibrary(migratedLibrary);
       }
       
-      const randomIndex = Math.floor(Math.random() * library.length);
-      return library[randomIndex];
+      // History entries of local uploads carry the same base64 data
+      const history = await storageService.getHistory();
+      if (history.length > 0) {
+        const migratedHistory = await Promise.all(history.map(async entry => {
+          const { wallpaper } = entry;
+          const inLibrary = migratedLibrary.find(w => w.id === wallpaper.id);
+          if (inLibrary) {
+            return { ...entry, wallpaper: inLibrary };
+          }
+          try {
+            return { ...entry, wallpaper: await blobStorageService.storeWallpaperImages(wallpaper) };
+          } catch (error) {
+            logError(`Failed to migrate history entry ${wallpaper.id} to blob store`, error);
+            return entry;
+          }
+        }));
+        await storageService.saveHistory(migratedHistory);
+      }
+      
+      // The current wallpaper may hold its own copy of the image data
+      const currentWallpaper = await storageService.getCurrentWallpaper();
+      if (currentWallpaper) {
+        const storedCurrent = migratedLibrary.find(w => w.id === currentWallpaper.id)
+          || await blobStorageService.storeWallpaperImages(currentWallpaper);
+        await chrome.storage.local.set({ [STORAGE_KEYS.CURRENT_WALLPAPER]: storedCurrent });
+      }
+      
+      await chrome.storage.local.set({ [STORAGE_KEYS.BLOB_MIGRATION]: true });
+      console.log(`Migrated ${migratedCount} library wallpapers to the blob store`);
     } catch (error) {
-      logError('Failed to get random wallpaper from library', error);
-      return null;
+      logError('Failed to migrate library to blob store', error);
     }
   },
 
@@ -279,7 +742,8 @@ const storageService = {
     try {
       await Promise.all([
         chrome.storage.sync.clear(),
-        chrome.storage.local.clear()
+        chrome.storage.local.clear(),
+        blobStorageService.clear()
       ]);
     } catch (error) {
       logError('Failed to clear storage', error);
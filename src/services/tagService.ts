@@ -0,0 +1,130 @@
+import { Wallpaper } from '../types/wallpaper';
+import { logError } from '../utils/errorUtils';
+import { filterBySearchTerm } from '../utils/arrayUtils';
+import { TagCount, matchesTagQuery, normalizeTag, parseTagQuery } from '../utils/tagUtils';
+import storageService from './storageService';
+
+/**
+ * Replaces the tags of the matching library wallpapers and saves the library
+ * @param update - Returns the new tags of a wallpaper, or null to leave it unchanged
+ * @returns The updated library
+ */
+const rewriteTags = async (update: (wallpaper: Wallpaper, tags: string[]) => string[] | null): Promise<Wallpaper[]> => {
+  const library = await storageService.getLibrary();
+  let changed = false;
+
+  const updatedLibrary = library.map(wallpaper => {
+    const tags = (wallpaper.info?.tags || []).map(normalizeTag);
+    const nextTags = update(wallpaper, tags);
+    if (!nextTags) {
+      return wallpaper;
+    }
+    changed = true;
+    return { ...wallpaper, info: { ...wallpaper.info, tags: Array.from(new Set(nextTags.filter(Boolean))) } };
+  });
+
+  if (changed) {
+    await storageService.saveLibrary(updatedLibrary);
+  }
+  return updatedLibrary;
+};
+
+/**
+ * Service for searching the library by tag and editing wallpaper tags
+ */
+const tagService = {
+  /**
+   * Counts how many library wallpapers have each tag
+   * @param library - Wallpapers to count
+   * @returns Tags, most used first
+   */
+  getTagCounts: (library: Wallpaper[]): TagCount[] => {
+    const counts = new Map<string, number>();
+    for (const wallpaper of library) {
+      for (const tag of new Set((wallpaper.info?.tags || []).map(normalizeTag))) {
+        if (tag) {
+          counts.set(tag, (counts.get(tag) || 0) + 1);
+        }
+      }
+    }
+
+    return Array.from(counts, ([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  },
+
+  /**
+   * Searches the library; see parseTagQuery for the query syntax
+   * @param library - Wallpapers to search
+   * @param query - Search text
+   * @returns Matching wallpapers in library order
+   */
+  searchLibrary: (library: Wallpaper[], query: string): Wallpaper[] => {
+    const parsed = parseTagQuery(query);
+    if (parsed.terms.length === 0 && parsed.include.length === 0 && parsed.exclude.length === 0) {
+      return library;
+    }
+
+    const records = library
+      .filter(wallpaper => matchesTagQuery(wallpaper.info?.tags, parsed))
+      .map(wallpaper => ({
+        wallpaper,
+        title: wallpaper.info?.title,
+        description: wallpaper.info?.description,
+        tags: wallpaper.info?.tags
+      }));
+
+    // Every free text term has to match somewhere
+    const matches = parsed.terms.reduce(
+      (remaining, term) => filterBySearchTerm(remaining, term, ['title', 'description', 'tags']),
+      records
+    );
+    return matches.map(record => record.wallpaper);
+  },
+
+  /**
+   * Adds and removes tags on several library wallpapers at once
+   * @param wallpaperIds - Wallpapers to edit
+   * @param add - Tags to add
+   * @param remove - Tags to remove
+   * @returns The updated library
+   */
+  updateTags: async (wallpaperIds: string[], add: string[], remove: string[]): Promise<Wallpaper[]> => {
+    try {
+      const ids = new Set(wallpaperIds);
+      const tagsToAdd = add.map(normalizeTag).filter(Boolean);
+      const tagsToRemove = new Set(remove.map(normalizeTag));
+
+      return await rewriteTags((wallpaper, tags) => (ids.has(wallpaper.id)
+        ? [...tags.filter(tag => !tagsToRemove.has(tag)), ...tagsToAdd]
+        : null));
+    } catch (error) {
+      logError('Failed to update wallpaper tags', error);
+      throw error;
+    }
+  },
+
+  /**
+   * Renames tags across the library; renaming to a tag that already exists merges them
+   * @param tags - Tags to rename
+   * @param target - New name
+   * @returns The updated library
+   */
+  renameTags: async (tags: string[], target: string): Promise<Wallpaper[]> => {
+    try {
+      const newTag = normalizeTag(target);
+      if (!newTag) {
+        throw new Error('Tag name cannot be empty');
+      }
+
+      const oldTags = new Set(tags.map(normalizeTag));
+      return await rewriteTags((_, wallpaperTags) => (wallpaperTags.some(tag => oldTags.has(tag))
+        ? wallpaperTags.map(tag => (oldTags.has(tag) ? newTag : tag))
+        : null));
+    } catch (error) {
+      logError('Failed to rename tags', error);
+      throw error;
+    }
+  }
+};
+
+export default tagService;
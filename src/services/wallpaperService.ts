@@ -1,189 +1,157 @@
-import { Wallpaper, WallhavenSearchResponse, WallpaperSourceType } from '../types/wallpaper';
+import {
+  Wallpaper,
+  WallpaperChangeTrigger,
+  WallpaperFraming,
+  WallpaperHistoryEntry,
+  WallpaperOverlayPreset,
+  WallpaperOverlayType,
+  WallpaperProviderId,
+  WallpaperSearchResult
+} from '../types/wallpaper';
 import { logError } from '../utils/errorUtils';
 import storageService from './storageService';
-import { WallpaperFilters } from '../store/slices/settingsSlice';
-
-// Wallhaven API constants
-const WALLHAVEN_API = {
-  BASE_URL: 'https://wallhaven.cc/api/v1',
-  SEARCH_ENDPOINT: '/search',
-  DEFAULT_PARAMS: {
-    categories: '010', // Only anime category (second digit is 1)
-    purity: '100',     // Only SFW content (first digit is 1)
-    sorting: 'random',
-    order: 'desc',
-    q: 'anime',
-    page: '1'
+import feedbackService from './feedbackService';
+import blobStorageService, { isStoredRef, toBlobRef, urlToBlob } from './blobStorageService';
+import { WallpaperFilters, WallpaperOverlay } from '../store/slices/settingsSlice';
+import { DEFAULT_PROVIDER_ID, findProvider, getProvider } from './providers';
+import prefetchService, { buildRefreshFilters } from './prefetchService';
+import { formatParams, mapToWallpaper } from './providers/wallhavenProvider';
+import { computeDHash } from '../utils/imageHashUtils';
+import { COLOR_MATCH_THRESHOLD, extractPalette, extractPaletteFromBlob, getPaletteDistance } from '../utils/paletteUtils';
+import { getRecommendedDarknessFromBlob } from '../utils/overlayUtils';
+import { captureVideoFrame, getMediaType, isSupportedUpload } from '../utils/mediaUtils';
+import { getDomain, isImageUrl, isValidUrl, sanitizeUrl } from '../utils/urlUtils';
+
+// The timeline never grows past this, whatever the retention setting
+const MAX_HISTORY_ENTRIES = 1000;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets wallpaper history for the user: each wallpaper once, most recently shown first
+ */
+const getWallpaperHistory = async (): Promise<Wallpaper[]> => {
+  try {
+    const entries = await storageService.getHistory();
+    const seenIds = new Set<string>();
+    return entries
+      .map(entry => entry.wallpaper)
+      .filter(wallpaper => {
+        if (seenIds.has(wallpaper.id)) return false;
+        seenIds.add(wallpaper.id);
+        return true;
+      });
+  } catch (error) {
+    logError('Failed to get wallpaper history', error);
+    return [];
   }
 };
 
 /**
- * Formats API parameters for Wallhaven search
+ * Gets every showing of a wallpaper, most recent first
  */
-const formatParams = (filters: WallpaperFilters): URLSearchParams => {
-  const params = new URLSearchParams();
-  
-  // Format categories (General: 1, Anime: 2, People: 3)
-  let categoryString = '000';
-  if (filters.categories.includes('general')) {
-    categoryString = categoryString.substr(0, 0) + '1' + categoryString.substr(1);
-  }
-  if (filters.categories.includes('anime')) {
-    categoryString = categoryString.substr(0, 1) + '1' + categoryString.substr(2);
-  }
-  if (filters.categories.includes('people')) {
-    categoryString = categoryString.substr(0, 2) + '1';
-  }
-  
-  // Ensure at least one category is selected
-  if (categoryString === '000') {
-    categoryString = '010'; // Default to anime
-  }
-  
-  // ALWAYS ensure anime is included for best results
-  if (!categoryString.substr(1, 1).includes('1')) {
-    categoryString = categoryString.substr(0, 1) + '1' + categoryString.substr(2);
-    console.log('Forcing anime category for better results');
-  }
-  
-  params.append('categories', categoryString);
-  
-  // Format purity (SFW: 1, Sketchy: 2, NSFW: 3)
-  // purityString format: "SFW,Sketchy,NSFW" as a 3-digit binary string
-  let purityString = '100'; // Default to SFW only
-  
-  console.log('Formatting parameters with nsfwMode:', filters.nsfwMode);
-  
-  // Apply simplified NSFW filtering logic with clear patterns
-  switch (filters.nsfwMode) {
-    case 'only':
-      // NSFW Only: Show only sketchy and NSFW content (011)
-      purityString = '011';
-      console.log('Using NSFW Only purityString:', purityString);
-      break;
-    case 'allowed':
-      // Allow NSFW: Show all content types (111)
-      purityString = '111'; 
-      console.log('Using Allow NSFW purityString:', purityString);
-      break;
-    case 'off':
-    default:
-      // SFW Only: Show only SFW content (100)
-      purityString = '100';
-      console.log('Using SFW Only purityString:', purityString);
-      break;
+const getHistoryTimeline = async (): Promise<WallpaperHistoryEntry[]> => {
+  try {
+    return await storageService.getHistory();
+  } catch (error) {
+    logError('Failed to get wallpaper history timeline', error);
+    return [];
   }
-  
-  params.append('purity', purityString);
-  
-  // Add other parameters
-  if (filters.sorting) params.append('sorting', filters.sorting);
-  if (filters.order) params.append('order', filters.order);
-  if (filters.query) params.append('q', filters.query);
-  
-  // Add resolution filter if specified
-  if (filters.resolution) params.append('resolution', filters.resolution);
-  if (filters.minWidth) params.append('atleast', `${filters.minWidth}x${filters.minHeight || filters.minWidth}`);
-  
-  // For NSFW only mode, ensure "anime" is included in the search query to get better results
-  if (filters.nsfwMode === 'only' && (!filters.query || !filters.query.includes('anime'))) {
-    const currentQuery = params.get('q') || '';
-    // Add anime-related terms to get better results for NSFW anime content
-    if (currentQuery) {
-      params.set('q', `${currentQuery} anime hentai ecchi`);
+};
+
+/**
+ * Adds a wallpaper to the user's history, ending the showing of the one before it
+ * @param trigger - What made it the current wallpaper
+ */
+const addToWallpaperHistory = async (
+  wallpaper: Wallpaper,
+  trigger: WallpaperChangeTrigger = 'manual'
+): Promise<void> => {
+  try {
+    const entries = await storageService.getHistory();
+    const [latest] = entries;
+    
+    // Saving the current wallpaper again (e.g. with a new overlay) isn't a new showing
+    if (latest?.wallpaper.id === wallpaper.id && !latest.endedAt) {
+      entries[0] = { ...latest, wallpaper };
     } else {
-      params.set('q', 'anime hentai ecchi');
+      const now = new Date().toISOString();
+      if (latest && !latest.endedAt) {
+        entries[0] = { ...latest, endedAt: now };
+      }
+      entries.unshift({ id: `${Date.now()}-${wallpaper.id}`, wallpaper, shownAt: now, trigger });
     }
-    console.log('Added anime-related terms to query for NSFW-only mode');
-  } else if (!params.get('q')) {
-    // Always ensure we have a query parameter with anime for best results
-    params.set('q', 'anime');
+    
+    await storageService.saveHistory(entries.slice(0, MAX_HISTORY_ENTRIES));
+  } catch (error) {
+    logError('Failed to add wallpaper to history', error);
   }
-  
-  console.log('Formatted API parameters:', Object.fromEntries(params.entries()), 
-             'NSFW mode:', filters.nsfwMode, 
-             'Purity string:', purityString);
-  
-  return params;
 };
 
 /**
- * Maps Wallhaven API data to our Wallpaper interface
+ * Drops history entries older than the retention setting
+ * @returns Number of entries removed
  */
-const mapToWallpaper = (item: any): Wallpaper => {
-  return {
-    id: item.id,
-    path: item.path,
-    source: item.url,
-    sourceType: 'remote',
-    thumbnail: item.thumbs?.small,
-    resolution: item.resolution,
-    info: {
-      title: `Wallhaven ${item.id}`,
-      source: item.url,
-      uploadDate: item.created_at,
-      fileSize: item.file_size,
-      mimeType: item.file_type,
-      description: `${item.resolution} • ${item.category.charAt(0).toUpperCase() + item.category.slice(1)}`,
-      tags: item.tags?.map((tag: any) => tag.name) || []
-    },
-    addedAt: new Date().toISOString()
-  };
+const pruneHistory = async (): Promise<number> => {
+  try {
+    const settings = await storageService.getSettings();
+    const retentionDays: number = settings?.historyRetentionDays ?? 30;
+    if (retentionDays <= 0) {
+      return 0;
+    }
+    
+    const cutoff = Date.now() - retentionDays * DAY_IN_MS;
+    const entries = await storageService.getHistory();
+    
+    // Entries without a time predate the timeline, so their age is unknown and they are kept
+    const kept = entries.filter(entry => !entry.shownAt || new Date(entry.shownAt).getTime() >= cutoff);
+    if (kept.length < entries.length) {
+      await storageService.saveHistory(kept);
+    }
+    return entries.length - kept.length;
+  } catch (error) {
+    logError('Failed to prune wallpaper history', error);
+    throw error;
+  }
 };
 
 /**
- * Gets wallpaper history for the user
+ * Removes one entry from the history timeline
  */
-const getWallpaperHistory = async (): Promise<Wallpaper[]> => {
+const removeHistoryEntry = async (entryId: string): Promise<void> => {
   try {
-    // Use the getWallpapers method
-    const wallpapers = await storageService.getWallpapers();
-    return wallpapers || [];
+    const entries = await storageService.getHistory();
+    await storageService.saveHistory(entries.filter(entry => entry.id !== entryId));
   } catch (error) {
-    logError('Failed to get wallpaper history', error);
-    return [];
+    logError('Failed to remove history entry', error);
+    throw error;
   }
 };
 
 /**
- * Adds a wallpaper to the user's history
+ * Empties the history timeline
  */
-const addToWallpaperHistory = async (wallpaper: Wallpaper): Promise<void> => {
+const clearHistory = async (): Promise<void> => {
   try {
-    // Get existing wallpapers
-    const wallpapers = await storageService.getWallpapers();
-    
-    // Check if wallpaper already exists in the list
-    const existingIndex = wallpapers.findIndex(w => w.id === wallpaper.id);
-    
-    if (existingIndex !== -1) {
-      // Remove the existing entry so we can add it to the front
-      wallpapers.splice(existingIndex, 1);
-    }
-    
-    // Add new wallpaper to the beginning of list
-    wallpapers.unshift(wallpaper);
-    
-    // Limit list to 50 items
-    const trimmedWallpapers = wallpapers.slice(0, 50);
-    
-    // Save updated list
-    await storageService.saveWallpapers(trimmedWallpapers);
+    await storageService.saveHistory([]);
   } catch (error) {
-    logError('Failed to add wallpaper to history', error);
+    logError('Failed to clear wallpaper history', error);
+    throw error;
   }
 };
 
 /**
  * Handles file upload for wallpapers
+ * @param file - Image or video to add to the library
+ * @param sourceLabel - Where the file came from, shown in the wallpaper details
  */
-export const handleFileUpload = async (file: File): Promise<Wallpaper> => {
+export const handleFileUpload = async (file: File, sourceLabel = 'Local Upload'): Promise<Wallpaper> => {
   try {
     console.log(`Processing uploaded file: ${file.name}, Size: ${Math.round(file.size / 1024)}KB, Type: ${file.type}`);
     
-    if (!file.type.startsWith('image/')) {
-      console.error('Uploaded file is not an image:', file.type);
-      throw new Error('Uploaded file is not an image');
+    if (!isSupportedUpload(file.type)) {
+      console.error('Uploaded file is not an image or video:', file.type);
+      throw new Error('Uploaded file is not an image or an MP4/WebM video');
     }
     
     // Check file size before processing
@@ -196,77 +164,108 @@ export const handleFileUpload = async (file: File): Promise<Wallpaper> => {
     // Create a unique ID for the wallpaper
     const id = `local_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
     
+    const mediaType = await getMediaType(file);
+    console.log('Uploaded media type:', mediaType);
+    
     // Create a blob URL for processing
     const blobUrl = URL.createObjectURL(file);
     console.log('Created blob URL for processing:', blobUrl);
     
-    // Load the image to get its dimensions
-    const img = new Image();
+    // Videos are measured from a poster frame, which their thumbnail is also made from
+    let posterUrl = blobUrl;
+    let dimensions: { width: number, height: number };
     
-    const dimensions = await new Promise<{ width: number, height: number }>((resolve, reject) => {
-      img.onload = () => {
-        console.log(`Image loaded, dimensions: ${img.width}x${img.height}`);
-        resolve({ width: img.width, height: img.height });
-      };
-      img.onerror = (err) => {
-        console.error('Failed to load image:', err);
-        reject(new Error('Failed to load image - the file may be corrupted'));
-      };
-      img.src = blobUrl;
-    });
+    if (mediaType === 'video') {
+      const poster = await captureVideoFrame(blobUrl);
+      posterUrl = URL.createObjectURL(poster.frame);
+      dimensions = { width: poster.width, height: poster.height };
+      console.log(`Video loaded, dimensions: ${dimensions.width}x${dimensions.height}`);
+    } else {
+      // Load the image to get its dimensions
+      const img = new Image();
+      
+      dimensions = await new Promise<{ width: number, height: number }>((resolve, reject) => {
+        img.onload = () => {
+          console.log(`Image loaded, dimensions: ${img.width}x${img.height}`);
+          resolve({ width: img.width, height: img.height });
+        };
+        img.onerror = (err) => {
+          console.error('Failed to load image:', err);
+          reject(new Error('Failed to load image - the file may be corrupted'));
+        };
+        img.src = blobUrl;
+      });
+    }
     
-    // Convert to base64 with compression for storage
-    let base64Data: string;
-    try {
-      base64Data = await compressAndConvertToBase64(file, dimensions, 0.8);
-      console.log(`Compressed and converted to base64, data length: ${base64Data.length}`);
-    } catch (compressionError) {
-      console.error('Compression error:', compressionError);
-      throw new Error(`Failed to compress image: ${compressionError instanceof Error ? compressionError.message : 'unknown error'}`);
+    // Compress still images into a blob for the IndexedDB blob store; drawing
+    // animations or videos on a canvas would flatten them, so those are kept as they are
+    let imageBlob: Blob;
+    if (mediaType === 'image') {
+      try {
+        imageBlob = await compressImage(file, dimensions, 0.8);
+        console.log(`Compressed image, blob size: ${Math.round(imageBlob.size / 1024)}KB`);
+      } catch (compressionError) {
+        console.error('Compression error:', compressionError);
+        throw new Error(`Failed to compress image: ${compressionError instanceof Error ? compressionError.message : 'unknown error'}`);
+      }
+    } else {
+      imageBlob = file;
     }
     
     // Create a thumbnail
-    let thumbnailData: string;
+    let thumbnailBlob: Blob | undefined;
+    let imageHash: string | undefined;
+    let palette: string[] | undefined;
     try {
       const thumbnailSize = 200;
-      thumbnailData = await createThumbnail(base64Data, thumbnailSize, file.type);
+      const thumbnail = await createThumbnailWithHash(posterUrl, thumbnailSize, mediaType === 'video' ? 'image/jpeg' : file.type);
+      thumbnailBlob = await urlToBlob(thumbnail.thumbnailData);
+      imageHash = thumbnail.imageHash;
+      palette = thumbnail.palette;
       console.log('Created thumbnail for local wallpaper');
     } catch (thumbnailError) {
       console.error('Thumbnail creation error:', thumbnailError);
-      // Use the full image if thumbnail creation fails
-      thumbnailData = base64Data;
+      // The blob store falls back to the full image if no thumbnail is stored
     }
     
+    // Store the image data by wallpaper id
+    await blobStorageService.putBlobs(id, { image: imageBlob, thumbnail: thumbnailBlob });
+    
     // Format the resolution string
     const resolution = `${dimensions.width}x${dimensions.height}`;
     
     // Create the wallpaper object
-    const wallpaper: Wallpaper = {
+    let wallpaper: Wallpaper = {
       id,
-      path: base64Data,
+      path: toBlobRef(id, 'image'),
       source: 'local_upload',
       sourceType: 'local',
-      thumbnail: thumbnailData,
+      thumbnail: toBlobRef(id, thumbnailBlob ? 'thumbnail' : 'image'),
       resolution,
       info: {
         title: file.name,
-        source: 'Local Upload',
+        source: sourceLabel,
         uploadDate: new Date().toISOString(),
         fileSize: file.size,
         mimeType: file.type,
-        description: `Local Upload - ${resolution}`,
-        tags: ['local', 'upload']
+        description: `${sourceLabel} - ${resolution}`,
+        tags: ['local', 'upload'],
+        palette
       },
-      addedAt: new Date().toISOString()
+      addedAt: new Date().toISOString(),
+      imageHash,
+      mediaType
     };
     
     // Immediately add to storage to avoid loss
     try {
       console.log('Adding local wallpaper to library:', id);
-      await storageService.addToLibrary(wallpaper);
+      wallpaper = await storageService.addToLibrary(wallpaper);
       console.log('Successfully added wallpaper to library:', id);
     } catch (storageError) {
       console.error('Storage error when adding wallpaper to library:', storageError);
+      // Nothing refers to the stored image data without the library entry
+      await blobStorageService.removeBlobs(id).catch(() => undefined);
       throw new Error(
         `Failed to save wallpaper to library: ${
           storageError instanceof Error 
@@ -280,6 +279,9 @@ export const handleFileUpload = async (file: File): Promise<Wallpaper> => {
     
     // Revoke the blob URL as it's no longer needed
     URL.revokeObjectURL(blobUrl);
+    if (posterUrl !== blobUrl) {
+      URL.revokeObjectURL(posterUrl);
+    }
     
     console.log('Successfully processed uploaded wallpaper:', id);
     return wallpaper;
@@ -298,17 +300,45 @@ export const handleFileUpload = async (file: File): Promise<Wallpaper> => {
 };
 
 /**
- * Compresses and converts an image to base64 with the given quality
+ * Downloads an image from a link and adds it to the library like an uploaded file
+ * @param url - Address of the image
+ */
+export const handleUrlUpload = async (url: string): Promise<Wallpaper> => {
+  try {
+    if (!isValidUrl(url) || !sanitizeUrl(url) || !isImageUrl(url)) {
+      throw new Error('The link doesn\'t point at an image');
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`The image could not be downloaded (${response.status})`);
+    }
+
+    const blob = await response.blob();
+    if (!blob.type.startsWith('image/')) {
+      throw new Error('The link didn\'t return an image');
+    }
+
+    const fileName = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image';
+    return await handleFileUpload(new File([blob], fileName, { type: blob.type }), getDomain(url));
+  } catch (error) {
+    logError('Failed to add wallpaper from link', error);
+    throw error;
+  }
+};
+
+/**
+ * Compresses an image into a blob with the given quality
  * @param file The image file to compress
  * @param dimensions The image dimensions
  * @param quality The compression quality (0-1)
- * @returns A Promise that resolves to the base64 data URL
+ * @returns A Promise that resolves to the compressed image blob
  */
-const compressAndConvertToBase64 = async (
+const compressImage = async (
   file: File, 
   dimensions: { width: number, height: number },
   quality: number
-): Promise<string> => {
+): Promise<Blob> => {
   return new Promise((resolve, reject) => {
     try {
       // Create a blob URL for the file
@@ -360,22 +390,28 @@ const compressAndConvertToBase64 = async (
           // Draw the image onto the canvas
           ctx.drawImage(img, 0, 0, targetWidth, targetHeight);
           
-          // Convert to base64 with compression
-          const base64Data = canvas.toDataURL(file.type, quality);
-          console.log(`Compressed image to ${Math.round(base64Data.length / 1024)}KB with quality ${quality}`);
-          
           // Revoke the blob URL to avoid memory leaks
           URL.revokeObjectURL(blobUrl);
           
-          resolve(base64Data);
+          // Convert to a compressed blob, keeping the original file if encoding fails
+          canvas.toBlob(
+            (blob) => {
+              if (blob) {
+                console.log(`Compressed image to ${Math.round(blob.size / 1024)}KB with quality ${quality}`);
+                resolve(blob);
+              } else {
+                resolve(file);
+              }
+            },
+            file.type,
+            quality
+          );
         } catch (canvasError) {
           console.error('Canvas error during compression:', canvasError);
           
-          // Fallback to FileReader if canvas operations fail
-          const reader = new FileReader();
-          reader.onload = (e) => resolve(e.target?.result as string);
-          reader.onerror = (e) => reject(new Error('FileReader error: ' + e));
-          reader.readAsDataURL(file);
+          // Fall back to the original file if canvas operations fail
+          URL.revokeObjectURL(blobUrl);
+          resolve(file);
         }
       };
       
@@ -393,13 +429,14 @@ const compressAndConvertToBase64 = async (
 };
 
 /**
- * Creates a thumbnail from a base64 image
+ * Creates a thumbnail from an image URL (data URL or object URL), along with a
+ * perceptual hash and colour palette computed from the same canvas
  */
-export const createThumbnail = async (
-  base64Data: string, 
+export const createThumbnailWithHash = async (
+  imageUrl: string, 
   maxSize: number, 
   mimeType: string
-): Promise<string> => {
+): Promise<{ thumbnailData: string; imageHash: string; palette: string[] }> => {
   return new Promise((resolve, reject) => {
     try {
       // Create an image element
@@ -445,7 +482,7 @@ export const createThumbnail = async (
           const thumbnailData = canvas.toDataURL(mimeType, 0.8);
           console.log(`Created thumbnail: ${width}x${height}, data length: ${thumbnailData.length}`);
           
-          resolve(thumbnailData);
+          resolve({ thumbnailData, imageHash: computeDHash(canvas), palette: extractPalette(canvas) });
         } catch (err) {
           console.error('Error creating thumbnail:', err);
           reject(err);
@@ -457,7 +494,7 @@ export const createThumbnail = async (
         reject(new Error('Failed to load image for thumbnail'));
       };
       
-      img.src = base64Data;
+      img.src = imageUrl;
     } catch (err) {
       console.error('Error in thumbnail creation:', err);
       reject(err);
@@ -466,27 +503,133 @@ export const createThumbnail = async (
 };
 
 /**
- * Searches for wallpapers using the Wallhaven API
+ * Creates a thumbnail from an image URL (data URL or object URL)
+ */
+export const createThumbnail = async (
+  imageUrl: string, 
+  maxSize: number, 
+  mimeType: string
+): Promise<string> => {
+  const { thumbnailData } = await createThumbnailWithHash(imageUrl, maxSize, mimeType);
+  return thumbnailData;
+};
+
+/**
+ * Reads the thumbnail image of a wallpaper from the blob store, its provider or its URL
+ * @returns The image, or null if it can't be fetched
+ */
+export const getThumbnailBlob = async (wallpaper: Wallpaper): Promise<Blob | null> => {
+  const thumbnail = wallpaper.thumbnail || wallpaper.path;
+
+  if (isStoredRef(thumbnail)) {
+    return blobStorageService.getBlobByRef(thumbnail);
+  }
+
+  const provider = wallpaper.sourceType === 'remote' ? findProvider(wallpaper.provider) : undefined;
+  if (provider?.fetchImage) {
+    return provider.fetchImage(thumbnail);
+  }
+
+  const response = await fetch(thumbnail);
+  return response.ok ? response.blob() : null;
+};
+
+/**
+ * Adds the dominant colour palette to a wallpaper that doesn't have one yet
+ * @returns The wallpaper with a palette, or unchanged if the thumbnail can't be read
+ */
+const withPalette = async (wallpaper: Wallpaper): Promise<Wallpaper> => {
+  if (wallpaper.info?.palette?.length) {
+    return wallpaper;
+  }
+
+  try {
+    const blob = await getThumbnailBlob(wallpaper);
+    const palette = blob ? await extractPaletteFromBlob(blob) : [];
+    return palette.length > 0 ? { ...wallpaper, info: { ...wallpaper.info, palette } } : wallpaper;
+  } catch (error) {
+    console.error('Failed to extract wallpaper palette:', wallpaper.id, error);
+    return wallpaper;
+  }
+};
+
+/**
+ * Works out an overlay for a wallpaper whose darkness gives the clock enough contrast
+ * @param type - Overlay shape
+ * @param blurAmount - Blur to keep in the overlay
+ */
+const recommendOverlay = async (
+  wallpaper: Wallpaper,
+  type: WallpaperOverlayType,
+  blurAmount: number
+): Promise<WallpaperOverlayPreset> => {
+  try {
+    const blob = await getThumbnailBlob(wallpaper);
+    if (!blob) {
+      throw new Error('Wallpaper image could not be read');
+    }
+    const darknessAmount = await getRecommendedDarknessFromBlob(blob, type);
+    return { type, blurAmount, darknessAmount, isAuto: true };
+  } catch (error) {
+    logError('Failed to recommend wallpaper overlay', error);
+    throw error;
+  }
+};
+
+/**
+ * Adds an automatic overlay to a wallpaper that doesn't have one yet, when the
+ * default overlay has automatic darkness turned on
+ * @returns The wallpaper with an overlay, or unchanged if it can't be worked out
+ */
+const withOverlay = async (wallpaper: Wallpaper): Promise<Wallpaper> => {
+  if (wallpaper.overlay) {
+    return wallpaper;
+  }
+
+  const settings = await storageService.getSettings();
+  const defaults: Partial<WallpaperOverlay> = settings?.wallpaperOverlay || {};
+  if (defaults.autoDarkness === false) {
+    return wallpaper;
+  }
+
+  try {
+    const overlay = await recommendOverlay(wallpaper, defaults.type || 'solid', Number(defaults.blurAmount) || 0);
+    return { ...wallpaper, overlay };
+  } catch (error) {
+    console.error('Failed to work out wallpaper overlay:', wallpaper.id, error);
+    return wallpaper;
+  }
+};
+
+/**
+ * Ranks wallpapers by how closely their palette matches a colour
+ * @param wallpapers Wallpapers to search, e.g. the library
+ * @param color Hex colour
+ * @returns Matching wallpapers, closest first; wallpapers without a palette are left out
+ */
+const searchByColor = (wallpapers: Wallpaper[], color: string): Wallpaper[] => {
+  return wallpapers
+    .map(wallpaper => ({ wallpaper, distance: getPaletteDistance(wallpaper.info?.palette, color) }))
+    .filter(({ distance }) => distance <= COLOR_MATCH_THRESHOLD)
+    .sort((a, b) => a.distance - b.distance)
+    .map(({ wallpaper }) => wallpaper);
+};
+
+/**
+ * Searches for wallpapers using a registered provider (Wallhaven by default)
  */
 export const searchWallpapers = async (
   query = '',
   page = 1,
-  customFilters: Partial<WallpaperFilters> = {}
-): Promise<{
-  wallpapers: Wallpaper[];
-  meta: {
-    currentPage: number;
-    lastPage: number;
-    perPage: number;
-    total: number;
-  }
-}> => {
+  customFilters: Partial<WallpaperFilters> = {},
+  providerId?: WallpaperProviderId
+): Promise<WallpaperSearchResult> => {
   try {
-    console.log(`Searching wallpapers with query: "${query}", page: ${page}, filters:`, customFilters);
+    const provider = getProvider(providerId);
+    console.log(`Searching ${provider.name} with query: "${query}", page: ${page}, filters:`, customFilters);
     
     // Merge default filters with custom filters
     const filters: WallpaperFilters = {
-      ...WALLHAVEN_API.DEFAULT_PARAMS,
       categories: customFilters.categories || ['general', 'anime'],
       purity: customFilters.purity || ['sfw'],
       sorting: customFilters.sorting || 'random',
@@ -497,78 +640,21 @@ export const searchWallpapers = async (
     // Explicitly log the NSFW mode to debug
     console.log('NSFW mode for this search:', customFilters.nsfwMode, 'Using mode:', filters.nsfwMode);
     
-    if (query) {
-      filters.query = query;
-    }
-    
     // Apply advanced filters if provided
     if (customFilters.resolution) filters.resolution = customFilters.resolution;
     if (customFilters.minWidth) filters.minWidth = customFilters.minWidth;
     if (customFilters.minHeight) filters.minHeight = customFilters.minHeight;
+    if (customFilters.colors) filters.colors = customFilters.colors;
     
     try {
-      // Format parameters
-      const params = formatParams(filters);
-      
-      // Add page parameter
-      params.append('page', page.toString());
-      
-      // Build URL
-      const url = `${WALLHAVEN_API.BASE_URL}${WALLHAVEN_API.SEARCH_ENDPOINT}?${params.toString()}`;
-      console.log('Searching with URL:', url);
+      const result = await provider.search(query, page, filters);
       
-      // Add timeout to prevent hanging requests
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
-      
-      try {
-        // Make request with timeout
-        const response = await fetch(url, { 
-          signal: controller.signal,
-          // Add headers for better reliability
-          headers: {
-            'Accept': 'application/json',
-            'Content-Type': 'application/json'
-          }
-        });
-        
-        // Clear the timeout since request completed
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          console.error('Wallhaven API error:', response.status, response.statusText);
-          throw new Error(`Wallhaven API error: ${response.status} ${response.statusText}`);
-        }
-        
-        const data = await response.json() as WallhavenSearchResponse;
-        console.log('Wallhaven search results:', data.meta);
-        
-        // Map to wallpapers
-        const wallpapers = data.data.map(mapToWallpaper);
-        
-        return {
-          wallpapers,
-          meta: {
-            currentPage: data.meta.current_page,
-            lastPage: data.meta.last_page,
-            perPage: data.meta.per_page,
-            total: data.meta.total
-          }
-        };
-      } catch (fetchError) {
-        // Handle fetch errors specifically (timeout, network issues, etc.)
-        console.error('Fetch error in searchWallpapers:', fetchError);
-        
-        // Re-throw a cleaner error for the UI to display
-        if (fetchError instanceof DOMException && fetchError.name === 'AbortError') {
-          throw new Error('Search request timed out. Please try again.');
-        } else {
-          throw new Error(`Failed to fetch wallpapers: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
-        }
-      }
-    } catch (paramsError) {
-      console.error('Error generating search parameters:', paramsError);
-      throw new Error('Failed to process search parameters. Please try different search criteria.');
+      // Providers can't exclude everything on the blocklist themselves
+      return { ...result, wallpapers: await feedbackService.filterBlocked(result.wallpapers) };
+    } catch (fetchError) {
+      // Handle fetch errors specifically (timeout, network issues, etc.)
+      console.error('Fetch error in searchWallpapers:', fetchError);
+      throw new Error(`Failed to fetch wallpapers: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`);
     }
   } catch (error) {
     // Top-level error handler to ensure we never crash the page
@@ -589,7 +675,36 @@ export const searchWallpapers = async (
 };
 
 /**
- * Fetches wallpapers from Wallhaven API
+ * Fetches a single wallpaper from the provider it came from
+ */
+const getWallpaperById = async (id: string, providerId?: WallpaperProviderId): Promise<Wallpaper | null> => {
+  try {
+    return await getProvider(providerId).getById(id);
+  } catch (error) {
+    logError('Failed to get wallpaper by id', error);
+    return null;
+  }
+};
+
+/**
+ * Lists every page of the multi-page work a wallpaper belongs to
+ */
+const getWallpaperPages = async (wallpaper: Wallpaper): Promise<Wallpaper[]> => {
+  const provider = wallpaper.sourceType === 'remote' ? findProvider(wallpaper.provider) : undefined;
+  if (!provider?.getPages) {
+    return [wallpaper];
+  }
+
+  try {
+    return await provider.getPages(wallpaper);
+  } catch (error) {
+    logError('Failed to get wallpaper pages', error);
+    return [wallpaper];
+  }
+};
+
+/**
+ * Fetches wallpapers from the default provider
  */
 const fetchWallpapers = async (): Promise<Wallpaper[]> => {
   try {
@@ -602,7 +717,7 @@ const fetchWallpapers = async (): Promise<Wallpaper[]> => {
 };
 
 /**
- * Fetches a random wallpaper from Wallhaven API
+ * Fetches a random wallpaper from the configured refresh provider
  */
 const fetchRandomWallpaper = async (): Promise<Wallpaper> => {
   try {
@@ -620,24 +735,30 @@ const fetchRandomWallpaper = async (): Promise<Wallpaper> => {
       nsfw: nsfwMode === 'allowed' || nsfwMode === 'only'
     };
     
-    // Pass the filters to searchWallpapers
-    const { wallpapers } = await searchWallpapers('', 1, filters);
+    // An already downloaded wallpaper shows without waiting on the network, and offline
+    const provider = settings?.refreshProvider || DEFAULT_PROVIDER_ID;
+    let wallpaper = await prefetchService.takeNext(provider, buildRefreshFilters(settings?.wallpaperFilters, nsfwMode));
     
-    if (!wallpapers || wallpapers.length === 0) {
-      throw new Error('No wallpapers found');
+    if (!wallpaper) {
+      // Pass the filters to searchWallpapers, which leaves out blocked wallpapers
+      const { wallpapers } = await searchWallpapers('', 1, filters, provider);
+      
+      if (!wallpapers || wallpapers.length === 0) {
+        throw new Error('No wallpapers found');
+      }
+      
+      // Select a random wallpaper
+      const randomIndex = Math.floor(Math.random() * wallpapers.length);
+      wallpaper = wallpapers[randomIndex];
     }
     
-    // Select a random wallpaper
-    const randomIndex = Math.floor(Math.random() * wallpapers.length);
-    const wallpaper = wallpapers[randomIndex];
-    
     console.log('Selected wallpaper:', wallpaper.id);
     
     // Save current wallpaper
     await storageService.saveCurrentWallpaper(wallpaper);
     
     // Only add to history
-    await addToWallpaperHistory(wallpaper);
+    await addToWallpaperHistory(wallpaper, 'shuffle');
     
     return wallpaper;
   } catch (error) {
@@ -671,91 +792,82 @@ const getCurrentWallpaper = async (): Promise<Wallpaper | null> => {
 };
 
 /**
- * Saves the current wallpaper
+ * Saves the current wallpaper, extracting its colour palette and working out its
+ * overlay if it has none
+ * @param trigger - What made it the current wallpaper, for the history timeline
+ * @returns The wallpaper as stored
  */
-const saveCurrentWallpaper = async (wallpaper: Wallpaper): Promise<void> => {
+const saveCurrentWallpaper = async (
+  wallpaper: Wallpaper,
+  trigger: WallpaperChangeTrigger = 'manual'
+): Promise<Wallpaper> => {
   try {
-    // For local uploaded images with blob URLs, convert to base64 for persistence
-    if (wallpaper.sourceType === 'local' && wallpaper.path.startsWith('blob:')) {
-      try {
-        // Convert blob URL to base64 data URL
-        const response = await fetch(wallpaper.path);
-        const blob = await response.blob();
-        
-        const reader = new FileReader();
-        return new Promise((resolve, reject) => {
-          reader.onloadend = async () => {
-            try {
-              // Update the wallpaper with the base64 data
-              const base64Data = reader.result as string;
-              const updatedWallpaper = {
-                ...wallpaper,
-                path: base64Data,
-                thumbnail: base64Data
-              };
-              
-              // Save current wallpaper
-              await storageService.saveCurrentWallpaper(updatedWallpaper);
-              
-              // Only add local uploaded wallpapers to library automatically
-              if (updatedWallpaper.sourceType === 'local' && updatedWallpaper.source === 'local_upload') {
-                try {
-                  await storageService.addToLibrary(updatedWallpaper);
-                  console.log('Added local wallpaper to library when setting as current wallpaper');
-                } catch (libraryError) {
-                  console.error('Failed to add to library when setting as current wallpaper:', libraryError);
-                }
-              }
-              
-              // Also add to history
-              await addToWallpaperHistory(updatedWallpaper);
-              resolve();
-            } catch (error) {
-              reject(error);
-            }
-          };
-          reader.onerror = reject;
-          reader.readAsDataURL(blob);
-        });
-      } catch (error) {
-        console.error('Failed to convert blob to base64:', error);
-        // Fall back to original method
-        await storageService.saveCurrentWallpaper(wallpaper);
-        
-        // Only add local uploaded wallpapers to library automatically
-        if (wallpaper.sourceType === 'local' && wallpaper.source === 'local_upload') {
-          try {
-            await storageService.addToLibrary(wallpaper);
-            console.log('Added local wallpaper to library when setting as current wallpaper');
-          } catch (libraryError) {
-            console.error('Failed to add to library when setting as current wallpaper:', libraryError);
-          }
-        }
-        
-        await addToWallpaperHistory(wallpaper);
-      }
-    } else {
-      // Regular wallpaper saving
-      await storageService.saveCurrentWallpaper(wallpaper);
-      
-      // Only add local uploaded wallpapers to library automatically
-      if (wallpaper.sourceType === 'local' && wallpaper.source === 'local_upload') {
-        try {
-          await storageService.addToLibrary(wallpaper);
-          console.log('Added local wallpaper to library when setting as current wallpaper');
-        } catch (libraryError) {
-          console.error('Failed to add to library when setting as current wallpaper:', libraryError);
-        }
-      }
-      
-      await addToWallpaperHistory(wallpaper);
+    const wallpaperWithDetails = await withOverlay(await withPalette(wallpaper));
+    
+    // Storage moves inline image data (data/blob URLs) into the blob store and
+    // adds local uploads to the library, so history only ever sees references
+    const storedWallpaper = await storageService.saveCurrentWallpaper(wallpaperWithDetails);
+    
+    // Keep the palette and overlay for the next time this wallpaper comes up from the library
+    if (wallpaperWithDetails !== wallpaper) {
+      await storageService.updateLibraryWallpaper(storedWallpaper.id, {
+        info: storedWallpaper.info,
+        overlay: storedWallpaper.overlay
+      });
     }
+    
+    await addToWallpaperHistory(storedWallpaper, trigger);
+    return storedWallpaper;
   } catch (error) {
     logError('Failed to save current wallpaper', error);
     throw error;
   }
 };
 
+/**
+ * Saves how a library wallpaper is cropped and fitted, including on the current wallpaper
+ * if it is the one being shown
+ * @param framing - New framing, or undefined to go back to centred cover
+ * @returns The updated library wallpaper, or null if it isn't in the library
+ */
+const updateFraming = async (wallpaperId: string, framing?: WallpaperFraming): Promise<Wallpaper | null> => {
+  try {
+    const updatedWallpaper = await storageService.updateLibraryWallpaper(wallpaperId, { framing });
+    
+    const currentWallpaper = await storageService.getCurrentWallpaper();
+    if (currentWallpaper?.id === wallpaperId) {
+      await storageService.saveCurrentWallpaper({ ...currentWallpaper, framing });
+    }
+    return updatedWallpaper;
+  } catch (error) {
+    logError('Failed to update wallpaper framing', error);
+    throw error;
+  }
+};
+
+/**
+ * Saves the overlay of a wallpaper, both in the library and on the current wallpaper
+ * if it is the one being shown
+ * @param overlay - New overlay, or undefined to use the default overlay
+ * @returns The updated wallpaper, or null if it is neither in the library nor shown
+ */
+const updateOverlay = async (wallpaperId: string, overlay?: WallpaperOverlayPreset): Promise<Wallpaper | null> => {
+  try {
+    const updatedWallpaper = await storageService.updateLibraryWallpaper(wallpaperId, { overlay });
+    
+    const currentWallpaper = await storageService.getCurrentWallpaper();
+    if (currentWallpaper?.id === wallpaperId) {
+      const updatedCurrent = { ...currentWallpaper, overlay };
+      await storageService.saveCurrentWallpaper(updatedCurrent);
+      return updatedWallpaper || updatedCurrent;
+    }
+    return updatedWallpaper;
+  } catch (error) {
+    logError('Failed to update wallpaper overlay', error);
+    throw error;
+  }
+};
+
 /**
  * Adds a wallpaper to favorites (same as library)
  */
@@ -771,70 +883,58 @@ const addToFavorites = async (wallpaper: Wallpaper): Promise<void> => {
       return;
     }
 
-    // If this is a local image with a blob URL or data URL, handle it specially
+    // If this is a local image, make sure its image data ends up in the blob store
     if (wallpaper.sourceType === 'local') {
       try {
-        // If it's already a data URL, we can use it directly
-        if (wallpaper.path.startsWith('data:')) {
-          // Ensure we have a thumbnail
-          const thumbnail = wallpaper.thumbnail || await createThumbnail(wallpaper.path, 200, wallpaper.info.mimeType || 'image/jpeg');
-          
-          const processedWallpaper: Wallpaper = {
-            ...wallpaper,
-            thumbnail,
-            // Ensure required properties are set
-            sourceType: 'local',
-            source: 'local_upload',
-            info: {
-              ...wallpaper.info,
-              source: wallpaper.info.source || 'Local Upload'
-            }
-          };
-          
-          // Add to library
-          await storageService.addToLibrary(processedWallpaper);
-          console.log('Added local wallpaper to library:', wallpaper.id);
+        let imageBlob: Blob;
+        
+        if (isStoredRef(wallpaper.path)) {
+          // Already stored, only the metadata needs to be added
+          await storageService.addToLibrary(wallpaper);
           return;
+        } else if (wallpaper.path.startsWith('data:') || wallpaper.path.startsWith('blob:')) {
+          imageBlob = await urlToBlob(wallpaper.path);
+        } else {
+          // Otherwise, we need to download the image
+          console.log('Downloading image from URL:', wallpaper.path);
+          const response = await fetch(wallpaper.path);
+          imageBlob = await response.blob();
         }
         
-        // Otherwise, we need to download the image
-        console.log('Downloading image from URL:', wallpaper.path);
-        
+        // Ensure we have a thumbnail
+        const imageUrl = URL.createObjectURL(imageBlob);
+        let thumbnailBlob: Blob | undefined;
+        let imageHash: string | undefined;
+        let palette: string[] | undefined;
         try {
-          // Download the image
-          const response = await fetch(wallpaper.path);
-          const blob = await response.blob();
-          const imageData = await new Promise<string>((resolve, reject) => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.onerror = (err) => {
-              console.error('Failed to convert to base64:', err);
-              reject(new Error('Failed to convert to base64'));
-            };
-            reader.readAsDataURL(blob);
-          });
-          
-          const thumbnail = await createThumbnail(imageData, 200, wallpaper.info.mimeType || blob.type);
-          
-          const processedWallpaper: Wallpaper = {
-            ...wallpaper,
-            path: imageData,
-            thumbnail,
-            sourceType: 'local',
-            source: 'local_upload',
-            info: {
-              ...wallpaper.info,
-              source: wallpaper.info.source || 'Local Upload'
-            }
-          };
-          
-          await storageService.addToLibrary(processedWallpaper);
-          console.log('Added processed blob wallpaper to library:', wallpaper.id);
-          return;
-        } catch (error) {
-          console.error('Failed to download image:', error);
-          throw error;
+          const thumbnail = await createThumbnailWithHash(imageUrl, 200, wallpaper.info.mimeType || imageBlob.type || 'image/jpeg');
+          thumbnailBlob = await urlToBlob(thumbnail.thumbnailData);
+          imageHash = thumbnail.imageHash;
+          palette = thumbnail.palette;
+        } finally {
+          URL.revokeObjectURL(imageUrl);
         }
+        
+        await blobStorageService.putBlobs(wallpaper.id, { image: imageBlob, thumbnail: thumbnailBlob });
+        
+        const processedWallpaper: Wallpaper = {
+          ...wallpaper,
+          path: toBlobRef(wallpaper.id, 'image'),
+          thumbnail: toBlobRef(wallpaper.id, 'thumbnail'),
+          imageHash,
+          // Ensure required properties are set
+          sourceType: 'local',
+          source: 'local_upload',
+          info: {
+            ...wallpaper.info,
+            source: wallpaper.info.source || 'Local Upload',
+            palette: wallpaper.info.palette || palette
+          }
+        };
+        
+        await storageService.addToLibrary(processedWallpaper);
+        console.log('Added local wallpaper to library:', wallpaper.id);
+        return;
       } catch (error) {
         console.error('Failed to process local wallpaper:', error);
         throw error;
@@ -856,13 +956,13 @@ const addToFavorites = async (wallpaper: Wallpaper): Promise<void> => {
 const removeFromFavorites = async (wallpaperId: string): Promise<void> => {
   try {
     // Get existing wallpapers
-    const wallpapers = await storageService.getWallpapers();
+    const entries = await storageService.getHistory();
     
     // Remove wallpaper from list
-    const updatedWallpapers = wallpapers.filter(w => w.id !== wallpaperId);
+    const updatedEntries = entries.filter(entry => entry.wallpaper.id !== wallpaperId);
     
     // Save updated list
-    await storageService.saveWallpapers(updatedWallpapers);
+    await storageService.saveHistory(updatedEntries);
   } catch (error) {
     logError('Failed to remove wallpaper from favorites', error);
   }
@@ -870,21 +970,36 @@ const removeFromFavorites = async (wallpaperId: string): Promise<void> => {
 
 /**
  * Service for fetching and managing wallpapers
- * Integrates with Wallhaven API for anime-themed wallpapers
+ * Remote wallpapers come from the providers registered in ./providers
  */
 const wallpaperService = {
   /**
-   * Search for wallpapers from the API
+   * Search for wallpapers from a provider
    */
   searchWallpapers,
 
   /**
-   * Fetches wallpapers from Wallhaven API
+   * Ranks wallpapers by palette colour
+   */
+  searchByColor,
+
+  /**
+   * Fetches a single wallpaper from a provider
+   */
+  getWallpaperById,
+
+  /**
+   * Lists the pages of a multi-page work
+   */
+  getWallpaperPages,
+
+  /**
+   * Fetches wallpapers from the default provider
    */
   fetchWallpapers,
   
   /**
-   * Fetches a random wallpaper from Wallhaven API
+   * Fetches a random wallpaper from the refresh provider
    */
   fetchRandomWallpaper,
   
@@ -898,6 +1013,21 @@ const wallpaperService = {
    */
   saveCurrentWallpaper,
   
+  /**
+   * Saves the crop, focal point and fit mode of a library wallpaper
+   */
+  updateFraming,
+  
+  /**
+   * Saves the blur and darkening of a wallpaper
+   */
+  updateOverlay,
+  
+  /**
+   * Works out an overlay with enough contrast for the clock
+   */
+  recommendOverlay,
+  
   /**
    * Adds a wallpaper to favorites (same as library)
    */
@@ -911,7 +1041,27 @@ const wallpaperService = {
   /**
    * Gets wallpaper history
    */
-  getWallpaperHistory
+  getWallpaperHistory,
+  
+  /**
+   * Gets the history timeline with when and why each wallpaper was shown
+   */
+  getHistoryTimeline,
+  
+  /**
+   * Drops history older than the retention setting
+   */
+  pruneHistory,
+  
+  /**
+   * Removes one entry from the history timeline
+   */
+  removeHistoryEntry,
+  
+  /**
+   * Empties the history timeline
+   */
+  clearHistory
 };
 
 export default wallpaperService;
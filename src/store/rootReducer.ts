@@ -3,12 +3,22 @@ import wallpaperReducer from './slices/wallpaperSlice';
 import todoReducer from './slices/todoSlice';
 import settingsReducer from './slices/settingsSlice';
 import notificationReducer from './slices/notificationSlice';
+import collectionReducer from './slices/collectionSlice';
+import savedSearchReducer from './slices/savedSearchSlice';
+import bulkReducer from './slices/bulkSlice';
+import slideshowReducer from './slices/slideshowSlice';
+import feedbackReducer from './slices/feedbackSlice';
 
 const rootReducer = combineReducers({
   wallpaper: wallpaperReducer,
   todo: todoReducer,
   settings: settingsReducer,
   notifications: notificationReducer,
+  collections: collectionReducer,
+  savedSearches: savedSearchReducer,
+  bulk: bulkReducer,
+  slideshow: slideshowReducer,
+  feedback: feedbackReducer,
 });
 
 export type RootState = ReturnType<typeof rootReducer>;
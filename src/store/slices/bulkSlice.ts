@@ -0,0 +1,271 @@
+import { createSlice, createAsyncThunk, isAnyOf, PayloadAction } from '@reduxjs/toolkit';
+import bulkService, { BulkProgressCallback } from '../../services/bulkService';
+import { BulkActionType, BulkProgress, BulkResult, BulkUndoEntry } from '../../types/bulk';
+import { Wallpaper } from '../../types/wallpaper';
+import { logError } from '../../utils/errorUtils';
+
+/**
+ * Interface for the bulk action state
+ */
+export interface BulkState {
+  isRunning: boolean;
+  progress: BulkProgress | null;
+  undo: BulkUndoEntry | null;   // Only the last action can be undone
+  error: string | null;
+}
+
+/**
+ * Initial state for the bulk slice
+ */
+const initialState: BulkState = {
+  isRunning: false,
+  progress: null,
+  undo: null,
+  error: null
+};
+
+const countLabel = (count: number): string => `${count} wallpaper${count === 1 ? '' : 's'}`;
+
+/**
+ * Runs a bulk action that changes the library: discards the previous undo entry,
+ * records what the action changed and reports progress while it runs
+ */
+const runUndoableAction = async (
+  action: BulkActionType,
+  label: string,
+  { dispatch, getState }: { dispatch: (action: unknown) => unknown; getState: () => unknown },
+  run: (onProgress: BulkProgressCallback) => Promise<BulkResult>
+): Promise<BulkResult & { undo: BulkUndoEntry }> => {
+  const previous = (getState() as { bulk: BulkState }).bulk.undo;
+  if (previous) {
+    await bulkService.discard(previous);
+  }
+
+  const before = await bulkService.takeSnapshot();
+  const result = await run((done, total) => dispatch(setBulkProgress({ action, done, total })));
+  return { ...result, undo: bulkService.createUndoEntry(action, label, before, result) };
+};
+
+/**
+ * Async thunk for adding several wallpapers to the library
+ */
+export const bulkAddToLibrary = createAsyncThunk(
+  'bulk/addToLibrary',
+  async (wallpapers: Wallpaper[], thunkApi) => {
+    try {
+      return await runUndoableAction('addToLibrary', `Added ${countLabel(wallpapers.length)} to library`, thunkApi,
+        onProgress => bulkService.addToLibrary(wallpapers, onProgress));
+    } catch (error) {
+      logError('Failed to add wallpapers to library', error);
+      return thunkApi.rejectWithValue(error instanceof Error ? error.message : 'Failed to add wallpapers to library');
+    }
+  }
+);
+
+/**
+ * Async thunk for removing several wallpapers from the library
+ */
+export const bulkRemoveFromLibrary = createAsyncThunk(
+  'bulk/removeFromLibrary',
+  async (wallpaperIds: string[], thunkApi) => {
+    try {
+      return await runUndoableAction('delete', `Deleted ${countLabel(wallpaperIds.length)}`, thunkApi,
+        () => bulkService.removeFromLibrary(wallpaperIds));
+    } catch (error) {
+      logError('Failed to remove wallpapers from library', error);
+      return thunkApi.rejectWithValue(error instanceof Error ? error.message : 'Failed to remove wallpapers from library');
+    }
+  }
+);
+
+/**
+ * Async thunk for adding several wallpapers to a collection
+ */
+export const bulkAddToCollection = createAsyncThunk(
+  'bulk/addToCollection',
+  async ({ collectionId, collectionName, wallpapers }: {
+    collectionId: string;
+    collectionName: string;
+    wallpapers: Wallpaper[];
+  }, thunkApi) => {
+    try {
+      return await runUndoableAction('addToCollection', `Added ${countLabel(wallpapers.length)} to "${collectionName}"`, thunkApi,
+        onProgress => bulkService.addToCollection(collectionId, wallpapers, onProgress));
+    } catch (error) {
+      logError('Failed to add wallpapers to collection', error);
+      return thunkApi.rejectWithValue(error instanceof Error ? error.message : 'Failed to add wallpapers to collection');
+    }
+  }
+);
+
+/**
+ * Async thunk for adding and removing tags on several wallpapers
+ */
+export const bulkUpdateTags = createAsyncThunk(
+  'bulk/updateTags',
+  async ({ wallpapers, add = [], remove = [] }: { wallpapers: Wallpaper[]; add?: string[]; remove?: string[] }, thunkApi) => {
+    try {
+      return await runUndoableAction('tag', `Updated tags on ${countLabel(wallpapers.length)}`, thunkApi,
+        onProgress => bulkService.updateTags(wallpapers, add, remove, onProgress));
+    } catch (error) {
+      logError('Failed to update tags', error);
+      return thunkApi.rejectWithValue(error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  }
+);
+
+/**
+ * Async thunk for marking several wallpapers as favourites or clearing the mark
+ */
+export const bulkSetFavorite = createAsyncThunk(
+  'bulk/setFavorite',
+  async ({ wallpapers, isFavorite }: { wallpapers: Wallpaper[]; isFavorite: boolean }, thunkApi) => {
+    try {
+      const label = isFavorite
+        ? `Marked ${countLabel(wallpapers.length)} as favourite`
+        : `Unmarked ${countLabel(wallpapers.length)} as favourite`;
+      return await runUndoableAction('favorite', label, thunkApi,
+        onProgress => bulkService.setFavorite(wallpapers, isFavorite, onProgress));
+    } catch (error) {
+      logError('Failed to update favourites', error);
+      return thunkApi.rejectWithValue(error instanceof Error ? error.message : 'Failed to update favourites');
+    }
+  }
+);
+
+/**
+ * Async thunk for downloading several wallpapers as one ZIP archive
+ */
+export const bulkDownload = createAsyncThunk(
+  'bulk/download',
+  async (wallpapers: Wallpaper[], { dispatch, rejectWithValue }) => {
+    try {
+      return await bulkService.createArchive(wallpapers,
+        (done, total) => dispatch(setBulkProgress({ action: 'download', done, total })));
+    } catch (error) {
+      logError('Failed to download wallpapers', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to download wallpapers');
+    }
+  }
+);
+
+/**
+ * Async thunk for undoing the last bulk action
+ */
+export const undoBulkAction = createAsyncThunk(
+  'bulk/undo',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { undo } = (getState() as { bulk: BulkState }).bulk;
+      if (!undo) {
+        throw new Error('There is nothing to undo');
+      }
+      return await bulkService.restore(undo);
+    } catch (error) {
+      logError('Failed to undo bulk action', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to undo');
+    }
+  }
+);
+
+/**
+ * Async thunk for dropping the undo entry once it can no longer be used
+ */
+export const discardBulkUndo = createAsyncThunk(
+  'bulk/discardUndo',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const { undo } = (getState() as { bulk: BulkState }).bulk;
+      if (undo) {
+        await bulkService.discard(undo);
+      }
+    } catch (error) {
+      logError('Failed to discard undo', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to discard undo');
+    }
+  }
+);
+
+// Bulk actions that return the updated library and collections
+export const isBulkResultAction = isAnyOf(
+  bulkAddToLibrary.fulfilled,
+  bulkRemoveFromLibrary.fulfilled,
+  bulkAddToCollection.fulfilled,
+  bulkUpdateTags.fulfilled,
+  bulkSetFavorite.fulfilled,
+  undoBulkAction.fulfilled
+);
+
+/**
+ * Bulk slice
+ */
+const bulkSlice = createSlice({
+  name: 'bulk',
+  initialState,
+  reducers: {
+    setBulkProgress: (state, action: PayloadAction<BulkProgress>) => {
+      state.progress = action.payload;
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      .addCase(undoBulkAction.fulfilled, (state) => {
+        state.undo = null;
+      })
+      .addCase(discardBulkUndo.fulfilled, (state) => {
+        state.undo = null;
+      });
+
+    // Every undoable action replaces the undo entry; a failed one has already discarded the old entry
+    builder
+      .addMatcher(isAnyOf(
+        bulkAddToLibrary.fulfilled,
+        bulkRemoveFromLibrary.fulfilled,
+        bulkAddToCollection.fulfilled,
+        bulkUpdateTags.fulfilled,
+        bulkSetFavorite.fulfilled
+      ), (state, action) => {
+        state.undo = action.payload.undo;
+      })
+      .addMatcher(isAnyOf(
+        bulkAddToLibrary.rejected,
+        bulkRemoveFromLibrary.rejected,
+        bulkAddToCollection.rejected,
+        bulkUpdateTags.rejected,
+        bulkSetFavorite.rejected
+      ), (state) => {
+        state.undo = null;
+      })
+      .addMatcher(isAnyOf(
+        bulkAddToLibrary.pending,
+        bulkRemoveFromLibrary.pending,
+        bulkAddToCollection.pending,
+        bulkUpdateTags.pending,
+        bulkSetFavorite.pending,
+        bulkDownload.pending,
+        undoBulkAction.pending
+      ), (state) => {
+        state.isRunning = true;
+        state.progress = null;
+        state.error = null;
+      })
+      .addMatcher(isAnyOf(
+        bulkAddToLibrary.settled,
+        bulkRemoveFromLibrary.settled,
+        bulkAddToCollection.settled,
+        bulkUpdateTags.settled,
+        bulkSetFavorite.settled,
+        bulkDownload.settled,
+        undoBulkAction.settled
+      ), (state, action) => {
+        state.isRunning = false;
+        state.progress = null;
+        if (action.meta.requestStatus === 'rejected') {
+          state.error = action.payload as string;
+        }
+      });
+  }
+});
+
+export const { setBulkProgress } = bulkSlice.actions;
+export default bulkSlice.reducer;
@@ -0,0 +1,167 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import collectionService from '../../services/collectionService';
+import { LibraryCollection } from '../../types/wallpaper';
+import { logError } from '../../utils/errorUtils';
+import { removeFromLibrary } from './wallpaperSlice';
+import { isBulkResultAction } from './bulkSlice';
+
+/**
+ * Interface for the library collections state
+ */
+export interface CollectionState {
+  collections: LibraryCollection[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for the collection slice
+ */
+const initialState: CollectionState = {
+  collections: [],
+  isLoading: false,
+  error: null
+};
+
+/**
+ * Async thunk for loading collections from storage
+ */
+export const loadCollections = createAsyncThunk(
+  'collections/loadCollections',
+  async (_, { rejectWithValue }) => {
+    try {
+      return await collectionService.getCollections();
+    } catch (error) {
+      logError('Failed to load collections', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load collections');
+    }
+  }
+);
+
+/**
+ * Async thunk for creating a collection
+ */
+export const createCollection = createAsyncThunk(
+  'collections/createCollection',
+  async (name: string, { rejectWithValue }) => {
+    try {
+      return await collectionService.createCollection(name);
+    } catch (error) {
+      logError('Failed to create collection', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to create collection');
+    }
+  }
+);
+
+/**
+ * Async thunk for renaming a collection
+ */
+export const renameCollection = createAsyncThunk(
+  'collections/renameCollection',
+  async ({ id, name }: { id: string; name: string }, { rejectWithValue }) => {
+    try {
+      return await collectionService.renameCollection(id, name);
+    } catch (error) {
+      logError('Failed to rename collection', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to rename collection');
+    }
+  }
+);
+
+/**
+ * Async thunk for moving a collection to a new position
+ */
+export const moveCollection = createAsyncThunk(
+  'collections/moveCollection',
+  async ({ id, toIndex }: { id: string; toIndex: number }, { rejectWithValue }) => {
+    try {
+      return await collectionService.moveCollection(id, toIndex);
+    } catch (error) {
+      logError('Failed to move collection', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to move collection');
+    }
+  }
+);
+
+/**
+ * Async thunk for deleting a collection
+ */
+export const deleteCollection = createAsyncThunk(
+  'collections/deleteCollection',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await collectionService.deleteCollection(id);
+    } catch (error) {
+      logError('Failed to delete collection', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete collection');
+    }
+  }
+);
+
+/**
+ * Async thunk for adding a wallpaper to a collection or removing it
+ */
+export const toggleWallpaperInCollection = createAsyncThunk(
+  'collections/toggleWallpaperInCollection',
+  async ({ collectionId, wallpaperId }: { collectionId: string; wallpaperId: string }, { rejectWithValue }) => {
+    try {
+      return await collectionService.toggleWallpaper(collectionId, wallpaperId);
+    } catch (error) {
+      logError('Failed to update collection', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update collection');
+    }
+  }
+);
+
+/**
+ * Stores the updated collections returned by every thunk
+ */
+const setCollections = (state: CollectionState, action: PayloadAction<LibraryCollection[]>) => {
+  state.collections = action.payload;
+  state.isLoading = false;
+  state.error = null;
+};
+
+/**
+ * Collection slice
+ */
+const collectionSlice = createSlice({
+  name: 'collections',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Handle loadCollections
+    builder
+      .addCase(loadCollections.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadCollections.fulfilled, setCollections)
+      .addCase(loadCollections.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'Failed to load collections';
+      });
+
+    // Handle changes; each returns the full updated list
+    builder
+      .addCase(createCollection.fulfilled, setCollections)
+      .addCase(renameCollection.fulfilled, setCollections)
+      .addCase(moveCollection.fulfilled, setCollections)
+      .addCase(deleteCollection.fulfilled, setCollections)
+      .addCase(toggleWallpaperInCollection.fulfilled, setCollections);
+
+    // Storage drops removed library wallpapers from their collections
+    builder
+      .addCase(removeFromLibrary.fulfilled, (state, action) => {
+        state.collections = state.collections.map(c => ({
+          ...c,
+          wallpaperIds: c.wallpaperIds.filter(id => id !== action.meta.arg)
+        }));
+      })
+      .addMatcher(isBulkResultAction, (state, action) => {
+        state.collections = action.payload.collections;
+      });
+  }
+});
+
+export default collectionSlice.reducer;
@@ -0,0 +1,150 @@
+import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
+import feedbackService from '../../services/feedbackService';
+import { BlocklistEntry, BlocklistEntryType, WallpaperFeedback } from '../../types/feedback';
+import { Wallpaper } from '../../types/wallpaper';
+import { logError } from '../../utils/errorUtils';
+
+/**
+ * Interface for the ratings and blocklist state
+ */
+export interface FeedbackState {
+  feedback: Record<string, WallpaperFeedback>;  // Keyed by wallpaper id
+  blocklist: BlocklistEntry[];
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for the feedback slice
+ */
+const initialState: FeedbackState = {
+  feedback: {},
+  blocklist: [],
+  isLoading: false,
+  error: null
+};
+
+/**
+ * Async thunk for loading votes, ratings and the blocklist from storage
+ */
+export const loadFeedback = createAsyncThunk(
+  'feedback/loadFeedback',
+  async (_, { rejectWithValue }) => {
+    try {
+      const [feedback, blocklist] = await Promise.all([
+        feedbackService.getFeedback(),
+        feedbackService.getBlocklist()
+      ]);
+      return { feedback, blocklist };
+    } catch (error) {
+      logError('Failed to load feedback', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load feedback');
+    }
+  }
+);
+
+/**
+ * Async thunk for setting the vote and rating of a wallpaper
+ */
+export const setWallpaperFeedback = createAsyncThunk(
+  'feedback/setWallpaperFeedback',
+  async ({ wallpaperId, feedback }: { wallpaperId: string; feedback: WallpaperFeedback }, { rejectWithValue }) => {
+    try {
+      return await feedbackService.setFeedback(wallpaperId, feedback);
+    } catch (error) {
+      logError('Failed to save feedback', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to save feedback');
+    }
+  }
+);
+
+/**
+ * Async thunk for never showing a wallpaper again
+ */
+export const blockWallpaper = createAsyncThunk(
+  'feedback/blockWallpaper',
+  async (wallpaper: Wallpaper, { rejectWithValue }) => {
+    try {
+      return await feedbackService.blockWallpaper(wallpaper);
+    } catch (error) {
+      logError('Failed to block wallpaper', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to block wallpaper');
+    }
+  }
+);
+
+/**
+ * Async thunk for blocking every wallpaper with a tag or from an uploader
+ */
+export const addBlocklistEntry = createAsyncThunk(
+  'feedback/addBlocklistEntry',
+  async ({ type, value }: { type: BlocklistEntryType; value: string }, { rejectWithValue }) => {
+    try {
+      return await feedbackService.addEntry(type, value);
+    } catch (error) {
+      logError('Failed to add blocklist entry', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to add blocklist entry');
+    }
+  }
+);
+
+/**
+ * Async thunk for removing an entry from the blocklist
+ */
+export const removeBlocklistEntry = createAsyncThunk(
+  'feedback/removeBlocklistEntry',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await feedbackService.removeEntry(id);
+    } catch (error) {
+      logError('Failed to remove blocklist entry', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to remove blocklist entry');
+    }
+  }
+);
+
+/**
+ * Feedback slice
+ */
+const feedbackSlice = createSlice({
+  name: 'feedback',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    builder
+      .addCase(loadFeedback.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadFeedback.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.feedback = action.payload.feedback;
+        state.blocklist = action.payload.blocklist;
+      })
+      .addCase(loadFeedback.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'Failed to load feedback';
+      })
+
+      .addCase(setWallpaperFeedback.fulfilled, (state, action) => {
+        state.feedback = action.payload;
+      })
+      .addCase(setWallpaperFeedback.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+
+    // Each blocklist change returns the full updated list
+    builder
+      .addCase(blockWallpaper.fulfilled, (state, action) => {
+        state.blocklist = action.payload;
+      })
+      .addCase(addBlocklistEntry.fulfilled, (state, action) => {
+        state.blocklist = action.payload;
+      })
+      .addCase(removeBlocklistEntry.fulfilled, (state, action) => {
+        state.blocklist = action.payload;
+      });
+  }
+});
+
+export default feedbackSlice.reducer;
@@ -0,0 +1,197 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import savedSearchService from '../../services/savedSearchService';
+import { SavedSearch, SubscriptionFeedItem } from '../../types/savedSearch';
+import { WallpaperProviderId } from '../../types/wallpaper';
+import { WallpaperFilters } from './settingsSlice';
+import { logError } from '../../utils/errorUtils';
+
+/**
+ * Interface for the saved searches state
+ */
+export interface SavedSearchState {
+  searches: SavedSearch[];
+  feed: SubscriptionFeedItem[];
+  isLoading: boolean;
+  isChecking: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for the saved search slice
+ */
+const initialState: SavedSearchState = {
+  searches: [],
+  feed: [],
+  isLoading: false,
+  isChecking: false,
+  error: null
+};
+
+/**
+ * Async thunk for loading saved searches and the subscription feed from storage
+ */
+export const loadSavedSearches = createAsyncThunk(
+  'savedSearches/loadSavedSearches',
+  async (_, { rejectWithValue }) => {
+    try {
+      const [searches, feed] = await Promise.all([
+        savedSearchService.getSavedSearches(),
+        savedSearchService.getFeed()
+      ]);
+      return { searches, feed };
+    } catch (error) {
+      logError('Failed to load saved searches', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load saved searches');
+    }
+  }
+);
+
+/**
+ * Async thunk for saving a search
+ */
+export const createSavedSearch = createAsyncThunk(
+  'savedSearches/createSavedSearch',
+  async (
+    { name, provider, query, filters }: {
+      name: string;
+      provider: WallpaperProviderId;
+      query: string;
+      filters: Partial<WallpaperFilters>;
+    },
+    { rejectWithValue }
+  ) => {
+    try {
+      return await savedSearchService.createSavedSearch(name, provider, query, filters);
+    } catch (error) {
+      logError('Failed to save search', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to save search');
+    }
+  }
+);
+
+/**
+ * Async thunk for deleting a saved search
+ */
+export const deleteSavedSearch = createAsyncThunk(
+  'savedSearches/deleteSavedSearch',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await savedSearchService.deleteSavedSearch(id);
+    } catch (error) {
+      logError('Failed to delete saved search', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to delete saved search');
+    }
+  }
+);
+
+/**
+ * Async thunk for subscribing to a saved search or unsubscribing
+ */
+export const setSearchSubscribed = createAsyncThunk(
+  'savedSearches/setSearchSubscribed',
+  async ({ id, subscribed }: { id: string; subscribed: boolean }, { rejectWithValue }) => {
+    try {
+      return await savedSearchService.setSubscribed(id, subscribed);
+    } catch (error) {
+      logError('Failed to update subscription', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update subscription');
+    }
+  }
+);
+
+/**
+ * Async thunk for marking the feed of a saved search as seen
+ */
+export const markSearchVisited = createAsyncThunk(
+  'savedSearches/markSearchVisited',
+  async (id: string, { rejectWithValue }) => {
+    try {
+      return await savedSearchService.markVisited(id);
+    } catch (error) {
+      logError('Failed to mark saved search as visited', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to mark saved search as visited');
+    }
+  }
+);
+
+/**
+ * Async thunk for polling subscriptions right away instead of waiting for the background alarm
+ */
+export const checkSubscriptions = createAsyncThunk(
+  'savedSearches/checkSubscriptions',
+  async (_, { rejectWithValue }) => {
+    try {
+      await savedSearchService.checkSubscriptions();
+      const [searches, feed] = await Promise.all([
+        savedSearchService.getSavedSearches(),
+        savedSearchService.getFeed()
+      ]);
+      return { searches, feed };
+    } catch (error) {
+      logError('Failed to check subscriptions', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to check subscriptions');
+    }
+  }
+);
+
+/**
+ * Stores the updated searches returned by most thunks
+ */
+const setSearches = (state: SavedSearchState, action: PayloadAction<SavedSearch[]>) => {
+  state.searches = action.payload;
+  state.isLoading = false;
+  state.error = null;
+};
+
+/**
+ * Saved search slice
+ */
+const savedSearchSlice = createSlice({
+  name: 'savedSearches',
+  initialState,
+  reducers: {},
+  extraReducers: (builder) => {
+    // Handle loadSavedSearches
+    builder
+      .addCase(loadSavedSearches.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(loadSavedSearches.fulfilled, (state, action) => {
+        state.searches = action.payload.searches;
+        state.feed = action.payload.feed;
+        state.isLoading = false;
+      })
+      .addCase(loadSavedSearches.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string || 'Failed to load saved searches';
+      });
+
+    // Handle changes; each returns the full updated list
+    builder
+      .addCase(createSavedSearch.fulfilled, setSearches)
+      .addCase(setSearchSubscribed.fulfilled, setSearches)
+      .addCase(markSearchVisited.fulfilled, setSearches)
+      .addCase(deleteSavedSearch.fulfilled, (state, action) => {
+        setSearches(state, action);
+        state.feed = state.feed.filter(item => item.searchId !== action.meta.arg);
+      });
+
+    // Handle checkSubscriptions
+    builder
+      .addCase(checkSubscriptions.pending, (state) => {
+        state.isChecking = true;
+      })
+      .addCase(checkSubscriptions.fulfilled, (state, action) => {
+        state.searches = action.payload.searches;
+        state.feed = action.payload.feed;
+        state.isChecking = false;
+      })
+      .addCase(checkSubscriptions.rejected, (state, action) => {
+        state.isChecking = false;
+        state.error = action.payload as string || 'Failed to check subscriptions';
+      });
+  }
+});
+
+export default savedSearchSlice.reducer;
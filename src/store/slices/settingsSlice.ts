@@ -1,6 +1,10 @@
 import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
 import storageService from '../../services/storageService';
 import { logError } from '../../utils/errorUtils';
+import { DEFAULT_PROVIDER_ID } from '../../services/providers';
+import { WallpaperOverlayType, WallpaperProviderId } from '../../types/wallpaper';
+import { ScheduleRule } from '../../types/schedule';
+import { SlideshowSource } from '../../types/slideshow';
 
 /**
  * Interface for wallpaper filter settings
@@ -16,16 +20,31 @@ export interface WallpaperFilters {
   minWidth?: number;
   minHeight?: number;
   resolution?: string;
+  colors?: string; // Hex colour the wallpapers should contain, e.g. "#cc3333"
 }
 
 /**
- * Interface for wallpaper overlay settings
+ * Interface for wallpaper overlay settings, used for wallpapers without their own overlay
  */
 export interface WallpaperOverlay {
   blurAmount: number; // 0-10 scale
   darknessAmount: number; // 0-100 scale
+  type: WallpaperOverlayType;
+  autoDarkness: boolean; // Work out each wallpaper's darkness from the image the first time it is set
 }
 
+/**
+ * How library shuffles pick the next wallpaper: uniform picks at random, bag shows every
+ * wallpaper once before any repeats, weighted favours favourites and leastRecent picks the
+ * wallpaper that hasn't been shown for longest
+ */
+export type ShuffleStrategy = 'uniform' | 'bag' | 'weighted' | 'leastRecent';
+
+/**
+ * Animation used when the wallpaper changes; kenBurns fades in and then slowly pans and zooms
+ */
+export type WallpaperTransition = 'none' | 'fade' | 'slide' | 'zoom' | 'kenBurns';
+
 /**
  * Interface for the settings state
  */
@@ -44,6 +63,20 @@ export interface SettingsState {
   refreshNsfwFilter: 'off' | 'allowed' | 'only'; // NSFW content filter specifically for refresh operations
   browseNsfwFilter: 'off' | 'allowed' | 'only'; // NSFW content filter specifically for browsing
   autoRotateHorizontal: boolean; // Auto-rotate horizontal wallpapers
+  browseProvider: WallpaperProviderId; // Provider shown in the wallpaper browser
+  refreshProvider: WallpaperProviderId; // Provider used when refresh source is 'browse'
+  prefetchQueueSize: number; // Wallpapers kept downloaded for offline 'browse' shuffles (0 disables)
+  refreshCollectionId: string | null; // Library collection to shuffle from (null for the whole library)
+  scheduleRules: ScheduleRule[]; // Time-of-day rules that override the refresh source, first match wins
+  videoMuted: boolean; // Play video wallpapers without sound
+  videoLoop: boolean; // Start video wallpapers over when they end
+  wallpaperTransition: WallpaperTransition; // Animation when the wallpaper changes
+  transitionDuration: number; // Length of the transition in seconds
+  slideshowSource: SlideshowSource; // Wallpapers the new tab slideshow cycles through
+  slideshowInterval: number; // Seconds each slideshow wallpaper is shown for
+  historyRetentionDays: number; // Days of wallpaper history kept by the daily cleanup (0 keeps everything)
+  shuffleStrategy: ShuffleStrategy; // How library shuffles choose the next wallpaper
+  folderRescanInterval: number; // Minutes between automatic rescans of synced folders (0 only rescans on demand)
 }
 
 /**
@@ -62,7 +95,9 @@ const initialState: SettingsState = {
   },
   wallpaperOverlay: {
     blurAmount: 0,
-    darknessAmount: 40
+    darknessAmount: 40,
+    type: 'solid',
+    autoDarkness: true
   },
   isLoading: false,
   error: null,
@@ -73,7 +108,21 @@ const initialState: SettingsState = {
   refreshSource: 'library',
   refreshNsfwFilter: 'off', // Default to off for refresh operations
   browseNsfwFilter: 'off', // Default to off for browsing
-  autoRotateHorizontal: true // Enabled by default
+  autoRotateHorizontal: true, // Enabled by default
+  browseProvider: DEFAULT_PROVIDER_ID,
+  refreshProvider: DEFAULT_PROVIDER_ID,
+  prefetchQueueSize: 5,
+  refreshCollectionId: null,
+  scheduleRules: [],
+  videoMuted: true,
+  videoLoop: true,
+  wallpaperTransition: 'fade',
+  transitionDuration: 1,
+  slideshowSource: { type: 'library', collectionId: null },
+  slideshowInterval: 30,
+  historyRetentionDays: 30,
+  shuffleStrategy: 'bag',
+  folderRescanInterval: 60
 };
 
 /**
@@ -296,6 +345,62 @@ const settingsSlice = createSlice({
     
     setAutoRotateHorizontal: (state, action: PayloadAction<boolean>) => {
       state.autoRotateHorizontal = action.payload;
+    },
+    
+    setVideoMuted: (state, action: PayloadAction<boolean>) => {
+      state.videoMuted = action.payload;
+    },
+    
+    setVideoLoop: (state, action: PayloadAction<boolean>) => {
+      state.videoLoop = action.payload;
+    },
+    
+    setWallpaperTransition: (state, action: PayloadAction<WallpaperTransition>) => {
+      state.wallpaperTransition = action.payload;
+    },
+    
+    setTransitionDuration: (state, action: PayloadAction<number>) => {
+      state.transitionDuration = action.payload;
+    },
+    
+    setSlideshowSource: (state, action: PayloadAction<SlideshowSource>) => {
+      state.slideshowSource = action.payload;
+    },
+    
+    setSlideshowInterval: (state, action: PayloadAction<number>) => {
+      state.slideshowInterval = action.payload;
+    },
+    
+    setHistoryRetentionDays: (state, action: PayloadAction<number>) => {
+      state.historyRetentionDays = action.payload;
+    },
+    
+    setShuffleStrategy: (state, action: PayloadAction<ShuffleStrategy>) => {
+      state.shuffleStrategy = action.payload;
+    },
+    
+    setFolderRescanInterval: (state, action: PayloadAction<number>) => {
+      state.folderRescanInterval = action.payload;
+    },
+    
+    setBrowseProvider: (state, action: PayloadAction<WallpaperProviderId>) => {
+      state.browseProvider = action.payload;
+    },
+    
+    setRefreshProvider: (state, action: PayloadAction<WallpaperProviderId>) => {
+      state.refreshProvider = action.payload;
+    },
+    
+    setPrefetchQueueSize: (state, action: PayloadAction<number>) => {
+      state.prefetchQueueSize = action.payload;
+    },
+    
+    setRefreshCollectionId: (state, action: PayloadAction<string | null>) => {
+      state.refreshCollectionId = action.payload;
+    },
+    
+    setScheduleRules: (state, action: PayloadAction<ScheduleRule[]>) => {
+      state.scheduleRules = action.payload;
     }
   },
   extraReducers: (builder) => {
@@ -375,7 +480,21 @@ export const {
   setRefreshSource,
   setRefreshNsfwFilter,
   setBrowseNsfwFilter,
-  setAutoRotateHorizontal
+  setAutoRotateHorizontal,
+  setVideoMuted,
+  setVideoLoop,
+  setWallpaperTransition,
+  setTransitionDuration,
+  setSlideshowSource,
+  setSlideshowInterval,
+  setHistoryRetentionDays,
+  setShuffleStrategy,
+  setFolderRescanInterval,
+  setBrowseProvider,
+  setRefreshProvider,
+  setPrefetchQueueSize,
+  setRefreshCollectionId,
+  setScheduleRules
 } = settingsSlice.actions;
 
 export default settingsSlice.reducer; 
\ No newline at end of file
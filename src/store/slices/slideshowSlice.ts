@@ -0,0 +1,243 @@
+import { createSlice, createAsyncThunk, PayloadAction } from '@reduxjs/toolkit';
+import slideshowService from '../../services/slideshowService';
+import { buildRefreshFilters } from '../../services/prefetchService';
+import { SlideshowSource } from '../../types/slideshow';
+import { Wallpaper } from '../../types/wallpaper';
+import { logError } from '../../utils/errorUtils';
+import { RootState } from '../../store';
+import { setCurrentWallpaper } from './wallpaperSlice';
+
+// More slides are loaded once the slideshow gets this close to the end of the timeline
+const LOAD_AHEAD = 3;
+
+/**
+ * Interface for the slideshow state
+ */
+export interface SlideshowState {
+  isActive: boolean;
+  isPlaying: boolean;
+  source: SlideshowSource | null;
+  timeline: Wallpaper[];   // Wallpapers shown before the slideshow, then its slides
+  position: number;        // Index in the timeline of the wallpaper being shown
+  page: number;            // Last page loaded from the source
+  hasMore: boolean;
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Initial state for the slideshow slice
+ */
+const initialState: SlideshowState = {
+  isActive: false,
+  isPlaying: false,
+  source: null,
+  timeline: [],
+  position: 0,
+  page: 0,
+  hasMore: false,
+  isLoading: false,
+  error: null
+};
+
+/**
+ * Async thunk for starting a slideshow from the source in settings. The timeline starts
+ * with the wallpaper history, so going back steps through wallpapers shown earlier.
+ */
+export const startSlideshow = createAsyncThunk(
+  'slideshow/startSlideshow',
+  async (_, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const source = state.settings.slideshowSource;
+      const filters = buildRefreshFilters(state.settings.wallpaperFilters, state.settings.refreshNsfwFilter);
+      const currentWallpaper = state.wallpaper.currentWallpaper;
+
+      const [earlier, firstPage] = await Promise.all([
+        // A history slideshow already is the history
+        source.type === 'history' ? Promise.resolve([]) : slideshowService.getEarlierWallpapers(),
+        slideshowService.getSlides(source, 1, filters)
+      ]);
+
+      const slides = firstPage.wallpapers.filter(w => w.id !== currentWallpaper?.id);
+      if (slides.length === 0) {
+        throw new Error('There are no wallpapers to show in this slideshow');
+      }
+
+      const timeline = earlier.filter(w => w.id !== currentWallpaper?.id);
+      if (currentWallpaper) {
+        timeline.push(currentWallpaper);
+      } else {
+        await dispatch(setCurrentWallpaper({ wallpaper: slides[0], trigger: 'slideshow' })).unwrap();
+      }
+
+      return {
+        source,
+        timeline: [...timeline, ...slides],
+        position: currentWallpaper ? timeline.length - 1 : timeline.length,
+        hasMore: firstPage.hasMore
+      };
+    } catch (error) {
+      logError('Failed to start slideshow', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to start slideshow');
+    }
+  }
+);
+
+/**
+ * Async thunk for loading the next batch of slides onto the end of the timeline
+ */
+export const loadMoreSlides = createAsyncThunk(
+  'slideshow/loadMoreSlides',
+  async (_, { getState, rejectWithValue }) => {
+    try {
+      const state = getState() as RootState;
+      const { source, page, timeline } = state.slideshow;
+      if (!source) {
+        throw new Error('No slideshow is running');
+      }
+
+      const filters = buildRefreshFilters(state.settings.wallpaperFilters, state.settings.refreshNsfwFilter);
+      const nextPage = await slideshowService.getSlides(source, page + 1, filters);
+
+      // A reshuffled round shouldn't start with the wallpaper the last one ended on
+      const wallpapers = [...nextPage.wallpapers];
+      if (wallpapers.length > 1 && wallpapers[0].id === timeline[timeline.length - 1]?.id) {
+        wallpapers.push(wallpapers.shift() as Wallpaper);
+      }
+
+      return { wallpapers, hasMore: nextPage.hasMore };
+    } catch (error) {
+      logError('Failed to load more slides', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to load more slides');
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { slideshow } = getState() as RootState;
+      return slideshow.isActive && slideshow.hasMore && !slideshow.isLoading;
+    }
+  }
+);
+
+/**
+ * Async thunk for showing the wallpaper at a position in the timeline
+ */
+export const showSlide = createAsyncThunk(
+  'slideshow/showSlide',
+  async (index: number, { getState, dispatch, rejectWithValue }) => {
+    try {
+      const { slideshow } = getState() as RootState;
+      const wallpaper = slideshow.timeline[index];
+      if (!wallpaper) {
+        throw new Error('No wallpaper at this position');
+      }
+
+      await dispatch(setCurrentWallpaper({ wallpaper, trigger: 'slideshow' })).unwrap();
+
+      if (index >= slideshow.timeline.length - LOAD_AHEAD) {
+        dispatch(loadMoreSlides());
+      }
+      return index;
+    } catch (error) {
+      logError('Failed to show slide', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to show slide');
+    }
+  }
+);
+
+/**
+ * Async thunk for moving to the next slide
+ */
+export const nextSlide = createAsyncThunk(
+  'slideshow/nextSlide',
+  async (_, { getState, dispatch }) => {
+    const { slideshow } = getState() as RootState;
+    if (slideshow.position < slideshow.timeline.length - 1) {
+      await dispatch(showSlide(slideshow.position + 1));
+    } else {
+      dispatch(loadMoreSlides());
+    }
+  }
+);
+
+/**
+ * Async thunk for stepping back to the wallpaper before the current one
+ */
+export const previousSlide = createAsyncThunk(
+  'slideshow/previousSlide',
+  async (_, { getState, dispatch }) => {
+    const { slideshow } = getState() as RootState;
+    if (slideshow.position > 0) {
+      await dispatch(showSlide(slideshow.position - 1));
+    }
+  }
+);
+
+/**
+ * Slideshow slice
+ */
+const slideshowSlice = createSlice({
+  name: 'slideshow',
+  initialState,
+  reducers: {
+    stopSlideshow: () => initialState,
+    setSlideshowPlaying: (state, action: PayloadAction<boolean>) => {
+      state.isPlaying = action.payload;
+    },
+    clearSlideshowError: (state) => {
+      state.error = null;
+    }
+  },
+  extraReducers: (builder) => {
+    builder
+      // Start slideshow
+      .addCase(startSlideshow.pending, (state) => {
+        state.isLoading = true;
+        state.error = null;
+      })
+      .addCase(startSlideshow.fulfilled, (state, action) => {
+        return {
+          ...initialState,
+          ...action.payload,
+          isActive: true,
+          isPlaying: true,
+          page: 1
+        };
+      })
+      .addCase(startSlideshow.rejected, (state, action) => {
+        state.isLoading = false;
+        state.error = action.payload as string;
+      })
+
+      // Load more slides
+      .addCase(loadMoreSlides.pending, (state) => {
+        state.isLoading = true;
+      })
+      .addCase(loadMoreSlides.fulfilled, (state, action) => {
+        state.isLoading = false;
+        state.timeline.push(...action.payload.wallpapers);
+        state.hasMore = action.payload.hasMore;
+        state.page += 1;
+      })
+      .addCase(loadMoreSlides.rejected, (state, action) => {
+        state.isLoading = false;
+        if (action.payload) {
+          state.error = action.payload as string;
+        }
+      })
+
+      // Move straight away so quick clicks step from the new position
+      .addCase(showSlide.pending, (state, action) => {
+        if (action.meta.arg >= 0 && action.meta.arg < state.timeline.length) {
+          state.position = action.meta.arg;
+        }
+      })
+      .addCase(showSlide.rejected, (state, action) => {
+        state.error = action.payload as string;
+      });
+  }
+});
+
+export const { stopSlideshow, setSlideshowPlaying, clearSlideshowError } = slideshowSlice.actions;
+export default slideshowSlice.reducer;
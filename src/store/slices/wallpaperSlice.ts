@@ -1,11 +1,25 @@
-import { createSlice, createAsyncThunk } from '@reduxjs/toolkit';
-import { Wallpaper } from '../../types/wallpaper';
+import { createSlice, createAsyncThunk, isAnyOf } from '@reduxjs/toolkit';
+import {
+  Wallpaper,
+  WallpaperChangeTrigger,
+  WallpaperFraming,
+  WallpaperOverlayPreset,
+  WallpaperOverlayType,
+  WallpaperProviderId,
+  WallhavenCollection
+} from '../../types/wallpaper';
 import wallpaperService from '../../services/wallpaperService';
 import storageService from '../../services/storageService';
+import { getCollectionWallpapers } from '../../services/providers/wallhavenProvider';
+import prefetchService, { buildRefreshFilters } from '../../services/prefetchService';
+import shuffleService from '../../services/shuffleService';
+import duplicateService from '../../services/duplicateService';
+import tagService from '../../services/tagService';
 import { logError } from '../../utils/errorUtils';
 import { WallpaperFilters } from '../slices/settingsSlice';
 import { RootState } from '../../store';
 import { showNotification } from '../slices/notificationSlice';
+import { isBulkResultAction } from './bulkSlice';
 
 /**
  * Interface for the wallpaper state
@@ -46,14 +60,16 @@ const initialState: WallpaperState = {
  */
 export const fetchWallpapers = createAsyncThunk(
   'wallpaper/fetchWallpapers',
-  async ({ query = '', page = 1, filters = {}, append = false }: { 
+  async ({ query = '', page = 1, filters = {}, append = false, provider }: { 
     query?: string; 
     page?: number; 
     filters?: Partial<WallpaperFilters>;
     append?: boolean;
+    provider?: WallpaperProviderId;
   }, { getState }) => {
-    console.log('fetchWallpapers thunk called with:', { query, page, filters, append });
-    const result = await wallpaperService.searchWallpapers(query, page, filters);
+    console.log('fetchWallpapers thunk called with:', { query, page, filters, append, provider });
+    const providerId = provider || (getState() as RootState).settings.browseProvider;
+    const result = await wallpaperService.searchWallpapers(query, page, filters, providerId);
     
     // Return both the wallpapers and pagination info
     return {
@@ -109,41 +125,30 @@ export const addToLibrary = createAsyncThunk(
       // Create a deep copy to avoid reference issues
       const wallpaperCopy = JSON.parse(JSON.stringify(wallpaper)) as Wallpaper;
       
-      // Make sure the path is a complete data URL for local wallpapers
-      if (wallpaperCopy.sourceType === 'local' && !wallpaperCopy.path.startsWith('data:')) {
-        try {
-          // Ensure we have a full data URL
-          console.log('Converting local wallpaper path to full data URL');
-          if (wallpaperCopy.path.startsWith('blob:')) {
-            const response = await fetch(wallpaperCopy.path);
-            const blob = await response.blob();
-            const reader = new FileReader();
-            wallpaperCopy.path = await new Promise((resolve) => {
-              reader.onloadend = () => resolve(reader.result as string);
-              reader.readAsDataURL(blob);
-            });
-          }
-        } catch (error) {
-          console.error('Failed to process local wallpaper path:', error);
-          // If we can't convert, we'll use the original path and hope for the best
-        }
-      }
-      
       // Record the time this was added to library
       wallpaperCopy.addedAt = new Date().toISOString();
       
-      // Add to storage
+      // Add to storage - inline image data is moved into the blob store
       try {
-        await storageService.addToLibrary(wallpaperCopy);
+        const storedWallpaper = await storageService.addToLibrary(wallpaperCopy);
         console.log('Successfully added to library in storage');
         
-        // Show success notification
-        dispatch(showNotification({
-          type: 'success',
-          message: 'Wallpaper added to library'
-        }));
+        // Warn when the same image is already in the library under another id
+        const similar = duplicateService.findSimilar(storedWallpaper, await storageService.getLibrary());
+        if (similar.length > 0) {
+          dispatch(showNotification({
+            type: 'warning',
+            message: `Added to library, but it looks like a duplicate of "${similar[0].info?.title || similar[0].id}"`
+          }));
+        } else {
+          // Show success notification
+          dispatch(showNotification({
+            type: 'success',
+            message: 'Wallpaper added to library'
+          }));
+        }
         
-        return wallpaperCopy;
+        return storedWallpaper;
       } catch (storageError) {
         console.error('Storage error when adding to library:', storageError);
         
@@ -211,13 +216,12 @@ export const removeFromLibrary = createAsyncThunk(
       if (currentWallpaper && currentWallpaper.id === wallpaperId) {
         if (updatedLibrary.length > 0) {
           console.log('Current wallpaper was removed, setting new one from library');
-          const randomIndex = Math.floor(Math.random() * updatedLibrary.length);
-          const newWallpaper = updatedLibrary[randomIndex];
-          await wallpaperService.saveCurrentWallpaper(newWallpaper);
+          const newWallpaper = await shuffleService.pickWallpaper(updatedLibrary, 'library');
+          await wallpaperService.saveCurrentWallpaper(newWallpaper, 'shuffle');
         } else {
           console.log('Library is now empty, fetching new wallpaper');
           const newWallpaper = await wallpaperService.fetchRandomWallpaper();
-          await wallpaperService.saveCurrentWallpaper(newWallpaper);
+          await wallpaperService.saveCurrentWallpaper(newWallpaper, 'shuffle');
         }
       }
       
@@ -242,14 +246,139 @@ export const removeFromLibrary = createAsyncThunk(
   }
 );
 
+/**
+ * Async thunk for importing every wallpaper of a Wallhaven collection into the library
+ */
+export const importWallhavenCollection = createAsyncThunk(
+  'wallpaper/importWallhavenCollection',
+  async (collection: WallhavenCollection, { dispatch }) => {
+    try {
+      console.log('Importing Wallhaven collection:', collection.id, collection.label);
+      
+      // Collect all pages first so a failed page doesn't leave a partial import
+      const wallpapers: Wallpaper[] = [];
+      let page = 1;
+      let lastPage = 1;
+      do {
+        const result = await getCollectionWallpapers(collection.id, page);
+        wallpapers.push(...result.wallpapers);
+        lastPage = result.meta.lastPage;
+        page++;
+      } while (page <= lastPage);
+      
+      const library = await storageService.getLibrary();
+      const existingIds = new Set(library.map(w => w.id));
+      const newWallpapers = wallpapers.filter(w => !existingIds.has(w.id));
+      
+      for (const wallpaper of newWallpapers) {
+        await storageService.addToLibrary(wallpaper);
+      }
+      
+      dispatch(showNotification({
+        type: 'success',
+        message: newWallpapers.length > 0
+          ? `Imported ${newWallpapers.length} wallpapers from "${collection.label}"`
+          : `All wallpapers from "${collection.label}" are already in your library`
+      }));
+      
+      return await storageService.getLibrary();
+    } catch (error) {
+      console.error('Failed to import Wallhaven collection:', error);
+      
+      dispatch(showNotification({
+        type: 'error',
+        message: `Failed to import "${collection.label}"`
+      }));
+      
+      throw error;
+    }
+  }
+);
+
+/**
+ * Async thunk for renaming tags across the library, merging them if the new name is taken
+ */
+export const renameTags = createAsyncThunk(
+  'wallpaper/renameTags',
+  async ({ tags, target }: { tags: string[]; target: string }, { rejectWithValue }) => {
+    try {
+      return await tagService.renameTags(tags, target);
+    } catch (error) {
+      logError('Failed to rename tags', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to rename tags');
+    }
+  }
+);
+
+/**
+ * Async thunk for saving the crop, focal point and fit mode of a library wallpaper
+ */
+export const updateWallpaperFraming = createAsyncThunk(
+  'wallpaper/updateWallpaperFraming',
+  async ({ wallpaperId, framing }: { wallpaperId: string; framing?: WallpaperFraming }, { rejectWithValue }) => {
+    try {
+      const wallpaper = await wallpaperService.updateFraming(wallpaperId, framing);
+      if (!wallpaper) {
+        throw new Error('Wallpaper not found in library');
+      }
+      return wallpaper;
+    } catch (error) {
+      logError('Failed to update wallpaper framing', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update wallpaper framing');
+    }
+  }
+);
+
+/**
+ * Async thunk for saving the blur and darkening of a wallpaper
+ */
+export const updateWallpaperOverlay = createAsyncThunk(
+  'wallpaper/updateWallpaperOverlay',
+  async ({ wallpaperId, overlay }: { wallpaperId: string; overlay?: WallpaperOverlayPreset }, { rejectWithValue }) => {
+    try {
+      const wallpaper = await wallpaperService.updateOverlay(wallpaperId, overlay);
+      if (!wallpaper) {
+        throw new Error('Wallpaper not found');
+      }
+      return wallpaper;
+    } catch (error) {
+      logError('Failed to update wallpaper overlay', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to update wallpaper overlay');
+    }
+  }
+);
+
+/**
+ * Async thunk for working out a wallpaper's darkness from its image and saving it as its overlay
+ */
+export const autoAdjustWallpaperOverlay = createAsyncThunk(
+  'wallpaper/autoAdjustWallpaperOverlay',
+  async (
+    { wallpaper, type, blurAmount }: { wallpaper: Wallpaper; type: WallpaperOverlayType; blurAmount: number },
+    { rejectWithValue }
+  ) => {
+    try {
+      const overlay = await wallpaperService.recommendOverlay(wallpaper, type, blurAmount);
+      const updatedWallpaper = await wallpaperService.updateOverlay(wallpaper.id, overlay);
+      if (!updatedWallpaper) {
+        throw new Error('Wallpaper not found');
+      }
+      return updatedWallpaper;
+    } catch (error) {
+      logError('Failed to adjust wallpaper overlay', error);
+      return rejectWithValue(error instanceof Error ? error.message : 'Failed to adjust wallpaper overlay');
+    }
+  }
+);
+
 /**
  * Async thunk for setting the current wallpaper
+ * The trigger is recorded in the history timeline and defaults to a manual change
  */
 export const setCurrentWallpaper = createAsyncThunk(
   'wallpaper/setCurrentWallpaper',
-  async (wallpaper: Wallpaper) => {
-    await wallpaperService.saveCurrentWallpaper(wallpaper);
-    return wallpaper;
+  async ({ wallpaper, trigger }: { wallpaper: Wallpaper; trigger?: WallpaperChangeTrigger }) => {
+    return await wallpaperService.saveCurrentWallpaper(wallpaper, trigger);
   }
 );
 
@@ -315,6 +444,9 @@ export const shuffleWallpaper = createAsyncThunk(
   async (params: { 
     source?: 'library' | 'browse', 
     nsfwFilter?: 'off' | 'allowed' | 'only',
+    provider?: WallpaperProviderId, // Provider to use for the 'browse' source
+    collectionId?: string | null, // Library collection to use for the 'library' source
+    trigger?: WallpaperChangeTrigger, // Recorded in the history timeline, 'shuffle' by default
     silent?: boolean // Add optional parameter to silence notifications
   } = {}, { getState, dispatch }) => {
     try {
@@ -322,11 +454,19 @@ export const shuffleWallpaper = createAsyncThunk(
       // Use provided source or default from settings
       const refreshSource = params.source || state.settings.refreshSource;
       const nsfwFilter = params.nsfwFilter || state.settings.refreshNsfwFilter;
-      const { library, currentWallpaper } = state.wallpaper;
+      const provider = params.provider || state.settings.refreshProvider;
+      const collectionId = params.collectionId !== undefined ? params.collectionId : state.settings.refreshCollectionId;
+      const { currentWallpaper } = state.wallpaper;
+      // The background worker's store never loads the library, so read it from storage there
+      const library = state.wallpaper.library.length > 0
+        ? state.wallpaper.library
+        : await storageService.getLibrary();
       
       console.log(`Shuffling wallpaper using source: ${refreshSource}, NSFW filter: ${nsfwFilter}`);
       
       let availableWallpapers: Wallpaper[] = [];
+      let prefetchedWallpaper: Wallpaper | null = null;
+      let poolKey: string | null = null; // Set for library shuffles, which use the shuffle strategy
       
       // Get wallpapers based on refresh source setting
       if (refreshSource === 'library') {
@@ -334,6 +474,20 @@ export const shuffleWallpaper = createAsyncThunk(
           throw new Error('Your library is empty. Please add some wallpapers first or change the refresh source to browse.');
         }
         availableWallpapers = library;
+        poolKey = 'library';
+        
+        // Limit to the chosen collection; a deleted collection falls back to the whole library
+        if (collectionId) {
+          const collections = await storageService.getLibraryCollections();
+          const collection = collections.find(c => c.id === collectionId);
+          if (collection) {
+            poolKey = `collection:${collection.id}`;
+            availableWallpapers = library.filter(w => collection.wallpaperIds.includes(w.id));
+            if (availableWallpapers.length === 0) {
+              throw new Error(`The collection "${collection.name}" is empty. Add wallpapers to it or shuffle from the whole library.`);
+            }
+          }
+        }
         
         // Apply NSFW filtering if needed
         if (nsfwFilter !== 'off') {
@@ -352,39 +506,53 @@ export const shuffleWallpaper = createAsyncThunk(
           if (availableWallpapers.length === 0) {
             throw new Error('No wallpapers match your NSFW filter. Please adjust your filter settings or add more wallpapers.');
           }
+          if (nsfwFilter === 'only') {
+            poolKey += ':nsfw';
+          }
         }
       } else {
-        // Fetch new wallpapers from API with the specified NSFW filter
-        const result = await wallpaperService.searchWallpapers(
-          '',  // default empty query
-          1,   // default to first page
-          {    // custom filters object
-            nsfw: nsfwFilter === 'allowed' || nsfwFilter === 'only',
-            nsfwMode: nsfwFilter
-          }
-        );
+        const filters = buildRefreshFilters(state.settings.wallpaperFilters, nsfwFilter);
+        
+        // Use an already downloaded wallpaper when one is ready, so there's no network wait
+        prefetchedWallpaper = await prefetchService.takeNext(provider, filters);
         
-        if (!result || result.wallpapers.length === 0) {
-          throw new Error('No wallpapers available from browse collection. Please try again later.');
+        if (!prefetchedWallpaper) {
+          // Fetch new wallpapers from API with the specified filters
+          const result = await wallpaperService.searchWallpapers(
+            '',  // default empty query
+            1,   // default to first page
+            filters,
+            provider
+          );
+          
+          if (!result || result.wallpapers.length === 0) {
+            throw new Error('No wallpapers available from browse collection. Please try again later.');
+          }
+          availableWallpapers = result.wallpapers;
         }
-        availableWallpapers = result.wallpapers;
       }
       
-      // Pick a random wallpaper that's different from current
+      // Pick a random wallpaper that's different from current; library shuffles follow the shuffle strategy
       let attempts = 0;
       const maxAttempts = availableWallpapers.length;
       let randomWallpaper: Wallpaper;
       
-      do {
-        const randomIndex = Math.floor(Math.random() * availableWallpapers.length);
-        randomWallpaper = availableWallpapers[randomIndex];
-        attempts++;
-      } while (
-        currentWallpaper &&
-        randomWallpaper.id === currentWallpaper.id &&
-        attempts < maxAttempts &&
-        availableWallpapers.length > 1
-      );
+      if (prefetchedWallpaper) {
+        randomWallpaper = prefetchedWallpaper;
+      } else if (poolKey) {
+        randomWallpaper = await shuffleService.pickWallpaper(availableWallpapers, poolKey, currentWallpaper?.id);
+      } else {
+        do {
+          const randomIndex = Math.floor(Math.random() * availableWallpapers.length);
+          randomWallpaper = availableWallpapers[randomIndex];
+          attempts++;
+        } while (
+          currentWallpaper &&
+          randomWallpaper.id === currentWallpaper.id &&
+          attempts < maxAttempts &&
+          availableWallpapers.length > 1
+        );
+      }
       
       // Only add to library if from library source or already in library
       // For browse source, let user explicitly add it to library with the button
@@ -401,13 +569,13 @@ export const shuffleWallpaper = createAsyncThunk(
       }
       
       // Save current wallpaper
-      await wallpaperService.saveCurrentWallpaper(randomWallpaper);
+      const savedWallpaper = await wallpaperService.saveCurrentWallpaper(randomWallpaper, params.trigger || 'shuffle');
       
       // No longer show notifications
       // Only log success message
       console.log(`Changed wallpaper successfully from ${refreshSource}`);
       
-      return randomWallpaper;
+      return savedWallpaper;
     } catch (error) {
       console.error('Failed to shuffle wallpaper:', error);
       
@@ -494,6 +662,25 @@ const wallpaperSlice = createSlice({
       .addCase(removeFromLibrary.rejected, (state, action) => {
         state.error = action.payload as string;
       })
+      .addCase(importWallhavenCollection.fulfilled, (state, action) => {
+        state.library = action.payload;
+      })
+      
+      // Tag renames return the updated library
+      .addCase(renameTags.fulfilled, (state, action) => {
+        state.library = action.payload;
+      })
+      
+      // Framing changes apply to the shown wallpaper straight away
+      .addCase(updateWallpaperFraming.fulfilled, (state, action) => {
+        const index = state.library.findIndex(w => w.id === action.payload.id);
+        if (index !== -1) {
+          state.library[index] = action.payload;
+        }
+        if (state.currentWallpaper?.id === action.payload.id) {
+          state.currentWallpaper = { ...state.currentWallpaper, framing: action.payload.framing };
+        }
+      })
       
       // Set current wallpaper
       .addCase(setCurrentWallpaper.fulfilled, (state, action) => {
@@ -526,6 +713,22 @@ const wallpaperSlice = createSlice({
       .addCase(shuffleWallpaper.rejected, (state, action) => {
         state.isLoading = false;
         state.error = action.payload as string || 'Failed to shuffle wallpaper';
+      })
+      
+      // Bulk actions and their undo return the updated library
+      .addMatcher(isBulkResultAction, (state, action) => {
+        state.library = action.payload.library;
+      })
+      
+      // Overlay changes apply to the shown wallpaper straight away
+      .addMatcher(isAnyOf(updateWallpaperOverlay.fulfilled, autoAdjustWallpaperOverlay.fulfilled), (state, action) => {
+        const index = state.library.findIndex(w => w.id === action.payload.id);
+        if (index !== -1) {
+          state.library[index] = { ...state.library[index], overlay: action.payload.overlay };
+        }
+        if (state.currentWallpaper?.id === action.payload.id) {
+          state.currentWallpaper = { ...state.currentWallpaper, overlay: action.payload.overlay };
+        }
       });
   }
 });
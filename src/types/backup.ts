@@ -0,0 +1,71 @@
+/**
+ * Type definitions for library backup archives
+ */
+
+import { LibraryCollection, Wallpaper } from './wallpaper';
+import { SettingsState } from '../store/slices/settingsSlice';
+import { TodoItem } from '../services/todoService';
+
+/**
+ * Image file stored in the archive
+ */
+export interface BackupFile {
+  path: string;  // Path inside the ZIP
+  type: string;  // MIME type
+}
+
+/**
+ * Library wallpaper with the archive files holding its images
+ */
+export interface BackupWallpaperEntry {
+  wallpaper: Wallpaper;
+  image?: BackupFile;
+  thumbnail?: BackupFile;
+}
+
+/**
+ * Contents of manifest.json at the root of a backup archive
+ */
+export interface BackupManifest {
+  format: 'nyatab-backup';
+  version: number;
+  exportedAt: string;
+  wallpapers: BackupWallpaperEntry[];
+  collections: LibraryCollection[];
+  settings: Partial<SettingsState> | null;
+  todos: TodoItem[];
+}
+
+/**
+ * Result of an export
+ */
+export interface BackupExportResult {
+  archive: Blob;                    // The ZIP file
+  skippedFolderWallpapers: number;  // Synced folder wallpapers whose file couldn't be read
+}
+
+/**
+ * How imported data is combined with what is already stored
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+/**
+ * An item that was skipped or changed while importing
+ */
+export interface BackupConflict {
+  type: 'wallpaper' | 'collection' | 'todo' | 'settings';
+  id: string;
+  name: string;
+  reason: string;
+}
+
+/**
+ * Result of an import
+ */
+export interface BackupImportReport {
+  wallpapersImported: number;
+  collectionsImported: number;
+  todosImported: number;
+  settingsImported: boolean;
+  conflicts: BackupConflict[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Type definitions for bulk actions on several selected wallpapers
+ */
+
+import { LibraryCollection, Wallpaper } from './wallpaper';
+
+export type BulkActionType = 'addToLibrary' | 'delete' | 'addToCollection' | 'tag' | 'favorite' | 'download';
+
+/**
+ * Progress of the bulk action that is running
+ */
+export interface BulkProgress {
+  action: BulkActionType;
+  done: number;
+  total: number;
+}
+
+/**
+ * Library and collections after a bulk action, stored by the wallpaper and collection slices
+ */
+export interface BulkResult {
+  library: Wallpaper[];
+  collections: LibraryCollection[];
+  failed: number;                      // Wallpapers that could not be added or downloaded
+}
+
+/**
+ * Library and collections as they were before a bulk action ran
+ */
+export type BulkSnapshot = Pick<BulkResult, 'library' | 'collections'>;
+
+/**
+ * Wallpaper ids a bulk action added to or removed from one collection
+ */
+export interface BulkCollectionChange {
+  collectionId: string;
+  addedIds: string[];
+  removedIds: string[];
+}
+
+/**
+ * What the last bulk action changed, so exactly that can be undone without touching
+ * edits made since
+ */
+export interface BulkUndoEntry {
+  action: BulkActionType;
+  label: string;                       // e.g. "Deleted 5 wallpapers"
+  addedIds: string[];                  // Wallpapers the action added to the library
+  removed: { wallpaper: Wallpaper; index: number }[]; // Removed wallpapers and where they were in the library
+  changed: Wallpaper[];                // Wallpapers whose tags or favourite mark changed, as they were
+  collectionChanges: BulkCollectionChange[];
+}
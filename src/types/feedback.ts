@@ -0,0 +1,34 @@
+/**
+ * Type definitions for wallpaper ratings and the blocklist
+ */
+
+/**
+ * Thumbs up or down on a wallpaper
+ */
+export type WallpaperVote = 'up' | 'down';
+
+/**
+ * What the user thinks of one wallpaper
+ */
+export interface WallpaperFeedback {
+  vote?: WallpaperVote;
+  rating?: number;  // 1-5 stars
+}
+
+/**
+ * What a blocklist entry matches: one wallpaper by id, any wallpaper with a tag,
+ * or anything from an uploader
+ */
+export type BlocklistEntryType = 'wallpaper' | 'tag' | 'uploader';
+
+/**
+ * Something that is never shown again
+ */
+export interface BlocklistEntry {
+  id: string;
+  type: BlocklistEntryType;
+  value: string;       // Wallpaper id, tag name or uploader name
+  label?: string;      // Title of a blocked wallpaper, for the settings list
+  thumbnail?: string;  // Thumbnail of a blocked wallpaper
+  addedAt: string;
+}
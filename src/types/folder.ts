@@ -0,0 +1,33 @@
+/**
+ * Type definitions for synced local folders
+ */
+
+/**
+ * Local folder whose images are kept in the library. The directory handle itself is
+ * kept in IndexedDB, since chrome.storage can't hold it.
+ */
+export interface SyncedFolder {
+  id: string;
+  name: string;
+  addedAt: string;
+  lastScannedAt?: string;
+  fileCount: number;     // Wallpapers found in the folder on the last scan
+  missingCount: number;  // Library wallpapers whose file was gone on the last scan
+}
+
+/**
+ * Whether the browser still lets the extension read a synced folder; 'prompt' means
+ * access has to be granted again from a click
+ */
+export type FolderAccess = 'granted' | 'prompt' | 'denied';
+
+/**
+ * What changed in the library on a folder scan
+ */
+export interface FolderScanResult {
+  added: number;
+  updated: number;   // Files changed on disk since they were imported
+  missing: number;   // Files newly gone from the folder
+  restored: number;  // Files that were missing and are back
+  failed: number;    // Files that couldn't be read as images
+}
@@ -0,0 +1,68 @@
+/**
+ * Type definitions for wallpaper providers
+ */
+
+import { Wallpaper, WallpaperProviderId, WallpaperSearchResult } from './wallpaper';
+import { WallpaperFilters } from '../store/slices/settingsSlice';
+
+/**
+ * Features a provider supports, used by the UI to show or hide controls
+ */
+export interface ProviderCapabilities {
+  search: boolean;        // Free text search
+  random: boolean;        // Random ordering, used for shuffle
+  nsfw: boolean;          // Purity / NSFW filtering
+  pagination: boolean;    // More than one page of results
+  requiresAuth: boolean;  // Needs credentials before it can be used
+}
+
+/**
+ * Option of a select filter
+ */
+export interface ProviderFilterOption {
+  value: string;
+  label: string;
+}
+
+/**
+ * Describes one filter a provider understands, so the browser can render it
+ */
+export interface ProviderFilterField {
+  key: keyof WallpaperFilters;
+  label: string;
+  type: 'select' | 'multiselect' | 'color';
+  options: ProviderFilterOption[];  // For 'color', the swatches offered (hex values)
+  defaultValue?: string | string[];
+}
+
+/**
+ * Interface every wallpaper provider implements
+ */
+export interface WallpaperProvider {
+  id: WallpaperProviderId;
+  name: string;
+  capabilities: ProviderCapabilities;
+  filterSchema: ProviderFilterField[];
+  searchPlaceholder?: string; // Hint shown in the search box, e.g. for special query syntax
+  newestSorting?: string;     // Sorting value that lists the newest wallpapers first, used by subscriptions
+
+  /**
+   * Searches the provider; throws on network or API errors
+   */
+  search(query: string, page: number, filters: WallpaperFilters): Promise<WallpaperSearchResult>;
+
+  /**
+   * Fetches a single wallpaper by its provider id, or null if it does not exist
+   */
+  getById(id: string): Promise<Wallpaper | null>;
+
+  /**
+   * Lists every page of a multi-page work, for providers that have them
+   */
+  getPages?(wallpaper: Wallpaper): Promise<Wallpaper[]>;
+
+  /**
+   * Downloads an image for the library, for providers whose image URLs need extra request headers
+   */
+  fetchImage?(url: string): Promise<Blob>;
+}
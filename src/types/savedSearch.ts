@@ -0,0 +1,31 @@
+/**
+ * Type definitions for saved searches and their subscription feed
+ */
+
+import { Wallpaper, WallpaperProviderId } from './wallpaper';
+import { WallpaperFilters } from '../store/slices/settingsSlice';
+
+/**
+ * A named browser search that can be re-run, and optionally polled for new wallpapers
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  provider: WallpaperProviderId;
+  query: string;
+  filters: Partial<WallpaperFilters>;  // Categories, purity, resolution, sorting, ...
+  subscribed: boolean;                 // Polled in the background for new wallpapers
+  createdAt: string;
+  lastCheckedAt?: string;              // Last background poll
+  lastVisitedAt?: string;              // Last time the user opened this search's feed
+  seenIds?: string[];                  // Wallpapers polling has already reported, newest first
+}
+
+/**
+ * A wallpaper a subscription found
+ */
+export interface SubscriptionFeedItem {
+  searchId: string;
+  wallpaper: Wallpaper;
+  foundAt: string;
+}
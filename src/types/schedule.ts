@@ -0,0 +1,27 @@
+/**
+ * Type definitions for scheduled wallpaper rules
+ */
+
+import { WallpaperProviderId } from './wallpaper';
+
+/**
+ * What a rule shows while it is active
+ */
+export type ScheduleRuleAction =
+  | { type: 'library'; collectionId: string | null } // Shuffle from the library or one collection
+  | { type: 'browse'; provider: WallpaperProviderId } // Shuffle from an online source
+  | { type: 'wallpaper'; wallpaperId: string };       // Keep one library wallpaper
+
+/**
+ * A time window with the wallpaper source to use during it.
+ * Rules are checked in order and the first active one wins.
+ */
+export interface ScheduleRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  days: number[];     // Weekdays, 0 = Sunday
+  startTime: string;  // 'HH:MM'
+  endTime: string;    // 'HH:MM'; earlier than startTime for windows past midnight
+  action: ScheduleRuleAction;
+}
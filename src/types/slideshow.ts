@@ -0,0 +1,22 @@
+/**
+ * Type definitions for the new tab slideshow
+ */
+
+import { Wallpaper, WallpaperProviderId } from './wallpaper';
+
+/**
+ * Wallpapers a slideshow cycles through
+ */
+export type SlideshowSource =
+  | { type: 'library'; collectionId: string | null } // The library or one collection, shuffled
+  | { type: 'favorites' }                            // Favourite library wallpapers, shuffled
+  | { type: 'history' }                              // Recently shown wallpapers, oldest first
+  | { type: 'browse'; provider: WallpaperProviderId }; // Search results from an online source
+
+/**
+ * One batch of slides from a source
+ */
+export interface SlideshowPage {
+  wallpapers: Wallpaper[];
+  hasMore: boolean; // False when the source has nothing after this page
+}
@@ -7,6 +7,20 @@
  */
 export type WallpaperSourceType = 'local' | 'remote';
 
+/**
+ * Identifier of a registered wallpaper provider (e.g. 'wallhaven')
+ */
+export type WallpaperProviderId = string;
+
+/**
+ * Credit for the artist who created a wallpaper
+ */
+export interface WallpaperArtist {
+  id: string;
+  name: string;
+  url?: string;  // Profile page of the artist
+}
+
 /**
  * Interface for wallpaper objects
  */
@@ -18,6 +32,67 @@ export interface WallpaperInfo {
   mimeType?: string;
   description?: string;
   tags?: string[];
+  artist?: WallpaperArtist;
+  page?: number;       // Zero-based page of a multi-page work
+  pageCount?: number;  // Number of pages in the work this wallpaper belongs to
+  palette?: string[];  // Dominant colours (hex), most common first
+}
+
+/**
+ * Kind of media a wallpaper holds: a still image, an animated GIF or WebP, or an MP4 or WebM video
+ */
+export type WallpaperMediaType = 'image' | 'animated' | 'video';
+
+/**
+ * How a wallpaper is scaled to the screen: cover fills it, contain shows the whole
+ * image, tile repeats it at its natural size and center shows it once at natural size
+ */
+export type WallpaperFitMode = 'cover' | 'contain' | 'tile' | 'center';
+
+/**
+ * Rectangle on an image, in fractions (0-1) of its width and height
+ */
+export interface FramingRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Per-wallpaper adjustments for fitting it to screens of any aspect ratio
+ */
+export interface WallpaperFraming {
+  fit: WallpaperFitMode;
+  focalPoint?: { x: number; y: number };  // Fractions of the image; kept in view when cover crops
+  crop?: FramingRect;                     // Part of the image to fit to the screen instead of the whole
+}
+
+/**
+ * Shape of the darkening drawn over a wallpaper: solid covers it evenly, gradient
+ * darkens towards the bottom and vignette darkens towards the edges
+ */
+export type WallpaperOverlayType = 'solid' | 'gradient' | 'vignette';
+
+/**
+ * Blur and darkening for one wallpaper, used instead of the default overlay
+ */
+export interface WallpaperOverlayPreset {
+  type: WallpaperOverlayType;
+  blurAmount: number;      // 0-10 scale
+  darknessAmount: number;  // 0-100 scale
+  isAuto?: boolean;        // Darkness was worked out from the image rather than set by hand
+}
+
+/**
+ * Where the file of a wallpaper from a synced folder is; its image is read from disk
+ * rather than copied into extension storage
+ */
+export interface WallpaperFolderFile {
+  folderId: string;
+  relativePath: string;  // Path inside the folder, with '/' between subfolders
+  lastModified: number;  // Of the file when it was imported, to notice it changing
+  isMissing?: boolean;   // The file was gone on the last scan
 }
 
 export interface Wallpaper {
@@ -30,6 +105,73 @@ export interface Wallpaper {
   info: WallpaperInfo;
   addedAt?: string;
   isFavorite?: boolean;
+  provider?: WallpaperProviderId; // Provider a remote wallpaper came from
+  imageHash?: string; // Perceptual hash (dHash) of the image, used to find duplicates
+  framing?: WallpaperFraming; // Crop, focal point and fit mode; cover-fit on the centre when unset
+  overlay?: WallpaperOverlayPreset; // Blur and darkening for this wallpaper; the default overlay when unset
+  mediaType?: WallpaperMediaType; // A still image when unset; the thumbnail is a poster frame for videos
+  folderFile?: WallpaperFolderFile; // Set on wallpapers kept in sync with a local folder
+}
+
+/**
+ * Named group of library wallpapers; a wallpaper can be in several collections
+ */
+export interface LibraryCollection {
+  id: string;
+  name: string;
+  wallpaperIds: string[];
+  createdAt: string;
+}
+
+/**
+ * Wallpaper downloaded ahead of time for offline shuffles
+ */
+export interface PrefetchEntry {
+  wallpaper: Wallpaper; // Original remote wallpaper; its image is in the blob store under the same id
+  filterKey: string;    // Refresh settings the wallpaper was fetched for
+  fetchedAt: string;
+}
+
+/**
+ * Library wallpapers still to come in the current round of a no-repeat shuffle
+ */
+export interface ShuffleBag {
+  remaining: string[];  // Wallpaper ids in the order they will be shown
+  drawn: string[];      // Wallpaper ids already shown this round
+}
+
+/**
+ * What made a wallpaper the current one
+ */
+export type WallpaperChangeTrigger = 'manual' | 'shuffle' | 'rule' | 'slideshow';
+
+/**
+ * One showing of a wallpaper in the history timeline
+ */
+export interface WallpaperHistoryEntry {
+  id: string;
+  wallpaper: Wallpaper;
+  shownAt?: string;                  // Missing on entries saved before the timeline kept times
+  endedAt?: string;                  // Set once another wallpaper replaces it
+  trigger?: WallpaperChangeTrigger;
+}
+
+/**
+ * Pagination info returned with search results
+ */
+export interface WallpaperSearchMeta {
+  currentPage: number;
+  lastPage: number;
+  perPage: number;
+  total: number;
+}
+
+/**
+ * Result of a provider search
+ */
+export interface WallpaperSearchResult {
+  wallpapers: Wallpaper[];
+  meta: WallpaperSearchMeta;
 }
 
 /**
@@ -67,6 +209,10 @@ export interface WallhavenWallpaper {
     purity: string;
     created_at: string;
   }[];
+  uploader?: {        // Only on single wallpaper lookups
+    username: string;
+    group: string;
+  };
 }
 
 /**
@@ -82,4 +228,157 @@ export interface WallhavenSearchResponse {
     query: string | null;
     seed: string | null;
   };
-} 
\ No newline at end of file
+} 
+/**
+ * Wallhaven account credentials, kept in chrome.storage.local only
+ */
+export interface WallhavenAccount {
+  apiKey: string;
+  username?: string; // Needed to list the wallpapers of a collection
+}
+
+/**
+ * Interface for Wallhaven collections
+ */
+export interface WallhavenCollection {
+  id: number;
+  label: string;
+  views: number;
+  public: number;
+  count: number;
+}
+
+/**
+ * Interface for Wallhaven account settings
+ */
+export interface WallhavenUserSettings {
+  purity: string[];
+  categories: string[];
+  tag_blacklist: string[];
+  user_blacklist: string[];
+}
+
+/**
+ * Interface for Pixiv AJAX API responses
+ */
+export interface PixivAjaxResponse<T> {
+  error: boolean;
+  message: string;
+  body: T;
+}
+
+/**
+ * Interface for illustration summaries returned by Pixiv search and artist lookups
+ */
+export interface PixivIllustSummary {
+  id: string;
+  title: string;
+  illustType: number; // 0: illustration, 1: manga, 2: ugoira
+  xRestrict: number;  // 0: all ages, 1: R-18, 2: R-18G
+  url: string;        // Square thumbnail
+  tags: string[];
+  userId: string;
+  userName: string;
+  width: number;
+  height: number;
+  pageCount: number;
+  createDate: string;
+}
+
+/**
+ * Interface for Pixiv tag search response body
+ */
+export interface PixivSearchBody {
+  illust: {
+    data: PixivIllustSummary[];
+    total: number;
+    lastPage: number;
+  };
+}
+
+/**
+ * Interface for Pixiv artist works response body
+ */
+export interface PixivUserWorksBody {
+  works: Record<string, PixivIllustSummary>;
+}
+
+/**
+ * Interface for Pixiv artist profile response body (illusts is an empty array when the artist has none)
+ */
+export interface PixivUserProfileBody {
+  illusts: Record<string, null> | [];
+}
+
+/**
+ * Interface for Pixiv ranking entries
+ */
+export interface PixivRankingItem {
+  illust_id: number;
+  title: string;
+  url: string;
+  tags: string[];
+  user_id: number;
+  user_name: string;
+  width: number;
+  height: number;
+  illust_type: string;
+  illust_page_count: string;
+  date: string;
+  rank: number;
+}
+
+/**
+ * Interface for Pixiv ranking response
+ */
+export interface PixivRankingResponse {
+  contents: PixivRankingItem[];
+  mode: string;
+  page: number;
+  next: number | false;
+  rank_total: number;
+}
+
+/**
+ * Interface for full Pixiv illustration details
+ */
+export interface PixivIllustDetails {
+  illustId: string;
+  illustTitle: string;
+  illustType: number;
+  xRestrict: number;
+  description: string;
+  createDate: string;
+  userId: string;
+  userName: string;
+  width: number;
+  height: number;
+  pageCount: number;
+  urls: {
+    mini: string;
+    thumb: string;
+    small: string;
+    regular: string;
+    original: string;
+  };
+  tags: {
+    tags: {
+      tag: string;
+      translation?: { en?: string };
+    }[];
+  };
+}
+
+/**
+ * Interface for a single page of a Pixiv illustration
+ */
+export interface PixivIllustPage {
+  width: number;
+  height: number;
+  urls: {
+    thumb_mini: string;
+    small: string;
+    regular: string;
+    original: string;
+  };
+}
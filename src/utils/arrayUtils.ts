@@ -86,7 +86,7 @@ export const sortBy = <T>(
  * Filters an array of objects by a search term
  * @param array Array to filter
  * @param searchTerm Search term
- * @param keys Keys to search in
+ * @param keys Keys to search in; array values match if any element does
  * @returns Filtered array
  */
 export const filterBySearchTerm = <T>(
@@ -108,6 +108,10 @@ export const filterBySearchTerm = <T>(
         return false;
       }
       
+      if (Array.isArray(value)) {
+        return value.some(element => String(element).toLowerCase().includes(term));
+      }
+      
       return String(value).toLowerCase().includes(term);
     });
   });
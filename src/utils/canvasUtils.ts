@@ -0,0 +1,36 @@
+/**
+ * Utility functions for working with canvases
+ */
+
+/**
+ * Creates a canvas for reading pixels, preferring OffscreenCanvas so this also works in the service worker
+ * @param width Canvas width
+ * @param height Canvas height
+ */
+export const createCanvas = (width: number, height: number): OffscreenCanvas | HTMLCanvasElement => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+/**
+ * Draws an image onto a new canvas of the given size and returns its pixels
+ * @param source Image, canvas or bitmap to read
+ * @param width Width to scale to
+ * @param height Height to scale to
+ * @returns RGBA pixel data
+ */
+export const readScaledPixels = (source: CanvasImageSource, width: number, height: number): Uint8ClampedArray => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) {
+    throw new Error('Unable to get canvas context');
+  }
+
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+};
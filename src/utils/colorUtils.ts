@@ -236,4 +236,56 @@ export const adjustBrightness = (color: string, amount: number): string => {
   const adjustedB = Math.max(0, Math.min(255, b + 255 * factor));
   
   return rgbToHex(adjustedR, adjustedG, adjustedB);
-}; 
\ No newline at end of file
+}; 
+/**
+ * Converts RGB to CIE L*a*b* (D65 white point)
+ * @param r Red component (0-255)
+ * @param g Green component (0-255)
+ * @param b Blue component (0-255)
+ * @returns Lab color object
+ */
+export const rgbToLab = (r: number, g: number, b: number): { l: number; a: number; b: number } => {
+  // sRGB to linear RGB
+  const [lr, lg, lb] = [r, g, b].map(c => {
+    const val = c / 255;
+    return val <= 0.04045 ? val / 12.92 : Math.pow((val + 0.055) / 1.055, 2.4);
+  });
+  
+  // Linear RGB to XYZ, relative to the D65 white point
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  
+  // XYZ to Lab
+  const [fx, fy, fz] = [x, y, z].map(t => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116));
+  
+  return {
+    l: 116 * fy - 16,
+    a: 500 * (fx - fy),
+    b: 200 * (fy - fz)
+  };
+};
+
+/**
+ * Calculates the perceptual difference between two colors (CIE76 delta E)
+ * @param color1 First color (hex)
+ * @param color2 Second color (hex)
+ * @returns Delta E, where about 2.3 is just noticeable; Infinity if a color is invalid
+ */
+export const getDeltaE = (color1: string, color2: string): number => {
+  const rgb1 = hexToRgb(color1);
+  const rgb2 = hexToRgb(color2);
+  
+  if (!rgb1 || !rgb2) {
+    return Infinity;
+  }
+  
+  const lab1 = rgbToLab(rgb1.r, rgb1.g, rgb1.b);
+  const lab2 = rgbToLab(rgb2.r, rgb2.g, rgb2.b);
+  
+  return Math.sqrt(
+    Math.pow(lab1.l - lab2.l, 2) +
+    Math.pow(lab1.a - lab2.a, 2) +
+    Math.pow(lab1.b - lab2.b, 2)
+  );
+};
@@ -122,6 +122,28 @@ export const formatTime = (
   }).format(dateObj);
 };
 
+/**
+ * Formats a length of time (e.g., "2h 15m")
+ * @param ms Duration in milliseconds
+ * @returns Duration string in the two largest units
+ */
+export const formatDuration = (ms: number): string => {
+  const totalMins = Math.floor(ms / 60000);
+  const days = Math.floor(totalMins / (60 * 24));
+  const hours = Math.floor(totalMins / 60) % 24;
+  const mins = totalMins % 60;
+  
+  if (days > 0) {
+    return hours > 0 ? `${days}d ${hours}h` : `${days}d`;
+  } else if (hours > 0) {
+    return mins > 0 ? `${hours}h ${mins}m` : `${hours}h`;
+  } else if (mins > 0) {
+    return `${mins}m`;
+  } else {
+    return 'under a minute';
+  }
+};
+
 /**
  * Gets the start of the day for a given date
  * @param date Date to get start of day for
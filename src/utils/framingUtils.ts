@@ -0,0 +1,130 @@
+/**
+ * Utilities for fitting a wallpaper to a screen using its crop, focal point and fit mode
+ */
+
+import type { CSSProperties } from 'react';
+import { FramingRect, WallpaperFraming } from '../types/wallpaper';
+import { clamp } from './mathUtils';
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+// Smallest crop side, as a fraction of the image, so a stray click can't make an empty crop
+export const MIN_CROP_SIZE = 0.05;
+
+/**
+ * Reads a "1920x1080" resolution string
+ * @returns The size, or null if the string doesn't hold one
+ */
+export const parseResolution = (resolution?: string): Size | null => {
+  const [width, height] = (resolution || '').split('x').map(value => parseInt(value, 10));
+  return width > 0 && height > 0 ? { width, height } : null;
+};
+
+/**
+ * Builds a crop rectangle from two corners, in either order, kept inside the image
+ */
+export const rectFromPoints = (
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): FramingRect => {
+  const x = clamp(Math.min(start.x, end.x), 0, 1);
+  const y = clamp(Math.min(start.y, end.y), 0, 1);
+  return {
+    x,
+    y,
+    width: clamp(Math.abs(end.x - start.x), 0, 1 - x),
+    height: clamp(Math.abs(end.y - start.y), 0, 1 - y)
+  };
+};
+
+/**
+ * Offset that puts the target point in the middle of the screen without
+ * showing past the edge of the image, when the image is larger than the screen
+ */
+const alignOffset = (screenLength: number, imageLength: number, target: number): number => {
+  if (imageLength <= screenLength) {
+    return (screenLength - imageLength) / 2;
+  }
+  return clamp(screenLength / 2 - target * imageLength, screenLength - imageLength, 0);
+};
+
+/**
+ * Works out the background CSS that shows a wallpaper on a screen of the given size.
+ * Cover and contain scale the crop (or the whole image) to the screen; cover keeps
+ * the focal point (or the crop centre) as close to the middle as the image allows.
+ * @param framing - The wallpaper's framing; plain centred cover when unset
+ * @param image - Natural size of the image
+ * @param screen - Size of the area the wallpaper fills
+ */
+export const getFramingStyle = (
+  framing: WallpaperFraming | undefined,
+  image: Size | null,
+  screen: Size
+): CSSProperties => {
+  const fit = framing?.fit || 'cover';
+
+  if (fit === 'tile') {
+    return { backgroundSize: 'auto', backgroundPosition: '0 0', backgroundRepeat: 'repeat' };
+  }
+  if (fit === 'center') {
+    return { backgroundSize: 'auto', backgroundPosition: 'center', backgroundRepeat: 'no-repeat' };
+  }
+
+  // Without the image size the exact offsets can't be known; let the browser fit it
+  if (!image || screen.width <= 0 || screen.height <= 0) {
+    const focus = framing?.focalPoint;
+    return {
+      backgroundSize: fit,
+      backgroundPosition: focus ? `${focus.x * 100}% ${focus.y * 100}%` : 'center',
+      backgroundRepeat: 'no-repeat'
+    };
+  }
+
+  const crop = framing?.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const cropWidth = crop.width * image.width;
+  const cropHeight = crop.height * image.height;
+  const scale = fit === 'cover'
+    ? Math.max(screen.width / cropWidth, screen.height / cropHeight)
+    : Math.min(screen.width / cropWidth, screen.height / cropHeight);
+
+  const width = image.width * scale;
+  const height = image.height * scale;
+  const focus = framing?.focalPoint || { x: crop.x + crop.width / 2, y: crop.y + crop.height / 2 };
+
+  let left: number;
+  let top: number;
+  if (fit === 'cover') {
+    // Stay inside the crop so nothing outside it shows
+    const cropLeft = crop.x * width;
+    const cropTop = crop.y * height;
+    left = -cropLeft + alignOffset(screen.width, crop.width * width, (focus.x - crop.x) / crop.width);
+    top = -cropTop + alignOffset(screen.height, crop.height * height, (focus.y - crop.y) / crop.height);
+  } else {
+    // Contain centres the crop; the rest of the image may show around it
+    left = screen.width / 2 - (crop.x + crop.width / 2) * width;
+    top = screen.height / 2 - (crop.y + crop.height / 2) * height;
+  }
+
+  return {
+    backgroundSize: `${width}px ${height}px`,
+    backgroundPosition: `${left}px ${top}px`,
+    backgroundRepeat: 'no-repeat'
+  };
+};
+
+/**
+ * Works out the object-fit CSS that shows a video wallpaper on the screen. Videos
+ * can't be cropped or tiled, so tile shows them at natural size like center does.
+ * @param framing - The wallpaper's framing; centred cover when unset
+ */
+export const getVideoFramingStyle = (framing: WallpaperFraming | undefined): CSSProperties => {
+  const fit = framing?.fit || 'cover';
+  const focus = framing?.focalPoint;
+  return {
+    objectFit: fit === 'cover' || fit === 'contain' ? fit : 'none',
+    objectPosition: focus ? `${focus.x * 100}% ${focus.y * 100}%` : 'center'
+  };
+};
@@ -0,0 +1,86 @@
+/**
+ * Utility functions for perceptual image hashes, used to spot duplicate wallpapers
+ */
+
+import { readScaledPixels } from './canvasUtils';
+
+// dHash compares each pixel with its right neighbour on a 9x8 grayscale grid, giving 64 bits
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/**
+ * Hashes that differ in at most this many of their 64 bits are treated as the same image
+ */
+export const DUPLICATE_HASH_THRESHOLD = 10;
+
+/**
+ * Computes a difference hash (dHash) of an image
+ * @param source Image, canvas or bitmap to hash
+ * @returns 16 character hex string
+ */
+export const computeDHash = (source: CanvasImageSource): string => {
+  const data = readScaledPixels(source, HASH_WIDTH, HASH_HEIGHT);
+
+  const luminance = (pixel: number): number => {
+    const offset = pixel * 4;
+    return data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const pixel = y * HASH_WIDTH + x;
+      byte = (byte << 1) | (luminance(pixel) > luminance(pixel + 1) ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, '0');
+  }
+
+  return hash;
+};
+
+/**
+ * Computes the dHash of an image blob
+ * @param blob Image data
+ * @returns 16 character hex string
+ */
+export const hashImageBlob = async (blob: Blob): Promise<string> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return computeDHash(bitmap);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Counts the bits that differ between two hashes
+ * @param a First hash
+ * @param b Second hash
+ * @returns Number of differing bits, or Infinity if the hashes can't be compared
+ */
+export const hammingDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) {
+    return Infinity;
+  }
+
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+};
+
+/**
+ * Checks whether two hashes are close enough to be the same image
+ * @param a First hash
+ * @param b Second hash
+ * @param threshold Maximum number of differing bits
+ */
+export const isSimilarHash = (a: string, b: string, threshold = DUPLICATE_HASH_THRESHOLD): boolean => {
+  return hammingDistance(a, b) <= threshold;
+};
@@ -0,0 +1,140 @@
+/**
+ * Utility functions for animated image and video wallpapers
+ */
+
+import { WallpaperMediaType } from '../types/wallpaper';
+
+/**
+ * Video formats that can be uploaded as wallpapers
+ */
+export const VIDEO_MIME_TYPES = ['video/mp4', 'video/webm'];
+
+/**
+ * Value for the accept attribute of wallpaper file inputs
+ */
+export const UPLOAD_ACCEPT = ['image/*', ...VIDEO_MIME_TYPES].join(',');
+
+// Poster frames are taken this far in, since many videos open on a black frame
+const POSTER_TIME = 1;
+
+/**
+ * Checks whether a file type can be uploaded as a wallpaper
+ * @param type MIME type of the file
+ */
+export const isSupportedUpload = (type: string): boolean =>
+  type.startsWith('image/') || VIDEO_MIME_TYPES.includes(type);
+
+/**
+ * Counts the frames of a GIF by its Graphic Control Extensions (one per frame in animated GIFs)
+ */
+const countGifFrames = (bytes: Uint8Array): number => {
+  let frames = 0;
+  for (let i = 0; i < bytes.length - 7; i++) {
+    // Introducer, label, block size 4, then 4 bytes of data and the block terminator
+    if (bytes[i] === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 0x04 && bytes[i + 7] === 0x00) {
+      frames++;
+      if (frames > 1) break;
+    }
+  }
+  return frames;
+};
+
+/**
+ * Checks the animation flag in the extended header of a WebP
+ */
+const isAnimatedWebp = (bytes: Uint8Array): boolean => {
+  const text = (start: number, end: number) => String.fromCharCode(...bytes.slice(start, end));
+  return bytes.length > 20
+    && text(0, 4) === 'RIFF'
+    && text(8, 12) === 'WEBP'
+    && text(12, 16) === 'VP8X'
+    && (bytes[20] & 0x02) !== 0;
+};
+
+/**
+ * Checks whether a GIF or WebP has more than one frame
+ * @param blob Image data
+ */
+export const isAnimatedImage = async (blob: Blob): Promise<boolean> => {
+  if (blob.type === 'image/gif') {
+    return countGifFrames(new Uint8Array(await blob.arrayBuffer())) > 1;
+  }
+  if (blob.type === 'image/webp') {
+    return isAnimatedWebp(new Uint8Array(await blob.slice(0, 32).arrayBuffer()));
+  }
+  return false;
+};
+
+/**
+ * Works out what kind of wallpaper a file makes
+ * @param file Uploaded file
+ */
+export const getMediaType = async (file: Blob): Promise<WallpaperMediaType> => {
+  if (VIDEO_MIME_TYPES.includes(file.type)) {
+    return 'video';
+  }
+  return await isAnimatedImage(file) ? 'animated' : 'image';
+};
+
+/**
+ * Draws an image source onto a canvas of its own size and encodes it as a JPEG
+ */
+const encodeFrame = (source: CanvasImageSource, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return Promise.reject(new Error('Unable to get canvas context'));
+  }
+  ctx.drawImage(source, 0, 0, width, height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to encode frame'))), 'image/jpeg', 0.85);
+  });
+};
+
+/**
+ * Grabs a poster frame from a video, about a second in
+ * @param url Object URL or data URL of the video
+ * @returns The frame as a JPEG, with the video's size
+ */
+export const captureVideoFrame = (url: string): Promise<{ frame: Blob; width: number; height: number }> => {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.preload = 'auto';
+
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0;
+      video.currentTime = Math.min(POSTER_TIME, duration / 2);
+    };
+
+    video.onseeked = () => {
+      encodeFrame(video, video.videoWidth, video.videoHeight)
+        .then(frame => resolve({ frame, width: video.videoWidth, height: video.videoHeight }))
+        .catch(reject)
+        .finally(() => video.removeAttribute('src'));
+    };
+
+    video.onerror = () => reject(new Error('Failed to load video - the file may be corrupted or in an unsupported format'));
+    video.src = url;
+  });
+};
+
+/**
+ * Grabs the first frame of an animated image, to show in place of it while animations are paused
+ * @param url Object URL or data URL of the image
+ * @returns The frame as a JPEG
+ */
+export const captureImageFrame = (url: string): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      encodeFrame(img, img.naturalWidth, img.naturalHeight).then(resolve).catch(reject);
+    };
+    img.onerror = () => reject(new Error('Failed to load image'));
+    img.src = url;
+  });
+};
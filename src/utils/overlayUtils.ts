@@ -0,0 +1,116 @@
+/**
+ * Utility functions for the darkening overlay drawn between a wallpaper and the clock
+ */
+
+import { WallpaperOverlayType } from '../types/wallpaper';
+import { readScaledPixels } from './canvasUtils';
+import { getContrastRatio, rgbToHex } from './colorUtils';
+
+// The clock is drawn in white over the middle of the screen
+const CLOCK_TEXT_COLOR = '#ffffff';
+
+/**
+ * Contrast ratio the clock should have against the wallpaper behind it (WCAG AA for normal text)
+ */
+export const TARGET_CONTRAST_RATIO = 4.5;
+
+/**
+ * Strongest darkness the overlay settings allow
+ */
+export const MAX_DARKNESS = 80;
+
+const DARKNESS_STEP = 5;
+
+// Small enough to be quick, large enough that thin bright details still count
+const SAMPLE_SIZE = 64;
+
+// Part of the screen the clock covers, as fractions of its width and height
+const CLOCK_REGION = { x: 0.2, y: 0.3, width: 0.6, height: 0.4 };
+
+// Aim for the brighter parts of the clock region rather than its average, so
+// the text stays readable where it crosses highlights
+const BRIGHT_PERCENTILE = 0.9;
+
+// How much of the darkness each overlay type puts behind the clock
+const CENTRE_STRENGTH: Record<WallpaperOverlayType, number> = {
+  solid: 1,
+  gradient: 0.6,
+  vignette: 0.4
+};
+
+const black = (alpha: number): string => `rgba(0, 0, 0, ${Math.min(1, Math.max(0, alpha)).toFixed(3)})`;
+
+/**
+ * Builds the CSS background for an overlay
+ * @param type Overlay shape
+ * @param darknessAmount Darkness (0-100); for gradient and vignette this is the darkness at the strongest point
+ * @returns Value for the CSS background property
+ */
+export const getOverlayBackground = (type: WallpaperOverlayType, darknessAmount: number): string => {
+  const alpha = darknessAmount / 100;
+
+  if (type === 'gradient') {
+    return `linear-gradient(to bottom, ${black(alpha * 0.2)} 0%, ${black(alpha)} 100%)`;
+  }
+  if (type === 'vignette') {
+    return `radial-gradient(ellipse at center, ${black(alpha * CENTRE_STRENGTH.vignette)} 30%, ${black(alpha)} 100%)`;
+  }
+  return black(alpha);
+};
+
+/**
+ * Works out the least darkness that gives the clock the target contrast against an image
+ * @param source Image, canvas or bitmap of the wallpaper
+ * @param type Overlay shape the darkness is for
+ * @returns Darkness (0-100) in steps of 5, at most MAX_DARKNESS
+ */
+export const getRecommendedDarkness = (source: CanvasImageSource, type: WallpaperOverlayType): number => {
+  const data = readScaledPixels(source, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const left = Math.floor(CLOCK_REGION.x * SAMPLE_SIZE);
+  const top = Math.floor(CLOCK_REGION.y * SAMPLE_SIZE);
+  const right = Math.ceil((CLOCK_REGION.x + CLOCK_REGION.width) * SAMPLE_SIZE);
+  const bottom = Math.ceil((CLOCK_REGION.y + CLOCK_REGION.height) * SAMPLE_SIZE);
+
+  const pixels: [number, number, number][] = [];
+  for (let y = top; y < bottom; y++) {
+    for (let x = left; x < right; x++) {
+      const i = (y * SAMPLE_SIZE + x) * 4;
+      pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+
+  if (pixels.length === 0) {
+    return 0;
+  }
+
+  // Sort by approximate luminance and take a bright but not the brightest pixel
+  pixels.sort((a, b) => (0.2126 * a[0] + 0.7152 * a[1] + 0.0722 * a[2]) - (0.2126 * b[0] + 0.7152 * b[1] + 0.0722 * b[2]));
+  const [r, g, b] = pixels[Math.min(pixels.length - 1, Math.floor(pixels.length * BRIGHT_PERCENTILE))];
+
+  for (let darkness = 0; darkness < MAX_DARKNESS; darkness += DARKNESS_STEP) {
+    // A black overlay at this opacity scales every channel down
+    const keep = 1 - (darkness / 100) * CENTRE_STRENGTH[type];
+    const darkened = rgbToHex(Math.round(r * keep), Math.round(g * keep), Math.round(b * keep));
+    if (getContrastRatio(CLOCK_TEXT_COLOR, darkened) >= TARGET_CONTRAST_RATIO) {
+      return darkness;
+    }
+  }
+
+  return MAX_DARKNESS;
+};
+
+/**
+ * Works out the recommended overlay darkness for an image blob
+ * @param blob Image data
+ * @param type Overlay shape the darkness is for
+ * @returns Darkness (0-100)
+ */
+export const getRecommendedDarknessFromBlob = async (blob: Blob, type: WallpaperOverlayType): Promise<number> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return getRecommendedDarkness(bitmap, type);
+  } finally {
+    bitmap.close();
+  }
+};
@@ -0,0 +1,175 @@
+/**
+ * Utility functions for extracting a colour palette from an image
+ */
+
+import { readScaledPixels } from './canvasUtils';
+import { getDeltaE, hexToRgb, rgbToHex, rgbToHsl } from './colorUtils';
+
+// Images are scaled down before sampling; the palette barely changes and it's much faster
+const SAMPLE_SIZE = 48;
+
+// Each step down the palette counts as this much extra delta E, so dominant colours match first
+const PALETTE_RANK_PENALTY = 2;
+
+/**
+ * Palettes further than this (delta E) from a searched colour don't match it
+ */
+export const COLOR_MATCH_THRESHOLD = 30;
+
+type Rgb = [number, number, number];
+
+/**
+ * Splits the pixels into boxes by median cut until there are enough boxes
+ */
+const medianCut = (pixels: Rgb[], boxCount: number): Rgb[][] => {
+  const boxes: Rgb[][] = [pixels];
+
+  while (boxes.length < boxCount) {
+    // Split the box with the widest colour range
+    let widestIndex = -1;
+    let widestChannel = 0;
+    let widestRange = 0;
+
+    boxes.forEach((box, index) => {
+      if (box.length < 2) return;
+      for (let channel = 0; channel < 3; channel++) {
+        let min = 255;
+        let max = 0;
+        for (const pixel of box) {
+          min = Math.min(min, pixel[channel]);
+          max = Math.max(max, pixel[channel]);
+        }
+        if (max - min > widestRange) {
+          widestRange = max - min;
+          widestIndex = index;
+          widestChannel = channel;
+        }
+      }
+    });
+
+    if (widestIndex === -1) {
+      break;
+    }
+
+    const box = [...boxes[widestIndex]].sort((a, b) => a[widestChannel] - b[widestChannel]);
+    const middle = Math.floor(box.length / 2);
+    boxes.splice(widestIndex, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes;
+};
+
+/**
+ * Extracts the dominant colours of an image
+ * @param source Image, canvas or bitmap to sample
+ * @param colorCount Number of colours to return
+ * @returns Hex colours, most common first
+ */
+export const extractPalette = (source: CanvasImageSource, colorCount = 5): string[] => {
+  const data = readScaledPixels(source, SAMPLE_SIZE, SAMPLE_SIZE);
+
+  const pixels: Rgb[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    // Skip transparent pixels
+    if (data[i + 3] >= 128) {
+      pixels.push([data[i], data[i + 1], data[i + 2]]);
+    }
+  }
+
+  if (pixels.length === 0) {
+    return [];
+  }
+
+  return medianCut(pixels, colorCount)
+    .filter(box => box.length > 0)
+    .sort((a, b) => b.length - a.length)
+    .map(box => {
+      const sum = box.reduce((total, pixel) => [total[0] + pixel[0], total[1] + pixel[1], total[2] + pixel[2]], [0, 0, 0]);
+      return rgbToHex(
+        Math.round(sum[0] / box.length),
+        Math.round(sum[1] / box.length),
+        Math.round(sum[2] / box.length)
+      );
+    });
+};
+
+/**
+ * Extracts the dominant colours of an image blob
+ * @param blob Image data
+ * @param colorCount Number of colours to return
+ * @returns Hex colours, most common first
+ */
+export const extractPaletteFromBlob = async (blob: Blob, colorCount = 5): Promise<string[]> => {
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return extractPalette(bitmap, colorCount);
+  } finally {
+    bitmap.close();
+  }
+};
+
+/**
+ * Picks the palette colour that works best as a UI accent: the most saturated one
+ * that is neither too dark nor too light, falling back to the dominant colour
+ * @param palette Hex colours, most common first
+ * @returns Hex colour, or null for an empty palette
+ */
+export const pickAccentColor = (palette: string[] | undefined): string | null => {
+  if (!palette || palette.length === 0) {
+    return null;
+  }
+
+  let best: string | null = null;
+  let bestSaturation = -1;
+
+  for (const color of palette) {
+    const rgb = hexToRgb(color);
+    if (!rgb) continue;
+
+    const { s, l } = rgbToHsl(rgb.r, rgb.g, rgb.b);
+    if (l >= 25 && l <= 80 && s > bestSaturation) {
+      best = color;
+      bestSaturation = s;
+    }
+  }
+
+  return best || palette[0];
+};
+
+/**
+ * Scores how close a palette is to a colour
+ * @param palette Hex colours, most common first
+ * @param color Hex colour searched for
+ * @returns Delta E to the closest palette colour plus a small rank penalty; Infinity for an empty palette
+ */
+export const getPaletteDistance = (palette: string[] | undefined, color: string): number => {
+  if (!palette || palette.length === 0) {
+    return Infinity;
+  }
+
+  return palette.reduce(
+    (best, paletteColor, index) => Math.min(best, getDeltaE(paletteColor, color) + index * PALETTE_RANK_PENALTY),
+    Infinity
+  );
+};
+
+/**
+ * Finds the colour in a fixed set that is perceptually closest to the given one
+ * @param color Hex colour
+ * @param choices Hex colours to pick from
+ * @returns The closest choice, or undefined if there are none
+ */
+export const findClosestColor = (color: string, choices: string[]): string | undefined => {
+  let closest: string | undefined;
+  let closestDistance = Infinity;
+
+  for (const choice of choices) {
+    const distance = getDeltaE(color, choice);
+    if (distance < closestDistance) {
+      closest = choice;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+};
@@ -0,0 +1,95 @@
+/**
+ * Utility functions for wallpaper tags and tag search queries
+ */
+
+/**
+ * A library search split into its parts
+ */
+export interface TagQuery {
+  terms: string[];    // Free text, matched against titles, descriptions and tags
+  include: string[];  // Tags every result must have
+  exclude: string[];  // Tags no result may have
+}
+
+/**
+ * A tag and the number of wallpapers that have it
+ */
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// A word, a "quoted phrase", each optionally prefixed with +, - or tag:
+const QUERY_TOKEN_PATTERN = /([+-]|tag:)?(?:"([^"]*)"?|(\S+))/gi;
+
+/**
+ * Normalizes a tag for storage and comparison
+ * @param tag Tag as typed
+ * @returns Lowercase tag with single spaces
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().toLowerCase().replace(/\s+/g, ' ');
+};
+
+/**
+ * Parses a library search, e.g. `sunset +"long hair" -nsfw tag:landscape`
+ * @param query Search text; +tag and tag:tag require a tag, -tag excludes it
+ * @returns The free text terms and the included and excluded tags
+ */
+export const parseTagQuery = (query: string): TagQuery => {
+  const result: TagQuery = { terms: [], include: [], exclude: [] };
+
+  for (const match of query.matchAll(QUERY_TOKEN_PATTERN)) {
+    const prefix = match[1]?.toLowerCase();
+    const value = normalizeTag(match[2] ?? match[3] ?? '');
+    if (!value) continue;
+
+    if (prefix === '-') {
+      result.exclude.push(value);
+    } else if (prefix === '+' || prefix === 'tag:') {
+      result.include.push(value);
+    } else {
+      result.terms.push(value);
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Checks a wallpaper's tags against the included and excluded tags of a query
+ * @param tags Tags of the wallpaper
+ * @param query Parsed query
+ */
+export const matchesTagQuery = (tags: string[] | undefined, query: TagQuery): boolean => {
+  const normalized = new Set((tags || []).map(normalizeTag));
+  return query.include.every(tag => normalized.has(tag)) && !query.exclude.some(tag => normalized.has(tag));
+};
+
+/**
+ * Formats a tag as a query token, quoting it if it contains spaces
+ * @param tag Tag to format
+ * @param prefix '+', '-' or 'tag:'
+ */
+export const formatTagToken = (tag: string, prefix = 'tag:'): string => {
+  return `${prefix}${/\s/.test(tag) ? `"${tag}"` : tag}`;
+};
+
+/**
+ * Suggests tags that start with (or else contain) what has been typed
+ * @param tagCounts Known tags, most used first
+ * @param input Partial tag
+ * @param limit Maximum number of suggestions
+ * @param exclude Tags not to suggest, e.g. ones already chosen
+ */
+export const suggestTags = (tagCounts: TagCount[], input: string, limit = 8, exclude: string[] = []): TagCount[] => {
+  const term = normalizeTag(input);
+  if (!term) {
+    return [];
+  }
+
+  const candidates = tagCounts.filter(({ tag }) => !exclude.includes(tag) && tag.includes(term));
+  const prefixed = candidates.filter(({ tag }) => tag.startsWith(term));
+  const contained = candidates.filter(({ tag }) => !tag.startsWith(term));
+  return [...prefixed, ...contained].slice(0, limit);
+};
@@ -2,6 +2,9 @@
  * Utility functions for theme management
  */
 
+import { getContrastingTextColor, hexToRgb } from './colorUtils';
+import { pickAccentColor } from './paletteUtils';
+
 /**
  * Theme options for the application
  */
@@ -74,4 +77,31 @@ export const listenForSystemThemeChanges = (callback: (theme: Theme) => void): (
     console.error('Error setting up system theme listener:', error);
     return () => {}; // Return a no-op function if setup fails
   }
-}; 
\ No newline at end of file
+};
+
+/**
+ * Formats a hex colour as the "r g b" triplet Tailwind's alpha modifiers expect
+ */
+const toRgbTriplet = (color: string): string | null => {
+  const rgb = hexToRgb(color);
+  return rgb ? `${rgb.r} ${rgb.g} ${rgb.b}` : null;
+};
+
+/**
+ * Sets the accent colour CSS variables from a wallpaper palette
+ * @param palette Hex colours of the current wallpaper; the default accent is restored when empty
+ */
+export const applyWallpaperAccent = (palette?: string[]): void => {
+  const style = document.documentElement.style;
+  const accent = pickAccentColor(palette);
+  const accentTriplet = accent ? toRgbTriplet(accent) : null;
+
+  if (!accent || !accentTriplet) {
+    style.removeProperty('--color-accent');
+    style.removeProperty('--color-accent-contrast');
+    return;
+  }
+
+  style.setProperty('--color-accent', accentTriplet);
+  style.setProperty('--color-accent-contrast', toRgbTriplet(getContrastingTextColor(accent)) || '255 255 255');
+};
@@ -171,10 +171,17 @@ export const buildUrl = (baseUrl: string, params: Record<string, string | number
  * @returns Whether the URL is an image
  */
 export const isImageUrl = (url: string): boolean => {
-  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.svg'];
-  const lowerUrl = url.toLowerCase();
+  const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp', '.avif', '.svg'];
   
-  return imageExtensions.some(ext => lowerUrl.endsWith(ext));
+  // Query strings and fragments (e.g. ?w=1920) don't change what the URL points at
+  let path = url.toLowerCase();
+  try {
+    path = new URL(url).pathname.toLowerCase();
+  } catch (error) {
+    // Not an absolute URL; check it as it is
+  }
+  
+  return imageExtensions.some(ext => path.endsWith(ext));
 };
 
 /**
@@ -19,6 +19,9 @@ module.exports = {
           dark: '#382F35'
         },
         accent: {
+          // Follows the palette of the current wallpaper, see applyWallpaperAccent
+          DEFAULT: 'rgb(var(--color-accent) / <alpha-value>)',
+          contrast: 'rgb(var(--color-accent-contrast) / <alpha-value>)',
           purple: '#AD8CE8',
           teal: '#76E4D4',
           yellow: '#FFDE89'